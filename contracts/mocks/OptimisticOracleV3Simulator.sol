@@ -0,0 +1,279 @@
+/*
+    Copyright 2024 Index Cooperative
+
+    Licensed under the Apache License, Version 2.0 (the "License");
+    you may not use this file except in compliance with the License.
+    You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+    Unless required by applicable law or agreed to in writing, software
+    distributed under the License is distributed on an "AS IS" BASIS,
+    WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+    See the License for the specific language governing permissions and
+    limitations under the License.
+
+    SPDX-License-Identifier: Apache License, Version 2.0
+*/
+
+pragma solidity 0.6.10;
+pragma experimental "ABIEncoderV2";
+
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/SafeERC20.sol";
+import { SafeMath } from "@openzeppelin/contracts/math/SafeMath.sol";
+
+import { OptimisticOracleV3Interface } from "../interfaces/OptimisticOracleV3Interface.sol";
+
+interface OptimisticOracleV3CallbackRecipientInterface {
+    function assertionDisputedCallback(bytes32 assertionId) external;
+    function assertionResolvedCallback(bytes32 assertionId, bool assertedTruthfully) external;
+}
+
+/**
+ * @title OptimisticOracleV3Simulator
+ * @author Index Coop
+ *
+ * Local stand-in for UMA's Optimistic Oracle V3 that follows the real assertion lifecycle: bonds are pulled from the
+ * caller in the assertion currency, assertions can only be disputed during liveness and only settled after it, disputes
+ * are resolved by the test through resolveDispute in place of the DVM, and callback recipients are called like the
+ * real oracle. Escalation managers are not supported.
+ */
+contract OptimisticOracleV3Simulator is OptimisticOracleV3Interface {
+    using SafeERC20 for IERC20;
+    using SafeMath for uint256;
+
+    /* ============ Structs ============ */
+
+    struct DvmResolution {
+        bool isResolved;            // True once the test has resolved the dispute
+        bool assertedTruthfully;    // Resolution returned by the simulated DVM
+    }
+
+    /* ============ Events ============ */
+
+    event DisputeResolved(bytes32 indexed assertionId, bool assertedTruthfully);
+
+    /* ============ State Variables ============ */
+
+    bytes32 public constant DEFAULT_IDENTIFIER = "ASSERT_TRUTH";
+
+    IERC20 public defaultCurrency;
+    uint64 public defaultLiveness;
+    uint256 public burnedBondPercentage;        // Share of the loser's bond sent to the store, in precise units
+    address public store;                       // Receives the burned part of the bond, stands in for UMA's Store
+
+    mapping(bytes32 => Assertion) internal assertions;
+    mapping(bytes32 => DvmResolution) public dvmResolutions;
+    mapping(address => uint256) public finalFees;
+
+    /* ============ Constructor ============ */
+
+    constructor(IERC20 _defaultCurrency, uint64 _defaultLiveness, uint256 _burnedBondPercentage) public {
+        store = msg.sender;
+        setAdminProperties(_defaultCurrency, _defaultLiveness, _burnedBondPercentage);
+    }
+
+    /* ============ Simulation Functions ============ */
+
+    function setAdminProperties(IERC20 _defaultCurrency, uint64 _defaultLiveness, uint256 _burnedBondPercentage) public {
+        require(_burnedBondPercentage <= 1e18 && _burnedBondPercentage > 0, "Burned bond percentage must be in (0, 1]");
+
+        defaultCurrency = _defaultCurrency;
+        defaultLiveness = _defaultLiveness;
+        burnedBondPercentage = _burnedBondPercentage;
+
+        emit AdminPropertiesSet(_defaultCurrency, _defaultLiveness, _burnedBondPercentage);
+    }
+
+    // Final fee of a currency, the minimum bond is finalFee / burnedBondPercentage
+    function setFinalFee(address _currency, uint256 _finalFee) external {
+        finalFees[_currency] = _finalFee;
+    }
+
+    // Stands in for the DVM vote on a disputed assertion, settleAssertion reverts until this is called
+    function resolveDispute(bytes32 _assertionId, bool _assertedTruthfully) external {
+        require(assertions[_assertionId].disputer != address(0), "Assertion not disputed");
+        require(!dvmResolutions[_assertionId].isResolved, "Dispute already resolved");
+
+        dvmResolutions[_assertionId] = DvmResolution({ isResolved: true, assertedTruthfully: _assertedTruthfully });
+
+        emit DisputeResolved(_assertionId, _assertedTruthfully);
+    }
+
+    /* ============ OptimisticOracleV3Interface Functions ============ */
+
+    function defaultIdentifier() public view override returns (bytes32) {
+        return DEFAULT_IDENTIFIER;
+    }
+
+    function getAssertion(bytes32 _assertionId) public view override returns (Assertion memory) {
+        return assertions[_assertionId];
+    }
+
+    function assertTruthWithDefaults(bytes memory _claim, address _asserter) public override returns (bytes32) {
+        return assertTruth(
+            _claim,
+            _asserter,
+            address(0),
+            address(0),
+            defaultLiveness,
+            defaultCurrency,
+            getMinimumBond(address(defaultCurrency)),
+            DEFAULT_IDENTIFIER,
+            bytes32(0)
+        );
+    }
+
+    function assertTruth(
+        bytes memory _claim,
+        address _asserter,
+        address _callbackRecipient,
+        address _escalationManager,
+        uint64 _liveness,
+        IERC20 _currency,
+        uint256 _bond,
+        bytes32 _identifier,
+        bytes32 _domainId
+    )
+        public
+        override
+        returns (bytes32 assertionId)
+    {
+        assertionId = _getId(_claim, _bond, _liveness, _currency, _callbackRecipient, _escalationManager, _identifier);
+
+        require(_asserter != address(0), "Asserter cant be 0");
+        require(assertions[assertionId].asserter == address(0), "Assertion already exists");
+        require(_escalationManager == address(0), "Escalation managers not supported");
+        require(_bond >= getMinimumBond(address(_currency)), "Bond amount too low");
+
+        Assertion storage assertion = assertions[assertionId];
+        assertion.escalationManagerSettings.assertingCaller = msg.sender;
+        assertion.asserter = _asserter;
+        assertion.assertionTime = uint64(block.timestamp);
+        assertion.currency = _currency;
+        assertion.expirationTime = uint64(block.timestamp.add(_liveness));
+        assertion.domainId = _domainId;
+        assertion.identifier = _identifier;
+        assertion.bond = _bond;
+        assertion.callbackRecipient = _callbackRecipient;
+
+        _currency.safeTransferFrom(msg.sender, address(this), _bond);
+
+        _emitAssertionMade(assertionId, _claim);
+    }
+
+    function disputeAssertion(bytes32 _assertionId, address _disputer) external override {
+        require(_disputer != address(0), "Disputer can't be 0");
+        Assertion storage assertion = assertions[_assertionId];
+        require(assertion.asserter != address(0), "Assertion does not exist");
+        require(assertion.disputer == address(0), "Assertion already disputed");
+        require(assertion.expirationTime > block.timestamp, "Assertion is expired");
+
+        assertion.disputer = _disputer;
+        assertion.currency.safeTransferFrom(msg.sender, address(this), assertion.bond);
+
+        if (assertion.callbackRecipient != address(0)) {
+            OptimisticOracleV3CallbackRecipientInterface(assertion.callbackRecipient).assertionDisputedCallback(_assertionId);
+        }
+
+        emit AssertionDisputed(_assertionId, msg.sender, _disputer);
+    }
+
+    function syncUmaParams(bytes32, address) public override {}
+
+    function settleAssertion(bytes32 _assertionId) public override {
+        Assertion storage assertion = assertions[_assertionId];
+        require(assertion.asserter != address(0), "Assertion does not exist");
+        require(!assertion.settled, "Assertion already settled");
+        assertion.settled = true;
+
+        address bondRecipient;
+        if (assertion.disputer == address(0)) {
+            require(assertion.expirationTime <= block.timestamp, "Assertion not expired");
+
+            assertion.settlementResolution = true;
+            bondRecipient = assertion.asserter;
+            assertion.currency.safeTransfer(bondRecipient, assertion.bond);
+        } else {
+            DvmResolution memory resolution = dvmResolutions[_assertionId];
+            require(resolution.isResolved, "Dispute not resolved");
+
+            assertion.settlementResolution = resolution.assertedTruthfully;
+            bondRecipient = resolution.assertedTruthfully ? assertion.asserter : assertion.disputer;
+
+            uint256 oracleFee = burnedBondPercentage.mul(assertion.bond).div(1e18);
+            assertion.currency.safeTransfer(bondRecipient, assertion.bond.mul(2).sub(oracleFee));
+            assertion.currency.safeTransfer(store, oracleFee);
+        }
+
+        if (assertion.callbackRecipient != address(0)) {
+            OptimisticOracleV3CallbackRecipientInterface(assertion.callbackRecipient).assertionResolvedCallback(
+                _assertionId,
+                assertion.settlementResolution
+            );
+        }
+
+        emit AssertionSettled(_assertionId, bondRecipient, assertion.disputer != address(0), assertion.settlementResolution, msg.sender);
+    }
+
+    function settleAndGetAssertionResult(bytes32 _assertionId) external override returns (bool) {
+        if (!assertions[_assertionId].settled) settleAssertion(_assertionId);
+        return getAssertionResult(_assertionId);
+    }
+
+    function getAssertionResult(bytes32 _assertionId) public view override returns (bool) {
+        require(assertions[_assertionId].settled, "Assertion not settled");
+        return assertions[_assertionId].settlementResolution;
+    }
+
+    function getMinimumBond(address _currency) public view override returns (uint256) {
+        return finalFees[_currency].mul(1e18).div(burnedBondPercentage);
+    }
+
+    /* ============ Internal Functions ============ */
+
+    function _getId(
+        bytes memory _claim,
+        uint256 _bond,
+        uint64 _liveness,
+        IERC20 _currency,
+        address _callbackRecipient,
+        address _escalationManager,
+        bytes32 _identifier
+    )
+        internal
+        view
+        returns (bytes32)
+    {
+        return keccak256(abi.encode(
+            _claim,
+            _bond,
+            block.timestamp,
+            _liveness,
+            _currency,
+            _callbackRecipient,
+            _escalationManager,
+            _identifier,
+            msg.sender
+        ));
+    }
+
+    function _emitAssertionMade(bytes32 _assertionId, bytes memory _claim) internal {
+        Assertion memory assertion = assertions[_assertionId];
+
+        emit AssertionMade(
+            _assertionId,
+            assertion.domainId,
+            _claim,
+            assertion.asserter,
+            assertion.callbackRecipient,
+            address(0),
+            assertion.escalationManagerSettings.assertingCaller,
+            assertion.expirationTime,
+            assertion.currency,
+            assertion.bond,
+            assertion.identifier
+        );
+    }
+}
@@ -19,20 +19,62 @@
 pragma solidity ^0.6.10;
 pragma experimental ABIEncoderV2;
 
+import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import { ERC20Snapshot } from "@openzeppelin/contracts/token/ERC20/ERC20Snapshot.sol";
 import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { SafeMath } from "@openzeppelin/contracts/math/SafeMath.sol";
+
+/**
+ * Staking pool that mints one transferable share per staked token and snapshots the shares on every accrue, paying
+ * each snapshot's rewards out pro rata to the shares held at it, like the PRT Staking Pool.
+ */
+contract PrtStakingPoolMock is ERC20Snapshot {
+    using SafeMath for uint256;
 
-contract PrtStakingPoolMock {
     IERC20 public immutable rewardToken;
     IERC20 public immutable stakeToken;
     address public distributor;
 
-    constructor(IERC20 _rewardToken, IERC20 _stakeToken, address _distributor) public {
+    uint256[] public accrueSnapshots;                     // Rewards accrued at snapshot id index + 1
+    mapping(address => uint256) public lastClaimedSnapshot;
+
+    constructor(IERC20 _rewardToken, IERC20 _stakeToken, address _distributor)
+        public
+        ERC20("PRT Staking Pool", "sPRT")
+    {
         rewardToken = _rewardToken;
         stakeToken = _stakeToken;
         distributor = _distributor;
     }
 
+    function stake(uint256 _amount) external {
+        stakeToken.transferFrom(msg.sender, address(this), _amount);
+        _mint(msg.sender, _amount);
+    }
+
+    function unstake(uint256 _amount) external {
+        _burn(msg.sender, _amount);
+        stakeToken.transfer(msg.sender, _amount);
+    }
+
     function accrue(uint256 _amount) external {
         rewardToken.transferFrom(msg.sender, address(this), _amount);
+        accrueSnapshots.push(_amount);
+        _snapshot();
+    }
+
+    function claim() external {
+        uint256 rewards = getPendingRewards(msg.sender);
+        lastClaimedSnapshot[msg.sender] = accrueSnapshots.length;
+        rewardToken.transfer(msg.sender, rewards);
+    }
+
+    function getPendingRewards(address _account) public view returns (uint256 rewards) {
+        for (uint256 i = lastClaimedSnapshot[_account]; i < accrueSnapshots.length; i++) {
+            uint256 totalStaked = totalSupplyAt(i + 1);
+            if (totalStaked > 0) {
+                rewards = rewards.add(accrueSnapshots[i].mul(balanceOfAt(_account, i + 1)).div(totalStaked));
+            }
+        }
     }
 }
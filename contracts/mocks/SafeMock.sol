@@ -0,0 +1,39 @@
+/*
+    Copyright 2024 Index Cooperative
+
+    Licensed under the Apache License, Version 2.0 (the "License");
+    you may not use this file except in compliance with the License.
+    You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+    Unless required by applicable law or agreed to in writing, software
+    distributed under the License is distributed on an "AS IS" BASIS,
+    WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+    See the License for the specific language governing permissions and
+    limitations under the License.
+
+    SPDX-License-Identifier: Apache License, Version 2.0
+*/
+
+pragma solidity 0.6.10;
+
+/**
+ * Safe stand-in without owners or signatures. Like Safe.execTransaction, a failed call doesn't revert the
+ * transaction but emits ExecutionFailure instead of ExecutionSuccess.
+ */
+contract SafeMock {
+    event ExecutionFailure(bytes32 txHash, uint256 payment);
+    event ExecutionSuccess(bytes32 txHash, uint256 payment);
+
+    function execTransaction(address _to, uint256 _value, bytes calldata _data) external payable returns (bool success) {
+        (success, ) = _to.call{ value: _value }(_data);
+
+        bytes32 txHash = keccak256(abi.encode(_to, _value, _data));
+        if (success) {
+            emit ExecutionSuccess(txHash, 0);
+        } else {
+            emit ExecutionFailure(txHash, 0);
+        }
+    }
+}
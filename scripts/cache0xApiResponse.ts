@@ -1,11 +1,9 @@
 import { network } from "hardhat";
-import axios from "axios";
 import { BigNumber, ethers } from "ethers";
-import fs from "fs";
-import path from "path";
 
-const zeroExApiKey = process.env.ZERO_EX_API_KEY;
-const filePath = path.resolve(__dirname, "../data/zeroExV2ResponseCache.json"); // JSON file storage path
+import { QuoteCache, zeroExV2QuoteProvider } from "../utils/quoteCache";
+
+const quoteCache = new QuoteCache();
 
 async function latestBlock(): Promise<number> {
   const provider = network.provider;
@@ -25,115 +23,9 @@ async function getChainId(): Promise<number> {
   return parseInt(chainId, 16);
 }
 
-function readJsonCache(): any {
-  if (fs.existsSync(filePath)) {
-    try {
-      const fileContent = fs.readFileSync(filePath, "utf8");
-      return fileContent ? JSON.parse(fileContent) : {};
-    } catch (error) {
-      console.error("Error reading cache file:", error);
-    }
-  }
-  return {};
-}
-
-function writeJsonCache(jsonData: any) {
-  try {
-    fs.writeFileSync(filePath, JSON.stringify(jsonData, undefined, 2), "utf8");
-    console.log(`Data saved to ${filePath}`);
-  } catch (error) {
-    console.error("Error writing cache file:", error);
-  }
-}
-
-function getCachedResponse(
-  chainId: number,
-  sellToken: string,
-  buyToken: string,
-  sellAmount: BigNumber,
-  blockNumber: number,
-  blockRange: number,
-  isQuote: boolean,
-): any | null {
-  const cache = readJsonCache();
-  const key = isQuote ? "quote" : "price";
-  if (
-    cache[chainId] &&
-    cache[chainId][sellToken] &&
-    cache[chainId][sellToken][buyToken] &&
-    cache[chainId][sellToken][buyToken][sellAmount.toString()]
-  ) {
-    const blockEntries = Object.keys(cache[chainId][sellToken][buyToken][sellAmount.toString()])
-      .map(Number) // Convert block numbers to integers
-      .sort((a, b) => b - a); // Sort in descending order
-
-    for (const cachedBlock of blockEntries) {
-      if (Math.abs(cachedBlock - blockNumber) <= blockRange) {
-        console.log(`Using cached response from block ${cachedBlock}`);
-        return cache[chainId][sellToken][buyToken][sellAmount.toString()][cachedBlock][key];
-      }
-    }
-  }
-  return undefined;
-}
-
-async function getZeroExResponse(
-  chainId: number,
-  sellToken: string,
-  buyToken: string,
-  sellAmount: BigNumber,
-  taker: string,
-  isQuote: boolean = false,
-): Promise<any> {
-  // TODO: Add param selling whole contract balance
-  const priceParams = new URLSearchParams({
-    chainId: chainId.toString(),
-    sellToken,
-    buyToken,
-    sellAmount: sellAmount.toString(),
-    taker,
-    sellEntireBalance: "true"
-  });
-
-  console.log("Fetching data with params:", priceParams.toString());
-
-  const headers = {
-    "0x-api-key": zeroExApiKey,
-    "0x-version": "v2",
-  };
-
-  const endpoint = isQuote ? "quote" : "price";
-  const url = `https://api.0x.org/swap/allowance-holder/${endpoint}?` + priceParams.toString();
-
-  const response = await axios.get(url, { headers });
-  return response.data;
-}
-
-function saveToJsonFile(
-  chainId: number,
-  sellToken: string,
-  buyToken: string,
-  sellAmount: BigNumber,
-  data: any,
-  isQuote: boolean,
-) {
-  let jsonData = readJsonCache();
-
-  if (!jsonData[chainId]) jsonData[chainId] = {};
-  if (!jsonData[chainId][sellToken]) jsonData[chainId][sellToken] = {};
-  if (!jsonData[chainId][sellToken][buyToken]) jsonData[chainId][sellToken][buyToken] = {};
-  if (!jsonData[chainId][sellToken][buyToken][sellAmount.toString()])
-    jsonData[chainId][sellToken][buyToken][sellAmount.toString()] = {};
-
-  jsonData[chainId][sellToken][buyToken][sellAmount.toString()][data.blockNumber] = {
-    [isQuote ? "quote" : "price"]: data,
-  };
-
-  writeJsonCache(jsonData);
-}
-
 /**
- * Fetch ZeroEx data, either from cache or API.
+ * Fetch ZeroEx data, either from the quote cache in data/quoteCache or the API.
+ * With QUOTE_CACHE_OFFLINE=true a response missing from the cache is an error.
  *
  * @param sellToken - The token to sell.
  * @param buyToken - The token to buy.
@@ -154,35 +46,20 @@ export async function fetchZeroExData(
   blockNumber: number,
   chainId: number,
 ) {
-  // Check cache for a response within the acceptable range
-  const cachedResponse = getCachedResponse(
+  // TODO: Add param selling whole contract balance
+  return await quoteCache.getQuote(zeroExV2QuoteProvider, {
     chainId,
-    sellToken,
-    buyToken,
-    sellAmount,
+    endpoint: isQuote ? "quote" : "price",
+    params: {
+      sellToken,
+      buyToken,
+      sellAmount: sellAmount.toString(),
+      taker: flashMintAddress,
+      sellEntireBalance: "true",
+    },
     blockNumber,
     blockRange,
-    isQuote,
-  );
-  if (cachedResponse) {
-    return cachedResponse;
-  }
-
-  // Fetch new data from API
-  const priceResponse = await getZeroExResponse(
-    chainId,
-    sellToken,
-    buyToken,
-    sellAmount,
-    flashMintAddress,
-    isQuote,
-  );
-  // console.log("Fetched Data:", priceResponse);
-
-  // Save response to file
-  saveToJsonFile(chainId, sellToken, buyToken, sellAmount, priceResponse, isQuote);
-
-  return priceResponse;
+  });
 }
 
 // Example usage in main
@@ -1,43 +1,57 @@
 import { ethers } from "hardhat";
 import { BigNumber } from "ethers";
-import axios from "axios";
-import qs from "qs";
 
-const MAX_RETRIES = 40;
-const RETRY_STATUSES = [503, 429];
-const API_QUOTE_URL = "https://api.0x.org/swap/v1/quote";
+import { QuoteCache, zeroExV1QuoteProvider } from "../utils/quoteCache";
 
-export const sleep = (ms: number) => {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+const quoteCache = new QuoteCache();
+
+// The 0x v1 API doesn't report the block it priced a quote at, so a cached quote is reused for about a day of blocks
+// instead of fetching and caching a new one at every block the script runs at
+const QUOTE_BLOCK_RANGE = 7200;
+
+type ZeroExV1QuoteParams = {
+  buyToken: string;
+  sellToken: string;
+  buyAmount: string;
 };
 
-async function getQuote(params: any, retryCount: number = 0): Promise<any> {
-  try {
-    const url = `${API_QUOTE_URL}?${qs.stringify(params)}`;
-    const response = await axios(url);
-    return response.data;
-  } catch (error) {
-    if (RETRY_STATUSES.includes(error.response?.status) && retryCount < MAX_RETRIES) {
-      await sleep(1000);
-      return await getQuote(params, retryCount + 1);
-    } else {
-      throw error;
-    }
-  }
+type ZeroExV1Quote = {
+  gas: string;
+  sellAmount: string;
+};
+
+type SetPosition = {
+  component: string;
+  unit: BigNumber;
+};
+
+let quoteBlockNumber: Promise<number> | undefined;
+
+// Quotes are cached in data/quoteCache at the block of the first quote of the run
+async function getQuote(params: ZeroExV1QuoteParams): Promise<ZeroExV1Quote> {
+  quoteBlockNumber = quoteBlockNumber || ethers.provider.getBlockNumber();
+
+  return await quoteCache.getQuote(zeroExV1QuoteProvider, {
+    chainId: 1,
+    endpoint: "quote",
+    params,
+    blockNumber: await quoteBlockNumber,
+    blockRange: QUOTE_BLOCK_RANGE,
+  });
 }
 
 async function getQuotes(
-  positions: any[],
+  positions: SetPosition[],
   inputToken: string,
   setAmount: number,
   wethStage: boolean,
-) {
+): Promise<ZeroExV1Quote[]> {
   const componentSwapInputToken = wethStage ? "WETH" : inputToken;
   const componentInputTokenAddress = TOKEN_ADDRESSES[componentSwapInputToken];
   const quotes = await getPositionQuotes(positions, componentInputTokenAddress, setAmount);
   if (wethStage) {
     const wethBuyAmount = quotes.reduce(
-      (sum: BigNumber | number, quote: any) => BigNumber.from(quote.sellAmount).add(sum),
+      (sum: BigNumber | number, quote: ZeroExV1Quote) => BigNumber.from(quote.sellAmount).add(sum),
       0,
     );
     const wethQuote = await getQuote({
@@ -51,11 +65,11 @@ async function getQuotes(
 }
 
 async function getPositionQuotes(
-  positions: any[],
+  positions: SetPosition[],
   inputTokenAddress: string,
   setAmount: number,
-): Promise<any[]> {
-  const promises = positions.map((position: any) => {
+): Promise<ZeroExV1Quote[]> {
+  const promises = positions.map((position: SetPosition) => {
     if (
       ethers.utils.getAddress(position.component) === ethers.utils.getAddress(inputTokenAddress)
     ) {
@@ -98,7 +112,7 @@ async function calculateTotalGas(
   const setContract = await ethers.getContractAt("ISetToken", setAddress);
   const positions = await setContract.getPositions();
   const positionQuotes = await getQuotes(positions, inputToken, setAmount, wethStage);
-  const gas = positionQuotes.reduce((sum: number, quote: any) => sum + parseInt(quote.gas), 0);
+  const gas = positionQuotes.reduce((sum: number, quote: ZeroExV1Quote) => sum + parseInt(quote.gas), 0);
   return { setToken, inputToken, setAmount, wethStage, gas };
 }
 
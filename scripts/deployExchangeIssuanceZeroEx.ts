@@ -1,4 +1,5 @@
 import { ethers } from "hardhat";
+import { SafeBatchBuilder } from "../utils/safeUtils";
 
 async function main() {
   const ExchangeIssuanceZeroEx = await ethers.getContractFactory("ExchangeIssuanceZeroEx");
@@ -17,6 +18,18 @@ async function main() {
     zeroExProxyAddress,
   );
   console.log("Exchange Issuacne deployed to", exchangeIssuanceZeroEx.address);
+
+  // With SAFE_BATCH_PATH set, the approval is written to a Safe Transaction Builder batch of SAFE_ADDRESS instead
+  if (process.env.SAFE_BATCH_PATH) {
+    if (!process.env.SAFE_ADDRESS) throw new Error("SAFE_ADDRESS is required to write a Safe batch");
+    const { chainId } = await ethers.provider.getNetwork();
+    const builder = new SafeBatchBuilder(process.env.SAFE_ADDRESS, chainId, ethers.provider);
+    await builder.capture(exchangeIssuanceZeroEx).approveSetToken(dpiAddress);
+    builder.write(process.env.SAFE_BATCH_PATH, "Approve DPI on ExchangeIssuanceZeroEx");
+    console.log("Approval of dpi token written to", process.env.SAFE_BATCH_PATH);
+    return;
+  }
+
   await exchangeIssuanceZeroEx.approveSetToken(dpiAddress);
     console.log("Approved dpi token");
 }
@@ -0,0 +1,66 @@
+import fs from "fs";
+import { BigNumber } from "ethers";
+import { task, types } from "hardhat/config";
+
+import { BatchTradePlanner } from "../utils/batchTradeUtils";
+import { buildSafeBatchTransaction, buildSafeTransactionBatch } from "../utils/safeUtils";
+import { TradeInfo } from "../utils/types";
+
+const BATCH_TRADE_FRAGMENT = "function batchTrade(address _setToken, tuple(string exchangeName, address sendToken, uint256 sendQuantity, address receiveToken, uint256 receiveQuantity, bytes data)[] _trades)";
+
+// Dry runs a GlobalBatchTradeExtension batch on a fork, reports every failing trade and writes the batch that succeeds, e.g.
+// `npx hardhat planBatchTrade --network localhost --extension 0x... --set-token 0x... --trades trades.json --output planned.json`
+// The trades file is a JSON array of TradeInfo with quantities as decimal strings of SetToken units
+task("planBatchTrade", "Validates and simulates a batchTrade call on a hardhat node and outputs a pruned, ordered batch without failures. Simulations send real transactions inside an evm_snapshot rather than a callStatic, so the network must be a hardhat node or fork")
+  .addParam("extension", "Address of the GlobalBatchTradeExtension", undefined, types.string)
+  .addParam("setToken", "Address of the SetToken to trade", undefined, types.string)
+  .addParam("trades", "JSON file with the TradeInfo array to plan", undefined, types.inputFile)
+  .addOptionalParam("operator", "Operator to simulate as, defaults to the first operator of the DelegatedManager", undefined, types.string)
+  .addOptionalParam("errors", "JSON array of custom error signatures to decode reverts with", undefined, types.json)
+  .addOptionalParam("output", "Path to write the planned TradeInfo array to", undefined, types.string)
+  .addOptionalParam("safeBatch", "Path to write the planned batchTrade call to as a Safe Transaction Builder batch", undefined, types.string)
+  .setAction(async ({ extension, setToken, trades, operator, errors, output, safeBatch }, { ethers }) => {
+    const requested: TradeInfo[] = JSON.parse(fs.readFileSync(trades, "utf8")).map((trade: any) => ({
+      ...trade,
+      sendQuantity: BigNumber.from(trade.sendQuantity),
+      receiveQuantity: BigNumber.from(trade.receiveQuantity),
+      data: trade.data || "0x",
+    }));
+
+    const planner = new BatchTradePlanner(ethers.provider, extension, setToken, { errorSignatures: errors });
+    const tradeOperator: string = operator || await planner.getOperator();
+    const plan = await planner.plan(requested, tradeOperator);
+
+    console.log(`Planned ${plan.trades.length} of ${requested.length} trades after ${plan.simulations} simulations`);
+    plan.results.forEach(result => {
+      const { exchangeName, sendToken, sendQuantity, receiveToken } = result.tradeInfo;
+      const trade = `#${result.index} ${exchangeName} ${sendQuantity.toString()} ${sendToken} -> ${receiveToken}`;
+      console.log(result.success ? `  ok      ${trade}` : `  failed  ${trade}: ${result.revertReason} (${result.stage})`);
+    });
+    console.log(`Execution order: ${plan.trades.map(trade => requested.indexOf(trade)).join(", ")}`);
+
+    const serialized = plan.trades.map(trade => ({
+      ...trade,
+      sendQuantity: trade.sendQuantity.toString(),
+      receiveQuantity: trade.receiveQuantity.toString(),
+    }));
+    if (output) {
+      fs.writeFileSync(output, JSON.stringify(serialized, undefined, 2) + "\n", "utf8");
+      console.log(`Planned batch saved to ${output}`);
+    }
+
+    if (safeBatch && plan.trades.length > 0) {
+      const { chainId } = await ethers.provider.getNetwork();
+      const batch = buildSafeTransactionBatch(
+        chainId,
+        tradeOperator,
+        [buildSafeBatchTransaction(extension, BATCH_TRADE_FRAGMENT, [setToken, serialized])],
+        `batchTrade (${plan.trades.length} trades)`,
+        `Planned batchTrade of ${setToken}`
+      );
+      fs.writeFileSync(safeBatch, JSON.stringify(batch, undefined, 2) + "\n", "utf8");
+      console.log(`Safe batch for ${tradeOperator} saved to ${safeBatch}`);
+    }
+  });
+
+export {};
@@ -0,0 +1,52 @@
+import path from "path";
+import { task, types } from "hardhat/config";
+
+// Runs a declarative product launch plan, e.g.
+// `npx hardhat runDeploymentPlan --network base --plan plans/eth2x.yaml`
+// Re-running the same command after an interruption resumes from the last completed step.
+// When a Safe runs the plan, `--safe-batch batch.json` writes the next steps to a Transaction Builder batch instead,
+// and the following run passes `--safe-tx <hash>` of the Safe's execution to complete them before capturing the rest.
+task("runDeploymentPlan", "Creates, initializes and approves a SetToken described by a JSON or YAML deployment plan")
+  .addParam("plan", "Path of the deployment plan", undefined, types.inputFile)
+  .addOptionalParam("state", "Path of the progress file, defaults to <plan>.<network>.state.json", undefined, types.string)
+  .addOptionalParam("timeout", "Seconds to wait for each transaction before checking whether it was dropped, defaults to 600", undefined, types.int)
+  .addOptionalParam("safeBatch", "Path to write a Safe Transaction Builder batch of the next steps to instead of sending them", undefined, types.string)
+  .addOptionalParam("safe", "Safe running the plan, defaults to the plan's owner", undefined, types.string)
+  .addOptionalParam("safeTx", "Hash of the Safe's execution of the previously written batch", undefined, types.string)
+  .setAction(async ({ plan, state, timeout, safeBatch, safe, safeTx }, { ethers, network }) => {
+    // Loaded lazily since the runner depends on typechain bindings that only exist after compiling
+    const { DeploymentPlanRunner, loadDeploymentPlan } = await import("../utils/deploys/deploymentPlan");
+    const { SafeBatchBuilder } = await import("../utils/safeUtils");
+
+    const deploymentPlan = loadDeploymentPlan(plan);
+    if (deploymentPlan.network && deploymentPlan.network !== network.name) {
+      throw new Error(`Plan targets ${deploymentPlan.network}, not ${network.name}`);
+    }
+
+    const statePath = state || path.join(
+      path.dirname(plan),
+      `${path.basename(plan, path.extname(plan))}.${network.name}.state.json`
+    );
+    const [deployer] = await ethers.getSigners();
+
+    const confirmationTimeout = timeout === undefined ? undefined : timeout * 1000;
+    const builder = safeBatch
+      ? new SafeBatchBuilder(safe || deploymentPlan.owner, (await ethers.provider.getNetwork()).chainId, ethers.provider)
+      : undefined;
+    const runner = new DeploymentPlanRunner(deployer, deploymentPlan, statePath, { confirmationTimeout, safeBatch: builder });
+
+    if (safeTx) {
+      await runner.confirmCapturedSteps(safeTx);
+    }
+    const result = await runner.run();
+
+    if (builder && result.capturedSteps) {
+      builder.write(safeBatch, `${deploymentPlan.symbol} deployment`, result.capturedSteps.join(", "));
+      console.log(`${result.capturedSteps.join(", ")} written to ${safeBatch}, run again with --safe-tx once the Safe executed it`);
+    }
+    console.log(`SetToken:         ${result.setToken}`);
+    console.log(`DelegatedManager: ${result.manager}`);
+    console.log(`Progress saved to ${statePath}`);
+  });
+
+export {};
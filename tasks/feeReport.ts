@@ -0,0 +1,218 @@
+import { BigNumber, Contract, utils } from "ethers";
+import { task, types } from "hardhat/config";
+
+import {
+  FEE_SPLIT_RECIPIENTS,
+  FeeProjectionPeriod,
+  FeeSplitConfig,
+  FeeSplitExtensionType,
+  FeeTotals,
+  getManagerFees,
+  getRealizedFees,
+  getTotalSupplyBeforeAccrual,
+  projectFees,
+} from "../utils/feeProjectionUtils";
+
+const SET_TOKEN_ABI = [
+  "function symbol() view returns (string)",
+  "function manager() view returns (address)",
+  "function totalSupply() view returns (uint256)",
+];
+const STREAMING_FEE_MODULE_ABI = [
+  "function controller() view returns (address)",
+  "function feeStates(address) view returns (address feeRecipient, uint256 maxStreamingFeePercentage, uint256 streamingFeePercentage, uint256 lastStreamingFeeTimestamp)",
+];
+const DEBT_ISSUANCE_MODULE_ABI = [
+  "function controller() view returns (address)",
+  "function issuanceSettings(address) view returns (uint256 maxManagerFee, uint256 managerIssueFee, uint256 managerRedeemFee, address feeRecipient, address managerIssuanceHook)",
+];
+const CONTROLLER_ABI = ["function getModuleFee(address _module, uint256 _feeType) view returns (uint256)"];
+const FEE_SPLIT_ABI = [
+  "function operatorFeeSplit() view returns (uint256)",
+  "function ownerFeeSplit() view returns (uint256)",
+];
+
+const ONE_DAY_IN_SECONDS = 86400;
+
+// Compares the fees a SetToken realized over a block range with the fees projected from its fee settings, supply
+// and issue/redeem volume, and optionally forecasts the coming days at a NAV, e.g.
+// `npx hardhat feeReport --network mainnet --set-token 0x... --streaming-fee-module 0x... --issuance-module 0x...
+//   --extensions 0x... --extension-type PrtFeeSplitExtension --from-block 19000000 --forecast-days 30 --nav 1050.5`
+task("feeReport", "Prints realized vs. projected streaming and issuance fees of a SetToken and their fee split")
+  .addParam("setToken", "Address of the SetToken", undefined, types.string)
+  .addParam("streamingFeeModule", "Address of the StreamingFeeModule", undefined, types.string)
+  .addParam("fromBlock", "First block of the report", undefined, types.int)
+  .addOptionalParam("toBlock", "Last block of the report, defaults to the latest block", undefined, types.int)
+  .addOptionalParam("issuanceModule", "Address of the DebtIssuanceModule charging issue and redeem fees", undefined, types.string)
+  .addOptionalParam("extensions", "Comma separated fee split extensions of the SetToken", undefined, types.string)
+  .addOptionalParam("extensionType", `Fee split of the extensions: ${Object.keys(FEE_SPLIT_RECIPIENTS).join(", ")}`, undefined, types.string)
+  .addOptionalParam("forecastDays", "Days to forecast from the last block with daily accruals", 0, types.int)
+  .addOptionalParam("nav", "NAV of one SetToken in the quote asset, used to value the forecast", undefined, types.string)
+  .setAction(async ({ setToken, streamingFeeModule, fromBlock, toBlock, issuanceModule, extensions, extensionType, forecastDays, nav }, { ethers }) => {
+    const provider = ethers.provider;
+    const endBlock: number = toBlock === undefined ? await provider.getBlockNumber() : toBlock;
+    const extensionAddresses: string[] = extensions ? extensions.split(",").map((extension: string) => extension.trim()) : [];
+
+    const realized = await getRealizedFees(provider, {
+      setToken,
+      fromBlock,
+      toBlock: endBlock,
+      streamingFeeModule,
+      issuanceModules: issuanceModule ? [issuanceModule] : undefined,
+      extensions: extensionAddresses,
+    });
+
+    const setTokenContract = new ethers.Contract(setToken, SET_TOKEN_ABI, provider);
+    const feeModule = new ethers.Contract(streamingFeeModule, STREAMING_FEE_MODULE_ABI, provider);
+    const controller = new ethers.Contract(await feeModule.controller(), CONTROLLER_ABI, provider);
+    const getFeeSettings = async (blockTag: number) => {
+      const feeState = await feeModule.feeStates(setToken, { blockTag });
+      const settings = {
+        startTimestamp: feeState.lastStreamingFeeTimestamp.toNumber(),
+        totalSupply: await setTokenContract.totalSupply({ blockTag }) as BigNumber,
+        streamingFeePercentage: feeState.streamingFeePercentage as BigNumber,
+        protocolStreamingFeeSplit: await controller.getModuleFee(streamingFeeModule, 0, { blockTag }) as BigNumber,
+        streamingFeeRecipient: feeState.feeRecipient as string,
+        issueFee: BigNumber.from(0),
+        redeemFee: BigNumber.from(0),
+        protocolIssuanceFeeSplit: BigNumber.from(0),
+        issuanceFeeRecipient: undefined as string | undefined,
+      };
+
+      if (issuanceModule) {
+        const debtIssuanceModule = new ethers.Contract(issuanceModule, DEBT_ISSUANCE_MODULE_ABI, provider);
+        const issuanceSettings = await debtIssuanceModule.issuanceSettings(setToken, { blockTag });
+        settings.issueFee = issuanceSettings.managerIssueFee;
+        settings.redeemFee = issuanceSettings.managerRedeemFee;
+        settings.protocolIssuanceFeeSplit = await controller.getModuleFee(issuanceModule, 0, { blockTag });
+        settings.issuanceFeeRecipient = issuanceSettings.feeRecipient;
+      }
+      return settings;
+    };
+
+    const startSettings = await getFeeSettings(fromBlock - 1);
+    const split = extensionType
+      ? await getFeeSplitConfig(setTokenContract, extensionType as FeeSplitExtensionType, extensionAddresses, startSettings, fromBlock - 1)
+      : undefined;
+
+    // One period per FeeActualized event, with the supply the accrual's transaction started from, and a closing
+    // period carrying the issue and redeem volume after the last accrual
+    const periods: FeeProjectionPeriod[] = [];
+    let previous: LogPosition = { blockNumber: fromBlock - 1, logIndex: Number.MAX_SAFE_INTEGER };
+    for (const accrual of realized.accruals) {
+      periods.push({
+        timestamp: accrual.timestamp,
+        totalSupply: await getTotalSupplyBeforeAccrual(provider, setToken, accrual),
+        ...getIssuanceVolume(realized.issuances, previous, accrual),
+      });
+      previous = accrual;
+    }
+    periods.push({
+      timestamp: (await provider.getBlock(endBlock)).timestamp,
+      accrueStreamingFee: false,
+      ...getIssuanceVolume(realized.issuances, previous, { blockNumber: endBlock, logIndex: Number.MAX_SAFE_INTEGER }),
+    });
+
+    const projected = projectFees({ ...startSettings, split, periods }).totals;
+
+    console.log(`Fees of ${await setTokenContract.symbol()} (${realized.setToken}) from block ${fromBlock} to ${endBlock}`);
+    console.log(`${realized.accruals.length} streaming fee accruals, ${realized.issuances.length} issues and redeems, ${realized.distributions.length} distributions`);
+    printFeeComparison(realized, projected);
+
+    const endSettings = await getFeeSettings(endBlock);
+    const endTimestamp = periods[periods.length - 1].timestamp;
+    const pending = projectFees({ ...endSettings, periods: [{ timestamp: endTimestamp, totalSupply: endSettings.totalSupply }] });
+    console.log(`Streaming fee accrued since the last accrual (manager): ${utils.formatEther(pending.totals.streamingFee.managerFee)}`);
+
+    if (forecastDays > 0) {
+      const forecastPeriods: FeeProjectionPeriod[] = [];
+      for (let day = 1; day <= forecastDays; day++) {
+        forecastPeriods.push({ timestamp: endTimestamp + day * ONE_DAY_IN_SECONDS, nav: nav ? utils.parseEther(nav) : undefined });
+      }
+
+      const forecast = projectFees({ ...endSettings, split, periods: forecastPeriods }).totals;
+      const value = forecast.managerFeeValue ? ` (value ${utils.formatEther(forecast.managerFeeValue)})` : "";
+      console.log(`Forecast over ${forecastDays} days at the current supply, accruing daily:`);
+      console.log(`  Streaming manager fee  ${utils.formatEther(forecast.streamingFee.managerFee)}${value}`);
+      console.log(`  Streaming protocol fee ${utils.formatEther(forecast.streamingFee.protocolFee)}`);
+      printTakes(forecast);
+    }
+  });
+
+// Reads the split of the fee split extension and whether it receives the streaming and issuance fees. Global
+// extensions distribute fees held by the SetToken's DelegatedManager with its ownerFeeSplit
+const getFeeSplitConfig = async (
+  setToken: Contract,
+  extension: FeeSplitExtensionType,
+  extensions: string[],
+  settings: { streamingFeeRecipient: string; issuanceFeeRecipient?: string },
+  blockTag: number
+): Promise<FeeSplitConfig> => {
+  if (!FEE_SPLIT_RECIPIENTS[extension]) {
+    throw new Error(`Unknown extension type ${extension}, expected one of ${Object.keys(FEE_SPLIT_RECIPIENTS).join(", ")}`);
+  }
+
+  const isGlobal = extension.startsWith("Global");
+  if (!isGlobal && extensions.length !== 1) {
+    throw new Error(`Pass the address of the ${extension} through --extensions to read its operatorFeeSplit`);
+  }
+
+  const feeHolder: string = isGlobal ? await setToken.manager({ blockTag }) : extensions[0];
+  const splitContract = new Contract(feeHolder, FEE_SPLIT_ABI, setToken.provider);
+  const isFeeHolder = (recipient?: string) => !!recipient && recipient.toLowerCase() === feeHolder.toLowerCase();
+
+  return {
+    extension,
+    feeSplit: isGlobal ? await splitContract.ownerFeeSplit({ blockTag }) : await splitContract.operatorFeeSplit({ blockTag }),
+    streamingFees: isFeeHolder(settings.streamingFeeRecipient),
+    issuanceFees: isFeeHolder(settings.issuanceFeeRecipient),
+  };
+};
+
+type LogPosition = { blockNumber: number; logIndex: number };
+
+const isBefore = (a: LogPosition, b: LogPosition): boolean => {
+  return a.blockNumber < b.blockNumber || (a.blockNumber === b.blockNumber && a.logIndex < b.logIndex);
+};
+
+// Issue and redeem volume between two log positions, so events sharing a block with an accrual land on its side
+const getIssuanceVolume = (
+  issuances: (LogPosition & { type: string; quantity: BigNumber })[],
+  after: LogPosition,
+  to: LogPosition
+): { issued: BigNumber; redeemed: BigNumber } => {
+  const inRange = issuances.filter(issuance => isBefore(after, issuance) && isBefore(issuance, to));
+  const sum = (type: string) => inRange.filter(issuance => issuance.type === type).reduce((total, issuance) => total.add(issuance.quantity), BigNumber.from(0));
+  return { issued: sum("SetTokenIssued"), redeemed: sum("SetTokenRedeemed") };
+};
+
+const printFeeComparison = (realized: FeeTotals, projected: FeeTotals): void => {
+  const rows: [string, BigNumber, BigNumber][] = [
+    ["Streaming manager fee", realized.streamingFee.managerFee, projected.streamingFee.managerFee],
+    ["Streaming protocol fee", realized.streamingFee.protocolFee, projected.streamingFee.protocolFee],
+    ["Issue manager fee", realized.issueFee.managerFee, projected.issueFee.managerFee],
+    ["Issue protocol fee", realized.issueFee.protocolFee, projected.issueFee.protocolFee],
+    ["Redeem manager fee", realized.redeemFee.managerFee, projected.redeemFee.managerFee],
+    ["Redeem protocol fee", realized.redeemFee.protocolFee, projected.redeemFee.protocolFee],
+    ["Total manager fees", getManagerFees(realized.streamingFee, realized.issueFee, realized.redeemFee),
+      getManagerFees(projected.streamingFee, projected.issueFee, projected.redeemFee)],
+  ];
+
+  const roles = Array.from(new Set([...Object.keys(realized.split), ...Object.keys(projected.split)])) as (keyof FeeTotals["split"])[];
+  roles.forEach(role => {
+    rows.push([`${role} take`, realized.split[role] || BigNumber.from(0), projected.split[role] || BigNumber.from(0)]);
+  });
+
+  console.log(`  ${"".padEnd(24)}${"realized".padEnd(28)}${"projected".padEnd(28)}difference`);
+  rows.forEach(([label, realizedFee, projectedFee]) => {
+    console.log(`  ${label.padEnd(24)}${utils.formatEther(realizedFee).padEnd(28)}${utils.formatEther(projectedFee).padEnd(28)}${utils.formatEther(realizedFee.sub(projectedFee))}`);
+  });
+};
+
+const printTakes = (totals: FeeTotals): void => {
+  (Object.keys(totals.split) as (keyof FeeTotals["split"])[]).forEach(role => {
+    console.log(`  ${`${role} take`.padEnd(22)} ${utils.formatEther(totals.split[role]!)}`);
+  });
+};
+
+export {};
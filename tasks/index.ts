@@ -1 +1,10 @@
 export * from "./subtasks";
+export * from "./leverageStrategy";
+export * from "./merkleDistribution";
+export * from "./deploymentPlan";
+export * from "./setTokenSnapshot";
+export * from "./mutualUpgrade";
+export * from "./safeBatch";
+export * from "./feeReport";
+export * from "./prtStaking";
+export * from "./batchTrade";
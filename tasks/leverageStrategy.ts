@@ -0,0 +1,74 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { task, types } from "hardhat/config";
+
+import { ShouldRebalance } from "../utils/types";
+
+// View functions shared by the Flexible, Aave, AaveV3 and Morpho leverage strategy extensions. A human readable
+// ABI is used so the task can run before typechain bindings are generated.
+const LEVERAGE_STRATEGY_EXTENSION_ABI = [
+  "function getCurrentLeverageRatio() view returns (uint256)",
+  "function getEnabledExchanges() view returns (string[])",
+  "function shouldRebalance() view returns (string[], uint8[])",
+  "function getChunkRebalanceNotional(string[]) view returns (uint256[] sizes, address sellAsset, address buyAsset)",
+  "function getCurrentEtherIncentive() view returns (uint256)",
+  "function twapLeverageRatio() view returns (uint256)",
+  "function getMethodology() view returns (tuple(uint256 targetLeverageRatio, uint256 minLeverageRatio, uint256 maxLeverageRatio, uint256 recenteringSpeed, uint256 rebalanceInterval))",
+  "function getIncentive() view returns (tuple(uint256 etherReward, uint256 incentivizedLeverageRatio, uint256 incentivizedSlippageTolerance, uint256 incentivizedTwapCooldownPeriod))",
+];
+
+const ERC20_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+];
+
+// Prints the keeper view of a leverage strategy extension, e.g.
+// `npx hardhat leverageStatus --network localhost --extension 0x...`
+task("leverageStatus", "Prints leverage ratio, shouldRebalance status, chunk size and ether reward of a leverage strategy extension")
+  .addParam("extension", "Address of the leverage strategy extension", undefined, types.string)
+  .addOptionalParam("exchanges", "Comma separated exchange names, defaults to the enabled exchanges", undefined, types.string)
+  .setAction(async ({ extension, exchanges }, { ethers, network }) => {
+    const strategyExtension = await ethers.getContractAt(LEVERAGE_STRATEGY_EXTENSION_ABI, extension);
+    const { formatEther, formatUnits } = ethers.utils;
+
+    const exchangeNames: string[] = exchanges
+      ? exchanges.split(",").map((name: string) => name.trim())
+      : await strategyExtension.getEnabledExchanges();
+
+    const currentLeverageRatio: BigNumber = await strategyExtension.getCurrentLeverageRatio();
+    const twapLeverageRatio: BigNumber = await strategyExtension.twapLeverageRatio();
+    const methodology = await strategyExtension.getMethodology();
+    const incentive = await strategyExtension.getIncentive();
+    const [enabledExchanges, shouldRebalances]: [string[], number[]] = await strategyExtension.shouldRebalance();
+    const [sizes, sellAsset, buyAsset] = await strategyExtension.getChunkRebalanceNotional(exchangeNames);
+    const etherReward: BigNumber = await strategyExtension.getCurrentEtherIncentive();
+
+    const sellToken = await ethers.getContractAt(ERC20_ABI, sellAsset);
+    const buyToken = await ethers.getContractAt(ERC20_ABI, buyAsset);
+    const sellDecimals = await sellToken.decimals();
+    const sellSymbol = await sellToken.symbol();
+    const buySymbol = await buyToken.symbol();
+
+    console.log(`Network:                    ${network.name} (block ${await ethers.provider.getBlockNumber()})`);
+    console.log(`Strategy extension:         ${extension}`);
+    console.log(`Current leverage ratio:     ${formatEther(currentLeverageRatio)}`);
+    console.log(`Target / min / max:         ${formatEther(methodology.targetLeverageRatio)} / ${formatEther(methodology.minLeverageRatio)} / ${formatEther(methodology.maxLeverageRatio)}`);
+    console.log(`Incentivized leverage:      ${formatEther(incentive.incentivizedLeverageRatio)}`);
+    console.log(`TWAP leverage ratio:        ${twapLeverageRatio.gt(0) ? formatEther(twapLeverageRatio) : "not in TWAP"}`);
+    console.log(`Rebalance direction:        sell ${sellSymbol} for ${buySymbol}`);
+    console.log(`Estimated ether reward:     ${formatEther(etherReward)} ETH`);
+    console.log("");
+
+    const statusByExchange: {[exchangeName: string]: number} = {};
+    enabledExchanges.forEach((exchangeName, i) => statusByExchange[exchangeName] = shouldRebalances[i]);
+
+    const rows = exchangeNames.map((exchangeName, i) => ({
+      exchange: exchangeName,
+      shouldRebalance: statusByExchange[exchangeName] !== undefined
+        ? ShouldRebalance[statusByExchange[exchangeName]]
+        : "NOT ENABLED",
+      chunkSize: `${formatUnits(sizes[i], sellDecimals)} ${sellSymbol}`,
+    }));
+    console.table(rows);
+  });
+
+export {};
@@ -0,0 +1,118 @@
+import fs from "fs";
+import path from "path";
+import { BigNumber } from "@ethersproject/bignumber";
+import { task, types } from "hardhat/config";
+
+import type { MerkleDistributor } from "../utils/contracts";
+import {
+  buildCumulativeDistribution,
+  getMerkleDistributorClaims,
+  normalizeDistribution,
+  parseBalanceMap,
+  parseDistributionCsv,
+  parseDistributionJson,
+  verifyMerkleDistribution,
+} from "../utils/merkleUtils";
+import { DistributionFormat, MerkleDistributorInfo, MerkleLeafSchema } from "../utils/types";
+
+// Builds a MerkleDistributor distribution from an `address,earnings` CSV or JSON snapshot, e.g.
+// `npx hardhat merkleDistribution --input rewards.csv --output claims.json --merge-duplicates`
+task("merkleDistribution", "Generates merkle claims from a reward snapshot and optionally verifies them on-chain")
+  .addParam("input", "CSV (address,earnings) or JSON snapshot file", undefined, types.inputFile)
+  .addOptionalParam("output", "Path of the claims JSON, defaults to <input>.claims.json", undefined, types.string)
+  .addOptionalParam("decimals", "Read earnings as decimal amounts with this many decimals instead of base units", undefined, types.int)
+  .addOptionalParam("distributor", "Deployed MerkleDistributor to verify every claim against. With --previous its balance is deducted from the top-up", undefined, types.string)
+  .addOptionalParam("schema", "Leaf encoding: merkleDistributor, doubleHashed or multiToken", undefined, types.string)
+  .addOptionalParam("previous", "Claims JSON of the previous epoch. Builds the next tree with the input as new earnings", undefined, types.inputFile)
+  .addOptionalParam("claimed", "CSV or JSON of the amounts already claimed out of the previous epoch, in base units", undefined, types.inputFile)
+  .addOptionalParam("previousDistributor", "MerkleDistributor serving the previous epoch to read the claimed leaves from", undefined, types.string)
+  .addFlag("mergeDuplicates", "Sum earnings of duplicate addresses instead of throwing")
+  .setAction(async (
+    { input, output, decimals, distributor, schema, previous, claimed, previousDistributor, mergeDuplicates },
+    { ethers }
+  ) => {
+    const content = fs.readFileSync(input, "utf8");
+    const balances = path.extname(input).toLowerCase() === ".json"
+      ? parseDistributionJson(content, decimals)
+      : parseDistributionCsv(content, decimals);
+
+    const earnings = normalizeDistribution(balances, mergeDuplicates);
+    const outputPath = output || `${input.replace(/\.(csv|json)$/i, "")}.claims.json`;
+
+    let info: MerkleDistributorInfo;
+    if (previous) {
+      const previousInfo: MerkleDistributorInfo = JSON.parse(fs.readFileSync(previous, "utf8"));
+
+      const claimedAmounts: DistributionFormat[] = [];
+      if (claimed) {
+        const claimedContent = fs.readFileSync(claimed, "utf8");
+        claimedAmounts.push(...(path.extname(claimed).toLowerCase() === ".json"
+          ? parseDistributionJson(claimedContent)
+          : parseDistributionCsv(claimedContent)));
+      }
+      if (previousDistributor) {
+        const previousMerkleDistributor = (await ethers.getContractAt("MerkleDistributor", previousDistributor)) as MerkleDistributor;
+        claimedAmounts.push(...await getMerkleDistributorClaims(previousMerkleDistributor, previousInfo));
+      }
+
+      const distributorBalances: { [token: string]: BigNumber } = {};
+      if (distributor) {
+        const merkleDistributor = (await ethers.getContractAt("MerkleDistributor", distributor)) as MerkleDistributor;
+        const token = await ethers.getContractAt(
+          "@openzeppelin/contracts/token/ERC20/IERC20.sol:IERC20",
+          await merkleDistributor.token()
+        );
+        distributorBalances[""] = await token.balanceOf(distributor);
+      }
+
+      const cumulative = buildCumulativeDistribution(
+        previousInfo,
+        earnings,
+        schema as MerkleLeafSchema | undefined,
+        claimedAmounts,
+        distributorBalances
+      );
+      info = cumulative.info;
+
+      const deltasPath = outputPath.replace(/\.json$/i, "") + ".deltas.json";
+      const deltas = cumulative.deltas.map(delta => ({ ...delta, earnings: delta.earnings.toString() }));
+      fs.writeFileSync(deltasPath, JSON.stringify(deltas, undefined, 2), "utf8");
+
+      console.log(`Accounts with new earnings: ${deltas.length} (saved to ${deltasPath})`);
+      Object.keys(cumulative.topUps).forEach(token => {
+        console.log(`Top-up${token ? ` of ${token}` : ""}: ${cumulative.topUps[token].toString()}`);
+      });
+    } else {
+      info = parseBalanceMap(earnings, (schema || "merkleDistributor") as MerkleLeafSchema);
+    }
+
+    fs.writeFileSync(outputPath, JSON.stringify(info, undefined, 2), "utf8");
+
+    console.log(`Leaf schema:   ${info.leafSchema}`);
+    console.log(`Merkle root:   ${info.merkleRoot}`);
+    console.log(`Token total:   ${ethers.BigNumber.from(info.tokenTotal).toString()}`);
+    console.log(`Claims:        ${Object.keys(info.claims).length}`);
+    console.log(`Saved to ${outputPath}`);
+
+    if (!distributor) return;
+
+    const merkleDistributor = (await ethers.getContractAt("MerkleDistributor", distributor)) as MerkleDistributor;
+    const results = await verifyMerkleDistribution(merkleDistributor, info);
+
+    const failures = results.filter(result => result.status === "invalidProof");
+    const claimedResults = results.filter(result => result.status === "claimed");
+    const unfunded = results.filter(result => result.status === "unfunded");
+
+    console.log(`Verified ${results.length} claims against ${distributor}`);
+    console.log(`  claimable:     ${results.length - failures.length - claimedResults.length - unfunded.length}`);
+    console.log(`  valid, transfer failed (unfunded): ${unfunded.length}`);
+    console.log(`  already claimed: ${claimedResults.length}`);
+    console.log(`  invalid proof: ${failures.length}`);
+
+    if (failures.length > 0) {
+      failures.forEach(failure => console.log(`    ${failure.index} ${failure.account} ${failure.amount}`));
+      throw new Error(`${failures.length} claims failed verification`);
+    }
+  });
+
+export {};
@@ -0,0 +1,63 @@
+import fs from "fs";
+import { task, types } from "hardhat/config";
+
+import {
+  MutualUpgradeCoordinator,
+  MutualUpgradeManager,
+  MutualUpgradeMethod,
+  MutualUpgradeRole,
+} from "../utils/mutualUpgradeUtils";
+
+// Prints which signer has submitted a mutual upgrade and optionally exports the call for a multisig signer, e.g.
+// `npx hardhat mutualUpgradeStatus --network mainnet --manager 0x... --method BaseManagerV2.setManager --args '["0x..."]' --output setManager.json`
+task("mutualUpgradeStatus", "Reports the signers of a BaseManagerV2 or DelegatedManager mutual upgrade and exports a Safe batch")
+  .addParam("manager", "Address of the BaseManagerV2 or DelegatedManager", undefined, types.string)
+  .addParam("method", "Mutual upgrade, e.g. BaseManagerV2.authorizeExtension or DelegatedManager.updateOwnerFeeSplit", undefined, types.string)
+  .addParam("args", "JSON array of the call arguments", undefined, types.json)
+  .addOptionalParam("output", "Path to write a Safe Transaction Builder batch to", undefined, types.string)
+  .addOptionalParam("role", "Signer the batch is for (operator, owner or methodologist), defaults to the pending signer", undefined, types.string)
+  .setAction(async ({ manager, method, args, output, role }, { ethers }) => {
+    const managerType = method.split(".")[0] as MutualUpgradeManager;
+    const coordinator = new MutualUpgradeCoordinator(ethers.provider, manager, managerType);
+    const status = await coordinator.getStatus(method as MutualUpgradeMethod, args);
+
+    console.log(`${method} on ${status.manager}`);
+    console.log(`Calldata: ${status.calldata}`);
+    status.signers.forEach(signer => {
+      console.log(`  ${signer.role.padEnd(14)} ${signer.address} ${signer.hasSigned ? "signed" : "not signed"} (${signer.upgradeHash})`);
+    });
+    if (status.pendingSigner) {
+      console.log(`Waiting for the ${status.pendingSigner.role} to submit the same calldata`);
+    }
+
+    if (!output) return;
+
+    const batchRole = (role || (status.pendingSigner && status.pendingSigner.role)) as MutualUpgradeRole | undefined;
+    if (!batchRole) {
+      throw new Error("No signer has submitted the upgrade yet, pass --role to choose the signer of the batch");
+    }
+
+    const batch = await coordinator.exportSafeBatch(method as MutualUpgradeMethod, args, batchRole);
+    fs.writeFileSync(output, JSON.stringify(batch, undefined, 2) + "\n", "utf8");
+    console.log(`Safe batch for the ${batchRole} (${batch.meta.createdFromSafeAddress}) saved to ${output}`);
+  });
+
+// Lists mutual upgrades registered on a manager and whether they are still waiting for the second signer, e.g.
+// `npx hardhat mutualUpgradeHistory --network mainnet --manager 0x... --type DelegatedManager --from-block 19000000`
+task("mutualUpgradeHistory", "Lists the mutual upgrades registered on a manager with their signer and decoded call")
+  .addParam("manager", "Address of the BaseManagerV2 or DelegatedManager", undefined, types.string)
+  .addParam("type", "BaseManagerV2 or DelegatedManager", undefined, types.string)
+  .addParam("fromBlock", "First block to search", undefined, types.int)
+  .setAction(async ({ manager, type, fromBlock }, { ethers }) => {
+    const coordinator = new MutualUpgradeCoordinator(ethers.provider, manager, type as MutualUpgradeManager);
+    const upgrades = await coordinator.getRegisteredUpgrades(fromBlock);
+
+    console.log(`${upgrades.length} mutual upgrades registered on ${manager} since block ${fromBlock}`);
+    upgrades.forEach(upgrade => {
+      const call = upgrade.method ? `${upgrade.method}(${upgrade.args!.map(arg => arg.toString()).join(", ")})` : "unknown call";
+      const signer = upgrade.signer ? ` by ${upgrade.signer}` : "";
+      console.log(`  block ${upgrade.blockNumber}: ${call}${signer} ${upgrade.isPending ? "pending" : "executed"} (${upgrade.upgradeHash})`);
+    });
+  });
+
+export {};
@@ -0,0 +1,48 @@
+import fs from "fs";
+import { utils } from "ethers";
+import { task, types } from "hardhat/config";
+
+import { getPrtStakingPoolEvents, PrtStakingLedger } from "../utils/prtStakingUtils";
+
+// Replays a PRT staking pool and writes each staker's rewards as a distribution snapshot for `merkleDistribution`, e.g.
+// `npx hardhat prtStakingRewards --network mainnet --pool 0x... --from-block 19000000 --output prt-rewards.json`
+task("prtStakingRewards", "Computes the rewards of every PRT staking pool staker per distribution snapshot")
+  .addParam("pool", "Address of the PRT staking pool", undefined, types.string)
+  .addParam("fromBlock", "Deployment block of the pool", undefined, types.int)
+  .addOptionalParam("toBlock", "Last block to replay, defaults to the latest block", undefined, types.int)
+  .addOptionalParam("amount", "Rewards to export: claimable (not yet claimed from the pool) or earned", "claimable", types.string)
+  .addOptionalParam("output", "Path of the distribution JSON (address, earnings) to write", undefined, types.string)
+  .addFlag("multiToken", "Set the reward token on every entry, for the multiToken leaf schema")
+  .setAction(async ({ pool, fromBlock, toBlock, amount, output, multiToken }, { ethers }) => {
+    if (amount !== "claimable" && amount !== "earned") {
+      throw new Error(`Unknown amount ${amount}, expected claimable or earned`);
+    }
+
+    const events = await getPrtStakingPoolEvents(ethers.provider, { pool, fromBlock, toBlock });
+    const ledger = PrtStakingLedger.fromEvents(events);
+
+    console.log(`Replayed ${events.length} events of ${pool}, ${ledger.snapshots.length} distribution snapshots`);
+    ledger.snapshots.forEach(snapshot => {
+      console.log(
+        `  #${snapshot.index} block ${snapshot.blockNumber}: ${utils.formatEther(snapshot.amount)} over ` +
+        `${utils.formatEther(snapshot.totalStaked)} staked by ${Object.keys(snapshot.rewards).length} stakers ` +
+        `(${snapshot.unallocated.toString()} unallocated)`
+      );
+    });
+
+    const rewards = ledger.getStakerRewards();
+    console.log(`${"Staker".padEnd(44)}${"staked".padEnd(26)}${"earned".padEnd(26)}${"claimed".padEnd(26)}claimable`);
+    Object.keys(rewards).forEach(staker => {
+      const { staked, earned, claimed, claimable } = rewards[staker];
+      console.log(`${staker.padEnd(44)}${utils.formatEther(staked).padEnd(26)}${utils.formatEther(earned).padEnd(26)}${utils.formatEther(claimed).padEnd(26)}${utils.formatEther(claimable)}`);
+    });
+
+    if (!output) return;
+
+    const rewardToken = multiToken ? await new ethers.Contract(pool, ["function rewardToken() view returns (address)"], ethers.provider).rewardToken() : undefined;
+    const distribution = ledger.toDistribution(amount, rewardToken).map(entry => ({ ...entry, earnings: entry.earnings.toString() }));
+    fs.writeFileSync(output, JSON.stringify(distribution, undefined, 2) + "\n", "utf8");
+    console.log(`${distribution.length} ${amount} balances saved to ${output}, build the claims with \`merkleDistribution --input ${output}\``);
+  });
+
+export {};
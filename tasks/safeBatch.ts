@@ -0,0 +1,28 @@
+import fs from "fs";
+import { task, types } from "hardhat/config";
+
+import { SafeTransactionBatch, simulateSafeBatch } from "../utils/safeUtils";
+
+// Replays a Safe Transaction Builder batch from the impersonated Safe before it is proposed, e.g. against a fork:
+// `npx hardhat node --fork $ETHEREUM_RPC_URL` then `npx hardhat simulateSafeBatch --network localhost --batch batch.json`
+task("simulateSafeBatch", "Replays a Safe Transaction Builder batch on a hardhat node impersonating the Safe")
+  .addParam("batch", "Path of the batch JSON", undefined, types.inputFile)
+  .addOptionalParam("safe", "Safe to impersonate, defaults to the batch's createdFromSafeAddress", undefined, types.string)
+  .addFlag("continueOnFailure", "Keep replaying after a failed call instead of stopping like MultiSend would")
+  .setAction(async ({ batch, safe, continueOnFailure }, { ethers }) => {
+    const safeBatch: SafeTransactionBatch = JSON.parse(fs.readFileSync(batch, "utf8"));
+    const results = await simulateSafeBatch(ethers.provider, safeBatch, { safe, continueOnFailure });
+
+    console.log(`${safeBatch.meta.name}: ${results.length} of ${safeBatch.transactions.length} calls replayed`);
+    results.forEach(result => {
+      const outcome = result.success ? `ok, ${result.gasUsed} gas` : `failed: ${result.error || "reverted"}`;
+      console.log(`  ${result.index} ${result.to} ${result.method || "(raw calldata)"}: ${outcome}`);
+    });
+
+    const failures = results.filter(result => !result.success);
+    if (failures.length > 0) {
+      throw new Error(`${failures.length} calls of the batch failed`);
+    }
+  });
+
+export {};
@@ -0,0 +1,59 @@
+import fs from "fs";
+import { task, types } from "hardhat/config";
+
+import { diffSetTokenSnapshots, formatSetTokenSnapshotDiff, getSetTokenSnapshot, SetTokenSnapshot } from "../utils/setTokenSnapshotUtils";
+
+// Saves the full state of a SetToken, e.g. before a migration:
+// `npx hardhat setTokenSnapshot --network mainnet --set-token 0x... --block 19000000 --output before.json`
+task("setTokenSnapshot", "Writes the positions, modules, supply and manager of a SetToken at a block to JSON")
+  .addParam("setToken", "Address of the SetToken", undefined, types.string)
+  .addOptionalParam("block", "Block to read at, defaults to the latest block", undefined, types.int)
+  .addOptionalParam("modules", "Comma separated modules to report the state of in addition to initialized modules", undefined, types.string)
+  .addOptionalParam("output", "Path of the snapshot JSON, prints to stdout when omitted", undefined, types.string)
+  .setAction(async ({ setToken, block, modules, output }, { ethers }) => {
+    const snapshot = await getSetTokenSnapshot(ethers.provider, setToken, {
+      blockTag: block,
+      modules: modules ? modules.split(",").map((module: string) => module.trim()) : undefined,
+    });
+
+    const json = JSON.stringify(snapshot, undefined, 2);
+    if (!output) {
+      console.log(json);
+      return;
+    }
+
+    fs.writeFileSync(output, json + "\n", "utf8");
+    console.log(`Snapshot of ${snapshot.symbol} at block ${snapshot.blockNumber} saved to ${output}`);
+  });
+
+// Compares two snapshots. Each side is a snapshot file or a block number to read --set-token at, e.g.
+// `npx hardhat setTokenSnapshotDiff --network mainnet --before before.json --after 19000100 --set-token 0x...`
+task("setTokenSnapshotDiff", "Prints the changes to a SetToken's state between two snapshots or blocks")
+  .addParam("before", "Snapshot JSON or block number", undefined, types.string)
+  .addOptionalParam("after", "Snapshot JSON or block number, defaults to the latest block", undefined, types.string)
+  .addOptionalParam("setToken", "SetToken to read when a side is a block number", undefined, types.string)
+  .addOptionalParam("output", "Path to write the diff JSON to", undefined, types.string)
+  .setAction(async ({ before, after, setToken, output }, { ethers }) => {
+    const loadSnapshot = async (source: string | undefined, otherSide?: SetTokenSnapshot): Promise<SetTokenSnapshot> => {
+      if (source !== undefined && fs.existsSync(source)) return JSON.parse(fs.readFileSync(source, "utf8"));
+      if (source !== undefined && !/^\d+$/.test(source)) throw new Error(`${source} is neither a snapshot file nor a block number`);
+
+      const address = setToken || (otherSide && otherSide.setToken);
+      if (!address) throw new Error("--set-token is required when both sides are block numbers");
+
+      const modules = otherSide ? Object.keys(otherSide.modules) : undefined;
+      return await getSetTokenSnapshot(ethers.provider, address, { blockTag: source && parseInt(source), modules });
+    };
+
+    const beforeSnapshot = await loadSnapshot(before);
+    const afterSnapshot = await loadSnapshot(after, beforeSnapshot);
+    const diff = diffSetTokenSnapshots(beforeSnapshot, afterSnapshot);
+
+    console.log(formatSetTokenSnapshotDiff(diff));
+    if (output) {
+      fs.writeFileSync(output, JSON.stringify(diff, undefined, 2) + "\n", "utf8");
+      console.log(`Diff saved to ${output}`);
+    }
+  });
+
+export {};
@@ -9,7 +9,8 @@ import {
   MethodologySettings,
   ExecutionSettings,
   IncentiveSettings,
-  ExchangeSettings
+  ExchangeSettings,
+  ShouldRebalance
 } from "@utils/types";
 import { ADDRESS_ZERO, ONE, TWO, THREE, ZERO, EMPTY_BYTES, MAX_UINT_256 } from "@utils/constants";
 import { FlexibleLeverageStrategyExtension, BaseManagerV2, TradeAdapterMock, ChainlinkAggregatorV3Mock } from "@utils/contracts/index";
@@ -33,7 +34,9 @@ import {
   calculateCollateralRebalanceUnits,
   calculateMaxBorrowForDelever,
   calculateMaxRedeemForDeleverToZero,
-  usdc
+  simulateLeverageRebalances,
+  usdc,
+  LeverageSimulationStep
 } from "@utils/index";
 import { SetFixture, CompoundFixture } from "@utils/fixtures";
 import { calculateTotalRebalanceNotionalCompound } from "@utils/flexibleLeverageUtils/flexibleLeverage";
@@ -276,6 +279,40 @@ describe("FlexibleLeverageStrategyExtension", () => {
     await baseManagerV2.connect(owner.wallet).addExtension(flexibleLeverageStrategyExtension.address);
   };
 
+  // Simulates the next keeper action from the extension's current settings and the SetToken's Compound positions
+  const simulateNextRebalance = async (): Promise<LeverageSimulationStep> => {
+    const currentExchangeSettings = await flexibleLeverageStrategyExtension.getExchangeSettings(exchangeName);
+    const collateralFactor = (await compoundSetup.comptroller.markets(cEther.address))[1];
+    const exchangeRate = await cEther.exchangeRateStored();
+
+    const [step] = simulateLeverageRebalances(
+      {
+        methodology: await flexibleLeverageStrategyExtension.getMethodology(),
+        execution: { ...await flexibleLeverageStrategyExtension.getExecution(), unutilizedLeveragePercentageDelever: ZERO },
+        incentive: await flexibleLeverageStrategyExtension.getIncentive(),
+        twapMaxTradeSize: currentExchangeSettings.twapMaxTradeSize,
+        incentivizedTwapMaxTradeSize: currentExchangeSettings.incentivizedTwapMaxTradeSize,
+        protocol: "compound",
+        maxLtv: collateralFactor,
+        liquidationThreshold: collateralFactor,
+      },
+      {
+        collateralBalance: preciseMul(await cEther.balanceOf(setToken.address), exchangeRate),
+        borrowBalance: await cUSDC.borrowBalanceStored(setToken.address),
+        totalSupply: await setToken.totalSupply(),
+        twapLeverageRatio: await flexibleLeverageStrategyExtension.twapLeverageRatio(),
+        globalLastTradeTimestamp: await flexibleLeverageStrategyExtension.globalLastTradeTimestamp(),
+        exchangeLastTradeTimestamp: currentExchangeSettings.exchangeLastTradeTimestamp,
+      },
+      [{
+        timestamp: (await getLastBlockTimestamp()).add(1),
+        collateralPrice: (await chainlinkCollateralPriceMock.latestAnswer()).mul(BigNumber.from(10).pow(strategy.collateralDecimalAdjustment)),
+        borrowPrice: (await chainlinkBorrowPriceMock.latestAnswer()).mul(BigNumber.from(10).pow(strategy.borrowDecimalAdjustment)),
+      }]
+    );
+    return step;
+  };
+
   describe("#constructor", async () => {
     let subjectManagerAddress: Address;
     let subjectContractSettings: ContractSettings;
@@ -1043,6 +1080,28 @@ describe("FlexibleLeverageStrategyExtension", () => {
         );
       });
 
+      it("should match the simulated rebalance", async () => {
+        const step = await simulateNextRebalance();
+        const [, actions] = await flexibleLeverageStrategyExtension.shouldRebalance();
+        const expectedNewLeverageRatio = calculateNewLeverageRatio(
+          step.leverageRatioBefore,
+          methodology.targetLeverageRatio,
+          methodology.minLeverageRatio,
+          methodology.maxLeverageRatio,
+          methodology.recenteringSpeed
+        );
+
+        expect(step.action).to.eq(ShouldRebalance.REBALANCE);
+        expect(actions[0]).to.eq(step.action);
+        expect(step.leverageRatioBefore).to.eq(await flexibleLeverageStrategyExtension.getCurrentLeverageRatio());
+        await expect(subject()).to.emit(flexibleLeverageStrategyExtension, "Rebalanced").withArgs(
+          step.leverageRatioBefore,
+          expectedNewLeverageRatio,
+          step.chunkRebalanceNotional,
+          step.totalRebalanceNotional,
+        );
+      });
+
       describe("when rebalance interval has not elapsed but is below min leverage ratio and lower than max trade size", async () => {
         cacheBeforeEach(async () => {
           await subject();
@@ -1414,6 +1473,27 @@ describe("FlexibleLeverageStrategyExtension", () => {
         expect(newSecondPosition.module).to.eq(compoundLeverageModule.address);
       });
 
+      it("should match the simulated rebalance", async () => {
+        const step = await simulateNextRebalance();
+        const [, actions] = await flexibleLeverageStrategyExtension.shouldRebalance();
+        const expectedNewLeverageRatio = calculateNewLeverageRatio(
+          step.leverageRatioBefore,
+          methodology.targetLeverageRatio,
+          methodology.minLeverageRatio,
+          methodology.maxLeverageRatio,
+          methodology.recenteringSpeed
+        );
+
+        expect(step.action).to.eq(ShouldRebalance.REBALANCE);
+        expect(actions[0]).to.eq(step.action);
+        await expect(subject()).to.emit(flexibleLeverageStrategyExtension, "Rebalanced").withArgs(
+          step.leverageRatioBefore,
+          expectedNewLeverageRatio,
+          step.chunkRebalanceNotional,
+          step.totalRebalanceNotional,
+        );
+      });
+
       describe("when rebalance interval has not elapsed above max leverage ratio and lower than max trade size", async () => {
         cacheBeforeEach(async () => {
           await flexibleLeverageStrategyExtension.connect(owner.wallet).rebalance(subjectExchangeName);
@@ -2492,6 +2572,20 @@ describe("FlexibleLeverageStrategyExtension", () => {
         );
       });
 
+      it("should match the simulated ripcord", async () => {
+        const step = await simulateNextRebalance();
+        const [, actions] = await flexibleLeverageStrategyExtension.shouldRebalance();
+
+        expect(step.action).to.eq(ShouldRebalance.RIPCORD);
+        expect(actions[0]).to.eq(step.action);
+        await expect(subject()).to.emit(flexibleLeverageStrategyExtension, "RipcordCalled").withArgs(
+          step.leverageRatioBefore,
+          methodology.maxLeverageRatio,
+          step.chunkRebalanceNotional,
+          step.etherReward,
+        );
+      });
+
       describe("when greater than incentivized max trade size", async () => {
         let newIncentivizedMaxTradeSize: BigNumber;
 
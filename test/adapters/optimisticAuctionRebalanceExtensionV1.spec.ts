@@ -23,6 +23,12 @@ import {
   getRandomAccount,
 } from "@utils/index";
 import { SetFixture } from "@utils/fixtures";
+import {
+  RebalanceComponent,
+  RebalanceProposalVerification,
+  RebalanceRules,
+  verifyRebalanceProposal,
+} from "@utils/auctionRebalanceUtils";
 import { BigNumber, ContractTransaction, utils, constants } from "ethers";
 
 const expect = getWaffleExpect();
@@ -559,6 +565,67 @@ describe("OptimisticAuctionRebalanceExtensionV1", () => {
                     });
                   });
                 });
+                describe("#verifyRebalanceProposal", () => {
+                  let rebalanceRules: RebalanceRules;
+                  let components: RebalanceComponent[];
+
+                  beforeEach(async () => {
+                    rebalanceRules = {};
+                    components = [
+                      { address: setV2Setup.dai.address, decimals: 18, price: ether(0.0005) },
+                      { address: setV2Setup.wbtc.address, decimals: 8, price: ether(20) },
+                      { address: setV2Setup.weth.address, decimals: 18, price: ether(1) },
+                      { address: setV2Setup.usdc.address, decimals: 6, price: ether(0.0005) },
+                    ];
+                  });
+
+                  async function verify(txHash: string): Promise<RebalanceProposalVerification> {
+                    return verifyRebalanceProposal(setToken.provider, txHash, rebalanceRules, components);
+                  }
+
+                  it("should pass and rebuild the asserted claim", async () => {
+                    const tx = await subject();
+
+                    const verification = await verify(tx.hash);
+
+                    expect(verification.status).to.eq("PASS");
+                    expect(verification.reasons).to.be.empty;
+                    expect(verification.proposal.extensionType).to.eq("OptimisticAuctionRebalanceExtensionV1");
+                    expect(verification.claimString).to.eq(constructClaim());
+                    expect(verification.assertionId).to.eq(utils.formatBytes32String("win"));
+                  });
+
+                  describe("when the product rules change after the proposal", () => {
+                    it("should rebuild the claim from the rules at the proposal block", async () => {
+                      const tx = await subject();
+                      const currentSettings = await auctionRebalanceExtension.productSettings();
+                      await auctionRebalanceExtension.setProductSettings(currentSettings.optimisticParams, "newRules");
+
+                      const verification = await verify(tx.hash);
+
+                      expect(verification.status).to.eq("PASS");
+                      expect(verification.claimString).to.eq(constructClaim());
+                    });
+                  });
+
+                  describe("when a target weight is above the max weight", () => {
+                    beforeEach(async () => {
+                      // WBTC is 0.2 of the 0.375 WETH of target value
+                      rebalanceRules = { maxWeightPerAsset: ether(0.5) };
+                    });
+
+                    it("should fail", async () => {
+                      const tx = await subject();
+
+                      const verification = await verify(tx.hash);
+
+                      expect(verification.status).to.eq("FAIL");
+                      expect(verification.reasons).to.have.length(1);
+                      expect(verification.reasons[0]).to.contain(`Weight of ${setV2Setup.wbtc.address}`);
+                    });
+                  });
+                });
+
                 context("when the rule hash is empty", () => {
                   beforeEach(async () => {
                     const currentSettings = await auctionRebalanceExtension.productSettings();
@@ -9,13 +9,20 @@ import {
   addSnapshotBeforeRestoreAfterEach,
   ether,
   getAccounts,
+  getPrtStakingPoolEvents,
+  getProvider,
+  getRealizedFees,
   getSetFixture,
+  getTotalSupplyBeforeAccrual,
   getStreamingFee,
   getStreamingFeeInflationAmount,
   getTransactionTimestamp,
   getWaffleExpect,
   increaseTimeAsync,
+  parseBalanceMap,
   preciseMul,
+  projectFees,
+  PrtStakingLedger,
   getRandomAccount,
   getRandomAddress
 } from "@utils/index";
@@ -347,6 +354,85 @@ describe("PrtFeeSplitExtension", () => {
         await expect(subject()).to.emit(feeExtension, "PrtFeesDistributed");
       });
 
+      it("should match the projected and realized fees and PRT Staking Pool share", async () => {
+        await feeExtension.connect(operator.wallet).updatePrtStakingPool(prtStakingPool.address);
+        await feeExtension.connect(methodologist.wallet).updatePrtStakingPool(prtStakingPool.address);
+
+        const redeemedTokens = ether(.5);
+        await setV2Setup.debtIssuanceModule.redeem(setToken.address, redeemedTokens, owner.address);
+
+        const feeState: any = await setV2Setup.streamingFeeModule.feeStates(setToken.address);
+        const totalSupply = await setToken.totalSupply();
+
+        const txn = await subject();
+        const { blockNumber } = await txn.wait();
+        const txnTimestamp = await getTransactionTimestamp(txn);
+
+        const projection = projectFees({
+          startTimestamp: feeState.lastStreamingFeeTimestamp.toNumber(),
+          totalSupply,
+          streamingFeePercentage: feeState.streamingFeePercentage,
+          issueFee: ether(.01),
+          redeemFee: ether(.005),
+          split: { extension: "PrtFeeSplitExtension", feeSplit: operatorSplit },
+          periods: [{ timestamp: txnTimestamp.toNumber(), totalSupply, issued: mintedTokens, redeemed: redeemedTokens }],
+        });
+        // From the genesis block to include the issue of the beforeEach
+        const realized = await getRealizedFees(getProvider(), {
+          setToken: setToken.address,
+          fromBlock: 0,
+          toBlock: blockNumber,
+          streamingFeeModule: setV2Setup.streamingFeeModule.address,
+          issuanceModules: [setV2Setup.debtIssuanceModule.address],
+          extensions: [feeExtension.address],
+        });
+
+        expect(await getTotalSupplyBeforeAccrual(getProvider(), setToken.address, realized.accruals[0])).to.eq(totalSupply);
+        expect(realized.streamingFee.managerFee).to.eq(projection.totals.streamingFee.managerFee);
+        expect(realized.issueFee.managerFee).to.eq(projection.totals.issueFee.managerFee);
+        expect(realized.issueFee.managerFee).to.eq(preciseMul(mintedTokens, ether(.01)));
+        expect(realized.redeemFee.managerFee).to.eq(projection.totals.redeemFee.managerFee);
+        expect(realized.redeemFee.managerFee).to.eq(preciseMul(redeemedTokens, ether(.005)));
+        expect(realized.split.operator).to.eq(projection.totals.split.operator);
+        expect(realized.split.prtStakingPool).to.eq(projection.totals.split.prtStakingPool);
+        expect(await setToken.balanceOf(prtStakingPool.address)).to.eq(projection.totals.split.prtStakingPool);
+      });
+
+      it("should replay the PRT Staking Pool rewards of each staker", async () => {
+        await feeExtension.connect(operator.wallet).updatePrtStakingPool(prtStakingPool.address);
+        await feeExtension.connect(methodologist.wallet).updatePrtStakingPool(prtStakingPool.address);
+
+        await prt.connect(owner.wallet).transfer(methodologist.address, ether(2));
+        await prt.connect(owner.wallet).approve(prtStakingPool.address, ether(2));
+        await prt.connect(methodologist.wallet).approve(prtStakingPool.address, ether(2));
+        await prtStakingPool.connect(owner.wallet).stake(ether(2));
+        await prtStakingPool.connect(methodologist.wallet).stake(ether(2));
+        // A donation mints no shares and a transfer of shares moves the stake, leaving stakes of 1 and 3
+        await prt.connect(owner.wallet).transfer(prtStakingPool.address, ether(5));
+        await prtStakingPool.connect(owner.wallet).transfer(methodologist.address, ether(1));
+
+        await subject();
+        const prtStakingPoolTake = await setToken.balanceOf(prtStakingPool.address);
+        await prtStakingPool.connect(methodologist.wallet).claim();
+
+        const events = await getPrtStakingPoolEvents(getProvider(), { pool: prtStakingPool.address, fromBlock: 0 });
+        const ledger = PrtStakingLedger.fromEvents(events);
+        const rewards = ledger.getStakerRewards();
+
+        const [snapshot] = ledger.snapshots;
+        expect(ledger.snapshots.length).to.eq(1);
+        expect(snapshot.amount).to.eq(prtStakingPoolTake);
+        expect(snapshot.totalStaked).to.eq(await prtStakingPool.totalSupply());
+        expect(rewards[owner.address].staked).to.eq(ether(1));
+        expect(rewards[owner.address].claimable).to.eq(prtStakingPoolTake.div(4));
+        expect(rewards[owner.address].claimable).to.eq(await prtStakingPool.getPendingRewards(owner.address));
+        expect(rewards[methodologist.address].staked).to.eq(ether(3));
+        expect(rewards[methodologist.address].earned).to.eq(prtStakingPoolTake.mul(3).div(4));
+        expect(rewards[methodologist.address].claimed).to.eq(await setToken.balanceOf(methodologist.address));
+        expect(rewards[methodologist.address].claimable).to.eq(ZERO);
+        expect(BigNumber.from(parseBalanceMap(ledger.toDistribution("earned")).tokenTotal).add(snapshot.unallocated)).to.eq(prtStakingPoolTake);
+      });
+
       describe("when PRT Staking Pool fees are 0", async () => {
         beforeEach(async () => {
           await feeExtension.connect(operator.wallet).updatePrtStakingPool(prtStakingPool.address);
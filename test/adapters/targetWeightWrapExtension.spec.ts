@@ -5,19 +5,27 @@ import { SetFixture } from "@utils/fixtures";
 import { SetToken, WrapModuleV2 } from "@utils/contracts/setV2";
 import {
   BaseManagerV2,
+  StandardTokenMock,
   TargetWeightWrapExtension,
   WrapV2AdapterMock,
 } from "@utils/contracts/index";
 import { Account, Address, CustomOracleNAVIssuanceSettings, TargetWeightWrapParams } from "@utils/types";
 import {
   addSnapshotBeforeRestoreAfterEach,
+  bitcoin,
+  calculateSetValuation,
+  ComponentValuation,
   ether,
   getAccounts,
   getSetFixture,
   getRandomAccount,
+  getValuationPositions,
   getWaffleExpect,
   preciseDiv,
+  preciseMul,
   getRandomAddress,
+  SetValuation,
+  usdc,
 } from "@utils/index";
 import { ADDRESS_ZERO, MAX_UINT_256, ZERO, ZERO_BYTES } from "@utils/constants";
 import { BigNumber, ContractTransaction } from "ethers";
@@ -569,6 +577,24 @@ describe("TargetWeightWrapExtension", async () => {
             expect(actualTotalValuation).to.eq(totalValuation);
           });
 
+          it("should match the off-chain valuation", async () => {
+            const offChainValuation = calculateSetValuation({
+              positions: getValuationPositions(await setToken.getPositions()),
+              prices: {
+                [setV2Setup.weth.address]: { price: ether(1), decimals: 18 },
+                [wrapAdapter.address]: { price: ether(1), decimals: 18 },
+              },
+              quoteAsset: setV2Setup.weth.address,
+            });
+
+            const actualTotalValuation = await subject();
+
+            expect(actualTotalValuation).to.eq(offChainValuation.valuation);
+            expect(await targetWeightWrapExtension.getTargetAssetWeight(wrapAdapter.address)).to.eq(
+              offChainValuation.components[1].weight
+            );
+          });
+
           context("when a NAV issuance occurs", async () => {
             beforeEach(async () => {
               await setV2Setup.weth.approve(setV2Setup.navIssuanceModule.address, MAX_UINT_256);
@@ -1335,4 +1361,97 @@ describe("TargetWeightWrapExtension", async () => {
       });
     });
   });
+
+  describe("#calculateSetValuation", async () => {
+    let valuationSetToken: SetToken;
+    let vault: StandardTokenMock;
+    let subjectQuoteAsset: Address | undefined;
+
+    // ERC4626 share worth 1.05 USDC, priced by its oracle as an ERC4626 oracle adapter would
+    const USDC_PRICE = ether(0.0005);
+    const WBTC_PRICE = ether(15);
+    const VAULT_ASSETS_PER_SHARE = usdc(1.05);
+    const VAULT_SHARE_PRICE = ether(0.000525);
+    const DEBT_UNITS = usdc(-100);
+
+    beforeEach(async () => {
+      vault = await deployer.mocks.deployStandardTokenMock(owner.address, 18);
+
+      const priceOracle = setV2Setup.priceOracle;
+      await priceOracle.addPair(setV2Setup.usdc.address, setV2Setup.weth.address, (await deployer.setV2.deployOracleMock(USDC_PRICE)).address);
+      await priceOracle.addPair(setV2Setup.wbtc.address, setV2Setup.weth.address, (await deployer.setV2.deployOracleMock(WBTC_PRICE)).address);
+      await priceOracle.addPair(vault.address, setV2Setup.weth.address, (await deployer.setV2.deployOracleMock(VAULT_SHARE_PRICE)).address);
+
+      // Owner acts as the module holding the USDC debt, as a leverage module would
+      await setV2Setup.controller.addModule(owner.address);
+      valuationSetToken = await setV2Setup.createSetToken(
+        [setV2Setup.weth.address, setV2Setup.wbtc.address, vault.address],
+        [ether(1), bitcoin(0.01), ether(200)],
+        [owner.address]
+      );
+      await valuationSetToken.initializeModule();
+      await valuationSetToken.addComponent(setV2Setup.usdc.address);
+      await valuationSetToken.addExternalPositionModule(setV2Setup.usdc.address, owner.address);
+      await valuationSetToken.editExternalPositionUnit(setV2Setup.usdc.address, owner.address, DEBT_UNITS);
+
+      subjectQuoteAsset = undefined;
+    });
+
+    async function subject(): Promise<SetValuation> {
+      return calculateSetValuation({
+        positions: getValuationPositions(await valuationSetToken.getPositions()),
+        prices: {
+          [setV2Setup.weth.address]: { price: ether(1), decimals: 18 },
+          [setV2Setup.usdc.address]: { price: USDC_PRICE, decimals: 6 },
+          [setV2Setup.wbtc.address]: { price: WBTC_PRICE, decimals: 8 },
+          [vault.address]: { decimals: 18, underlying: setV2Setup.usdc.address, assetsPerShare: VAULT_ASSETS_PER_SHARE },
+        },
+        quoteAsset: subjectQuoteAsset,
+      });
+    }
+
+    const getComponentValuation = (valuation: SetValuation, component: Address): ComponentValuation => {
+      return valuation.components.find(componentValuation => componentValuation.component === component) as ComponentValuation;
+    };
+
+    it("should match the SetValuer valuation including the negative external debt position", async () => {
+      const valuation = await subject();
+
+      const debtValuation = getComponentValuation(valuation, setV2Setup.usdc.address);
+      expect(debtValuation.units).to.eq(DEBT_UNITS);
+      expect(debtValuation.valuation).to.eq(preciseMul(preciseDiv(DEBT_UNITS, BigNumber.from(10).pow(6)), USDC_PRICE));
+      expect(debtValuation.weight).to.lt(ZERO);
+      expect(valuation.valuation).to.eq(
+        await setV2Setup.setValuer.calculateSetTokenValuation(valuationSetToken.address, setV2Setup.weth.address)
+      );
+    });
+
+    it("should value the ERC4626 component through its underlying as its oracle does", async () => {
+      const valuation = await subject();
+
+      const vaultValuation = getComponentValuation(valuation, vault.address);
+      expect(vaultValuation.price).to.eq(await setV2Setup.priceOracle.getPrice(vault.address, setV2Setup.weth.address));
+      expect(vaultValuation.valuation).to.eq(preciseMul(ether(200), VAULT_SHARE_PRICE));
+    });
+
+    it("should normalize the units of components with less than 18 decimals", async () => {
+      const valuation = await subject();
+
+      expect(getComponentValuation(valuation, setV2Setup.wbtc.address).valuation).to.eq(preciseMul(ether(0.01), WBTC_PRICE));
+    });
+
+    describe("when the quote asset has 6 decimals", async () => {
+      beforeEach(async () => {
+        subjectQuoteAsset = setV2Setup.usdc.address;
+      });
+
+      it("should match the SetValuer valuation in the quote asset", async () => {
+        const valuation = await subject();
+
+        expect(valuation.valuation).to.eq(
+          await setV2Setup.setValuer.calculateSetTokenValuation(valuationSetToken.address, setV2Setup.usdc.address)
+        );
+      });
+    });
+  });
 });
@@ -0,0 +1,287 @@
+import "module-alias/register";
+
+import path from "path";
+import { BigNumber, ContractTransaction } from "ethers";
+
+import { Account, Address, CustomOracleNAVIssuanceSettings, Exchange } from "@utils/types";
+import { ADDRESS_ZERO, MAX_UINT_256, ZERO } from "@utils/constants";
+import { StandardTokenMock } from "@utils/contracts/index";
+import { SetToken } from "@utils/contracts/setV2";
+import DeployHelper from "@utils/deploys";
+import {
+  buildUniV2SwapData,
+  ether,
+  flashMintGasRecorder,
+  GasBenchmarkScenario,
+  GasBenchmarkSuite,
+  getAccounts,
+  getGasRegressions,
+  getLastBlockTimestamp,
+  getNoopSwapData,
+  getProvider,
+  getSetFixture,
+  getUniswapFixture,
+  getWaffleExpect,
+  usdc,
+  wbtc,
+  writeGasReport,
+} from "@utils/index";
+import { SetFixture, UniswapFixture } from "@utils/fixtures";
+import { FlashMintDexV5 } from "@typechain/FlashMintDexV5";
+import { FlashMintNAV } from "@typechain/FlashMintNAV";
+
+const expect = getWaffleExpect();
+
+const GAS_REPORT_DIRECTORY = path.resolve(__dirname, "../../benchmarks/gas");
+const GAS_BASELINE_PATH = path.join(GAS_REPORT_DIRECTORY, "baseline.json");
+
+if (process.env.GAS_BENCHMARK) {
+  // Root hook, runs after every spec of the run so FlashMint specs recording into flashMintGasRecorder are included
+  after(async () => {
+    const rows = writeGasReport(
+      { measurements: flashMintGasRecorder.measurements },
+      {
+        directory: GAS_REPORT_DIRECTORY,
+        baselinePath: GAS_BASELINE_PATH,
+        updateBaseline: process.env.GAS_BENCHMARK_UPDATE_BASELINE === "true",
+      }
+    );
+
+    console.log(`Gas report for ${rows.length} scenarios written to ${GAS_REPORT_DIRECTORY}`);
+    getGasRegressions(rows).forEach(row => {
+      console.log(`Regression: ${row.contract} ${row.method} ${row.setToken} from ${row.inputToken}: +${row.gasDiff} gas`);
+    });
+  });
+
+  describe("FlashMint gas benchmarks", async () => {
+    let owner: Account;
+    let deployer: DeployHelper;
+    let setV2Setup: SetFixture;
+    let sushiswap: UniswapFixture;
+
+    let tokens: { [symbol: string]: StandardTokenMock };
+    let setTokens: { [label: string]: SetToken };
+
+    const sushiswapPath = (tokenPath: Address[]) => buildUniV2SwapData(Exchange.Sushiswap, tokenPath);
+
+    // FlashMintNAV links DEXAdapterV3, whose SwapData has no tickSpacing
+    const sushiswapPathV3 = (tokenPath: Address[]) => {
+      return { path: tokenPath, fees: [], pool: ADDRESS_ZERO, poolIds: [], exchange: Exchange.Sushiswap };
+    };
+
+    before(async () => {
+      [owner] = await getAccounts();
+      deployer = new DeployHelper(owner.wallet);
+
+      setV2Setup = getSetFixture(owner.address);
+      await setV2Setup.initialize();
+
+      sushiswap = getUniswapFixture(owner.address);
+      await sushiswap.initialize(owner, setV2Setup.weth.address, setV2Setup.wbtc.address, setV2Setup.usdc.address, true);
+
+      tokens = { DAI: setV2Setup.dai, USDC: setV2Setup.usdc, WBTC: setV2Setup.wbtc };
+
+      // WETH pools priced like the SetFixture oracles: ETH $230, BTC $9000
+      const liquidity: [StandardTokenMock, BigNumber, BigNumber][] = [
+        [setV2Setup.dai, ether(230000), ether(1000)],
+        [setV2Setup.usdc, usdc(230000), ether(1000)],
+        [setV2Setup.wbtc, wbtc(10), ether(391.3)],
+      ];
+      for (const [token, tokenAmount, ethAmount] of liquidity) {
+        await token.approve(sushiswap.router.address, MAX_UINT_256);
+        await sushiswap.router.addLiquidityETH(
+          token.address,
+          tokenAmount,
+          ZERO,
+          ZERO,
+          owner.address,
+          (await getLastBlockTimestamp()).add(100),
+          { value: ethAmount }
+        );
+      }
+
+      setTokens = {
+        "DAI-WBTC": await setV2Setup.createSetToken(
+          [setV2Setup.dai.address, setV2Setup.wbtc.address],
+          [ether(100), wbtc(0.01)],
+          [setV2Setup.debtIssuanceModule.address]
+        ),
+        "USDC-WBTC": await setV2Setup.createSetToken(
+          [setV2Setup.usdc.address, setV2Setup.wbtc.address],
+          [usdc(100), wbtc(0.01)],
+          [setV2Setup.debtIssuanceModule.address]
+        ),
+        "USDC-DAI NAV": await setV2Setup.createSetToken(
+          [setV2Setup.usdc.address, setV2Setup.dai.address],
+          [usdc(50), ether(50)],
+          [setV2Setup.debtIssuanceModule.address, setV2Setup.navIssuanceModule.address]
+        ),
+      };
+
+      for (const setToken of Object.values(setTokens)) {
+        await setV2Setup.debtIssuanceModule.initialize(setToken.address, ether(0.02), ZERO, ZERO, owner.address, ADDRESS_ZERO);
+      }
+
+      const navIssuanceSettings: CustomOracleNAVIssuanceSettings = {
+        managerIssuanceHook: ADDRESS_ZERO,
+        managerRedemptionHook: ADDRESS_ZERO,
+        setValuer: ADDRESS_ZERO,
+        reserveAssets: [setV2Setup.usdc.address],
+        feeRecipient: owner.address,
+        managerFees: [ZERO, ZERO],
+        maxManagerFee: ether(0.02),
+        premiumPercentage: ether(0.001),
+        maxPremiumPercentage: ether(0.1),
+        minSetTokenSupply: ether(5),
+      };
+      await setV2Setup.navIssuanceModule.initialize(setTokens["USDC-DAI NAV"].address, navIssuanceSettings);
+
+      // SetTokens to redeem in the redeem scenarios
+      for (const token of Object.values(tokens)) {
+        await token.approve(setV2Setup.debtIssuanceModule.address, MAX_UINT_256);
+      }
+      for (const setToken of Object.values(setTokens)) {
+        await setV2Setup.debtIssuanceModule.issue(setToken.address, ether(100), owner.address);
+      }
+    });
+
+    describe("FlashMintDexV5", async () => {
+      let flashMintDexV5: FlashMintDexV5;
+
+      before(async () => {
+        flashMintDexV5 = await deployer.extensions.deployFlashMintDexV5(
+          setV2Setup.weth.address,
+          sushiswap.router.address,
+          sushiswap.router.address,
+          ADDRESS_ZERO,
+          ADDRESS_ZERO,
+          ADDRESS_ZERO,
+          ADDRESS_ZERO,
+          ADDRESS_ZERO,
+          ADDRESS_ZERO,
+          ADDRESS_ZERO,
+          ADDRESS_ZERO,
+          ADDRESS_ZERO,
+          setV2Setup.controller.address,
+          setV2Setup.controller.address,
+        );
+
+        for (const label of ["DAI-WBTC", "USDC-WBTC"]) {
+          await flashMintDexV5.approveSetToken(setTokens[label].address, setV2Setup.debtIssuanceModule.address);
+          await setTokens[label].approve(flashMintDexV5.address, MAX_UINT_256);
+        }
+      });
+
+      async function execute(scenario: GasBenchmarkScenario): Promise<ContractTransaction> {
+        const setToken = setTokens[scenario.setToken];
+        const components = await setToken.getComponents();
+        const weth = setV2Setup.weth.address;
+        const params = {
+          setToken: setToken.address,
+          amountSetToken: scenario.amount,
+          componentSwapData: components.map(component => {
+            return sushiswapPath(scenario.method === "issue" ? [weth, component] : [component, weth]);
+          }),
+          issuanceModule: setV2Setup.debtIssuanceModule.address,
+          isDebtIssuance: true,
+        };
+
+        if (scenario.inputToken === "ETH") {
+          if (scenario.method === "redeem") return await flashMintDexV5.redeemExactSetForETH(params, ZERO);
+
+          const ethRequired = await flashMintDexV5.callStatic.getIssueExactSet(params, getNoopSwapData());
+          return await flashMintDexV5.issueExactSetFromETH(params, ZERO, { value: ethRequired.mul(105).div(100) });
+        }
+
+        const token = tokens[scenario.inputToken];
+        const paymentInfo = {
+          token: token.address,
+          limitAmt: ZERO,
+          swapDataTokenToWeth: sushiswapPath([token.address, weth]),
+          swapDataWethToToken: sushiswapPath([weth, token.address]),
+        };
+        if (scenario.method === "redeem") return await flashMintDexV5.redeemExactSetForERC20(params, paymentInfo);
+
+        const tokenRequired = await flashMintDexV5.callStatic.getIssueExactSet(params, paymentInfo.swapDataTokenToWeth);
+        paymentInfo.limitAmt = tokenRequired.mul(105).div(100);
+        await token.approve(flashMintDexV5.address, paymentInfo.limitAmt);
+        return await flashMintDexV5.issueExactSetFromERC20(params, paymentInfo, ZERO);
+      }
+
+      it("should issue and redeem every scenario", async () => {
+        const suite: GasBenchmarkSuite = {
+          contract: "FlashMintDexV5",
+          matrix: {
+            setTokens: ["DAI-WBTC", "USDC-WBTC"],
+            inputTokens: ["ETH", "DAI", "USDC"],
+            amounts: [ether(1), ether(10)],
+          },
+          execute,
+        };
+
+        const measurements = await flashMintGasRecorder.runSuite(getProvider(), suite);
+        expect(measurements.filter(measurement => measurement.error)).to.deep.eq([]);
+      });
+    });
+
+    describe("FlashMintNAV", async () => {
+      let flashMintNAV: FlashMintNAV;
+
+      before(async () => {
+        flashMintNAV = await deployer.extensions.deployFlashMintNAV(
+          setV2Setup.weth.address,
+          sushiswap.router.address,
+          sushiswap.router.address,
+          ADDRESS_ZERO,
+          ADDRESS_ZERO,
+          ADDRESS_ZERO,
+          ADDRESS_ZERO,
+          ADDRESS_ZERO,
+          setV2Setup.controller.address,
+          setV2Setup.navIssuanceModule.address,
+        );
+
+        await flashMintNAV.approveSetToken(setTokens["USDC-DAI NAV"].address);
+        await setTokens["USDC-DAI NAV"].approve(flashMintNAV.address, MAX_UINT_256);
+      });
+
+      // Issue amounts are exact input token amounts, redeem amounts are SetToken amounts
+      async function execute(scenario: GasBenchmarkScenario): Promise<ContractTransaction> {
+        const setToken = setTokens[scenario.setToken].address;
+        const weth = setV2Setup.weth.address;
+        const reserveAsset = setV2Setup.usdc.address;
+
+        if (scenario.inputToken === "ETH") {
+          return scenario.method === "issue"
+            ? await flashMintNAV.issueSetFromExactETH(setToken, ZERO, sushiswapPathV3([weth, reserveAsset]), { value: scenario.amount })
+            : await flashMintNAV.redeemExactSetForETH(setToken, scenario.amount, ZERO, sushiswapPathV3([reserveAsset, weth]));
+        }
+
+        const token = tokens[scenario.inputToken];
+        if (scenario.method === "redeem") {
+          const swapData = sushiswapPathV3([reserveAsset, weth, token.address]);
+          return await flashMintNAV.redeemExactSetForERC20(setToken, scenario.amount, token.address, ZERO, swapData);
+        }
+
+        await token.approve(flashMintNAV.address, scenario.amount);
+        const swapData = sushiswapPathV3([token.address, weth, reserveAsset]);
+        return await flashMintNAV.issueSetFromExactERC20(setToken, ZERO, token.address, scenario.amount, swapData);
+      }
+
+      it("should issue and redeem every scenario", async () => {
+        const suite: GasBenchmarkSuite = {
+          contract: "FlashMintNAV",
+          matrix: {
+            setTokens: ["USDC-DAI NAV"],
+            inputTokens: ["ETH", "DAI"],
+            amounts: [ether(1), ether(10)],
+          },
+          execute,
+        };
+
+        const measurements = await flashMintGasRecorder.runSuite(getProvider(), suite);
+        expect(measurements.filter(measurement => measurement.error)).to.deep.eq([]);
+      });
+    });
+  });
+}
@@ -29,6 +29,7 @@ import {
   getIssueSetForExactETH,
   getRedeemExactSetForETH,
 } from "@utils/common/exchangeIssuanceUtils";
+import { PriceSource, UniswapV2PriceSource } from "@utils/common/priceSourceUtils";
 import { getTxFee } from "@utils/test";
 
 const expect = getWaffleExpect();
@@ -166,6 +167,7 @@ describe("ExchangeIssuance", async () => {
     let uniswapRouter: UniswapV2Router02;
     let sushiswapFactory: UniswapV2Factory;
     let sushiswapRouter: UniswapV2Router02;
+    let priceSources: PriceSource[];
     let controllerAddress: Address;
     let basicIssuanceModuleAddress: Address;
 
@@ -226,6 +228,10 @@ describe("ExchangeIssuance", async () => {
       uniswapRouter = uniswapSetup.router;
       sushiswapFactory = sushiswapSetup.factory;
       sushiswapRouter = sushiswapSetup.router;
+      priceSources = [
+        new UniswapV2PriceSource(uniswapRouter, uniswapFactory),
+        new UniswapV2PriceSource(sushiswapRouter, sushiswapFactory),
+      ];
       controllerAddress = setV2Setup.controller.address;
       basicIssuanceModuleAddress = setV2Setup.issuanceModule.address;
 
@@ -450,10 +456,7 @@ describe("ExchangeIssuance", async () => {
           subjectSetToken,
           subjectInputToken.address,
           subjectAmountInput,
-          uniswapRouter,
-          uniswapFactory,
-          sushiswapRouter,
-          sushiswapFactory,
+          priceSources,
           weth.address
         );
 
@@ -479,10 +482,7 @@ describe("ExchangeIssuance", async () => {
           subjectSetToken,
           subjectInputToken.address,
           subjectAmountInput,
-          uniswapRouter,
-          uniswapFactory,
-          sushiswapRouter,
-          sushiswapFactory,
+          priceSources,
           weth.address
         );
 
@@ -509,10 +509,7 @@ describe("ExchangeIssuance", async () => {
             subjectSetToken,
             subjectInputToken.address,
             subjectAmountInput,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -538,10 +535,7 @@ describe("ExchangeIssuance", async () => {
             subjectSetToken,
             subjectInputToken.address,
             subjectAmountInput,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -569,10 +563,7 @@ describe("ExchangeIssuance", async () => {
             subjectSetToken,
             subjectInputToken.address,
             subjectAmountInput,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -598,10 +589,7 @@ describe("ExchangeIssuance", async () => {
             subjectSetToken,
             subjectInputToken.address,
             subjectAmountInput,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -680,10 +668,7 @@ describe("ExchangeIssuance", async () => {
         const expectedOutput = await getIssueSetForExactETH(
           subjectSetToken,
           subjectAmountETHInput,
-          uniswapRouter,
-          uniswapFactory,
-          sushiswapRouter,
-          sushiswapFactory,
+          priceSources,
           subjectWethAddress
         );
 
@@ -711,10 +696,7 @@ describe("ExchangeIssuance", async () => {
         const expectedSetTokenAmount = await getIssueSetForExactETH(
           subjectSetToken,
           subjectAmountETHInput,
-          uniswapRouter,
-          uniswapFactory,
-          sushiswapRouter,
-          sushiswapFactory,
+          priceSources,
           subjectWethAddress
         );
 
@@ -823,10 +805,7 @@ describe("ExchangeIssuance", async () => {
           subjectInputToken,
           subjectMaxAmountInput,
           subjectAmountSetToken,
-          uniswapRouter,
-          uniswapFactory,
-          sushiswapRouter,
-          sushiswapFactory,
+          priceSources,
           weth.address
         );
 
@@ -854,10 +833,7 @@ describe("ExchangeIssuance", async () => {
           subjectInputToken,
           subjectMaxAmountInput,
           subjectAmountSetToken,
-          uniswapRouter,
-          uniswapFactory,
-          sushiswapRouter,
-          sushiswapFactory,
+          priceSources,
           weth.address
         );
 
@@ -910,10 +886,7 @@ describe("ExchangeIssuance", async () => {
             subjectInputToken,
             subjectMaxAmountInput,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -941,10 +914,7 @@ describe("ExchangeIssuance", async () => {
             subjectInputToken,
             subjectMaxAmountInput,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -960,10 +930,7 @@ describe("ExchangeIssuance", async () => {
               subjectSetToken,
               subjectInputToken,
               subjectAmountSetToken,
-              uniswapRouter,
-              uniswapFactory,
-              sushiswapRouter,
-              sushiswapFactory,
+              priceSources,
               weth.address
             );
           });
@@ -1015,10 +982,7 @@ describe("ExchangeIssuance", async () => {
             subjectInputToken,
             subjectMaxAmountInput,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -1046,10 +1010,7 @@ describe("ExchangeIssuance", async () => {
             subjectInputToken,
             subjectMaxAmountInput,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -1160,10 +1121,7 @@ describe("ExchangeIssuance", async () => {
         const expectedCost = await getIssueExactSetFromETH(
           subjectSetToken,
           subjectAmountSetToken,
-          uniswapRouter,
-          uniswapFactory,
-          sushiswapRouter,
-          sushiswapFactory,
+          priceSources,
           weth.address
         );
 
@@ -1179,10 +1137,7 @@ describe("ExchangeIssuance", async () => {
         const expectedCost = await getIssueExactSetFromETH(
           subjectSetToken,
           subjectAmountSetToken,
-          uniswapRouter,
-          uniswapFactory,
-          sushiswapRouter,
-          sushiswapFactory,
+          priceSources,
           weth.address
         );
 
@@ -1200,10 +1155,7 @@ describe("ExchangeIssuance", async () => {
           subjectAmountETHInput = await getIssueExactSetFromETH(
             subjectSetToken,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
         });
@@ -1334,10 +1286,7 @@ describe("ExchangeIssuance", async () => {
         const expectedEthReturned = await getRedeemExactSetForETH(
           subjectSetToken,
           subjectAmountSetToken,
-          uniswapRouter,
-          uniswapFactory,
-          sushiswapRouter,
-          sushiswapFactory,
+          priceSources,
           weth.address
         );
 
@@ -1353,10 +1302,7 @@ describe("ExchangeIssuance", async () => {
         const expectedEthReturned = await getRedeemExactSetForETH(
           subjectSetToken,
           subjectAmountSetToken,
-          uniswapRouter,
-          uniswapFactory,
-          sushiswapRouter,
-          sushiswapFactory,
+          priceSources,
           weth.address
         );
 
@@ -1465,10 +1411,7 @@ describe("ExchangeIssuance", async () => {
           subjectSetToken,
           subjectOutputToken,
           subjectAmountSetToken,
-          uniswapRouter,
-          uniswapFactory,
-          sushiswapRouter,
-          sushiswapFactory,
+          priceSources,
           weth.address
         );
 
@@ -1484,10 +1427,7 @@ describe("ExchangeIssuance", async () => {
           subjectSetToken,
           subjectOutputToken,
           subjectAmountSetToken,
-          uniswapRouter,
-          uniswapFactory,
-          sushiswapRouter,
-          sushiswapFactory,
+          priceSources,
           weth.address
         );
 
@@ -1541,10 +1481,7 @@ describe("ExchangeIssuance", async () => {
             subjectSetToken,
             subjectOutputToken,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -1599,10 +1536,7 @@ describe("ExchangeIssuance", async () => {
             subjectSetToken,
             subjectOutputToken,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -1618,10 +1552,7 @@ describe("ExchangeIssuance", async () => {
             subjectSetToken,
             subjectOutputToken,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -1689,10 +1620,7 @@ describe("ExchangeIssuance", async () => {
             subjectSetToken,
             subjectInputToken.address,
             subjectAmountInput,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
           const actualSetOutput = await subject();
@@ -1711,10 +1639,7 @@ describe("ExchangeIssuance", async () => {
             subjectSetToken,
             subjectInputToken.address,
             subjectAmountInput,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
           const actualSetOutput = await subject();
@@ -1753,10 +1678,7 @@ describe("ExchangeIssuance", async () => {
             subjectSetToken,
             subjectInputToken.address,
             subjectAmountInput,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
           const actualSetOutput = await subject();
@@ -1804,10 +1726,7 @@ describe("ExchangeIssuance", async () => {
             subjectSetToken,
             subjectInputToken,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
           const actualInputAmount = await subject();
@@ -1826,10 +1745,7 @@ describe("ExchangeIssuance", async () => {
             subjectSetToken,
             subjectInputToken,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
           const actualInputAmount = await subject();
@@ -1858,10 +1774,7 @@ describe("ExchangeIssuance", async () => {
             subjectSetToken,
             subjectInputToken,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
           const actualInputAmount = await subject();
@@ -1920,10 +1833,7 @@ describe("ExchangeIssuance", async () => {
             subjectSetToken,
             subjectOutputToken,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
           const actualOutputAmount = await subject();
@@ -1942,10 +1852,7 @@ describe("ExchangeIssuance", async () => {
             subjectSetToken,
             subjectOutputToken,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
           const actualOutputAmount = await subject();
@@ -1964,10 +1871,7 @@ describe("ExchangeIssuance", async () => {
             subjectSetToken,
             subjectOutputToken,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
           const actualOutputAmount = await subject();
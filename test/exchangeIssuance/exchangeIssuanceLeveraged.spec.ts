@@ -28,6 +28,7 @@ import DeployHelper from "@utils/deploys";
 import {
   cacheBeforeEach,
   ether,
+  flashMintGasRecorder,
   getAaveV2Fixture,
   getAccounts,
   getLastBlockTimestamp,
@@ -613,7 +614,10 @@ describe("ExchangeIssuanceLeveraged", async () => {
           await setToken.approve(exchangeIssuance.address, subjectSetAmount);
         });
         it("should succeed", async () => {
-          await subject();
+          await flashMintGasRecorder.record(
+            { contract: "ExchangeIssuanceLeveraged", method: "redeem", setToken: "aWETH", inputToken: tokenName, amount: subjectSetAmount },
+            await subject(),
+          );
         });
         it("should reduce set balance by the expected amount", async () => {
           const balanceBefore = await setToken.balanceOf(owner.address);
@@ -738,7 +742,10 @@ describe("ExchangeIssuanceLeveraged", async () => {
           await exchangeIssuance.approveSetToken(setToken.address);
         });
         it("should succeed", async () => {
-          await subject();
+          await flashMintGasRecorder.record(
+            { contract: "ExchangeIssuanceLeveraged", method: "issue", setToken: "aWETH", inputToken: tokenName, amount: subjectSetAmount },
+            await subject(),
+          );
         });
         it("should return the requested amount of set", async () => {
           const balanceBefore = await setToken.balanceOf(owner.address);
@@ -26,6 +26,7 @@ import {
   getRedeemExactSetForToken,
   getIssueExactSetFromTokenRefund,
 } from "@utils/common/exchangeIssuanceUtils";
+import { PriceSource, UniswapV2PriceSource } from "@utils/common/priceSourceUtils";
 
 
 const expect = getWaffleExpect();
@@ -164,6 +165,7 @@ describe("ExchangeIssuanceV2", async () => {
     let uniswapRouter: UniswapV2Router02;
     let sushiswapFactory: UniswapV2Factory;
     let sushiswapRouter: UniswapV2Router02;
+    let priceSources: PriceSource[];
     let controllerAddress: Address;
     let basicIssuanceModuleAddress: Address;
 
@@ -224,6 +226,10 @@ describe("ExchangeIssuanceV2", async () => {
       uniswapRouter = uniswapSetup.router;
       sushiswapFactory = sushiswapSetup.factory;
       sushiswapRouter = sushiswapSetup.router;
+      priceSources = [
+        new UniswapV2PriceSource(uniswapRouter, uniswapFactory),
+        new UniswapV2PriceSource(sushiswapRouter, sushiswapFactory),
+      ];
       controllerAddress = setV2Setup.controller.address;
       basicIssuanceModuleAddress = setV2Setup.issuanceModule.address;
 
@@ -430,10 +436,7 @@ describe("ExchangeIssuanceV2", async () => {
           subjectSetToken,
           subjectInputToken.address,
           subjectAmountInput,
-          uniswapRouter,
-          uniswapFactory,
-          sushiswapRouter,
-          sushiswapFactory,
+          priceSources,
           weth.address
         );
 
@@ -459,10 +462,7 @@ describe("ExchangeIssuanceV2", async () => {
           subjectSetToken,
           subjectInputToken.address,
           subjectAmountInput,
-          uniswapRouter,
-          uniswapFactory,
-          sushiswapRouter,
-          sushiswapFactory,
+          priceSources,
           weth.address
         );
 
@@ -487,10 +487,7 @@ describe("ExchangeIssuanceV2", async () => {
             subjectSetToken,
             subjectInputToken.address,
             subjectAmountInput,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -516,10 +513,7 @@ describe("ExchangeIssuanceV2", async () => {
             subjectSetToken,
             subjectInputToken.address,
             subjectAmountInput,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -547,10 +541,7 @@ describe("ExchangeIssuanceV2", async () => {
             subjectSetToken,
             subjectInputToken.address,
             subjectAmountInput,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -576,10 +567,7 @@ describe("ExchangeIssuanceV2", async () => {
             subjectSetToken,
             subjectInputToken.address,
             subjectAmountInput,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -684,10 +672,7 @@ describe("ExchangeIssuanceV2", async () => {
           subjectInputToken,
           subjectMaxAmountInput,
           subjectAmountSetToken,
-          uniswapRouter,
-          uniswapFactory,
-          sushiswapRouter,
-          sushiswapFactory,
+          priceSources,
           weth.address
         );
 
@@ -714,10 +699,7 @@ describe("ExchangeIssuanceV2", async () => {
           subjectInputToken,
           subjectMaxAmountInput,
           subjectAmountSetToken,
-          uniswapRouter,
-          uniswapFactory,
-          sushiswapRouter,
-          sushiswapFactory,
+          priceSources,
           weth.address
         );
 
@@ -781,10 +763,7 @@ describe("ExchangeIssuanceV2", async () => {
             subjectInputToken,
             subjectMaxAmountInput,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -813,10 +792,7 @@ describe("ExchangeIssuanceV2", async () => {
             subjectInputToken,
             subjectMaxAmountInput,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -832,10 +808,7 @@ describe("ExchangeIssuanceV2", async () => {
               subjectSetToken,
               subjectInputToken,
               subjectAmountSetToken,
-              uniswapRouter,
-              uniswapFactory,
-              sushiswapRouter,
-              sushiswapFactory,
+              priceSources,
               weth.address
             );
           });
@@ -885,10 +858,7 @@ describe("ExchangeIssuanceV2", async () => {
             subjectInputToken,
             subjectMaxAmountInput,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -915,10 +885,7 @@ describe("ExchangeIssuanceV2", async () => {
             subjectInputToken,
             subjectMaxAmountInput,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -1049,10 +1016,7 @@ describe("ExchangeIssuanceV2", async () => {
           subjectSetToken,
           subjectOutputToken,
           subjectAmountSetToken,
-          uniswapRouter,
-          uniswapFactory,
-          sushiswapRouter,
-          sushiswapFactory,
+          priceSources,
           weth.address
         );
 
@@ -1068,10 +1032,7 @@ describe("ExchangeIssuanceV2", async () => {
           subjectSetToken,
           subjectOutputToken,
           subjectAmountSetToken,
-          uniswapRouter,
-          uniswapFactory,
-          sushiswapRouter,
-          sushiswapFactory,
+          priceSources,
           weth.address
         );
 
@@ -1125,10 +1086,7 @@ describe("ExchangeIssuanceV2", async () => {
             subjectSetToken,
             subjectOutputToken,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -1181,10 +1139,7 @@ describe("ExchangeIssuanceV2", async () => {
             subjectSetToken,
             subjectOutputToken,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -1200,10 +1155,7 @@ describe("ExchangeIssuanceV2", async () => {
             subjectSetToken,
             subjectOutputToken,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
 
@@ -1269,10 +1221,7 @@ describe("ExchangeIssuanceV2", async () => {
             subjectSetToken,
             subjectInputToken.address,
             subjectAmountInput,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
           const actualSetOutput = await subject();
@@ -1291,10 +1240,7 @@ describe("ExchangeIssuanceV2", async () => {
             subjectSetToken,
             subjectInputToken.address,
             subjectAmountInput,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
           const actualSetOutput = await subject();
@@ -1333,10 +1279,7 @@ describe("ExchangeIssuanceV2", async () => {
             subjectSetToken,
             subjectInputToken.address,
             subjectAmountInput,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
           const actualSetOutput = await subject();
@@ -1384,10 +1327,7 @@ describe("ExchangeIssuanceV2", async () => {
             subjectSetToken,
             subjectInputToken,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
           const actualInputAmount = await subject();
@@ -1406,10 +1346,7 @@ describe("ExchangeIssuanceV2", async () => {
             subjectSetToken,
             subjectInputToken,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
           const actualInputAmount = await subject();
@@ -1438,10 +1375,7 @@ describe("ExchangeIssuanceV2", async () => {
             subjectSetToken,
             subjectInputToken,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
           const actualInputAmount = await subject();
@@ -1500,10 +1434,7 @@ describe("ExchangeIssuanceV2", async () => {
             subjectSetToken,
             subjectOutputToken,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
           const actualOutputAmount = await subject();
@@ -1522,10 +1453,7 @@ describe("ExchangeIssuanceV2", async () => {
             subjectSetToken,
             subjectOutputToken,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
           const actualOutputAmount = await subject();
@@ -1544,10 +1472,7 @@ describe("ExchangeIssuanceV2", async () => {
             subjectSetToken,
             subjectOutputToken,
             subjectAmountSetToken,
-            uniswapRouter,
-            uniswapFactory,
-            sushiswapRouter,
-            sushiswapFactory,
+            priceSources,
             weth.address
           );
           const actualOutputAmount = await subject();
@@ -34,6 +34,7 @@ import DeployHelper from "@utils/deploys";
 import {
   cacheBeforeEach,
   ether,
+  flashMintGasRecorder,
   getAaveV2Fixture,
   getCompoundFixture,
   getAccounts,
@@ -779,7 +780,10 @@ describe("ExchangeIssuanceLeveragedForCompound", async () => {
             await exchangeIssuance.approveSetToken(setToken.address);
           });
           it("should succeed", async () => {
-            await subject();
+            await flashMintGasRecorder.record(
+              { contract: "FlashMintLeveragedForCompound", method: "issue", setToken: "CEther", inputToken: tokenName, amount: subjectSetAmount },
+              await subject(),
+            );
           });
           it("should return the requested amount of set", async () => {
             const balanceBefore = await setToken.balanceOf(owner.address);
@@ -964,7 +968,10 @@ describe("ExchangeIssuanceLeveragedForCompound", async () => {
             await setToken.approve(exchangeIssuance.address, subjectSetAmount);
           });
           it("should succeed", async () => {
-            await subject();
+            await flashMintGasRecorder.record(
+              { contract: "FlashMintLeveragedForCompound", method: "redeem", setToken: "CEther", inputToken: tokenName, amount: subjectSetAmount },
+              await subject(),
+            );
           });
           it("should reduce set balance by the expected amount", async () => {
             const balanceBefore = await setToken.balanceOf(owner.address);
@@ -1765,7 +1772,10 @@ describe("ExchangeIssuanceLeveragedForCompound", async () => {
             await exchangeIssuance.approveSetToken(setToken.address);
           });
           it("should succeed", async () => {
-            await subject();
+            await flashMintGasRecorder.record(
+              { contract: "FlashMintLeveragedForCompound", method: "issue", setToken: "CErc20", inputToken: tokenName, amount: subjectSetAmount },
+              await subject(),
+            );
           });
           it("should return the requested amount of set", async () => {
             const balanceBefore = await setToken.balanceOf(owner.address);
@@ -1921,7 +1931,10 @@ describe("ExchangeIssuanceLeveragedForCompound", async () => {
             await setToken.approve(exchangeIssuance.address, subjectSetAmount);
           });
           it("should succeed", async () => {
-            await subject();
+            await flashMintGasRecorder.record(
+              { contract: "FlashMintLeveragedForCompound", method: "redeem", setToken: "CErc20", inputToken: tokenName, amount: subjectSetAmount },
+              await subject(),
+            );
           });
           it("should reduce set balance by the expected amount", async () => {
             const balanceBefore = await setToken.balanceOf(owner.address);
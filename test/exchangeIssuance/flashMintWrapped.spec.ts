@@ -5,6 +5,7 @@ import { SetToken } from "@utils/contracts/setV2";
 import {
   cacheBeforeEach,
   ether,
+  flashMintGasRecorder,
   getAccounts,
   getSetFixture,
   getWaffleExpect,
@@ -911,7 +912,10 @@ describe("FlashMintWrapped", async () => {
 
             //#region issue tests with amount checks
             it(`should issue from ${tokenName}`, async () => {
-              await subject();
+              await flashMintGasRecorder.record(
+                { contract: "FlashMintWrapped", method: "issue", setToken: set_token_mix, inputToken: tokenName, amount: issueSetAmount },
+                await subject(),
+              );
             });
 
             it(`should not have left over amounts in contract after issue`, async () => {
@@ -1192,7 +1196,10 @@ describe("FlashMintWrapped", async () => {
 
             //#region redeem tests with amount checks
             it(`should redeem to ${tokenName}`, async () => {
-              await subject();
+              await flashMintGasRecorder.record(
+                { contract: "FlashMintWrapped", method: "redeem", setToken: set_token_mix, inputToken: tokenName, amount: redeemSetAmount },
+                await subject(),
+              );
             });
 
             it(`should not have left over amounts in contract after redeem`, async () => {
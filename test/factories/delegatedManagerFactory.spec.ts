@@ -1,8 +1,12 @@
 import "module-alias/register";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import yaml from "js-yaml";
 
 import { BigNumber, ContractTransaction } from "ethers";
-import { Address, Account } from "@utils/types";
-import { ADDRESS_ZERO, ZERO, MODULE_STATE } from "@utils/constants";
+import { Address, Account, DeploymentPlan, DeploymentPlanState } from "@utils/types";
+import { ADDRESS_ZERO, ONE, ZERO, MODULE_STATE } from "@utils/constants";
 import { ProtocolUtils } from "@utils/common";
 import {
   DelegatedManagerFactory,
@@ -10,8 +14,16 @@ import {
   BaseGlobalExtensionMock,
   ManagerCore,
   ModuleMock,
+  SafeMock,
 } from "@utils/contracts/index";
 import DeployHelper from "@utils/deploys";
+import {
+  CREATE_SET_AND_MANAGER_STEP,
+  DeploymentPlanRunner,
+  INITIALIZE_STEP,
+  getDeploymentPlanHash,
+  loadDeploymentPlan,
+} from "@utils/deploys/deploymentPlan";
 import {
   cacheBeforeEach,
   ether,
@@ -20,6 +32,12 @@ import {
   getWaffleExpect,
   getRandomAccount,
   getProtocolUtils,
+  getProvider,
+  getSafeBatchCalldata,
+  getSimulatedChainId,
+  OperatorChangedEvent,
+  SafeBatchBuilder,
+  SetTokenEventIndexer,
 } from "@utils/index";
 import { SetFixture } from "@utils/fixtures";
 import { SetToken } from "@utils/contracts/setV2";
@@ -316,6 +334,32 @@ describe("DelegatedManagerFactory", () => {
       );
     });
 
+    it("should index the SetToken and DelegatedManager lifecycle events", async() => {
+      const tx = await subject();
+      const receipt = await tx.wait();
+
+      const setTokenAddress = await protocolUtils.getCreatedSetTokenAddress(tx.hash);
+      const timeline = await new SetTokenEventIndexer(getProvider()).getTimeline(setTokenAddress, {
+        fromBlock: receipt.blockNumber,
+        toBlock: receipt.blockNumber,
+      });
+
+      expect(timeline.map(event => event.type)).to.deep.eq([
+        "SetTokenCreated",
+        "UseAssetAllowlistUpdated",
+        "ExtensionAdded",
+        "ExtensionAdded",
+        "OperatorAdded",
+        "OperatorAdded",
+        "AllowedAssetAdded",
+        "AllowedAssetAdded",
+        "DelegatedManagerCreated",
+      ]);
+      expect(timeline.map(event => event.setToken)).to.deep.eq(Array(timeline.length).fill(setTokenAddress));
+      expect(timeline.filter(event => event.type === "OperatorAdded").map(event => (event as OperatorChangedEvent).operator))
+        .to.deep.eq(subjectOperators);
+    });
+
     describe("when the assets array is non-empty but missing some component elements", async() => {
       beforeEach(async() => {
         subjectAssets = [setV2Setup.dai.address];
@@ -868,4 +912,227 @@ describe("DelegatedManagerFactory", () => {
       });
     });
   });
+
+  describe("DeploymentPlanRunner", async () => {
+    let plan: DeploymentPlan;
+    let statePath: string;
+
+    beforeEach(async () => {
+      plan = {
+        factory: delegatedManagerFactory.address,
+        name: "TestToken",
+        symbol: "TT",
+        owner: otherAccount.address,
+        methodologist: methodologist.address,
+        components: [
+          { address: setV2Setup.dai.address, unit: ether(1).toString() },
+          { address: setV2Setup.wbtc.address, unit: ether(.1).toString() },
+        ],
+        modules: [mockFeeModule.address, mockIssuanceModule.address],
+        operators: [operatorOne.address, operatorTwo.address],
+        allowedAssets: [setV2Setup.dai.address, setV2Setup.wbtc.address],
+        ownerFeeSplit: ether(.5).toString(),
+        ownerFeeRecipient: otherAccount.address,
+        extensions: [
+          { type: "trade", address: mockFeeExtension.address },
+          { type: "trade", address: mockIssuanceExtension.address },
+        ],
+      };
+      statePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "deployment-plan-")), "plan.hardhat.state.json");
+    });
+
+    afterEach(async () => {
+      fs.rmSync(path.dirname(statePath), { recursive: true, force: true });
+    });
+
+    // Sends createSetAndManager and records it as pending, like a run stopped before its confirmation
+    async function interruptAfterCreate(): Promise<ContractTransaction> {
+      const tx = await delegatedManagerFactory.createSetAndManager(
+        plan.components.map(component => component.address),
+        plan.components.map(component => BigNumber.from(component.unit)),
+        plan.name,
+        plan.symbol,
+        plan.owner,
+        plan.methodologist,
+        plan.modules,
+        plan.operators,
+        plan.allowedAssets,
+        plan.extensions.map(extension => extension.address)
+      );
+
+      const state: DeploymentPlanState = {
+        planHash: getDeploymentPlanHash(plan),
+        completedSteps: {},
+        pendingStep: { id: CREATE_SET_AND_MANAGER_STEP, txHash: tx.hash },
+      };
+      fs.writeFileSync(statePath, JSON.stringify(state), "utf8");
+      return tx;
+    }
+
+    async function subject(): Promise<DeploymentPlanState> {
+      return new DeploymentPlanRunner(owner.wallet, plan, statePath, { confirmationTimeout: 1000 }).run();
+    }
+
+    it("should create and initialize the SetToken and its DelegatedManager", async () => {
+      const state = await subject();
+
+      const initializeState = await delegatedManagerFactory.initializeState(state.setToken as Address);
+      const delegatedManager = await deployer.manager.getDelegatedManager(state.manager as Address);
+      expect(initializeState.isPending).to.be.false;
+      expect(await delegatedManager.owner()).to.eq(otherAccount.address);
+      expect(Object.keys(state.completedSteps)).to.deep.eq([CREATE_SET_AND_MANAGER_STEP, INITIALIZE_STEP]);
+      expect(state.pendingStep).to.be.undefined;
+    });
+
+    describe("when a run was interrupted after sending createSetAndManager", async () => {
+      let createTx: ContractTransaction;
+
+      beforeEach(async () => {
+        createTx = await interruptAfterCreate();
+      });
+
+      it("should resume with the SetToken of the pending transaction", async () => {
+        const setsBefore = await setV2Setup.controller.getSets();
+
+        const state = await subject();
+
+        const setsAfter = await setV2Setup.controller.getSets();
+        const initializeState = await delegatedManagerFactory.initializeState(state.setToken as Address);
+        expect(state.setToken).to.eq(await protocolUtils.getCreatedSetTokenAddress(createTx.hash));
+        expect(state.completedSteps[CREATE_SET_AND_MANAGER_STEP]).to.eq(createTx.hash);
+        expect(setsAfter.length).to.eq(setsBefore.length);
+        expect(initializeState.isPending).to.be.false;
+      });
+    });
+
+    describe("when the pending createSetAndManager transaction was dropped", async () => {
+      let droppedTx: ContractTransaction;
+
+      beforeEach(async () => {
+        await getProvider().send("evm_setAutomine", [false]);
+        droppedTx = await interruptAfterCreate();
+        await getProvider().send("hardhat_dropTransaction", [droppedTx.hash]);
+        await getProvider().send("evm_setAutomine", [true]);
+      });
+
+      it("should execute createSetAndManager again", async () => {
+        const setsBefore = await setV2Setup.controller.getSets();
+
+        const state = await subject();
+
+        // The step is sent again with the dropped transaction's nonce and fields, so the hash can be the same
+        const createTxHash = state.completedSteps[CREATE_SET_AND_MANAGER_STEP];
+        const receipt = await getProvider().getTransactionReceipt(createTxHash);
+        expect(receipt.status).to.eq(1);
+        expect(state.setToken).to.eq(await protocolUtils.getCreatedSetTokenAddress(createTxHash));
+        expect((await setV2Setup.controller.getSets()).length).to.eq(setsBefore.length + 1);
+      });
+    });
+
+    describe("when the plan has been completed", async () => {
+      beforeEach(async () => {
+        await subject();
+      });
+
+      it("should not send any transaction", async () => {
+        const nonceBefore = await owner.wallet.getTransactionCount();
+
+        await subject();
+
+        expect(await owner.wallet.getTransactionCount()).to.eq(nonceBefore);
+      });
+    });
+
+    describe("when the plan is run by a Safe", async () => {
+      let safeBatch: SafeBatchBuilder;
+
+      beforeEach(async () => {
+        safeBatch = new SafeBatchBuilder(owner.address, await getSimulatedChainId(getProvider()), getProvider());
+      });
+
+      async function subject(): Promise<DeploymentPlanState> {
+        return new DeploymentPlanRunner(owner.wallet, plan, statePath, { confirmationTimeout: 1000, safeBatch }).run();
+      }
+
+      // The owner stands in for the Safe and executes the call of the batch
+      async function executeBatch(): Promise<ContractTransaction> {
+        const [transaction] = safeBatch.transactions;
+        return owner.wallet.sendTransaction({ to: transaction.to, data: getSafeBatchCalldata(transaction) });
+      }
+
+      async function confirm(txHash: string): Promise<DeploymentPlanState> {
+        return new DeploymentPlanRunner(owner.wallet, plan, statePath, { confirmationTimeout: 1000 }).confirmCapturedSteps(txHash);
+      }
+
+      it("should capture createSetAndManager alone without sending it", async () => {
+        const nonceBefore = await owner.wallet.getTransactionCount();
+
+        const state = await subject();
+
+        expect(await owner.wallet.getTransactionCount()).to.eq(nonceBefore);
+        expect(state.capturedSteps).to.deep.eq([CREATE_SET_AND_MANAGER_STEP]);
+        expect(safeBatch.transactions.map(transaction => transaction.contractMethod!.name)).to.deep.eq(["createSetAndManager"]);
+      });
+
+      describe("when the Safe's call of the batch failed", async () => {
+        let safeMock: SafeMock;
+
+        beforeEach(async () => {
+          safeMock = await deployer.mocks.deploySafeMock();
+        });
+
+        it("should revert and keep the steps captured", async () => {
+          await subject();
+          // createSetAndManager isn't payable, so the Safe's call fails
+          const [transaction] = safeBatch.transactions;
+          const executionTx = await safeMock.execTransaction(transaction.to, ONE, getSafeBatchCalldata(transaction), { value: ONE });
+
+          let errorMessage: string | undefined;
+          try {
+            await confirm(executionTx.hash);
+          } catch (error) {
+            errorMessage = (error as Error).message;
+          }
+
+          const state: DeploymentPlanState = JSON.parse(fs.readFileSync(statePath, "utf8"));
+          expect((await executionTx.wait()).status).to.eq(1);
+          expect(errorMessage).to.eq(
+            `Safe ${safeMock.address} failed to execute the batch of ${CREATE_SET_AND_MANAGER_STEP} in ${executionTx.hash} (ExecutionFailure)`
+          );
+          expect(state.capturedSteps).to.deep.eq([CREATE_SET_AND_MANAGER_STEP]);
+          expect(state.completedSteps).to.deep.eq({});
+        });
+      });
+
+      it("should complete the plan from the executions of its batches", async () => {
+        await subject();
+        const createTx = await executeBatch();
+        await confirm(createTx.hash);
+
+        safeBatch = new SafeBatchBuilder(owner.address, await getSimulatedChainId(getProvider()), getProvider());
+        const capturedState = await subject();
+        const initializeTx = await executeBatch();
+        const state = await confirm(initializeTx.hash);
+
+        const initializeState = await delegatedManagerFactory.initializeState(state.setToken as Address);
+        expect(capturedState.capturedSteps).to.deep.eq([INITIALIZE_STEP]);
+        expect(state.setToken).to.eq(await protocolUtils.getCreatedSetTokenAddress(createTx.hash));
+        expect(state.completedSteps).to.deep.eq({
+          [CREATE_SET_AND_MANAGER_STEP]: createTx.hash,
+          [INITIALIZE_STEP]: initializeTx.hash,
+        });
+        expect(state.capturedSteps).to.be.undefined;
+        expect(initializeState.isPending).to.be.false;
+      });
+    });
+
+    describe("#loadDeploymentPlan", async () => {
+      it("should read a YAML plan", async () => {
+        const planPath = path.join(path.dirname(statePath), "plan.yaml");
+        fs.writeFileSync(planPath, yaml.dump(plan), "utf8");
+
+        expect(loadDeploymentPlan(planPath)).to.deep.eq(plan);
+      });
+    });
+  });
 });
@@ -16,8 +16,10 @@ import {
 import DeployHelper from "@utils/deploys";
 import {
   addSnapshotBeforeRestoreAfterEach,
+  BatchTradePlanner,
   ether,
   getAccounts,
+  getProvider,
   getWaffleExpect,
   getSetFixture,
   getRandomAccount,
@@ -696,6 +698,21 @@ describe("GlobalBatchTradeExtension", () => {
         expect(oldReceiveTokenTwoBalance).to.eq(actualNewReceiveTokenTwoBalance);
       });
 
+      it("should plan a batch without the failing trade and leave the state unchanged", async () => {
+        const oldSendTokenBalance = await setV2Setup.dai.balanceOf(setToken.address);
+
+        const planner = new BatchTradePlanner(getProvider(), batchTradeExtension.address, setToken.address);
+        const plan = await planner.plan(subjectTrades, operator.address);
+
+        expect(plan.trades).to.deep.eq([subjectTradeOne]);
+        expect(plan.simulations).to.eq(2);
+        expect(plan.results[0].success).to.be.true;
+        expect(plan.results[1].success).to.be.false;
+        expect(plan.results[1].revertReason).to.eq("Insufficient funds in exchange");
+        expect(plan.results[1].stage).to.eq("simulation");
+        expect(await setV2Setup.dai.balanceOf(setToken.address)).to.eq(oldSendTokenBalance);
+      });
+
       it("should emit the correct StringTradeFailed event", async () => {
         await expect(subject()).to.emit(batchTradeExtension, "StringTradeFailed").withArgs(
           setToken.address,
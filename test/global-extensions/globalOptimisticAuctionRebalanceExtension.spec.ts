@@ -19,8 +19,15 @@ import {
   usdc,
   getTransactionTimestamp,
   getRandomAccount,
+  getUmaFixture,
 } from "@utils/index";
-import { SetFixture } from "@utils/fixtures";
+import { SetFixture, UmaFixture } from "@utils/fixtures";
+import {
+  RebalanceComponent,
+  RebalanceProposalVerification,
+  RebalanceRules,
+  verifyRebalanceProposal,
+} from "@utils/auctionRebalanceUtils";
 import { BigNumber, ContractTransaction, utils } from "ethers";
 
 const expect = getWaffleExpect();
@@ -277,6 +284,91 @@ describe("GlobalOptimisticAuctionRebalanceExtension", () => {
             subjectCaller = operator;
             subjectSetToken = setToken.address;
           });
+
+          describe("#verifyRebalanceProposal", () => {
+            let rebalanceRules: RebalanceRules;
+            let components: RebalanceComponent[];
+
+            beforeEach(async () => {
+              rebalanceRules = {};
+              components = [
+                { address: setV2Setup.dai.address, decimals: 18, price: ether(0.0005) },
+                { address: setV2Setup.wbtc.address, decimals: 8, price: ether(20) },
+                { address: setV2Setup.weth.address, decimals: 18, price: ether(1) },
+                { address: setV2Setup.usdc.address, decimals: 6, price: ether(0.0005) },
+              ];
+            });
+
+            async function proposeRebalance(): Promise<ContractTransaction> {
+              return auctionRebalanceExtension.connect(subjectCaller.wallet).proposeRebalance(
+                subjectSetToken,
+                subjectQuoteAsset,
+                subjectOldComponents,
+                subjectNewComponents,
+                subjectNewComponentsAuctionParams,
+                subjectOldComponentsAuctionParams,
+                subjectShouldLockSetToken,
+                subjectRebalanceDuration,
+                subjectPositionMultiplier
+              );
+            }
+
+            async function verify(txHash: string): Promise<RebalanceProposalVerification> {
+              return verifyRebalanceProposal(setToken.provider, txHash, rebalanceRules, components);
+            }
+
+            const getExpectedClaim = (proposalHash: string, rulesHash: string): string => utils.hexlify(utils.concat([
+              utils.toUtf8Bytes(`proposalHash:${proposalHash.slice(2)},rulesIPFSHash:"`),
+              rulesHash,
+              utils.toUtf8Bytes("\""),
+            ]));
+
+            it("should pass and rebuild the asserted claim", async () => {
+              const tx = await proposeRebalance();
+
+              const verification = await verify(tx.hash);
+
+              const { rulesHash } = await auctionRebalanceExtension.productSettings(setToken.address);
+              expect(verification.status).to.eq("PASS");
+              expect(verification.reasons).to.be.empty;
+              expect(verification.proposal.extensionType).to.eq("GlobalOptimisticAuctionRebalanceExtension");
+              expect(verification.proposal.shouldLockSetToken).to.eq(subjectShouldLockSetToken);
+              expect(verification.claim).to.eq(getExpectedClaim(verification.proposalHash, rulesHash));
+            });
+
+            describe("when the product rules change after the proposal", () => {
+              it("should rebuild the claim from the rules at the proposal block", async () => {
+                const { optimisticParams, rulesHash } = await auctionRebalanceExtension.productSettings(setToken.address);
+                const tx = await proposeRebalance();
+                await auctionRebalanceExtension.connect(operator.wallet).setProductSettings(
+                  setToken.address,
+                  optimisticParams,
+                  utils.formatBytes32String("newRules")
+                );
+
+                const verification = await verify(tx.hash);
+
+                expect(verification.status).to.eq("PASS");
+                expect(verification.claim).to.eq(getExpectedClaim(verification.proposalHash, rulesHash));
+              });
+            });
+
+            describe("when the rules do not allow locking the SetToken", () => {
+              beforeEach(async () => {
+                rebalanceRules = { allowSetTokenLock: false };
+              });
+
+              it("should fail", async () => {
+                const tx = await proposeRebalance();
+
+                const verification = await verify(tx.hash);
+
+                expect(verification.status).to.eq("FAIL");
+                expect(verification.reasons).to.deep.eq(["Proposal locks the SetToken"]);
+              });
+            });
+          });
+
           describe("#startRebalance", () => {
 
 
@@ -652,6 +744,148 @@ describe("GlobalOptimisticAuctionRebalanceExtension", () => {
           });
         });
       });
+
+      context("when the product settings use the Optimistic Oracle V3 simulator", () => {
+        let umaSetup: UmaFixture;
+        let bondAmount: BigNumber;
+        let disputer: Account;
+
+        let subjectOldComponents: Address[];
+        let subjectNewComponents: Address[];
+        let subjectNewComponentsAuctionParams: any[];
+        let subjectOldComponentsAuctionParams: any[];
+
+        beforeEach(async () => {
+          disputer = methodologist;
+          bondAmount = ether(10);
+
+          umaSetup = getUmaFixture(owner.address);
+          await umaSetup.initialize(collateralAsset.address);
+
+          await auctionRebalanceExtension.connect(operator.wallet).setProductSettings(setToken.address, {
+            collateral: collateralAsset.address,
+            liveness: BigNumber.from(7200),
+            bondAmount,
+            identifier: utils.formatBytes32String("ASSERT_TRUTH"),
+            optimisticOracleV3: umaSetup.optimisticOracleV3.address,
+          }, utils.arrayify(base58ToHexString("Qmc5gCcjYypU7y28oCALwfSvxCBskLuPKWpK4qpterKC7z")));
+
+          await collateralAsset.transfer(operator.address, bondAmount);
+          await collateralAsset.transfer(disputer.address, bondAmount);
+          await collateralAsset.connect(operator.wallet).approve(auctionRebalanceExtension.address, bondAmount);
+
+          subjectOldComponents = [setV2Setup.dai.address, setV2Setup.wbtc.address, setV2Setup.weth.address];
+          subjectNewComponents = [];
+          subjectNewComponentsAuctionParams = [];
+          subjectOldComponentsAuctionParams = [
+            {
+              targetUnit: ether(50),
+              priceAdapterName: "ConstantPriceAdapter",
+              priceAdapterConfigData: await priceAdapter.getEncodedData(ether(0.005)),
+            },
+            {
+              targetUnit: bitcoin(.01),
+              priceAdapterName: "ConstantPriceAdapter",
+              priceAdapterConfigData: await priceAdapter.getEncodedData(ether(0.005)),
+            },
+            {
+              targetUnit: ether(.1),
+              priceAdapterName: "ConstantPriceAdapter",
+              priceAdapterConfigData: await priceAdapter.getEncodedData(ether(0.005)),
+            },
+          ];
+        });
+
+        async function proposeRebalance(): Promise<ContractTransaction> {
+          return await auctionRebalanceExtension.connect(operator.wallet).proposeRebalance(
+            setToken.address,
+            setV2Setup.weth.address,
+            subjectOldComponents,
+            subjectNewComponents,
+            subjectNewComponentsAuctionParams,
+            subjectOldComponentsAuctionParams,
+            false,
+            BigNumber.from(86400),
+            ether(1)
+          );
+        }
+
+        async function startRebalance(): Promise<ContractTransaction> {
+          return await auctionRebalanceExtension.connect(operator.wallet).startRebalance(
+            setToken.address,
+            setV2Setup.weth.address,
+            subjectOldComponents,
+            subjectNewComponents,
+            subjectNewComponentsAuctionParams,
+            subjectOldComponentsAuctionParams,
+            false,
+            BigNumber.from(86400),
+            ether(1)
+          );
+        }
+
+        it("should pull the bond from the proposer into the oracle", async () => {
+          await proposeRebalance();
+
+          expect(await collateralAsset.balanceOf(operator.address)).to.eq(ZERO);
+          expect(await collateralAsset.balanceOf(umaSetup.optimisticOracleV3.address)).to.eq(bondAmount);
+        });
+
+        it("should revert when starting the rebalance before liveness has passed", async () => {
+          await proposeRebalance();
+
+          await expect(startRebalance()).to.be.revertedWith("Assertion not expired");
+        });
+
+        it("should settle the assertion and return the bond when starting the rebalance after liveness", async () => {
+          const assertionId = await umaSetup.getAssertionId(await proposeRebalance());
+          await umaSetup.expireLiveness(assertionId);
+
+          await startRebalance();
+
+          const assertion = await umaSetup.optimisticOracleV3.getAssertion(assertionId);
+          expect(assertion.settled).to.be.true;
+          expect(assertion.settlementResolution).to.be.true;
+          expect(await collateralAsset.balanceOf(operator.address)).to.eq(bondAmount);
+          expect((await setV2Setup.auctionModule.rebalanceInfo(setToken.address)).quoteAsset).to.eq(setV2Setup.weth.address);
+        });
+
+        describe("when the proposal is disputed", () => {
+          let assertionId: string;
+
+          beforeEach(async () => {
+            assertionId = await umaSetup.getAssertionId(await proposeRebalance());
+            await umaSetup.disputeAssertion(assertionId, disputer);
+          });
+
+          it("should delete the proposal through the disputed callback", async () => {
+            const proposal = await auctionRebalanceExtension.proposedProduct(assertionId);
+            expect(proposal.product).to.eq(ADDRESS_ZERO);
+
+            await umaSetup.expireLiveness(assertionId);
+            await expect(startRebalance()).to.be.revertedWith("Proposal hash does not exist");
+          });
+
+          it("should revert on settlement until the dispute is resolved", async () => {
+            await expect(umaSetup.settleAssertion(assertionId)).to.be.revertedWith("Dispute not resolved");
+          });
+
+          it("should pay both bonds minus the burned half to the disputer when resolved as false", async () => {
+            await umaSetup.resolveDispute(assertionId, false);
+            await umaSetup.settleAssertion(assertionId);
+
+            expect(await collateralAsset.balanceOf(disputer.address)).to.eq(bondAmount.mul(3).div(2));
+            expect(await umaSetup.optimisticOracleV3.getAssertionResult(assertionId)).to.be.false;
+          });
+
+          it("should allow the same proposal to be made again", async () => {
+            await collateralAsset.transfer(operator.address, bondAmount);
+            await collateralAsset.connect(operator.wallet).approve(auctionRebalanceExtension.address, bondAmount);
+
+            await expect(proposeRebalance()).to.not.be.reverted;
+          });
+        });
+      });
     });
   });
 });
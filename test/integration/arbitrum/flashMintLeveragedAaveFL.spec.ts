@@ -10,7 +10,8 @@ import { StandardTokenMock, IDebtIssuanceModule, IERC20__factory } from "../../.
 import { PRODUCTION_ADDRESSES } from "./addresses";
 import { ADDRESS_ZERO, MAX_UINT_256 } from "@utils/constants";
 import { ether } from "@utils/index";
-import { impersonateAccount, setBlockNumber, setBalance } from "@utils/test/testingUtils";
+import { impersonateAccount, setBalance } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 
 const expect = getWaffleExpect();
 
@@ -31,15 +32,13 @@ type SwapData = {
 
 if (process.env.INTEGRATIONTEST) {
   describe.only("FlashMintLeveragedAaveFL - Integration Test", async () => {
-    const addresses = PRODUCTION_ADDRESSES;
+    const { addresses } = useFork("arbitrum", 387695000, PRODUCTION_ADDRESSES);
     let owner: Account;
     let deployer: DeployHelper;
 
     let setToken: StandardTokenMock;
     let aave: StandardTokenMock;
 
-    setBlockNumber(387695000, false);
-
     before(async () => {
       [owner] = await getAccounts();
       deployer = new DeployHelper(owner.wallet);
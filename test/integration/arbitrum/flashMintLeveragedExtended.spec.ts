@@ -2,7 +2,8 @@ import "module-alias/register";
 import { Account, Address } from "@utils/types";
 import DeployHelper from "@utils/deploys";
 import { getAccounts, getWaffleExpect, preciseMul } from "@utils/index";
-import { impersonateAccount, setBlockNumber, setBalance } from "@utils/test/testingUtils";
+import { impersonateAccount, setBalance } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 import { ethers } from "hardhat";
 import { BigNumber, utils } from "ethers";
 import { FlashMintLeveragedExtended } from "../../../typechain";
@@ -36,15 +37,13 @@ type SwapData = {
 
 if (process.env.INTEGRATIONTEST) {
   describe.skip("FlashMintLeveragedExtended - Integration Test", async () => {
-    const addresses = PRODUCTION_ADDRESSES;
+    const { addresses } = useFork("arbitrum", 225770000, PRODUCTION_ADDRESSES);
     let owner: Account;
     let deployer: DeployHelper;
     let setToken: StandardTokenMock;
     let weth: IWETH;
     let usdc: IERC20;
 
-    setBlockNumber(225770000);
-
     before(async () => {
       [owner] = await getAccounts();
       deployer = new DeployHelper(owner.wallet);
@@ -2,7 +2,8 @@ import "module-alias/register";
 import { Account, Address } from "@utils/types";
 import DeployHelper from "@utils/deploys";
 import { getAccounts, getWaffleExpect } from "@utils/index";
-import { impersonateAccount, setBlockNumber } from "@utils/test/testingUtils";
+import { impersonateAccount } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 import { ethers } from "hardhat";
 import { BigNumber, BytesLike, utils } from "ethers";
 import {
@@ -46,7 +47,7 @@ if (process.env.INTEGRATIONTEST) {
     const chainId = 42161;
     const isAave = true;
 
-    setBlockNumber(forkBlockNumber, false);
+    useFork("arbitrum", forkBlockNumber, PRODUCTION_ADDRESSES);
 
     before(async () => {
       [owner] = await getAccounts();
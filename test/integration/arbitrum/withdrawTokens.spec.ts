@@ -1,6 +1,7 @@
 import { BigNumber, Signer, constants, utils } from "ethers";
 import { expect } from "chai";
-import { impersonateAccount, setBlockNumber } from "@utils/test/testingUtils";
+import { impersonateAccount } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 import { WithdrawTokens__factory } from "../../../typechain";
 
 if (process.env.INTEGRATIONTEST) {
@@ -8,7 +9,7 @@ if (process.env.INTEGRATIONTEST) {
     const deployerAddress = "0x37e6365d4f6aE378467b0e24c9065Ce5f06D70bF";
     let deployerSigner: Signer;
 
-    setBlockNumber(236525000);
+    useFork("arbitrum", 236525000);
     before(async function () {
       deployerSigner = await impersonateAccount(deployerAddress);
     });
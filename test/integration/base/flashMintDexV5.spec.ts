@@ -1,45 +1,19 @@
 import "module-alias/register";
-import { Account, Address } from "@utils/types";
+import { Account, Address, Exchange, SwapData } from "@utils/types";
 import DeployHelper from "@utils/deploys";
 import { getAccounts, getWaffleExpect } from "@utils/index";
-import { impersonateAccount, setBlockNumber } from "@utils/test/testingUtils";
+import { impersonateAccount } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 import { ethers } from "hardhat";
-import { BigNumber, BytesLike } from "ethers";
+import { BigNumber } from "ethers";
 import { FlashMintDexV5 } from "../../../typechain";
 import { IERC20, IWETH } from "../../../typechain";
 import { ADDRESS_ZERO } from "@utils/constants";
-import { ether } from "@utils/index";
+import { ether, FlashMintQuoter, getNoopSwapData, reverseSwapData } from "@utils/index";
 
 const expect = getWaffleExpect();
 
-enum Exchange {
-  None,
-  Quickswap,
-  Sushiswap,
-  UniV3,
-  Curve,
-  BalancerV2,
-  Aerodrome,
-  AerodromeSlipstream,
-}
-
-type SwapData = {
-  path: Address[];
-  fees: number[];
-  tickSpacing: number[];
-  pool: Address;
-  poolIds: BytesLike[];
-  exchange: Exchange;
-};
-
-const noopSwap: SwapData = {
-  path: [],
-  fees: [],
-  tickSpacing: [],
-  pool: ADDRESS_ZERO,
-  poolIds: [],
-  exchange: Exchange.None,
-};
+const noopSwap: SwapData = getNoopSwapData();
 
 // Base mainnet addresses
 const wethAddress = "0x4200000000000000000000000000000000000006";
@@ -94,7 +68,7 @@ if (process.env.INTEGRATIONTEST) {
     // production FlashMintDexV5 sees and which surfaces a 1-wei-per-set
     // rounding gap between the issuance module's external view and its
     // internal pull (see the regression spec below).
-    setBlockNumber(45340000, false);
+    useFork("base", 45340000);
 
     before(async () => {
       [owner] = await getAccounts();
@@ -341,6 +315,29 @@ if (process.env.INTEGRATIONTEST) {
         const wethAfter = await weth.balanceOf(owner.address);
         expect(wethAfter).to.be.gt(wethBefore);
       });
+
+      it("FlashMintQuoter matches getIssueExactSet and getRedeemExactSet", async () => {
+        const dexAdapter = await flashMintDexV5.dexAdapter();
+        const quoter = new FlashMintQuoter(owner.wallet, flashMintDexV5, {
+          ...dexAdapter,
+          // Lowercase WETH must still short circuit WETH legs like the contract's address comparison
+          weth: dexAdapter.weth.toLowerCase(),
+        });
+        const issueParams = {
+          setToken: uSOL3x,
+          amountSetToken: setAmount,
+          componentSwapData,
+          issuanceModule: debtIssuanceModuleAddress,
+          isDebtIssuance: true,
+        };
+        const redeemParams = { ...issueParams, componentSwapData: componentSwapData.map(reverseSwapData) };
+
+        const issueQuote = await quoter.getIssueExactSet(issueParams, noopSwap);
+        const redeemQuote = await quoter.getRedeemExactSet(redeemParams, noopSwap);
+
+        expect(issueQuote.amount).to.eq(await flashMintDexV5.callStatic.getIssueExactSet(issueParams, noopSwap));
+        expect(redeemQuote.amount).to.eq(await flashMintDexV5.callStatic.getRedeemExactSet(redeemParams, noopSwap));
+      });
     });
 
     // Regression: at non-trivial setAmounts the issue path used to revert with
@@ -2,7 +2,8 @@ import "module-alias/register";
 import { Account, Address } from "@utils/types";
 import DeployHelper from "@utils/deploys";
 import { getAccounts, getWaffleExpect, preciseMul } from "@utils/index";
-import { impersonateAccount, setBlockNumber } from "@utils/test/testingUtils";
+import { impersonateAccount } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 import { ethers } from "hardhat";
 import { BigNumber, BytesLike, utils } from "ethers";
 import { FlashMintLeveragedAerodrome } from "../../../typechain";
@@ -49,7 +50,7 @@ if (process.env.INTEGRATIONTEST) {
     const cbbtcWhale = "0x40EbC1Ac8d4Fedd2E144b75fe9C0420BE82750c6";
     const balancerV2VaultAddress = "0xBA12222222228d8Ba445958a75a0704d566BF2C8";
 
-    setBlockNumber(24770000, false);
+    useFork("base", 24770000);
 
     before(async () => {
       [owner] = await getAccounts();
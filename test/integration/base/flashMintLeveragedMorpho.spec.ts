@@ -2,7 +2,8 @@ import "module-alias/register";
 import { Account, Address } from "@utils/types";
 import DeployHelper from "@utils/deploys";
 import { getAccounts, getWaffleExpect, preciseMul } from "@utils/index";
-import { impersonateAccount, setBlockNumber } from "@utils/test/testingUtils";
+import { impersonateAccount } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 import { ethers } from "hardhat";
 import { BigNumber, BytesLike, utils } from "ethers";
 import { FlashMintLeveragedMorpho } from "../../../typechain";
@@ -52,7 +53,7 @@ if (process.env.INTEGRATIONTEST) {
     const morphoAddress = "0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb";
 
     // Test will fail for wsteth15x due to debt token dust
-    setBlockNumber(26958000, false);
+    useFork("base", 26958000);
 
     before(async () => {
       [owner] = await getAccounts();
@@ -2,7 +2,8 @@ import "module-alias/register";
 import { Account, Address } from "@utils/types";
 import DeployHelper from "@utils/deploys";
 import { getAccounts, getWaffleExpect, preciseMul } from "@utils/index";
-import { impersonateAccount, setBlockNumber } from "@utils/test/testingUtils";
+import { impersonateAccount } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 import { ethers } from "hardhat";
 import { BigNumber, BytesLike, utils } from "ethers";
 import { FlashMintLeveragedMorphoAaveLM } from "../../../typechain";
@@ -53,7 +54,7 @@ if (process.env.INTEGRATIONTEST) {
     const aerodromeSlipstreamQuoterAddress = "0x254cF9E1E6e233aa1AC962CB9B05b2cfeAaE15b0";
     const morphoAddress = "0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb";
 
-    setBlockNumber(24770000, false);
+    useFork("base", 24770000);
 
     before(async () => {
       [owner] = await getAccounts();
@@ -2,7 +2,8 @@ import "module-alias/register";
 import { Account, Address } from "@utils/types";
 import DeployHelper from "@utils/deploys";
 import { getAccounts, getWaffleExpect } from "@utils/index";
-import { impersonateAccount, setBlockNumber } from "@utils/test/testingUtils";
+import { impersonateAccount } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 import { ethers } from "hardhat";
 import { BigNumber, BytesLike, utils } from "ethers";
 import { FlashMintLeveragedZeroEx } from "../../../typechain";
@@ -42,7 +43,7 @@ if (process.env.INTEGRATIONTEST) {
     const chainId = 8453;
     const isAave = false;
 
-    setBlockNumber(forkBlockNumber, false);
+    useFork("base", forkBlockNumber);
 
     before(async () => {
       [owner] = await getAccounts();
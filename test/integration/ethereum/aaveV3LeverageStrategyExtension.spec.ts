@@ -10,6 +10,7 @@ import {
   ExecutionSettings,
   IncentiveSettings,
   ExchangeSettings,
+  ShouldRebalance,
 } from "@utils/types";
 import { impersonateAccount } from "../../../utils/test/testingUtils";
 import { ADDRESS_ZERO, EMPTY_BYTES, ZERO, ONE, TWO, THREE, MAX_UINT_256 } from "@utils/constants";
@@ -57,6 +58,8 @@ import {
   calculateCollateralRebalanceUnits,
   calculateMaxBorrowForDeleverV3,
   calculateMaxRedeemForDeleverToZero,
+  simulateLeverageRebalances,
+  LeverageSimulationStep,
 } from "@utils/index";
 import { calculateTotalRebalanceNotionalAaveV3 } from "@utils/flexibleLeverageUtils/flexibleLeverage";
 
@@ -392,6 +395,45 @@ if (process.env.INTEGRATIONTEST) {
       await baseManagerV2.connect(owner.wallet).addAdapter(leverageStrategyExtension.address);
     };
 
+    // Simulates the next keeper action from the extension's current settings and the SetToken's Aave positions
+    const simulateNextRebalance = async (): Promise<LeverageSimulationStep> => {
+      const currentExchangeSettings = await leverageStrategyExtension.getExchangeSettings(exchangeName);
+      const reserveConfig = await protocolDataProvider.getReserveConfigurationData(wsteth.address);
+
+      const [step] = simulateLeverageRebalances(
+        {
+          methodology: await leverageStrategyExtension.getMethodology(),
+          execution: { ...await leverageStrategyExtension.getExecution(), unutilizedLeveragePercentageDelever: ZERO },
+          incentive: await leverageStrategyExtension.getIncentive(),
+          twapMaxTradeSize: currentExchangeSettings.twapMaxTradeSize,
+          incentivizedTwapMaxTradeSize: currentExchangeSettings.incentivizedTwapMaxTradeSize,
+          protocol: "aaveV3",
+          maxLtv: reserveConfig.ltv.mul(BigNumber.from(10).pow(14)),
+          liquidationThreshold: reserveConfig.liquidationThreshold.mul(BigNumber.from(10).pow(14)),
+        },
+        {
+          collateralBalance: await aWsteth.balanceOf(setToken.address),
+          borrowBalance: await wethVariableDebtToken.balanceOf(setToken.address),
+          totalSupply: await setToken.totalSupply(),
+          twapLeverageRatio: await leverageStrategyExtension.twapLeverageRatio(),
+          globalLastTradeTimestamp: await leverageStrategyExtension.globalLastTradeTimestamp(),
+          exchangeLastTradeTimestamp: currentExchangeSettings.exchangeLastTradeTimestamp,
+        },
+        [{
+          timestamp: (await getLastBlockTimestamp()).add(1),
+          collateralPrice: (await chainlinkCollateralPriceMock.latestAnswer()).mul(BigNumber.from(10).pow(strategy.collateralDecimalAdjustment)),
+          borrowPrice: (await chainlinkBorrowPriceMock.latestAnswer()).mul(BigNumber.from(10).pow(strategy.borrowDecimalAdjustment)),
+        }]
+      );
+      return step;
+    };
+
+    // aToken and debt token balances accrue interest until the simulated action is mined
+    const expectApproximatelyEqual = (actual: BigNumber, expected: BigNumber) => {
+      expect(actual).to.gte(expected.mul(999).div(1000));
+      expect(actual).to.lte(expected.mul(1001).div(1000));
+    };
+
     describe("#constructor", async () => {
       let subjectManagerAddress: Address;
       let subjectContractSettings: AaveContractSettings;
@@ -1302,6 +1344,34 @@ if (process.env.INTEGRATIONTEST) {
           await expect(subject()).to.emit(leverageStrategyExtension, "Rebalanced");
         });
 
+        it("should match the simulated rebalance", async () => {
+          const step = await simulateNextRebalance();
+          const [, actions] = await leverageStrategyExtension.shouldRebalance();
+          const expectedNewLeverageRatio = calculateNewLeverageRatio(
+            step.leverageRatioBefore,
+            methodology.targetLeverageRatio,
+            methodology.minLeverageRatio,
+            methodology.maxLeverageRatio,
+            methodology.recenteringSpeed,
+          );
+
+          expect(step.action).to.eq(ShouldRebalance.REBALANCE);
+          expect(actions[0]).to.eq(step.action);
+          expectApproximatelyEqual(step.leverageRatioBefore, await leverageStrategyExtension.getCurrentLeverageRatio());
+
+          const receipt = await (await subject()).wait();
+          const [
+            currentLeverageRatio,
+            newLeverageRatio,
+            chunkRebalanceNotional,
+            totalRebalanceNotional,
+          ] = receipt.events.find((event: any) => event.event === "Rebalanced").args;
+          expectApproximatelyEqual(currentLeverageRatio, step.leverageRatioBefore);
+          expectApproximatelyEqual(newLeverageRatio, expectedNewLeverageRatio);
+          expectApproximatelyEqual(chunkRebalanceNotional, step.chunkRebalanceNotional);
+          expectApproximatelyEqual(totalRebalanceNotional, step.totalRebalanceNotional);
+        });
+
         describe("when rebalance interval has not elapsed but is below min leverage ratio and lower than max trade size", async () => {
           cacheBeforeEach(async () => {
             await subject();
@@ -3002,6 +3072,29 @@ if (process.env.INTEGRATIONTEST) {
             await chainlinkCollateralPriceMock.setPrice(initialCollateralPrice.mul(65).div(100));
           });
 
+          it("should match the simulated ripcord", async () => {
+            const step = await simulateNextRebalance();
+            const [, actions] = await leverageStrategyExtension.shouldRebalance();
+
+            expect(step.action).to.eq(ShouldRebalance.RIPCORD);
+            expect(actions[0]).to.eq(step.action);
+            // The ripcord is bounded by the max borrow, not by the total notional or the incentivized max trade size
+            expect(step.chunkRebalanceNotional).to.lt(step.totalRebalanceNotional);
+            expect(step.chunkRebalanceNotional).to.lt(exchangeSettings.incentivizedTwapMaxTradeSize);
+
+            const receipt = await (await subject()).wait();
+            const [
+              currentLeverageRatio,
+              newLeverageRatio,
+              rebalanceNotional,
+              etherIncentive,
+            ] = receipt.events.find((event: any) => event.event === "RipcordCalled").args;
+            expectApproximatelyEqual(currentLeverageRatio, step.leverageRatioBefore);
+            expect(newLeverageRatio).to.eq(methodology.maxLeverageRatio);
+            expectApproximatelyEqual(rebalanceNotional, step.chunkRebalanceNotional);
+            expect(etherIncentive).to.eq(step.etherReward);
+          });
+
           it("should set the global last trade timestamp", async () => {
             await subject();
 
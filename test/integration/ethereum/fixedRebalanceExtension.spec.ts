@@ -25,7 +25,7 @@ import {
 import { ONE_MONTH_IN_SECONDS, ZERO } from "@utils/constants";
 import { PRODUCTION_ADDRESSES } from "./addresses";
 import { impersonateAccount } from "./utils";
-import { setBlockNumber } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 
 const expect = getWaffleExpect();
 
@@ -50,7 +50,7 @@ if (process.env.INTEGRATIONTEST) {
 
     let snapshotId: number;
 
-    setBlockNumber(16180859);
+    useFork("ethereum", 16180859);
     beforeEach(async () => {
       snapshotId = await network.provider.send("evm_snapshot", []);
       const [userAccount] = await getAccounts();
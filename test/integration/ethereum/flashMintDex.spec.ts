@@ -2,7 +2,7 @@ import "module-alias/register";
 import { Account, Address } from "@utils/types";
 import DeployHelper from "@utils/deploys";
 import { getAccounts, getWaffleExpect } from "@utils/index";
-import { setBlockNumber } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 import { ProtocolUtils } from "@utils/common";
 import { ethers } from "hardhat";
 import { utils, BigNumber } from "ethers";
@@ -93,7 +93,7 @@ if (process.env.INTEGRATIONTEST) {
     let legacyBasicIssuanceModule: IBasicIssuanceModule;
     let debtIssuanceModule: IDebtIssuanceModule;
 
-    setBlockNumber(20385208, true);
+    useFork("ethereum", 20385208, addresses);
 
     before(async () => {
       [owner] = await getAccounts();
@@ -2,7 +2,7 @@ import "module-alias/register";
 import { Account, Address } from "@utils/types";
 import DeployHelper from "@utils/deploys";
 import { getAccounts, getWaffleExpect } from "@utils/index";
-import { setBlockNumber } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 import { ProtocolUtils } from "@utils/common";
 import { ethers } from "hardhat";
 import { utils } from "ethers";
@@ -51,7 +51,7 @@ const NO_OP_SWAP_DATA: SwapData = {
 
 if (process.env.INTEGRATIONTEST) {
   describe("FlashMintHyETH - Integration Test", async () => {
-    const addresses = PRODUCTION_ADDRESSES;
+    const { addresses } = useFork("ethereum", 20030042, PRODUCTION_ADDRESSES);
     let owner: Account;
     let deployer: DeployHelper;
 
@@ -59,7 +59,6 @@ if (process.env.INTEGRATIONTEST) {
     let debtIssuanceModule: IDebtIssuanceModule;
 
     // const collateralTokenAddress = addresses.tokens.stEth;
-    setBlockNumber(20030042, true);
 
     before(async () => {
       [owner] = await getAccounts();
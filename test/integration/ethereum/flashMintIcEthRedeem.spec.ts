@@ -4,7 +4,8 @@ import { Signer } from "ethers";
 import { Account, Address } from "@utils/types";
 import DeployHelper from "@utils/deploys";
 import { getAccounts, getWaffleExpect } from "@utils/index";
-import { setBlockNumber, setBalance } from "@utils/test/testingUtils";
+import { setBalance } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 import { impersonateAccount } from "./utils";
 import { PRODUCTION_ADDRESSES } from "./addresses";
 import {
@@ -35,7 +36,7 @@ type SwapData = {
 // Run only if integration testing is enabled
 if (process.env.INTEGRATIONTEST) {
   describe.only("ExchangeIssuanceIcEth - Redeem deleveraged icETH for ETH (Curve)", () => {
-    const addresses = PRODUCTION_ADDRESSES;
+    const { addresses } = useFork("ethereum", 23673905, PRODUCTION_ADDRESSES);
 
     let owner: Account;
     let deployer: DeployHelper;
@@ -46,7 +47,6 @@ if (process.env.INTEGRATIONTEST) {
     const icEthHolder = "0x4f865D78Ed3Df19c473b54C4c25Bd3958B868846";
 
     // Use a recent mainnet block where icETH is deleveraged with stETH aToken + WETH dust
-    setBlockNumber(23673905, false);
 
     before(async () => {
       [owner] = await getAccounts();
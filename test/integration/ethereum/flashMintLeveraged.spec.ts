@@ -2,7 +2,7 @@ import "module-alias/register";
 import { Account, Address } from "@utils/types";
 import DeployHelper from "@utils/deploys";
 import { getAccounts, getWaffleExpect, preciseMul } from "@utils/index";
-import { setBlockNumber } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 import { cacheBeforeEach } from "@utils/test";
 import { ethers } from "hardhat";
 import { BigNumber, utils } from "ethers";
@@ -37,16 +37,14 @@ type SwapData = {
 
 if (process.env.INTEGRATIONTEST) {
   describe("FlashMintLeveraged - Integration Test", async () => {
-    const addresses = process.env.USE_STAGING_ADDRESSES ? STAGING_ADDRESSES : PRODUCTION_ADDRESSES;
+    // Using a recent block to reproduce the "TOO MANY EQUITY POSITIONS" issue with ETH3x
+    const { addresses } = useFork("ethereum", 24039350, process.env.USE_STAGING_ADDRESSES ? STAGING_ADDRESSES : PRODUCTION_ADDRESSES);
     let owner: Account;
     let deployer: DeployHelper;
 
     let setToken: StandardTokenMock;
     let weth: IWETH;
 
-    // Using a recent block to reproduce the "TOO MANY EQUITY POSITIONS" issue with ETH3x
-    setBlockNumber(24039350, false);
-
     before(async () => {
       [owner] = await getAccounts();
       deployer = new DeployHelper(owner.wallet);
@@ -2,7 +2,8 @@ import "module-alias/register";
 import { Account, Address, CustomOracleNAVIssuanceSettings } from "@utils/types";
 import DeployHelper from "@utils/deploys";
 import { getAccounts, getWaffleExpect } from "@utils/index";
-import { addSnapshotBeforeRestoreAfterEach, setBlockNumber } from "@utils/test/testingUtils";
+import { addSnapshotBeforeRestoreAfterEach } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 import { ethers } from "hardhat";
 import { BigNumber } from "ethers";
 import {
@@ -95,7 +96,7 @@ if (process.env.INTEGRATIONTEST) {
     let aUSDC_erc20: IERC20;
     let gtUSDC_erc20: IERC20;
 
-    setBlockNumber(20528609, true);
+    useFork("ethereum", 20528609, addresses);
 
     before(async () => {
       [owner] = await getAccounts();
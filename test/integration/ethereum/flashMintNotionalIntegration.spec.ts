@@ -8,7 +8,7 @@ import { SetToken } from "@utils/contracts/setV2";
 import DeployHelper from "@utils/deploys";
 import { ether } from "@utils/index";
 import { ProtocolUtils } from "@utils/common";
-import { setBlockNumber } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 
 import {
   getAccounts,
@@ -73,12 +73,10 @@ if (process.env.INTEGRATIONTEST) {
     let tokens: ForkedTokens;
 
     let debtIssuanceModule: DebtIssuanceModule;
-    const addresses = USE_PRODUCTION_ADDRESSES ? PRODUCTION_ADDRESSES : PRODUCTION_ADDRESSES;
+    const { addresses } = useFork("ethereum", 16180859, USE_PRODUCTION_ADDRESSES ? PRODUCTION_ADDRESSES : PRODUCTION_ADDRESSES);
 
     let snapshotId: number;
 
-  setBlockNumber(16180859);
-
     beforeEach(async () => {
       snapshotId = await network.provider.send("evm_snapshot", []);
       [owner, manager] = await getAccounts();
@@ -5,8 +5,8 @@ import { ether, getAccounts, getWaffleExpect, preciseMul, usdc } from "@utils/in
 import { ADDRESS_ZERO, MAX_UINT_256, ZERO, ZERO_BYTES } from "@utils/constants";
 import {
   addSnapshotBeforeRestoreAfterEach,
-  setBlockNumber,
 } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 import { impersonateAccount } from "./utils";
 import {
   DebtIssuanceModuleV3,
@@ -82,7 +82,7 @@ const whales = {
 if (process.env.INTEGRATIONTEST) {
   describe("FlashMintWrapped - RebasingComponentModule Integration Test", async () => {
     const TOKEN_TRANSFER_BUFFER = 10;
-    const addresses = PRODUCTION_ADDRESSES;
+    const { addresses } = useFork("ethereum", 20528609, PRODUCTION_ADDRESSES);
 
     let owner: Account;
     let deployer: DeployHelper;
@@ -106,8 +106,6 @@ if (process.env.INTEGRATIONTEST) {
     let compoundV3WrapV2AdapterName: string;
     let erc4626WrapV2AdapterName: string;
 
-    setBlockNumber(20528609);
-
     before(async () => {
       [ owner ] = await getAccounts();
       deployer = new DeployHelper(owner.wallet);
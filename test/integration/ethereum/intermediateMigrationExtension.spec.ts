@@ -8,8 +8,8 @@ import { ZERO } from "@utils/constants";
 import {
   addSnapshotBeforeRestoreAfterEach,
   increaseTimeAsync,
-  setBlockNumber,
 } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 import { impersonateAccount } from "./utils";
 import {
   IntermediateMigrationExtension,
@@ -131,7 +131,7 @@ if (process.env.INTEGRATIONTEST) {
       let originalManager: Signer;
       let fliWhale: Signer;
 
-      setBlockNumber(24310000);
+      useFork("ethereum", 24310000);
 
       before(async () => {
         [owner] = await getAccounts();
@@ -8,8 +8,8 @@ import { ONE, ZERO } from "@utils/constants";
 import {
   addSnapshotBeforeRestoreAfterEach,
   increaseTimeAsync,
-  setBlockNumber,
 } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 import { impersonateAccount } from "./utils";
 import {
   MigrationExtension,
@@ -80,7 +80,7 @@ if (process.env.INTEGRATIONTEST) {
 
     let migrationExtension: MigrationExtension;
 
-    setBlockNumber(19276457);
+    useFork("ethereum", 19276457);
 
     before(async () => {
       [owner] = await getAccounts();
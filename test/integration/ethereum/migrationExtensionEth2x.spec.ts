@@ -4,13 +4,21 @@ import { BigNumber, Signer } from "ethers";
 import { JsonRpcSigner } from "@ethersproject/providers";
 import { Account } from "@utils/types";
 import DeployHelper from "@utils/deploys";
-import { ether, getAccounts, getWaffleExpect, preciseDiv, preciseMul } from "@utils/index";
+import {
+  diffSetTokenSnapshots,
+  ether,
+  getAccounts,
+  getSetTokenSnapshot,
+  getWaffleExpect,
+  preciseDiv,
+  preciseMul,
+} from "@utils/index";
 import { ONE, ZERO } from "@utils/constants";
 import {
   addSnapshotBeforeRestoreAfterEach,
   increaseTimeAsync,
-  setBlockNumber,
 } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 import { impersonateAccount } from "./utils";
 import {
   MigrationExtension,
@@ -82,7 +90,7 @@ if (process.env.INTEGRATIONTEST) {
 
     let migrationExtension: MigrationExtension;
 
-    setBlockNumber(19271340);
+    useFork("ethereum", 19271340);
 
     before(async () => {
       [owner] = await getAccounts();
@@ -441,6 +449,36 @@ if (process.env.INTEGRATIONTEST) {
                     expect(endingComponents).to.deep.equal([tokenAddresses.eth2x]);
                     expect(endingUnit).to.be.gt(wrappedSetTokenTradeUnits);
                   });
+
+                  it("should only swap the WETH position for ETH2X", async () => {
+                    const snapshotBefore = await getSetTokenSnapshot(ethers.provider, eth2xfli.address);
+
+                    await migrationExtension.migrateBalancer(
+                      {
+                        supplyLiquidityAmount0Desired,
+                        supplyLiquidityAmount1Desired,
+                        supplyLiquidityAmount0Min,
+                        supplyLiquidityAmount1Min,
+                        tokenId,
+                        exchangeName,
+                        underlyingTradeUnits,
+                        wrappedSetTokenTradeUnits,
+                        exchangeData,
+                        redeemLiquidityAmount0Min,
+                        redeemLiquidityAmount1Min,
+                        isUnderlyingToken0,
+                      },
+                      underlyingLoanAmount,
+                      maxSubsidy,
+                    );
+
+                    const snapshotAfter = await getSetTokenSnapshot(ethers.provider, eth2xfli.address);
+                    const changedPaths = diffSetTokenSnapshots(snapshotBefore, snapshotAfter).changes.map(change => change.path);
+                    expect(changedPaths).to.deep.equal([
+                      `components.${tokenAddresses.weth}.defaultPositionRealUnit`,
+                      `components.${tokenAddresses.eth2x}.defaultPositionRealUnit`,
+                    ]);
+                  });
                 });
               });
             });
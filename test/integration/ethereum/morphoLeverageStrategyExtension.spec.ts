@@ -9,6 +9,7 @@ import {
   ExecutionSettings,
   IncentiveSettings,
   ExchangeSettings,
+  ShouldRebalance,
 } from "@utils/types";
 import { impersonateAccount, setBalance } from "../../../utils/test/testingUtils";
 import { ADDRESS_ZERO, EMPTY_BYTES, ZERO, THREE, TWO, ONE } from "@utils/constants";
@@ -54,6 +55,8 @@ import {
   preciseMul,
   preciseDiv,
   calculateMaxRedeemForDeleverToZero,
+  simulateLeverageRebalances,
+  LeverageSimulationStep,
 } from "@utils/index";
 import { convertPositionToNotional } from "@utils/test";
 
@@ -447,6 +450,45 @@ if (process.env.INTEGRATIONTEST) {
       await baseManagerV2.connect(owner.wallet).addAdapter(leverageStrategyExtension.address);
     };
 
+    // Simulates the next keeper action from the extension's current settings and the SetToken's Morpho position
+    const simulateNextRebalance = async (): Promise<LeverageSimulationStep> => {
+      const currentExchangeSettings = await leverageStrategyExtension.getExchangeSettings(exchangeName);
+      const [collateralBalance, borrowBalance] = await morphoLeverageModule.getCollateralAndBorrowBalances(setToken.address);
+
+      const [step] = simulateLeverageRebalances(
+        {
+          methodology: await leverageStrategyExtension.getMethodology(),
+          execution: await leverageStrategyExtension.getExecution(),
+          incentive: await leverageStrategyExtension.getIncentive(),
+          twapMaxTradeSize: currentExchangeSettings.twapMaxTradeSize,
+          incentivizedTwapMaxTradeSize: currentExchangeSettings.incentivizedTwapMaxTradeSize,
+          protocol: "morpho",
+          maxLtv: ZERO,
+          liquidationThreshold: wstethUsdcMarketParams.lltv,
+        },
+        {
+          collateralBalance,
+          borrowBalance,
+          totalSupply: await setToken.totalSupply(),
+          twapLeverageRatio: await leverageStrategyExtension.twapLeverageRatio(),
+          globalLastTradeTimestamp: await leverageStrategyExtension.globalLastTradeTimestamp(),
+          exchangeLastTradeTimestamp: currentExchangeSettings.exchangeLastTradeTimestamp,
+        },
+        [{
+          timestamp: (await getLastBlockTimestamp()).add(1),
+          collateralPrice: await morphoOracle.price(),
+          borrowPrice: ZERO,
+        }]
+      );
+      return step;
+    };
+
+    // The borrow balance accrues interest until the simulated action is mined
+    const expectApproximatelyEqual = (actual: BigNumber, expected: BigNumber) => {
+      expect(actual).to.gte(expected.mul(999).div(1000));
+      expect(actual).to.lte(expected.mul(1001).div(1000));
+    };
+
     describe("#constructor", async () => {
       let subjectManagerAddress: Address;
       let subjectContractSettings: any;
@@ -1271,6 +1313,34 @@ if (process.env.INTEGRATIONTEST) {
           await expect(subject()).to.emit(leverageStrategyExtension, "Rebalanced");
         });
 
+        it("should match the simulated rebalance", async () => {
+          const step = await simulateNextRebalance();
+          const [, actions] = await leverageStrategyExtension.shouldRebalance();
+          const expectedNewLeverageRatio = calculateNewLeverageRatio(
+            step.leverageRatioBefore,
+            methodology.targetLeverageRatio,
+            methodology.minLeverageRatio,
+            methodology.maxLeverageRatio,
+            methodology.recenteringSpeed,
+          );
+
+          expect(step.action).to.eq(ShouldRebalance.REBALANCE);
+          expect(actions[0]).to.eq(step.action);
+          expectApproximatelyEqual(step.leverageRatioBefore, await leverageStrategyExtension.getCurrentLeverageRatio());
+
+          const receipt = await (await subject()).wait();
+          const [
+            currentLeverageRatio,
+            newLeverageRatio,
+            chunkRebalanceNotional,
+            totalRebalanceNotional,
+          ] = receipt.events.find((event: any) => event.event === "Rebalanced").args;
+          expectApproximatelyEqual(currentLeverageRatio, step.leverageRatioBefore);
+          expectApproximatelyEqual(newLeverageRatio, expectedNewLeverageRatio);
+          expectApproximatelyEqual(chunkRebalanceNotional, step.chunkRebalanceNotional);
+          expectApproximatelyEqual(totalRebalanceNotional, step.totalRebalanceNotional);
+        });
+
         describe("when rebalance interval has not elapsed but is below min leverage ratio and lower than max trade size", async () => {
           cacheBeforeEach(async () => {
             await subject();
@@ -2944,6 +3014,29 @@ if (process.env.INTEGRATIONTEST) {
             await usdcEthOrackeMock.setPrice(ether(1).div(newCollateralPrice));
           });
 
+          it("should match the simulated ripcord", async () => {
+            const step = await simulateNextRebalance();
+            const [, actions] = await leverageStrategyExtension.shouldRebalance();
+
+            expect(step.action).to.eq(ShouldRebalance.RIPCORD);
+            expect(actions[0]).to.eq(step.action);
+            // The ripcord is bounded by the max borrow, not by the total notional or the incentivized max trade size
+            expect(step.chunkRebalanceNotional).to.lt(step.totalRebalanceNotional);
+            expect(step.chunkRebalanceNotional).to.lt(exchangeSettings.incentivizedTwapMaxTradeSize);
+
+            const receipt = await (await subject()).wait();
+            const [
+              currentLeverageRatio,
+              newLeverageRatio,
+              rebalanceNotional,
+              etherIncentive,
+            ] = receipt.events.find((event: any) => event.event === "RipcordCalled").args;
+            expectApproximatelyEqual(currentLeverageRatio, step.leverageRatioBefore);
+            expect(newLeverageRatio).to.eq(methodology.maxLeverageRatio);
+            expectApproximatelyEqual(rebalanceNotional, step.chunkRebalanceNotional);
+            expect(etherIncentive).to.eq(step.etherReward);
+          });
+
           it("should set the global last trade timestamp", async () => {
             await subject();
 
@@ -2,7 +2,7 @@ import "module-alias/register";
 
 import { Address, Account } from "@utils/types";
 import { increaseTimeAsync } from "@utils/test";
-import { setBlockNumber } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 import { ONE_HOUR_IN_SECONDS, ZERO } from "@utils/constants";
 import { OptimisticAuctionRebalanceExtensionV1 } from "@utils/contracts/index";
 import {
@@ -74,7 +74,7 @@ if (process.env.INTEGRATIONTEST) {
 
     let indexToken: IERC20;
 
-    setBlockNumber(18924016);
+    useFork("ethereum", 18924016);
 
     before(async () => {
       [owner, methodologist] = await getAccounts();
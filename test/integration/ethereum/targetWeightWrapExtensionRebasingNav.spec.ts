@@ -6,8 +6,8 @@ import { ADDRESS_ZERO, MAX_UINT_256, ONE_DAY_IN_SECONDS, ZERO, ZERO_BYTES } from
 import {
   addSnapshotBeforeRestoreAfterEach,
   increaseTimeAsync,
-  setBlockNumber,
 } from "@utils/test/testingUtils";
+import { useFork } from "@utils/test/forkUtils";
 import { impersonateAccount } from "./utils";
 import {
   BaseManagerV2,
@@ -86,7 +86,7 @@ if (process.env.INTEGRATIONTEST) {
     let compoundV3WrapV2AdapterName: string;
     let erc4626WrapV2AdapterName: string;
 
-    setBlockNumber(20528609);
+    useFork("ethereum", 20528609);
 
     before(async () => {
       [ owner, feeRecipient ] = await getAccounts();
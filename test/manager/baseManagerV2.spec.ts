@@ -11,8 +11,10 @@ import {
   getAccounts,
   getSetFixture,
   getWaffleExpect,
+  getProvider,
   getRandomAccount,
-  getRandomAddress
+  getRandomAddress,
+  MutualUpgradeCoordinator,
 } from "@utils/index";
 import { SetFixture } from "@utils/fixtures";
 
@@ -211,6 +213,28 @@ describe("BaseManagerV2", () => {
         const txHash = await subject(operator);
         await validateMutualUprade(txHash, operator.address);
       });
+
+      it("should report the methodologist as the pending signer", async () => {
+        await subject(operator);
+
+        const coordinator = new MutualUpgradeCoordinator(getProvider(), baseManager.address, "BaseManagerV2");
+        const status = await coordinator.getStatus("BaseManagerV2.setManager", [subjectNewManager]);
+
+        expect(status.signers.map(signer => signer.hasSigned)).to.deep.eq([true, false]);
+        expect(status.pendingSigner!.address).to.eq(methodologist.address);
+      });
+
+      it("should decode the registered upgrade", async () => {
+        const tx = await subject(operator);
+
+        const coordinator = new MutualUpgradeCoordinator(getProvider(), baseManager.address, "BaseManagerV2");
+        const [upgrade] = await coordinator.getRegisteredUpgrades((await tx.wait()).blockNumber);
+
+        expect(upgrade.method).to.eq("BaseManagerV2.setManager");
+        expect(upgrade.signer).to.eq(operator.address);
+        expect(upgrade.args!._newManager).to.eq(subjectNewManager);
+        expect(upgrade.isPending).to.be.true;
+      });
     });
 
     describe("when passed manager is the zero address", async () => {
@@ -15,6 +15,11 @@ import {
   getRandomAddress,
   getSetFixture,
   getRandomAccount,
+  getProvider,
+  getSimulatedChainId,
+  SafeBatchBuilder,
+  SafeTransactionBatch,
+  simulateSafeBatch,
 } from "@utils/index";
 import { ContractTransaction } from "ethers";
 import { getLastBlockTransaction } from "@utils/test/testingUtils";
@@ -516,6 +521,52 @@ describe("DelegatedManager", () => {
       await expect(subject()).to.emit(delegatedManager, "OperatorAdded").withArgs(otherAccount.address);
     });
 
+    describe("when the call is exported as a Safe batch and replayed", async () => {
+      let batch: SafeTransactionBatch;
+
+      beforeEach(async () => {
+        const builder = new SafeBatchBuilder(owner.address, await getSimulatedChainId(getProvider()));
+        await builder.capture(delegatedManager).addOperators(subjectOperators);
+        batch = builder.toBatch("Add operators");
+      });
+
+      it("should capture the call without executing it", async () => {
+        expect(batch.transactions[0].contractMethod!.name).to.eq("addOperators");
+        expect(batch.transactions[0].contractInputsValues!._operators).to.eq(JSON.stringify(subjectOperators));
+        expect(await delegatedManager.operatorAllowlist(otherAccount.address)).to.be.false;
+      });
+
+      it("should replay the call from the owner and leave the node unchanged", async () => {
+        const balanceBefore = await getProvider().getBalance(owner.address);
+        const blockBefore = await getProvider().getBlockNumber();
+
+        const [result] = await simulateSafeBatch(getProvider(), batch);
+
+        expect(result.success).to.be.true;
+        expect(result.gasUsed).to.be.gt(0);
+        expect(await delegatedManager.operatorAllowlist(otherAccount.address)).to.be.false;
+        expect(await getProvider().getBalance(owner.address)).to.eq(balanceBefore);
+        expect(await getProvider().getBlockNumber()).to.eq(blockBefore);
+      });
+
+      describe("when a later call of the batch fails", async () => {
+        beforeEach(async () => {
+          const builder = new SafeBatchBuilder(owner.address, await getSimulatedChainId(getProvider()));
+          await builder.capture(delegatedManager).addOperators(subjectOperators);
+          await builder.capture(delegatedManager).addOperators(subjectOperators);
+          batch = builder.toBatch("Add operators twice");
+        });
+
+        it("should stop at the failed call and leave the node unchanged", async () => {
+          const results = await simulateSafeBatch(getProvider(), batch);
+
+          expect(results.map(result => result.success)).to.deep.eq([true, false]);
+          expect(results[1].error).to.contain("Operator already added");
+          expect(await delegatedManager.operatorAllowlist(otherAccount.address)).to.be.false;
+        });
+      });
+    });
+
     describe("when the operator already exists", async () => {
       beforeEach(async () => {
         subjectOperators = [operatorOne.address];
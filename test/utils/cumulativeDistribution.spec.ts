@@ -0,0 +1,245 @@
+import "module-alias/register";
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { DistributionFormat, MerkleDistributorInfo, MerkleLeafSchema } from "@utils/types";
+import { buildCumulativeDistribution, CumulativeDistribution, parseBalanceMap } from "@utils/merkleUtils";
+import { ether } from "@utils/common";
+import { ZERO } from "@utils/constants";
+import { getRandomAddress, getWaffleExpect } from "@utils/test/index";
+
+const expect = getWaffleExpect();
+
+describe("cumulativeDistribution", () => {
+  let accountOne: string;
+  let accountTwo: string;
+  let tokenOne: string;
+  let tokenTwo: string;
+
+  before(async () => {
+    [accountOne, accountTwo, tokenOne, tokenTwo] = await Promise.all([
+      getRandomAddress(),
+      getRandomAddress(),
+      getRandomAddress(),
+      getRandomAddress(),
+    ]);
+  });
+
+  describe("#buildCumulativeDistribution", async () => {
+    let subjectPrevious: MerkleDistributorInfo | undefined;
+    let subjectNewEarnings: DistributionFormat[];
+    let subjectSchema: MerkleLeafSchema | undefined;
+    let subjectClaimed: DistributionFormat[];
+    let subjectDistributorBalances: { [token: string]: BigNumber };
+
+    beforeEach(async () => {
+      subjectPrevious = parseBalanceMap([
+        { address: accountOne, earnings: ether(10) },
+        { address: accountTwo, earnings: ether(5) },
+      ], "doubleHashed");
+      subjectNewEarnings = [
+        { address: accountOne, earnings: ether(2) },
+        { address: accountOne.toLowerCase(), earnings: ether(1) },
+      ];
+      subjectSchema = undefined;
+      subjectClaimed = [];
+      subjectDistributorBalances = {};
+    });
+
+    function subject(): CumulativeDistribution {
+      return buildCumulativeDistribution(
+        subjectPrevious,
+        subjectNewEarnings,
+        subjectSchema,
+        subjectClaimed,
+        subjectDistributorBalances
+      );
+    }
+
+    const getAmount = (info: MerkleDistributorInfo, key: string): BigNumber => BigNumber.from(info.claims[key].amount);
+
+    it("should add the new earnings to the previous cumulative amounts", async () => {
+      const { info } = subject();
+
+      expect(info.leafSchema).to.eq("doubleHashed");
+      expect(getAmount(info, accountOne)).to.eq(ether(13));
+      expect(getAmount(info, accountTwo)).to.eq(ether(5));
+      expect(BigNumber.from(info.tokenTotal)).to.eq(ether(18));
+    });
+
+    it("should return the summed earnings of the epoch", async () => {
+      const { deltas } = subject();
+
+      expect(deltas).to.deep.eq([{ address: accountOne, earnings: ether(3) }]);
+    });
+
+    it("should top up the cumulative total", async () => {
+      const { topUp, topUps } = subject();
+
+      expect(topUp).to.eq(ether(18));
+      expect(topUps).to.deep.eq({ "": ether(18) });
+    });
+
+    describe("when amounts have been claimed and the distributor holds a balance", async () => {
+      beforeEach(async () => {
+        subjectClaimed = [{ address: accountOne, earnings: ether(4) }];
+        subjectDistributorBalances = { "": ether(11) };
+      });
+
+      it("should keep the cumulative amounts in the leaves", async () => {
+        const { info } = subject();
+
+        expect(getAmount(info, accountOne)).to.eq(ether(13));
+      });
+
+      it("should deduct the claimed amounts and the balance from the top-up", async () => {
+        const { topUp } = subject();
+
+        expect(topUp).to.eq(ether(3));
+      });
+
+      describe("when the distributor holds more than it owes", async () => {
+        beforeEach(async () => {
+          subjectDistributorBalances = { "": ether(20) };
+        });
+
+        it("should not top up", async () => {
+          const { topUp } = subject();
+
+          expect(topUp).to.eq(ZERO);
+        });
+      });
+    });
+
+    describe("when the claimed amount exceeds the cumulative amount", async () => {
+      beforeEach(async () => {
+        subjectClaimed = [{ address: accountTwo, earnings: ether(6) }];
+      });
+
+      it("should revert", async () => {
+        expect(subject).to.throw(`Claimed amount of ${accountTwo} exceeds its cumulative amount`);
+      });
+    });
+
+    describe("when it is the first epoch", async () => {
+      beforeEach(async () => {
+        subjectPrevious = undefined;
+        subjectSchema = "doubleHashed";
+      });
+
+      it("should match the tree of the new earnings", async () => {
+        const { info } = subject();
+
+        expect(info).to.deep.eq(parseBalanceMap([{ address: accountOne, earnings: ether(3) }], "doubleHashed"));
+      });
+
+      describe("when no schema is passed", async () => {
+        beforeEach(async () => {
+          subjectSchema = undefined;
+        });
+
+        it("should revert", async () => {
+          expect(subject).to.throw("Leaf schema is required for the first epoch");
+        });
+      });
+    });
+
+    describe("when the schema is multiToken", async () => {
+      beforeEach(async () => {
+        subjectPrevious = parseBalanceMap([
+          { address: accountOne, earnings: ether(10), token: tokenOne },
+        ], "multiToken");
+        subjectNewEarnings = [
+          { address: accountOne, earnings: ether(2), token: tokenOne },
+          { address: accountOne, earnings: ether(4), token: tokenTwo },
+        ];
+      });
+
+      it("should track cumulative amounts and top-ups per token", async () => {
+        const { info, topUps } = subject();
+
+        expect(getAmount(info, `${accountOne}:${tokenOne}`)).to.eq(ether(12));
+        expect(getAmount(info, `${accountOne}:${tokenTwo}`)).to.eq(ether(4));
+        expect(topUps).to.deep.eq({ [tokenOne]: ether(12), [tokenTwo]: ether(4) });
+      });
+
+      describe("when the distributor holds a balance of a token", async () => {
+        beforeEach(async () => {
+          subjectClaimed = [{ address: accountOne, earnings: ether(10), token: tokenOne }];
+          subjectDistributorBalances = { [tokenTwo.toLowerCase()]: ether(1) };
+        });
+
+        it("should deduct the claimed amounts and the balance of that token", async () => {
+          const { topUps } = subject();
+
+          expect(topUps).to.deep.eq({ [tokenOne]: ether(2), [tokenTwo]: ether(3) });
+        });
+      });
+
+      describe("when an entry has no token", async () => {
+        beforeEach(async () => {
+          subjectNewEarnings = [{ address: accountTwo, earnings: ether(1) }];
+        });
+
+        it("should revert", async () => {
+          expect(subject).to.throw(`Missing token for account: ${accountTwo}`);
+        });
+      });
+    });
+
+    describe("when the schema is merkleDistributor", async () => {
+      beforeEach(async () => {
+        subjectPrevious = parseBalanceMap([
+          { address: accountOne, earnings: ether(10) },
+          { address: accountTwo, earnings: ether(5) },
+        ], "merkleDistributor");
+        subjectClaimed = [{ address: accountTwo, earnings: ether(5) }];
+      });
+
+      it("should deduct the claimed leaves from the new leaves", async () => {
+        const { info } = subject();
+
+        expect(info.leafSchema).to.eq("merkleDistributor");
+        expect(info).to.deep.eq(parseBalanceMap([{ address: accountOne, earnings: ether(13) }], "merkleDistributor"));
+      });
+
+      it("should top up the unclaimed total", async () => {
+        const { topUp } = subject();
+
+        expect(topUp).to.eq(ether(13));
+      });
+
+      describe("when the previous distribution has no leaf schema", async () => {
+        beforeEach(async () => {
+          delete subjectPrevious!.leafSchema;
+        });
+
+        it("should use the merkleDistributor schema", async () => {
+          const { info } = subject();
+
+          expect(info.leafSchema).to.eq("merkleDistributor");
+          expect(getAmount(info, accountOne)).to.eq(ether(13));
+        });
+      });
+    });
+
+    describe("when the schema does not match the previous distribution", async () => {
+      beforeEach(async () => {
+        subjectSchema = "multiToken";
+      });
+
+      it("should revert", async () => {
+        expect(subject).to.throw("Leaf schema mismatch: previous distribution uses doubleHashed, got multiToken");
+      });
+    });
+
+    describe("when an amount is negative", async () => {
+      beforeEach(async () => {
+        subjectNewEarnings = [{ address: accountTwo, earnings: ether(-1) }];
+      });
+
+      it("should revert", async () => {
+        expect(subject).to.throw(`Invalid amount for account: ${accountTwo}`);
+      });
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import "module-alias/register";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { config } from "hardhat";
+
+import { Account, Address, DeploymentManifestFile } from "@utils/types";
+import { ZERO_BYTES } from "@utils/constants";
+import DeployHelper from "@utils/deploys";
+import { DeploymentManifest, getManifestPath, loadAddressBook } from "@utils/deploys/deploymentManifest";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  ether,
+  getAccounts,
+  getRandomAddress,
+  getWaffleExpect,
+} from "@utils/index";
+
+const expect = getWaffleExpect();
+
+const HARDHAT_CHAIN_ID = 31337;
+
+describe("DeploymentManifest", () => {
+  let owner: Account;
+  let manifestPath: string;
+
+  before(async () => {
+    [owner] = await getAccounts();
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  beforeEach(async () => {
+    manifestPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "manifest-")), "hardhat.json");
+  });
+
+  afterEach(async () => {
+    fs.rmSync(path.dirname(manifestPath), { recursive: true, force: true });
+  });
+
+  const readManifestFile = (): DeploymentManifestFile => JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+
+  describe("#getManifestPath", async () => {
+    it("should resolve the manifest from the hardhat project root", async () => {
+      expect(getManifestPath("base")).to.eq(path.join(config.paths.root, "deployments", "manifests", "base.json"));
+    });
+  });
+
+  describe("#track", async () => {
+    let manifest: DeploymentManifest;
+    let deployer: DeployHelper;
+
+    beforeEach(async () => {
+      manifest = new DeploymentManifest("hardhat", HARDHAT_CHAIN_ID, [], manifestPath);
+      deployer = new DeployHelper(owner.wallet, manifest);
+    });
+
+    it("should record and save the deploy", async () => {
+      const token = await deployer.token.deployIndexToken(owner.address);
+
+      const [record] = readManifestFile().deployments;
+      expect(record.contractName).to.eq("IndexToken");
+      expect(record.address).to.eq(token.address);
+      expect(record.constructorArgs).to.deep.eq([owner.address]);
+      expect(record.libraries).to.deep.eq({});
+      expect(record.txHash).to.eq(token.deployTransaction.hash);
+      expect(record.chainId).to.eq(HARDHAT_CHAIN_ID);
+      expect(record.deployer).to.eq(owner.address);
+    });
+
+    it("should store BigNumber arguments as decimal strings", async () => {
+      await deployer.setV2.deployOracleMock(ether(3000));
+
+      expect(readManifestFile().deployments[0].constructorArgs).to.deep.eq([ether(3000).toString()]);
+    });
+
+    it("should record contracts deployed by another deploy as its libraries", async () => {
+      const addresses: Address[] = [];
+      for (let i = 0; i < 14; i++) {
+        addresses.push(await getRandomAddress());
+      }
+
+      const flashMint = await deployer.extensions.deployFlashMintDexV5(
+        addresses[0],
+        addresses[1],
+        addresses[2],
+        addresses[3],
+        addresses[4],
+        addresses[5],
+        addresses[6],
+        addresses[7],
+        addresses[8],
+        addresses[9],
+        addresses[10],
+        addresses[11],
+        addresses[12],
+        addresses[13]
+      );
+
+      const [library, record] = readManifestFile().deployments;
+      expect(library.contractName).to.eq("DEXAdapterV5");
+      expect(record.contractName).to.eq("FlashMintDexV5");
+      expect(record.address).to.eq(flashMint.address);
+      expect(record.libraries).to.deep.eq({ DEXAdapterV5: library.address });
+      expect(record.constructorArgs).to.deep.eq([
+        addresses[12],
+        addresses[13],
+        [
+          addresses[1],
+          addresses[2],
+          addresses[3],
+          addresses[4],
+          addresses[6],
+          addresses[5],
+          addresses[7],
+          addresses[8],
+          addresses[9],
+          addresses[10],
+          addresses[11],
+          addresses[0],
+        ],
+      ]);
+    });
+
+    it("should record libraries deployed directly through a factory", async () => {
+      const adapter = await deployer.setV2.deployCompoundWrapV2Adapter();
+
+      const [library, record] = readManifestFile().deployments;
+      expect(library.contractName).to.eq("Compound");
+      expect(library.constructorArgs).to.deep.eq([]);
+      expect(record.contractName).to.eq("CompoundWrapV2Adapter");
+      expect(record.address).to.eq(adapter.address);
+      expect(record.libraries).to.deep.eq({ Compound: library.address });
+    });
+
+    it("should not record deploys of an untracked helper", async () => {
+      await new DeployHelper(owner.wallet).token.deployIndexToken(owner.address);
+
+      expect(manifest.deployments).to.be.empty;
+      expect(fs.existsSync(manifestPath)).to.be.false;
+    });
+  });
+
+  describe("#load", async () => {
+    it("should start an empty manifest when none is saved", async () => {
+      const manifest = DeploymentManifest.load("hardhat", HARDHAT_CHAIN_ID, manifestPath);
+
+      expect(manifest.deployments).to.be.empty;
+      expect(manifest.filePath).to.eq(manifestPath);
+    });
+
+    describe("when the saved manifest is for another chain", async () => {
+      beforeEach(async () => {
+        new DeploymentManifest("hardhat", 1, [], manifestPath).save();
+      });
+
+      it("should revert", async () => {
+        expect(() => DeploymentManifest.load("hardhat", HARDHAT_CHAIN_ID, manifestPath)).to.throw(
+          `Manifest ${manifestPath} is for chain 1, not ${HARDHAT_CHAIN_ID}`
+        );
+      });
+    });
+  });
+
+  describe("#loadAddressBook", async () => {
+    it("should return the latest address of every contract", async () => {
+      const deployer = new DeployHelper(owner.wallet, DeploymentManifest.load("hardhat", HARDHAT_CHAIN_ID, manifestPath));
+      const merkleDistributor = await deployer.token.deployMerkleDistributor(owner.address, ZERO_BYTES);
+      await deployer.token.deployIndexToken(owner.address);
+      const latestIndexToken = await deployer.token.deployIndexToken(owner.address);
+
+      const addressBook = loadAddressBook("hardhat", manifestPath);
+
+      expect(addressBook).to.deep.eq({
+        MerkleDistributor: merkleDistributor.address,
+        IndexToken: latestIndexToken.address,
+      });
+    });
+
+    describe("when no manifest is saved", async () => {
+      it("should revert", async () => {
+        expect(() => loadAddressBook("hardhat", manifestPath)).to.throw(
+          `No deployment manifest found for hardhat at ${manifestPath}`
+        );
+      });
+    });
+  });
+});
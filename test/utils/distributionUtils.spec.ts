@@ -0,0 +1,287 @@
+import "module-alias/register";
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Account, DistributionFormat, MerkleDistributorInfo } from "@utils/types";
+import { IndexToken, MerkleDistributor } from "@utils/contracts";
+import DeployHelper from "@utils/deploys";
+import {
+  getMerkleDistributorClaims,
+  MerkleClaimVerification,
+  normalizeDistribution,
+  parseBalanceMap,
+  parseDistributionCsv,
+  parseDistributionJson,
+  verifyMerkleDistribution,
+} from "@utils/merkleUtils";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  ether,
+  getAccounts,
+  getRandomAddress,
+  getWaffleExpect,
+} from "@utils/index";
+
+const expect = getWaffleExpect();
+
+describe("distributionUtils", () => {
+  let owner: Account;
+  let walletOne: Account;
+  let walletTwo: Account;
+
+  let deployer: DeployHelper;
+
+  before(async () => {
+    [
+      owner,
+      walletOne,
+      walletTwo,
+    ] = await getAccounts();
+
+    deployer = new DeployHelper(owner.wallet);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#parseDistributionCsv", async () => {
+    it("should skip the header and blank lines", async () => {
+      const content = `address,earnings\n${walletOne.address},100\n\n${walletTwo.address},200\n`;
+
+      const distribution = parseDistributionCsv(content);
+
+      expect(distribution).to.deep.eq([
+        { address: walletOne.address, earnings: BigNumber.from(100) },
+        { address: walletTwo.address, earnings: BigNumber.from(200) },
+      ]);
+    });
+
+    it("should read decimal amounts when decimals are passed", async () => {
+      const distribution = parseDistributionCsv(`${walletOne.address},1.5`, 18);
+
+      expect(distribution[0].earnings).to.eq(ether(1.5));
+    });
+
+    it("should read the token column", async () => {
+      const token = await getRandomAddress();
+
+      const distribution = parseDistributionCsv(`${walletOne.address},100,${token}`);
+
+      expect(distribution[0].token).to.eq(token);
+    });
+
+    describe("when a row has too many columns", async () => {
+      it("should revert", async () => {
+        expect(() => parseDistributionCsv(`${walletOne.address},100,${walletTwo.address},1`)).to.throw("Invalid row 1");
+      });
+    });
+  });
+
+  describe("#parseDistributionJson", async () => {
+    it("should parse an array of entries", async () => {
+      const content = JSON.stringify([
+        { address: walletOne.address, earnings: "1.5" },
+        { address: walletTwo.address, earnings: 2 },
+      ]);
+
+      const distribution = parseDistributionJson(content, 18);
+
+      expect(distribution).to.deep.eq([
+        { address: walletOne.address, earnings: ether(1.5) },
+        { address: walletTwo.address, earnings: ether(2) },
+      ]);
+    });
+
+    it("should parse an address to earnings map", async () => {
+      const content = JSON.stringify({ [walletOne.address]: ether(1).toHexString() });
+
+      const distribution = parseDistributionJson(content, 18);
+
+      expect(distribution).to.deep.eq([{ address: walletOne.address, earnings: ether(1) }]);
+    });
+
+    describe("when an entry has no address", async () => {
+      it("should revert", async () => {
+        expect(() => parseDistributionJson(JSON.stringify([{ earnings: 1 }]))).to.throw("Invalid distribution entry");
+      });
+    });
+
+    describe("when earnings are a number above the safe integer range", async () => {
+      it("should revert", async () => {
+        const content = `[{ "address": "${walletOne.address}", "earnings": 9007199254740993 }]`;
+
+        expect(() => parseDistributionJson(content)).to.throw(
+          `Earnings of ${walletOne.address} are not a safe integer: 9007199254740992. Pass them as a string`
+        );
+      });
+    });
+
+    describe("when earnings are a number that stringifies in exponent notation", async () => {
+      it("should revert", async () => {
+        const content = `{ "${walletOne.address}": 1000000000000000000000 }`;
+
+        expect(() => parseDistributionJson(content)).to.throw(
+          `Earnings of ${walletOne.address} are not a safe integer: 1e+21. Pass them as a string`
+        );
+      });
+    });
+  });
+
+  describe("#normalizeDistribution", async () => {
+    it("should checksum addresses and drop zero entries", async () => {
+      const distribution = normalizeDistribution([
+        { address: walletOne.address.toLowerCase(), earnings: ether(1) },
+        { address: walletTwo.address, earnings: ether(0) },
+      ]);
+
+      expect(distribution).to.deep.eq([{ address: walletOne.address, earnings: ether(1) }]);
+    });
+
+    describe("when an account is duplicated", async () => {
+      const duplicated = () => [
+        { address: walletOne.address, earnings: ether(1) },
+        { address: walletOne.address.toLowerCase(), earnings: ether(2) },
+      ];
+
+      it("should revert", async () => {
+        expect(() => normalizeDistribution(duplicated())).to.throw(`Duplicate address: ${walletOne.address}`);
+      });
+
+      it("should sum the earnings when merging duplicates", async () => {
+        const distribution = normalizeDistribution(duplicated(), true);
+
+        expect(distribution).to.deep.eq([{ address: walletOne.address, earnings: ether(3) }]);
+      });
+    });
+  });
+
+  describe("#verifyMerkleDistribution", async () => {
+    let token: IndexToken;
+    let info: MerkleDistributorInfo;
+
+    let subjectDistributor: MerkleDistributor;
+    let subjectInfo: MerkleDistributorInfo;
+
+    beforeEach(async () => {
+      token = await deployer.token.deployIndexToken(owner.address);
+      info = parseBalanceMap([
+        { address: walletOne.address, earnings: ether(100) },
+        { address: walletTwo.address, earnings: ether(50) },
+      ]);
+
+      subjectDistributor = await deployer.token.deployMerkleDistributor(token.address, info.merkleRoot);
+      subjectInfo = info;
+    });
+
+    async function subject(): Promise<MerkleClaimVerification[]> {
+      return verifyMerkleDistribution(subjectDistributor, subjectInfo);
+    }
+
+    const getStatus = (results: MerkleClaimVerification[], account: string) =>
+      results.find(result => result.account === account)!.status;
+
+    describe("when the distributor is funded", async () => {
+      beforeEach(async () => {
+        await token.transfer(subjectDistributor.address, ether(150));
+      });
+
+      it("should mark every claim claimable", async () => {
+        const results = await subject();
+
+        expect(results.map(result => result.status)).to.deep.eq(["claimable", "claimable"]);
+      });
+
+      describe("when a claim has been made", async () => {
+        beforeEach(async () => {
+          const { index, amount, proof } = info.claims[walletOne.address];
+          await subjectDistributor.claim(index, walletOne.address, amount, proof);
+        });
+
+        it("should mark the claim claimed", async () => {
+          const results = await subject();
+
+          expect(getStatus(results, walletOne.address)).to.eq("claimed");
+          expect(getStatus(results, walletTwo.address)).to.eq("claimable");
+        });
+      });
+
+      describe("when a claim amount does not match the tree", async () => {
+        beforeEach(async () => {
+          const claim = info.claims[walletTwo.address];
+          subjectInfo = { ...info, claims: { ...info.claims, [walletTwo.address]: { ...claim, amount: ether(51).toHexString() } } };
+        });
+
+        it("should mark the claim as an invalid proof", async () => {
+          const results = await subject();
+
+          expect(getStatus(results, walletOne.address)).to.eq("claimable");
+          expect(getStatus(results, walletTwo.address)).to.eq("invalidProof");
+        });
+      });
+    });
+
+    describe("when the distributor is not funded", async () => {
+      it("should mark the claims unfunded", async () => {
+        const results = await subject();
+
+        expect(results.map(result => result.status)).to.deep.eq(["unfunded", "unfunded"]);
+      });
+    });
+
+    describe("when the claim reverts for another reason", async () => {
+      beforeEach(async () => {
+        // The token is not a contract, so the transfer reverts without a distributor revert reason
+        subjectDistributor = await deployer.token.deployMerkleDistributor(await getRandomAddress(), info.merkleRoot);
+      });
+
+      it("should revert", async () => {
+        await expect(subject()).to.be.revertedWith("Unexpected claim revert");
+      });
+    });
+  });
+
+  describe("#getMerkleDistributorClaims", async () => {
+    let info: MerkleDistributorInfo;
+
+    let subjectDistributor: MerkleDistributor;
+    let subjectInfo: MerkleDistributorInfo;
+
+    beforeEach(async () => {
+      const token = await deployer.token.deployIndexToken(owner.address);
+      info = parseBalanceMap([
+        { address: walletOne.address, earnings: ether(100) },
+        { address: walletTwo.address, earnings: ether(50) },
+      ]);
+
+      subjectDistributor = await deployer.token.deployMerkleDistributor(token.address, info.merkleRoot);
+      subjectInfo = info;
+      await token.transfer(subjectDistributor.address, ether(150));
+
+      const { index, amount, proof } = info.claims[walletOne.address];
+      await subjectDistributor.claim(index, walletOne.address, amount, proof);
+    });
+
+    async function subject(): Promise<DistributionFormat[]> {
+      return getMerkleDistributorClaims(subjectDistributor, subjectInfo);
+    }
+
+    it("should return the amounts of the claimed leaves", async () => {
+      const claims = await subject();
+
+      expect(claims).to.deep.eq([{ address: walletOne.address, earnings: ether(100) }]);
+    });
+
+    describe("when the distribution does not match the distributor", async () => {
+      beforeEach(async () => {
+        subjectInfo = parseBalanceMap([{ address: walletTwo.address, earnings: ether(50) }]);
+      });
+
+      it("should revert", async () => {
+        try {
+          await subject();
+          expect.fail("Expected getMerkleDistributorClaims to throw");
+        } catch (error) {
+          expect((error as Error).message).to.contain("Merkle root mismatch");
+        }
+      });
+    });
+  });
+});
@@ -0,0 +1,308 @@
+import "module-alias/register";
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Account, Address, Exchange, SwapData } from "@utils/types";
+import { ADDRESS_ZERO, MAX_UINT_256, ZERO } from "@utils/constants";
+import { StandardTokenMock } from "@utils/contracts/index";
+import { SetToken } from "@utils/contracts/setV2";
+import DeployHelper from "@utils/deploys";
+import {
+  FlashMintQuoter,
+  IssueRedeemParams,
+  QuoteAddresses,
+  buildUniV2SwapData,
+  buildUniV3SwapData,
+  getNoopSwapData,
+  reverseSwapData,
+} from "@utils/common";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  ether,
+  getAccounts,
+  getLastBlockTimestamp,
+  getSetFixture,
+  getUniswapFixture,
+  getUniswapV3Fixture,
+  getWaffleExpect,
+  preciseMul,
+  preciseMulCeil,
+  usdc,
+  wbtc,
+} from "@utils/index";
+import { SetFixture, UniswapFixture, UniswapV3Fixture } from "@utils/fixtures";
+import { FlashMintDexV5 } from "@typechain/FlashMintDexV5";
+
+const expect = getWaffleExpect();
+
+describe("flashMintQuoteUtils", () => {
+  let owner: Account;
+  let deployer: DeployHelper;
+  let setV2Setup: SetFixture;
+  let sushiswap: UniswapFixture;
+  let uniswapV3Setup: UniswapV3Fixture;
+
+  let setToken: SetToken;
+  let flashMintDexV5: FlashMintDexV5;
+  let quoteAddresses: QuoteAddresses;
+
+  before(async () => {
+    [owner] = await getAccounts();
+    deployer = new DeployHelper(owner.wallet);
+
+    setV2Setup = getSetFixture(owner.address);
+    await setV2Setup.initialize();
+
+    // WETH pools priced like the SetFixture oracles: ETH $230, BTC $9000
+    sushiswap = getUniswapFixture(owner.address);
+    await sushiswap.initialize(owner, setV2Setup.weth.address, setV2Setup.wbtc.address, setV2Setup.usdc.address, true);
+    const liquidity: [StandardTokenMock, BigNumber, BigNumber][] = [
+      [setV2Setup.dai, ether(230000), ether(1000)],
+      [setV2Setup.usdc, usdc(230000), ether(1000)],
+      [setV2Setup.wbtc, wbtc(10), ether(391.3)],
+    ];
+    for (const [token, tokenAmount, ethAmount] of liquidity) {
+      await token.approve(sushiswap.router.address, MAX_UINT_256);
+      await sushiswap.router.addLiquidityETH(
+        token.address,
+        tokenAmount,
+        ZERO,
+        ZERO,
+        owner.address,
+        (await getLastBlockTimestamp()).add(100),
+        { value: ethAmount }
+      );
+    }
+
+    uniswapV3Setup = getUniswapV3Fixture(owner.address);
+    await uniswapV3Setup.initialize(owner, setV2Setup.weth, 230, setV2Setup.wbtc, 9000, setV2Setup.dai);
+    await setV2Setup.weth.approve(uniswapV3Setup.nftPositionManager.address, MAX_UINT_256);
+    await setV2Setup.dai.approve(uniswapV3Setup.nftPositionManager.address, MAX_UINT_256);
+    await setV2Setup.wbtc.approve(uniswapV3Setup.nftPositionManager.address, MAX_UINT_256);
+    await uniswapV3Setup.addLiquidityWide(setV2Setup.weth, setV2Setup.dai, 3000, ether(100), ether(23000), owner.address);
+    await uniswapV3Setup.addLiquidityWide(setV2Setup.weth, setV2Setup.wbtc, 3000, ether(100), wbtc(2.5), owner.address);
+
+    setToken = await setV2Setup.createSetToken(
+      [setV2Setup.dai.address, setV2Setup.wbtc.address, setV2Setup.weth.address],
+      [ether(100), wbtc(0.01), ether(0.5)],
+      [setV2Setup.debtIssuanceModule.address]
+    );
+    await setV2Setup.debtIssuanceModule.initialize(setToken.address, ether(0.02), ZERO, ZERO, owner.address, ADDRESS_ZERO);
+
+    flashMintDexV5 = await deployer.extensions.deployFlashMintDexV5(
+      setV2Setup.weth.address,
+      ADDRESS_ZERO,
+      sushiswap.router.address,
+      uniswapV3Setup.swapRouter.address,
+      uniswapV3Setup.quoter.address,
+      ADDRESS_ZERO,
+      ADDRESS_ZERO,
+      ADDRESS_ZERO,
+      ADDRESS_ZERO,
+      ADDRESS_ZERO,
+      ADDRESS_ZERO,
+      ADDRESS_ZERO,
+      setV2Setup.controller.address,
+      setV2Setup.controller.address,
+    );
+    await flashMintDexV5.approveSetToken(setToken.address, setV2Setup.debtIssuanceModule.address);
+
+    quoteAddresses = await flashMintDexV5.dexAdapter();
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("FlashMintQuoter", async () => {
+    let quoter: FlashMintQuoter;
+    let componentSwapData: SwapData[];
+
+    const sushiswapPath = (tokenPath: Address[]) => buildUniV2SwapData(Exchange.Sushiswap, tokenPath);
+
+    beforeEach(async () => {
+      quoter = new FlashMintQuoter(owner.wallet, flashMintDexV5, quoteAddresses);
+
+      const weth = setV2Setup.weth.address;
+      componentSwapData = [
+        sushiswapPath([weth, setV2Setup.dai.address]),
+        buildUniV3SwapData([weth, setV2Setup.wbtc.address], [3000]),
+        getNoopSwapData(),
+      ];
+    });
+
+    describe("#getIssueExactSet", async () => {
+      let subjectIssueParams: IssueRedeemParams;
+      let subjectSwapDataInputTokenToWeth: SwapData;
+      let subjectSlippage: BigNumber;
+
+      beforeEach(async () => {
+        subjectIssueParams = {
+          setToken: setToken.address,
+          amountSetToken: ether(10),
+          componentSwapData,
+          issuanceModule: setV2Setup.debtIssuanceModule.address,
+          isDebtIssuance: true,
+        };
+        subjectSwapDataInputTokenToWeth = getNoopSwapData();
+        subjectSlippage = ether(0.01);
+      });
+
+      async function subject() {
+        return await quoter.getIssueExactSet(subjectIssueParams, subjectSwapDataInputTokenToWeth, subjectSlippage);
+      }
+
+      it("should match the static call of getIssueExactSet", async () => {
+        const quote = await subject();
+
+        const expectedAmount = await flashMintDexV5.callStatic.getIssueExactSet(
+          subjectIssueParams,
+          subjectSwapDataInputTokenToWeth
+        );
+        expect(quote.amount).to.eq(expectedAmount);
+      });
+
+      it("should use the WETH units of the WETH component as is", async () => {
+        const quote = await subject();
+
+        const issueDeficitBuffer = subjectIssueParams.amountSetToken.div(ether(1)).add(1);
+        expect(quote.componentWethAmounts[2]).to.eq(quote.componentUnits[2].add(issueDeficitBuffer));
+      });
+
+      it("should add the slippage to the limit amount", async () => {
+        const quote = await subject();
+
+        expect(quote.limitAmount).to.eq(preciseMulCeil(quote.amount, ether(1.01)));
+      });
+
+      it("should issue the SetToken with the quoted limit amount", async () => {
+        const quote = await subject();
+
+        await flashMintDexV5.issueExactSetFromETH(subjectIssueParams, ZERO, { value: quote.limitAmount });
+
+        expect(await setToken.balanceOf(owner.address)).to.eq(subjectIssueParams.amountSetToken);
+      });
+
+      describe("when the input token is not WETH", async () => {
+        beforeEach(async () => {
+          subjectSwapDataInputTokenToWeth = sushiswapPath([setV2Setup.usdc.address, setV2Setup.weth.address]);
+        });
+
+        it("should match the static call of getIssueExactSet", async () => {
+          const quote = await subject();
+
+          const expectedAmount = await flashMintDexV5.callStatic.getIssueExactSet(
+            subjectIssueParams,
+            subjectSwapDataInputTokenToWeth
+          );
+          expect(quote.amount).to.eq(expectedAmount);
+          expect(quote.amount).to.not.eq(quote.totalWethAmount);
+        });
+      });
+
+      describe("when the number of swap data does not match the components", async () => {
+        beforeEach(async () => {
+          subjectIssueParams.componentSwapData = componentSwapData.slice(1);
+        });
+
+        it("should revert like the contract", async () => {
+          try {
+            await subject();
+            expect.fail("Expected getIssueExactSet to throw");
+          } catch (error) {
+            expect((error as Error).message).to.eq("FlashMint: INVALID NUMBER OF COMPONENTS IN SWAP DATA");
+          }
+        });
+      });
+    });
+
+    describe("#getRedeemExactSet", async () => {
+      let subjectRedeemParams: IssueRedeemParams;
+      let subjectSwapDataWethToOutputToken: SwapData;
+      let subjectSlippage: BigNumber;
+
+      beforeEach(async () => {
+        subjectRedeemParams = {
+          setToken: setToken.address,
+          amountSetToken: ether(10),
+          componentSwapData: componentSwapData.map(reverseSwapData),
+          issuanceModule: setV2Setup.debtIssuanceModule.address,
+          isDebtIssuance: true,
+        };
+        subjectSwapDataWethToOutputToken = getNoopSwapData();
+        subjectSlippage = ether(0.01);
+      });
+
+      async function subject() {
+        return await quoter.getRedeemExactSet(subjectRedeemParams, subjectSwapDataWethToOutputToken, subjectSlippage);
+      }
+
+      it("should match the static call of getRedeemExactSet", async () => {
+        const quote = await subject();
+
+        const expectedAmount = await flashMintDexV5.callStatic.getRedeemExactSet(
+          subjectRedeemParams,
+          subjectSwapDataWethToOutputToken
+        );
+        expect(quote.amount).to.eq(expectedAmount);
+      });
+
+      it("should subtract the slippage from the limit amount", async () => {
+        const quote = await subject();
+
+        expect(quote.limitAmount).to.eq(preciseMul(quote.amount, ether(0.99)));
+      });
+
+      describe("when the output token is not WETH", async () => {
+        beforeEach(async () => {
+          subjectSwapDataWethToOutputToken = sushiswapPath([setV2Setup.weth.address, setV2Setup.usdc.address]);
+        });
+
+        it("should match the static call of getRedeemExactSet", async () => {
+          const quote = await subject();
+
+          const expectedAmount = await flashMintDexV5.callStatic.getRedeemExactSet(
+            subjectRedeemParams,
+            subjectSwapDataWethToOutputToken
+          );
+          expect(quote.amount).to.eq(expectedAmount);
+        });
+      });
+    });
+
+    describe("#getAmountIn", async () => {
+      let subjectSwapData: SwapData;
+
+      beforeEach(async () => {
+        subjectSwapData = buildUniV2SwapData(Exchange.Quickswap, [setV2Setup.weth.address, setV2Setup.dai.address]);
+      });
+
+      async function subject() {
+        return await quoter.getAmountIn(subjectSwapData, ether(1));
+      }
+
+      describe("when no router is configured for the exchange", async () => {
+        it("should throw", async () => {
+          try {
+            await subject();
+            expect.fail("Expected getAmountIn to throw");
+          } catch (error) {
+            expect((error as Error).message).to.eq("No router configured for exchange: Quickswap");
+          }
+        });
+      });
+
+      describe("when the exchange is Aerodrome", async () => {
+        beforeEach(async () => {
+          subjectSwapData = { ...subjectSwapData, exchange: Exchange.Aerodrome };
+        });
+
+        it("should throw", async () => {
+          try {
+            await subject();
+            expect.fail("Expected getAmountIn to throw");
+          } catch (error) {
+            expect((error as Error).message).to.eq("Exact output quotes are not supported for exchange: Aerodrome");
+          }
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import "module-alias/register";
+import { BigNumber } from "@ethersproject/bignumber";
+import { defaultAbiCoder, keccak256, solidityKeccak256 } from "ethers/lib/utils";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+
+import { MerkleDistributorInfo, MerkleLeafSchema } from "@utils/types";
+import {
+  BalanceTree,
+  encodeLeaf,
+  getClaimKey,
+  MerkleLeaf,
+  parseBalanceMap,
+} from "@utils/merkleUtils";
+import { ether } from "@utils/common";
+import { getRandomAddress, getWaffleExpect } from "@utils/test/index";
+
+const expect = getWaffleExpect();
+
+const toBuffer = (hex: string): Buffer => Buffer.from(hex.substr(2), "hex");
+
+describe("leafEncodings", () => {
+  let account: string;
+  let otherAccount: string;
+  let token: string;
+  let otherToken: string;
+
+  before(async () => {
+    [account, otherAccount, token, otherToken] = await Promise.all([
+      getRandomAddress(),
+      getRandomAddress(),
+      getRandomAddress(),
+      getRandomAddress(),
+    ]);
+  });
+
+  describe("#encodeLeaf", async () => {
+    let subjectSchema: MerkleLeafSchema;
+    let subjectLeaf: MerkleLeaf;
+
+    beforeEach(async () => {
+      subjectLeaf = { index: 3, account, amount: ether(100), token };
+    });
+
+    function subject(): Buffer {
+      return encodeLeaf(subjectSchema, subjectLeaf);
+    }
+
+    describe("when the schema is merkleDistributor", async () => {
+      beforeEach(async () => {
+        subjectSchema = "merkleDistributor";
+      });
+
+      it("should hash the packed index, account and amount", async () => {
+        const expectedLeaf = solidityKeccak256(["uint256", "address", "uint256"], [3, account, ether(100)]);
+
+        expect(subject()).to.deep.eq(toBuffer(expectedLeaf));
+      });
+
+      it("should match BalanceTree.toNode", async () => {
+        expect(subject()).to.deep.eq(BalanceTree.toNode(3, account, ether(100)));
+      });
+    });
+
+    describe("when the schema is doubleHashed", async () => {
+      beforeEach(async () => {
+        subjectSchema = "doubleHashed";
+      });
+
+      it("should hash the hash of the abi encoded index, account and amount", async () => {
+        const encoded = defaultAbiCoder.encode(["uint256", "address", "uint256"], [3, account, ether(100)]);
+
+        expect(subject()).to.deep.eq(toBuffer(keccak256(keccak256(encoded))));
+      });
+    });
+
+    describe("when the schema is multiToken", async () => {
+      beforeEach(async () => {
+        subjectSchema = "multiToken";
+      });
+
+      it("should hash the packed index, account, token and amount", async () => {
+        const expectedLeaf = solidityKeccak256(
+          ["uint256", "address", "address", "uint256"],
+          [3, account, token, ether(100)]
+        );
+
+        expect(subject()).to.deep.eq(toBuffer(expectedLeaf));
+      });
+
+      describe("when the leaf has no token", async () => {
+        beforeEach(async () => {
+          subjectLeaf.token = undefined;
+        });
+
+        it("should revert", async () => {
+          expect(subject).to.throw(`Missing token for account: ${account}`);
+        });
+      });
+    });
+
+    describe("when the schema is unknown", async () => {
+      beforeEach(async () => {
+        subjectSchema = "unknown" as MerkleLeafSchema;
+      });
+
+      it("should revert", async () => {
+        expect(subject).to.throw("Unknown leaf schema: unknown");
+      });
+    });
+  });
+
+  describe("#getClaimKey", async () => {
+    it("should key multiToken claims by account and token", async () => {
+      expect(getClaimKey("multiToken", account, token)).to.eq(`${account}:${token}`);
+    });
+
+    it("should key other claims by account", async () => {
+      expect(getClaimKey("doubleHashed", account, token)).to.eq(account);
+    });
+  });
+
+  describe("#verifyLeafProof", async () => {
+    let subjectSchema: MerkleLeafSchema;
+    let subjectLeaf: MerkleLeaf;
+    let subjectProof: Buffer[];
+    let subjectRoot: Buffer;
+
+    const buildDistribution = (schema: MerkleLeafSchema): MerkleDistributorInfo => parseBalanceMap([
+      { address: account, earnings: ether(100), token },
+      { address: otherAccount, earnings: ether(50), token },
+      { address: account, earnings: ether(25), token: otherToken },
+    ].slice(0, schema === "multiToken" ? 3 : 2), schema);
+
+    const getSubjectClaim = (schema: MerkleLeafSchema, info: MerkleDistributorInfo): MerkleLeaf => {
+      const claim = info.claims[getClaimKey(schema, account, token)];
+      return { index: claim.index, account, amount: BigNumber.from(claim.amount), token: claim.token };
+    };
+
+    function subject(): boolean {
+      return BalanceTree.verifyLeafProof(subjectSchema, subjectLeaf, subjectProof, subjectRoot);
+    }
+
+    ["merkleDistributor", "doubleHashed", "multiToken"].forEach(schema => {
+      describe(`when the schema is ${schema}`, async () => {
+        beforeEach(async () => {
+          subjectSchema = schema as MerkleLeafSchema;
+
+          const info = buildDistribution(subjectSchema);
+          subjectLeaf = getSubjectClaim(subjectSchema, info);
+          subjectProof = info.claims[getClaimKey(subjectSchema, account, token)].proof.map(toBuffer);
+          subjectRoot = toBuffer(info.merkleRoot);
+        });
+
+        it("should verify the proof", async () => {
+          expect(subject()).to.be.true;
+        });
+
+        describe("when the amount does not match the leaf", async () => {
+          beforeEach(async () => {
+            subjectLeaf.amount = subjectLeaf.amount.add(1);
+          });
+
+          it("should not verify the proof", async () => {
+            expect(subject()).to.be.false;
+          });
+        });
+
+        describe("when the leaf is encoded with another schema", async () => {
+          beforeEach(async () => {
+            subjectSchema = subjectSchema === "merkleDistributor" ? "doubleHashed" : "merkleDistributor";
+          });
+
+          it("should not verify the proof", async () => {
+            expect(subject()).to.be.false;
+          });
+        });
+      });
+    });
+  });
+
+  describe("doubleHashed distributions", async () => {
+    let subjectEarnings: BigNumber[];
+
+    beforeEach(async () => {
+      subjectEarnings = [ether(100), ether(50), ether(25), ether(10), ether(1)];
+    });
+
+    async function subject(): Promise<MerkleDistributorInfo> {
+      const accounts = await Promise.all(subjectEarnings.map(() => getRandomAddress()));
+      return parseBalanceMap(
+        accounts.map((address, i) => ({ address, earnings: subjectEarnings[i] })),
+        "doubleHashed"
+      );
+    }
+
+    const buildStandardMerkleTree = (info: MerkleDistributorInfo) => StandardMerkleTree.of(
+      Object.keys(info.claims).map(address => [
+        info.claims[address].index.toString(),
+        address,
+        BigNumber.from(info.claims[address].amount).toString(),
+      ]),
+      ["uint256", "address", "uint256"]
+    );
+
+    it("should have the root of OpenZeppelin StandardMerkleTree", async () => {
+      const info = await subject();
+
+      expect(info.merkleRoot).to.eq(buildStandardMerkleTree(info).root);
+    });
+
+    it("should have the proofs of OpenZeppelin StandardMerkleTree", async () => {
+      const info = await subject();
+      const tree = buildStandardMerkleTree(info);
+
+      Object.keys(info.claims).forEach(address => {
+        const { index, amount, proof } = info.claims[address];
+        expect(proof).to.deep.eq(tree.getProof([index.toString(), address, BigNumber.from(amount).toString()]));
+      });
+    });
+
+    describe("when there is a single claim", async () => {
+      beforeEach(async () => {
+        subjectEarnings = [ether(1)];
+      });
+
+      it("should have the root of OpenZeppelin StandardMerkleTree", async () => {
+        const info = await subject();
+
+        expect(info.merkleRoot).to.eq(buildStandardMerkleTree(info).root);
+      });
+    });
+  });
+});
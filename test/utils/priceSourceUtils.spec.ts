@@ -0,0 +1,233 @@
+import "module-alias/register";
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Account, Address } from "@utils/types";
+import { MAX_UINT_256 } from "@utils/constants";
+import { OracleMock } from "@utils/contracts/setV2";
+import DeployHelper from "@utils/deploys";
+import {
+  ConstantPriceSource,
+  OraclePriceSource,
+  PriceSource,
+  UniswapV3PriceSource,
+  getBestAmountIn,
+  getBestAmountOut,
+} from "@utils/common/priceSourceUtils";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  ether,
+  getAccounts,
+  getSetFixture,
+  getUniswapV3Fixture,
+  getWaffleExpect,
+  preciseMul,
+  usdc,
+} from "@utils/index";
+import { SetFixture, UniswapV3Fixture } from "@utils/fixtures";
+
+const expect = getWaffleExpect();
+
+describe("priceSourceUtils", () => {
+  let owner: Account;
+  let deployer: DeployHelper;
+  let setV2Setup: SetFixture;
+  let uniswapV3Setup: UniswapV3Fixture;
+
+  before(async () => {
+    [owner] = await getAccounts();
+    deployer = new DeployHelper(owner.wallet);
+
+    setV2Setup = getSetFixture(owner.address);
+    await setV2Setup.initialize();
+
+    uniswapV3Setup = getUniswapV3Fixture(owner.address);
+    await uniswapV3Setup.initialize(owner, setV2Setup.weth, 3000, setV2Setup.wbtc, 40000, setV2Setup.dai);
+
+    await uniswapV3Setup.createNewPair(setV2Setup.weth, setV2Setup.usdc, 3000, 3000);
+    await setV2Setup.weth.approve(uniswapV3Setup.nftPositionManager.address, MAX_UINT_256);
+    await setV2Setup.usdc.approve(uniswapV3Setup.nftPositionManager.address, MAX_UINT_256);
+    await uniswapV3Setup.addLiquidityWide(
+      setV2Setup.weth,
+      setV2Setup.usdc,
+      3000,
+      ether(100),
+      usdc(300_000),
+      owner.address
+    );
+
+    await setV2Setup.weth.approve(uniswapV3Setup.swapRouter.address, MAX_UINT_256);
+    await setV2Setup.usdc.approve(uniswapV3Setup.swapRouter.address, MAX_UINT_256);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("UniswapV3PriceSource", async () => {
+    let priceSource: UniswapV3PriceSource;
+
+    beforeEach(async () => {
+      priceSource = new UniswapV3PriceSource(uniswapV3Setup.quoter, 3000);
+    });
+
+    describe("#getAmountOut", async () => {
+      it("should match the output of the swap", async () => {
+        const amountIn = ether(1);
+        const expectedAmountOut = await priceSource.getAmountOut(setV2Setup.weth.address, setV2Setup.usdc.address, amountIn);
+
+        const balanceBefore = await setV2Setup.usdc.balanceOf(owner.address);
+        await uniswapV3Setup.swapRouter.exactInputSingle({
+          tokenIn: setV2Setup.weth.address,
+          tokenOut: setV2Setup.usdc.address,
+          fee: 3000,
+          recipient: owner.address,
+          amountIn,
+          amountOutMinimum: 0,
+          sqrtPriceLimitX96: 0,
+        });
+        const balanceAfter = await setV2Setup.usdc.balanceOf(owner.address);
+
+        expect(expectedAmountOut).to.eq(balanceAfter.sub(balanceBefore));
+      });
+
+      describe("when there is no pool for the fee tier", async () => {
+        beforeEach(async () => {
+          priceSource = new UniswapV3PriceSource(uniswapV3Setup.quoter, 500);
+        });
+
+        it("should return undefined", async () => {
+          const amountOut = await priceSource.getAmountOut(setV2Setup.weth.address, setV2Setup.usdc.address, ether(1));
+
+          expect(amountOut).to.be.undefined;
+        });
+      });
+    });
+
+    describe("#getAmountIn", async () => {
+      it("should match the input of the swap", async () => {
+        const amountOut = usdc(1000);
+        const expectedAmountIn = await priceSource.getAmountIn(setV2Setup.weth.address, setV2Setup.usdc.address, amountOut);
+
+        const balanceBefore = await setV2Setup.weth.balanceOf(owner.address);
+        await uniswapV3Setup.swapRouter.exactOutputSingle({
+          tokenIn: setV2Setup.weth.address,
+          tokenOut: setV2Setup.usdc.address,
+          fee: 3000,
+          recipient: owner.address,
+          amountOut,
+          amountInMaximum: MAX_UINT_256,
+          sqrtPriceLimitX96: 0,
+        });
+        const balanceAfter = await setV2Setup.weth.balanceOf(owner.address);
+
+        expect(expectedAmountIn).to.eq(balanceBefore.sub(balanceAfter));
+      });
+    });
+  });
+
+  describe("ConstantPriceSource", async () => {
+    let baseToken: Address;
+    let quoteToken: Address;
+    let price: BigNumber;
+    let priceSource: ConstantPriceSource;
+
+    beforeEach(async () => {
+      baseToken = setV2Setup.weth.address;
+      quoteToken = setV2Setup.usdc.address;
+      price = usdc(3000);   // USDC wei per 1e18 WETH wei
+      priceSource = new ConstantPriceSource(baseToken, quoteToken, price);
+    });
+
+    it("should price the base token in the quote token", async () => {
+      expect(await priceSource.getAmountOut(baseToken, quoteToken, ether(2))).to.eq(usdc(6000));
+      expect(await priceSource.getAmountIn(quoteToken, baseToken, ether(2))).to.eq(usdc(6000));
+    });
+
+    it("should price the quote token in the base token", async () => {
+      expect(await priceSource.getAmountOut(quoteToken, baseToken, usdc(6000))).to.eq(ether(2));
+      expect(await priceSource.getAmountIn(baseToken, quoteToken, usdc(6000))).to.eq(ether(2));
+    });
+
+    it("should round the input amount up and the output amount down", async () => {
+      // 1 USDC wei buys 1e18 / 3e9 WETH wei, which is not an integer
+      expect(await priceSource.getAmountOut(quoteToken, baseToken, BigNumber.from(1))).to.eq(BigNumber.from(333333333));
+      expect(await priceSource.getAmountIn(baseToken, quoteToken, BigNumber.from(1))).to.eq(BigNumber.from(333333334));
+    });
+
+    it("should match tokens regardless of checksum casing", async () => {
+      expect(await priceSource.getAmountOut(baseToken.toLowerCase(), quoteToken.toLowerCase(), ether(1))).to.eq(price);
+    });
+
+    it("should not price other pairs", async () => {
+      expect(await priceSource.getAmountOut(baseToken, setV2Setup.dai.address, ether(1))).to.be.undefined;
+      expect(await priceSource.getAmountIn(setV2Setup.dai.address, quoteToken, ether(1))).to.be.undefined;
+    });
+  });
+
+  describe("OraclePriceSource", async () => {
+    let oracle: OracleMock;
+    let priceSource: OraclePriceSource;
+
+    beforeEach(async () => {
+      oracle = await deployer.setV2.deployOracleMock(ether(3000));
+      priceSource = new OraclePriceSource(setV2Setup.weth.address, setV2Setup.dai.address, oracle);
+    });
+
+    it("should price at the oracle price", async () => {
+      const amountOut = await priceSource.getAmountOut(setV2Setup.weth.address, setV2Setup.dai.address, ether(2));
+
+      expect(amountOut).to.eq(ether(6000));
+    });
+
+    describe("when the oracle price changes", async () => {
+      beforeEach(async () => {
+        await oracle.updatePrice(ether(2500));
+      });
+
+      it("should price at the new oracle price", async () => {
+        const amountIn = await priceSource.getAmountIn(setV2Setup.dai.address, setV2Setup.weth.address, ether(2));
+
+        expect(amountIn).to.eq(ether(5000));
+      });
+    });
+  });
+
+  describe("#getBestAmountIn", async () => {
+    let priceSources: PriceSource[];
+
+    beforeEach(async () => {
+      priceSources = [
+        new UniswapV3PriceSource(uniswapV3Setup.quoter, 3000),
+        new UniswapV3PriceSource(uniswapV3Setup.quoter, 500),
+        new ConstantPriceSource(setV2Setup.weth.address, setV2Setup.usdc.address, usdc(2000)),
+      ];
+    });
+
+    it("should return the cheapest quote of the sources that price the pair", async () => {
+      const amountOut = ether(1);
+
+      const bestAmountIn = await getBestAmountIn(priceSources, setV2Setup.usdc.address, setV2Setup.weth.address, amountOut);
+
+      // The constant source sells WETH for 2000 USDC, below the 3000 USDC pool price
+      expect(bestAmountIn).to.eq(preciseMul(amountOut, usdc(2000)));
+    });
+
+    it("should return MAX_UINT_256 when no source prices the pair", async () => {
+      const bestAmountIn = await getBestAmountIn(priceSources, setV2Setup.dai.address, setV2Setup.usdc.address, ether(1));
+
+      expect(bestAmountIn).to.eq(MAX_UINT_256);
+    });
+  });
+
+  describe("#getBestAmountOut", async () => {
+    it("should return the largest quote of the sources that price the pair", async () => {
+      const priceSources = [
+        new UniswapV3PriceSource(uniswapV3Setup.quoter, 3000),
+        new ConstantPriceSource(setV2Setup.weth.address, setV2Setup.usdc.address, usdc(2000)),
+      ];
+
+      const bestAmountOut = await getBestAmountOut(priceSources, setV2Setup.weth.address, setV2Setup.usdc.address, ether(1));
+      const poolAmountOut = await priceSources[0].getAmountOut(setV2Setup.weth.address, setV2Setup.usdc.address, ether(1));
+
+      expect(bestAmountOut).to.eq(poolAmountOut);
+    });
+  });
+});
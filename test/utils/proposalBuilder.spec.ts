@@ -0,0 +1,171 @@
+import "module-alias/register";
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Account, Address, Bytes } from "@utils/types";
+import { ONE_DAY_IN_SECONDS, ZERO } from "@utils/constants";
+import { BoundedStepwiseLinearPriceAdapter, ConstantPriceAdapter } from "@utils/contracts/setV2";
+import DeployHelper from "@utils/deploys";
+import { encodePriceAdapterConfig, PriceAdapterConfig } from "@utils/auctionRebalanceUtils";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  ether,
+  getAccounts,
+  getRandomAddress,
+  getWaffleExpect,
+  preciseMul,
+} from "@utils/index";
+
+const expect = getWaffleExpect();
+
+describe("proposalBuilder", () => {
+  let owner: Account;
+  let setToken: Address;
+  let component: Address;
+  let deployer: DeployHelper;
+
+  before(async () => {
+    [owner] = await getAccounts();
+    [setToken, component] = await Promise.all([getRandomAddress(), getRandomAddress()]);
+    deployer = new DeployHelper(owner.wallet);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#encodePriceAdapterConfig", async () => {
+    let subjectConfig: PriceAdapterConfig;
+    let subjectPrice: BigNumber;
+    let subjectIsSell: boolean;
+
+    beforeEach(async () => {
+      subjectPrice = ether(0.0005);
+      subjectIsSell = true;
+    });
+
+    function subject(): Bytes {
+      return encodePriceAdapterConfig(subjectConfig, subjectPrice, subjectIsSell);
+    }
+
+    describe("when the adapter is the ConstantPriceAdapter", async () => {
+      let adapter: ConstantPriceAdapter;
+
+      beforeEach(async () => {
+        adapter = await deployer.setV2.deployConstantPriceAdapter();
+        subjectConfig = { name: "ConstantPriceAdapter" };
+      });
+
+      it("should match the adapter encoding", async () => {
+        expect(subject()).to.eq(await adapter.getEncodedData(subjectPrice));
+      });
+
+      it("should price at the component price", async () => {
+        const price = await adapter.getPrice(setToken, component, ether(1), ZERO, ONE_DAY_IN_SECONDS, subject());
+
+        expect(price).to.eq(subjectPrice);
+      });
+    });
+
+    describe("when the adapter is the BoundedStepwiseLinearPriceAdapter", async () => {
+      let adapter: BoundedStepwiseLinearPriceAdapter;
+      let startPremium: BigNumber;
+      let slope: BigNumber;
+      let bucketSize: BigNumber;
+      let boundPremium: BigNumber;
+
+      beforeEach(async () => {
+        adapter = await deployer.setV2.deployBoundedStepwiseLinearPriceAdapter();
+        startPremium = ether(0.02);
+        slope = ether(0.001);
+        bucketSize = BigNumber.from(600);
+        boundPremium = ether(0.01);
+        subjectConfig = { name: "BoundedStepwiseLinearPriceAdapter", startPremium, slope, bucketSize, boundPremium };
+      });
+
+      const getAdapterPrice = async (timeElapsed: BigNumber): Promise<BigNumber> => {
+        return adapter.getPrice(setToken, component, ether(1), timeElapsed, ONE_DAY_IN_SECONDS, subject());
+      };
+
+      describe("when the component is sold", async () => {
+        it("should match the adapter encoding of a decreasing price", async () => {
+          const initialPrice = preciseMul(subjectPrice, ether(1.02));
+          const minPrice = preciseMul(subjectPrice, ether(0.99));
+
+          const expectedData = await adapter.getEncodedData(
+            initialPrice,
+            preciseMul(subjectPrice, slope),
+            bucketSize,
+            true,
+            initialPrice,
+            minPrice
+          );
+
+          expect(subject()).to.eq(expectedData);
+          expect(await adapter.isPriceAdapterConfigDataValid(subject())).to.be.true;
+        });
+
+        it("should start above the component price and stop below it", async () => {
+          expect(await getAdapterPrice(ZERO)).to.eq(preciseMul(subjectPrice, ether(1.02)));
+          expect(await getAdapterPrice(bucketSize)).to.eq(preciseMul(subjectPrice, ether(1.02)).sub(preciseMul(subjectPrice, slope)));
+          expect(await getAdapterPrice(ONE_DAY_IN_SECONDS)).to.eq(preciseMul(subjectPrice, ether(0.99)));
+        });
+      });
+
+      describe("when the component is bought", async () => {
+        beforeEach(async () => {
+          subjectIsSell = false;
+        });
+
+        it("should match the adapter encoding of an increasing price", async () => {
+          const initialPrice = preciseMul(subjectPrice, ether(0.98));
+          const maxPrice = preciseMul(subjectPrice, ether(1.01));
+
+          const expectedData = await adapter.getEncodedData(
+            initialPrice,
+            preciseMul(subjectPrice, slope),
+            bucketSize,
+            false,
+            maxPrice,
+            initialPrice
+          );
+
+          expect(subject()).to.eq(expectedData);
+          expect(await adapter.isPriceAdapterConfigDataValid(subject())).to.be.true;
+        });
+
+        it("should start below the component price and stop above it", async () => {
+          expect(await getAdapterPrice(ZERO)).to.eq(preciseMul(subjectPrice, ether(0.98)));
+          expect(await getAdapterPrice(ONE_DAY_IN_SECONDS)).to.eq(preciseMul(subjectPrice, ether(1.01)));
+        });
+
+        describe("when the start premium is 100%", async () => {
+          beforeEach(async () => {
+            subjectConfig = { name: "BoundedStepwiseLinearPriceAdapter", startPremium: ether(1), slope, bucketSize, boundPremium };
+          });
+
+          it("should revert", async () => {
+            expect(subject).to.throw(`Initial price is not positive: start premium ${ether(1).toString()} must be below 100% on a buy`);
+          });
+        });
+      });
+
+      describe("when the slope rounds to zero at the component price", async () => {
+        beforeEach(async () => {
+          subjectPrice = BigNumber.from(999);
+        });
+
+        it("should revert", async () => {
+          expect(subject).to.throw(`Slope rounds to zero at price 999: slope ${slope.toString()} is too small`);
+        });
+      });
+    });
+
+    describe("when the config carries its own data", async () => {
+      beforeEach(async () => {
+        subjectConfig = { name: "CustomPriceAdapter", configData: "0x1234" };
+      });
+
+      it("should return the config data", async () => {
+        expect(subject()).to.eq("0x1234");
+      });
+    });
+  });
+});
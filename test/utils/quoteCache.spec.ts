@@ -0,0 +1,290 @@
+import "module-alias/register";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+
+import {
+  getQuoteUrl,
+  QuoteCache,
+  QuoteCacheEntry,
+  QuoteCacheServer,
+  QuoteLookup,
+  QuoteProvider,
+  QuoteRequest,
+  zeroExV1QuoteProvider,
+  zeroExV2QuoteProvider,
+} from "@utils/quoteCache";
+import { getWaffleExpect } from "@utils/test/index";
+
+const expect = getWaffleExpect();
+
+const WETH = "0x4200000000000000000000000000000000000006";
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+
+const getErrorMessage = async (promise: Promise<unknown>): Promise<string | undefined> => {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+const getJson = (url: string): Promise<{ status: number; body: any }> => {
+  return new Promise((resolve, reject) => {
+    http.get(url, response => {
+      let body = "";
+      response.on("data", chunk => body += chunk);
+      response.on("end", () => resolve({ status: response.statusCode || 0, body: JSON.parse(body) }));
+    }).on("error", reject);
+  });
+};
+
+describe("QuoteCache", () => {
+  let directory: string;
+  let cache: QuoteCache;
+  let request: QuoteRequest;
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "quoteCache-"));
+    cache = new QuoteCache({ directory, offline: true });
+    request = {
+      chainId: 8453,
+      endpoint: "price",
+      params: { sellToken: WETH, buyToken: USDC, sellAmount: "1000000000000000000", taker: WETH },
+    };
+  });
+
+  afterEach(async () => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe("#saveQuote", async () => {
+    it("should save the entry at the block the provider reports", async () => {
+      const filePath = cache.saveQuote(zeroExV2QuoteProvider, { ...request, blockNumber: 90 }, { blockNumber: "100" });
+
+      const entry: QuoteCacheEntry = JSON.parse(fs.readFileSync(filePath, "utf8"));
+      expect(filePath).to.eq(path.join(cache.getEntryDirectory(zeroExV2QuoteProvider, request), "100.json"));
+      expect(entry.blockNumber).to.eq(100);
+      expect(entry.params).to.deep.eq(request.params);
+    });
+
+    it("should key entries by the lowercased key params only", async () => {
+      const entryDirectory = cache.getEntryDirectory(zeroExV2QuoteProvider, request);
+
+      expect(entryDirectory).to.eq(path.join(
+        directory,
+        "zeroExV2",
+        "8453",
+        `price-${WETH.toLowerCase()}-${USDC.toLowerCase()}-1000000000000000000`
+      ));
+    });
+
+    it("should save the entry at the lookup block when the provider reports none", async () => {
+      const filePath = cache.saveQuote(zeroExV1QuoteProvider, { ...request, blockNumber: 90 }, { gas: "1" });
+
+      expect(path.basename(filePath)).to.eq("90.json");
+    });
+
+    describe("when neither the provider nor the lookup has a block", async () => {
+      it("should revert", async () => {
+        expect(() => cache.saveQuote(zeroExV1QuoteProvider, request, { gas: "1" })).to.throw(
+          "zeroExV1 doesn't report a block for its responses, pass the block number to cache them at"
+        );
+      });
+    });
+  });
+
+  describe("#getCachedQuote", async () => {
+    let subjectLookup: QuoteLookup;
+
+    beforeEach(async () => {
+      [100, 200, 300].forEach(blockNumber => {
+        cache.saveQuote(zeroExV2QuoteProvider, request, { blockNumber: blockNumber.toString() });
+      });
+      subjectLookup = { ...request, blockNumber: 200 };
+    });
+
+    function subject(): number | undefined {
+      const entry = cache.getCachedQuote(zeroExV2QuoteProvider, subjectLookup);
+      return entry ? entry.blockNumber : undefined;
+    }
+
+    it("should return the entry at the block", async () => {
+      expect(subject()).to.eq(200);
+    });
+
+    it("should ignore params outside the key params", async () => {
+      subjectLookup.params = { ...request.params, taker: USDC };
+
+      expect(subject()).to.eq(200);
+    });
+
+    describe("when no entry is at the block", async () => {
+      beforeEach(async () => {
+        subjectLookup.blockNumber = 140;
+      });
+
+      it("should return undefined without a block range", async () => {
+        expect(subject()).to.be.undefined;
+      });
+
+      it("should return the closest entry within the block range", async () => {
+        subjectLookup.blockRange = 100;
+
+        expect(subject()).to.eq(100);
+      });
+
+      it("should return undefined when no entry is within the block range", async () => {
+        subjectLookup.blockRange = 39;
+
+        expect(subject()).to.be.undefined;
+      });
+    });
+
+    describe("when two entries are equally close", async () => {
+      beforeEach(async () => {
+        subjectLookup = { ...request, blockNumber: 250, blockRange: 50 };
+      });
+
+      it("should return the newer entry", async () => {
+        expect(subject()).to.eq(300);
+      });
+    });
+
+    describe("when no block is passed", async () => {
+      beforeEach(async () => {
+        subjectLookup = { ...request };
+      });
+
+      it("should return the newest entry", async () => {
+        expect(subject()).to.eq(300);
+      });
+    });
+  });
+
+  describe("#getQuote", async () => {
+    it("should return the cached response", async () => {
+      cache.saveQuote(zeroExV2QuoteProvider, request, { blockNumber: "100", buyAmount: "3000" });
+
+      const response = await cache.getQuote(zeroExV2QuoteProvider, { ...request, blockNumber: 105, blockRange: 10 });
+
+      expect(response).to.deep.eq({ blockNumber: "100", buyAmount: "3000" });
+    });
+
+    describe("when offline and the response is not cached", async () => {
+      it("should revert", async () => {
+        const lookup = { ...request, blockNumber: 105, blockRange: 10 };
+
+        const message = await getErrorMessage(cache.getQuote(zeroExV2QuoteProvider, lookup));
+
+        expect(message).to.eq(
+          `No cached zeroExV2 response for ${cache.getEntryDirectory(zeroExV2QuoteProvider, lookup)} within 10 ` +
+          "blocks of 105, run without QUOTE_CACHE_OFFLINE to fetch it"
+        );
+      });
+    });
+  });
+});
+
+describe("QuoteCacheServer", () => {
+  let directory: string;
+  let server: QuoteCacheServer;
+  let request: QuoteRequest;
+
+  const stubProvider: QuoteProvider = {
+    name: "stub",
+    keyParams: ["src", "dst", "amount"],
+    getBaseUrl: () => "https://stub.invalid",
+    getPath: ({ chainId, endpoint }) => `/v1/${chainId}/${endpoint}`,
+    getQuery: ({ params }) => params,
+    getHeaders: () => ({}),
+  };
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "quoteCache-"));
+    const cache = new QuoteCache({ directory, offline: true });
+    request = {
+      chainId: 8453,
+      endpoint: "quote",
+      params: { sellToken: WETH, buyToken: USDC, sellAmount: "1000000000000000000" },
+    };
+    cache.saveQuote(zeroExV2QuoteProvider, request, { blockNumber: "100", buyAmount: "3000" });
+    cache.saveQuote(stubProvider, { chainId: 1, endpoint: "swap", params: { src: WETH, dst: USDC, amount: "1" }, blockNumber: 100 }, { dstAmount: "3" });
+
+    server = new QuoteCacheServer(cache, 105, 10, [zeroExV2QuoteProvider, stubProvider]);
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should serve the cached response at the provider's path and query", async () => {
+    const url = getQuoteUrl(zeroExV2QuoteProvider, request, server.getBaseUrl(zeroExV2QuoteProvider, 8453));
+
+    const { status, body } = await getJson(url);
+
+    expect(url.startsWith(server.getBaseUrl(zeroExV2QuoteProvider, 8453) + "/swap/allowance-holder/quote?chainId=8453")).to.be.true;
+    expect(status).to.eq(200);
+    expect(body).to.deep.eq({ blockNumber: "100", buyAmount: "3000" });
+  });
+
+  it("should route by provider and chain", async () => {
+    const stubRequest = { chainId: 1, endpoint: "swap", params: { src: WETH, dst: USDC, amount: "1" } };
+    const url = getQuoteUrl(stubProvider, stubRequest, server.getBaseUrl(stubProvider, 1));
+
+    const { status, body } = await getJson(url);
+
+    expect(status).to.eq(200);
+    expect(body).to.deep.eq({ dstAmount: "3" });
+  });
+
+  describe("when the response is not cached", async () => {
+    it("should return a 404", async () => {
+      const url = getQuoteUrl(zeroExV2QuoteProvider, { ...request, chainId: 1 }, server.getBaseUrl(zeroExV2QuoteProvider, 1));
+
+      const { status, body } = await getJson(url);
+
+      expect(status).to.eq(404);
+      expect(body.reason).to.contain("No cached zeroExV2 response for /zeroExV2/1/swap/allowance-holder/quote");
+    });
+  });
+
+  describe("when the cached response is outside the block range", async () => {
+    beforeEach(async () => {
+      server.blockNumber = 111;
+    });
+
+    it("should return a 404", async () => {
+      const url = getQuoteUrl(zeroExV2QuoteProvider, request, server.getBaseUrl(zeroExV2QuoteProvider, 8453));
+
+      const { status } = await getJson(url);
+
+      expect(status).to.eq(404);
+    });
+  });
+
+  describe("when the provider is unknown", async () => {
+    it("should return a 404", async () => {
+      const url = getQuoteUrl(zeroExV2QuoteProvider, request, server.getBaseUrl(zeroExV1QuoteProvider, 8453));
+
+      const { status, body } = await getJson(url);
+
+      expect(status).to.eq(404);
+      expect(body.reason).to.eq("Unknown route /zeroExV1/8453/swap/allowance-holder/quote");
+    });
+  });
+
+  describe("when the server is stopped", async () => {
+    beforeEach(async () => {
+      await server.stop();
+    });
+
+    it("should revert", async () => {
+      expect(() => server.getBaseUrl(zeroExV2QuoteProvider, 8453)).to.throw("QuoteCacheServer is not started");
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import "module-alias/register";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import zlib from "zlib";
+import { AddressInfo } from "net";
+
+import {
+  getRpcFixturePath,
+  getWaffleExpect,
+  JsonRpcError,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  RpcRecorder,
+} from "@utils/test/index";
+
+const expect = getWaffleExpect();
+
+const BALANCE_PARAMS = ["0x0000000000000000000000000000000000000001", "0x1"];
+const CALL_PARAMS = [{ to: "0x0000000000000000000000000000000000000002", data: "0x" }, "0x1"];
+
+// Answers of the stub upstream, also recorded in the committed test/integration/fixtures/rpc/stub-1.json.gz
+const STUB_RESPONSES: { [method: string]: { result: unknown } | { error: JsonRpcError } } = {
+  eth_chainId: { result: "0x1" },
+  eth_getBalance: { result: "0xde0b6b3a7640000" },
+  eth_call: { error: { code: 3, message: "execution reverted", data: "0x" } },
+  eth_getCode: { error: { code: -32005, message: "rate limit exceeded" } },
+};
+
+const toRequest = (method: string, params: unknown[] = []): JsonRpcRequest => ({ jsonrpc: "2.0", id: 1, method, params });
+
+const postRpc = (url: string, body: JsonRpcRequest | JsonRpcRequest[]): Promise<any> => {
+  return new Promise((resolve, reject) => {
+    const request = http.request(url, { method: "POST", headers: { "Content-Type": "application/json" } }, response => {
+      let responseBody = "";
+      response.on("data", chunk => responseBody += chunk);
+      response.on("end", () => resolve(JSON.parse(responseBody)));
+    });
+    request.on("error", reject);
+    request.end(JSON.stringify(body));
+  });
+};
+
+describe("RpcRecorder", () => {
+  let upstream: http.Server;
+  let upstreamUrl: string;
+  let upstreamRequests: JsonRpcRequest[];
+  let fixturePath: string;
+
+  before(async () => {
+    upstream = http.createServer((request, response) => {
+      let body = "";
+      request.on("data", chunk => body += chunk);
+      request.on("end", () => {
+        const batch: JsonRpcRequest[] = JSON.parse(body);
+        upstreamRequests.push(...batch);
+
+        response.writeHead(200, { "Content-Type": "application/json" });
+        response.end(JSON.stringify(batch.map(item => ({ jsonrpc: "2.0", id: item.id, ...STUB_RESPONSES[item.method] }))));
+      });
+    });
+    await new Promise<void>(resolve => upstream.listen(0, "127.0.0.1", () => resolve()));
+    upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise<void>(resolve => upstream.close(() => resolve()));
+  });
+
+  beforeEach(async () => {
+    upstreamRequests = [];
+    fixturePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "rpc-")), "stub-1.json.gz");
+  });
+
+  afterEach(async () => {
+    fs.rmSync(path.dirname(fixturePath), { recursive: true, force: true });
+  });
+
+  const readFixtureResponses = () => JSON.parse(zlib.gunzipSync(fs.readFileSync(fixturePath)).toString("utf8")).responses;
+
+  async function record(requests: JsonRpcRequest[]): Promise<JsonRpcResponse[]> {
+    const recorder = new RpcRecorder("record", "stub", 1, upstreamUrl, fixturePath);
+    const responses = await postRpc(await recorder.start(), requests);
+    await recorder.stop();
+    return responses;
+  }
+
+  describe("#constructor", async () => {
+    it("should revert when recording without an upstream url", async () => {
+      expect(() => new RpcRecorder("record", "stub", 1, undefined, fixturePath)).to.throw(
+        `An upstream RPC url is required to record ${fixturePath}`
+      );
+    });
+
+    it("should revert when replaying without a fixture", async () => {
+      expect(() => new RpcRecorder("replay", "stub", 1, upstreamUrl, fixturePath)).to.throw(
+        `No RPC fixture at ${fixturePath}, run the suite with FORK_RPC_MODE=record first`
+      );
+    });
+  });
+
+  describe("when recording", async () => {
+    it("should forward requests upstream and keep their ids", async () => {
+      const responses = await record([
+        { ...toRequest("eth_chainId"), id: 7 },
+        { ...toRequest("eth_getBalance", BALANCE_PARAMS), id: "balance" },
+      ]);
+
+      expect(responses).to.deep.eq([
+        { jsonrpc: "2.0", id: 7, result: "0x1" },
+        { jsonrpc: "2.0", id: "balance", result: "0xde0b6b3a7640000" },
+      ]);
+      expect(upstreamRequests.map(request => request.method)).to.deep.eq(["eth_chainId", "eth_getBalance"]);
+    });
+
+    it("should serve a single request", async () => {
+      const recorder = new RpcRecorder("record", "stub", 1, upstreamUrl, fixturePath);
+
+      const response = await postRpc(await recorder.start(), toRequest("eth_chainId"));
+      await recorder.stop();
+
+      expect(response).to.deep.eq({ jsonrpc: "2.0", id: 1, result: "0x1" });
+    });
+
+    it("should record results and error responses", async () => {
+      await record([toRequest("eth_getBalance", BALANCE_PARAMS), toRequest("eth_call", CALL_PARAMS)]);
+
+      expect(readFixtureResponses()).to.deep.eq({
+        [`eth_getBalance:${JSON.stringify(BALANCE_PARAMS)}`]: STUB_RESPONSES.eth_getBalance,
+        [`eth_call:${JSON.stringify(CALL_PARAMS)}`]: STUB_RESPONSES.eth_call,
+      });
+    });
+
+    it("should pass rate limit errors through without recording them", async () => {
+      const responses = await record([toRequest("eth_chainId"), toRequest("eth_getCode", BALANCE_PARAMS)]);
+
+      expect(responses[1]).to.deep.eq({ jsonrpc: "2.0", id: 1, ...STUB_RESPONSES.eth_getCode });
+      expect(Object.keys(readFixtureResponses())).to.deep.eq(["eth_chainId:[]"]);
+    });
+  });
+
+  describe("when replaying a recording", async () => {
+    let requests: JsonRpcRequest[];
+    let recordedResponses: JsonRpcResponse[];
+
+    beforeEach(async () => {
+      requests = [
+        toRequest("eth_chainId"),
+        toRequest("eth_getBalance", BALANCE_PARAMS),
+        toRequest("eth_call", CALL_PARAMS),
+      ];
+      recordedResponses = await record(requests);
+      upstreamRequests = [];
+    });
+
+    async function subject(body: JsonRpcRequest[]): Promise<JsonRpcResponse[]> {
+      const recorder = new RpcRecorder("replay", "stub", 1, undefined, fixturePath);
+      const responses = await postRpc(await recorder.start(), body);
+      await recorder.stop();
+      return responses;
+    }
+
+    it("should serve the recorded responses without the upstream", async () => {
+      const responses = await subject(requests);
+
+      expect(responses).to.deep.eq(recordedResponses);
+      expect(upstreamRequests).to.be.empty;
+    });
+
+    it("should return an error for requests that were not recorded", async () => {
+      const [response] = await subject([toRequest("eth_getBalance", [BALANCE_PARAMS[0], "0x2"])]);
+
+      expect(response).to.deep.eq({
+        jsonrpc: "2.0",
+        id: 1,
+        error: {
+          code: -32000,
+          message: `No recorded response for eth_getBalance:${JSON.stringify([BALANCE_PARAMS[0], "0x2"])} in ${fixturePath}`,
+        },
+      });
+    });
+  });
+
+  describe("when replaying the committed fixture", async () => {
+    it("should serve the recorded stub responses", async () => {
+      const recorder = new RpcRecorder("replay", "stub", 1);
+
+      const responses = await postRpc(await recorder.start(), [
+        toRequest("eth_chainId"),
+        toRequest("eth_getBalance", BALANCE_PARAMS),
+        toRequest("eth_call", CALL_PARAMS),
+      ]);
+      await recorder.stop();
+
+      expect(recorder.fixturePath).to.eq(getRpcFixturePath("stub", 1));
+      expect(responses).to.deep.eq([
+        { jsonrpc: "2.0", id: 1, ...STUB_RESPONSES.eth_chainId },
+        { jsonrpc: "2.0", id: 1, ...STUB_RESPONSES.eth_getBalance },
+        { jsonrpc: "2.0", id: 1, ...STUB_RESPONSES.eth_call },
+      ]);
+    });
+  });
+});
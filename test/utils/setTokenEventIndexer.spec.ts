@@ -0,0 +1,165 @@
+import "module-alias/register";
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { Account, CustomOracleNAVIssuanceSettings, Exchange } from "@utils/types";
+import { ADDRESS_ZERO, ETH_ADDRESS, MAX_UINT_256, ZERO } from "@utils/constants";
+import { StandardTokenMock } from "@utils/contracts/index";
+import { SetToken } from "@utils/contracts/setV2";
+import DeployHelper from "@utils/deploys";
+import { FlashMintEvent, SetTokenEventIndexer } from "@utils/setTokenEventUtils";
+import {
+  addSnapshotBeforeRestoreAfterEach,
+  ether,
+  getAccounts,
+  getLastBlockTimestamp,
+  getProvider,
+  getSetFixture,
+  getUniswapFixture,
+  getWaffleExpect,
+  usdc,
+} from "@utils/index";
+import { SetFixture, UniswapFixture } from "@utils/fixtures";
+import { FlashMintNAV } from "@typechain/FlashMintNAV";
+
+const expect = getWaffleExpect();
+
+describe("SetTokenEventIndexer", () => {
+  let owner: Account;
+  let deployer: DeployHelper;
+  let setV2Setup: SetFixture;
+  let sushiswap: UniswapFixture;
+
+  let setToken: SetToken;
+  let flashMintNAV: FlashMintNAV;
+
+  before(async () => {
+    [owner] = await getAccounts();
+    deployer = new DeployHelper(owner.wallet);
+
+    setV2Setup = getSetFixture(owner.address);
+    await setV2Setup.initialize();
+
+    // WETH pools priced like the SetFixture oracles: ETH $230
+    sushiswap = getUniswapFixture(owner.address);
+    await sushiswap.initialize(owner, setV2Setup.weth.address, setV2Setup.wbtc.address, setV2Setup.usdc.address, true);
+    const liquidity: [StandardTokenMock, BigNumber, BigNumber][] = [
+      [setV2Setup.dai, ether(230000), ether(1000)],
+      [setV2Setup.usdc, usdc(230000), ether(1000)],
+    ];
+    for (const [token, tokenAmount, ethAmount] of liquidity) {
+      await token.approve(sushiswap.router.address, MAX_UINT_256);
+      await sushiswap.router.addLiquidityETH(
+        token.address,
+        tokenAmount,
+        ZERO,
+        ZERO,
+        owner.address,
+        (await getLastBlockTimestamp()).add(100),
+        { value: ethAmount }
+      );
+    }
+
+    setToken = await setV2Setup.createSetToken(
+      [setV2Setup.usdc.address, setV2Setup.dai.address],
+      [usdc(50), ether(50)],
+      [setV2Setup.debtIssuanceModule.address, setV2Setup.navIssuanceModule.address]
+    );
+    await setV2Setup.debtIssuanceModule.initialize(setToken.address, ether(0.02), ZERO, ZERO, owner.address, ADDRESS_ZERO);
+
+    const navIssuanceSettings: CustomOracleNAVIssuanceSettings = {
+      managerIssuanceHook: ADDRESS_ZERO,
+      managerRedemptionHook: ADDRESS_ZERO,
+      setValuer: ADDRESS_ZERO,
+      reserveAssets: [setV2Setup.usdc.address],
+      feeRecipient: owner.address,
+      managerFees: [ZERO, ZERO],
+      maxManagerFee: ether(0.02),
+      premiumPercentage: ether(0.001),
+      maxPremiumPercentage: ether(0.1),
+      minSetTokenSupply: ether(5),
+    };
+    await setV2Setup.navIssuanceModule.initialize(setToken.address, navIssuanceSettings);
+
+    // NAV issuance requires the minimum SetToken supply
+    await setV2Setup.usdc.approve(setV2Setup.debtIssuanceModule.address, MAX_UINT_256);
+    await setV2Setup.dai.approve(setV2Setup.debtIssuanceModule.address, MAX_UINT_256);
+    await setV2Setup.debtIssuanceModule.issue(setToken.address, ether(10), owner.address);
+
+    flashMintNAV = await deployer.extensions.deployFlashMintNAV(
+      setV2Setup.weth.address,
+      sushiswap.router.address,
+      sushiswap.router.address,
+      ADDRESS_ZERO,
+      ADDRESS_ZERO,
+      ADDRESS_ZERO,
+      ADDRESS_ZERO,
+      ADDRESS_ZERO,
+      setV2Setup.controller.address,
+      setV2Setup.navIssuanceModule.address,
+    );
+    await flashMintNAV.approveSetToken(setToken.address);
+  });
+
+  addSnapshotBeforeRestoreAfterEach();
+
+  describe("#getTimeline", async () => {
+    let issueBlockNumber: number;
+    let setTokenIssued: BigNumber;
+    let ethAmount: BigNumber;
+
+    let subjectFlashMintNavs: string[] | undefined;
+
+    beforeEach(async () => {
+      ethAmount = ether(1);
+      const balanceBefore = await setToken.balanceOf(owner.address);
+
+      // FlashMintNAV links DEXAdapterV3, whose SwapData has no tickSpacing
+      const swapData = {
+        path: [setV2Setup.weth.address, setV2Setup.usdc.address],
+        fees: [],
+        pool: ADDRESS_ZERO,
+        poolIds: [],
+        exchange: Exchange.Sushiswap,
+      };
+      const tx = await flashMintNAV.issueSetFromExactETH(setToken.address, ZERO, swapData, { value: ethAmount });
+
+      issueBlockNumber = (await tx.wait()).blockNumber;
+      setTokenIssued = (await setToken.balanceOf(owner.address)).sub(balanceBefore);
+
+      subjectFlashMintNavs = [flashMintNAV.address.toLowerCase()];
+    });
+
+    async function subject(): Promise<FlashMintEvent> {
+      const timeline = await new SetTokenEventIndexer(getProvider()).getTimeline(setToken.address, {
+        fromBlock: issueBlockNumber,
+        toBlock: issueBlockNumber,
+        addresses: [flashMintNAV.address],
+        flashMintNavs: subjectFlashMintNavs,
+      });
+      return timeline.find(event => event.type === "FlashMint") as FlashMintEvent;
+    }
+
+    it("should index the FlashMintNAV issue with its amounts in emitted order", async () => {
+      const event = await subject();
+
+      expect(event.emitter).to.eq(flashMintNAV.address);
+      expect(event.recipient).to.eq(owner.address);
+      expect(event.token).to.eq(ETH_ADDRESS);
+      expect(event.setTokenAmount).to.eq(setTokenIssued);
+      expect(event.tokenAmount).to.eq(ethAmount);
+    });
+
+    describe("when the FlashMintNAV contract is not passed", async () => {
+      beforeEach(async () => {
+        subjectFlashMintNavs = undefined;
+      });
+
+      it("should read the amounts in the order of the other FlashMint contracts", async () => {
+        const event = await subject();
+
+        expect(event.setTokenAmount).to.eq(ethAmount);
+        expect(event.tokenAmount).to.eq(setTokenIssued);
+      });
+    });
+  });
+});
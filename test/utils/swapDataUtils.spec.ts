@@ -0,0 +1,194 @@
+import "module-alias/register";
+
+import { Address, Exchange, SwapData } from "@utils/types";
+import { ADDRESS_ZERO } from "@utils/constants";
+import {
+  SWAP_DATA_TUPLE,
+  buildBalancerV2SwapData,
+  buildUniV3SwapData,
+  decodeSwapData,
+  decodeSwapDataArray,
+  encodeSwapData,
+  encodeSwapDataArray,
+  getNoopSwapData,
+  reverseSwapData,
+  validateSwapData,
+} from "@utils/common";
+import { getRandomAddress, getWaffleExpect } from "@utils/test/index";
+import { utils } from "ethers";
+
+const expect = getWaffleExpect();
+
+describe("swapDataUtils", () => {
+  let tokenA: Address;
+  let tokenB: Address;
+  let tokenC: Address;
+  let poolId: string;
+
+  before(async () => {
+    [tokenA, tokenB, tokenC] = await Promise.all([getRandomAddress(), getRandomAddress(), getRandomAddress()]);
+    poolId = utils.hexZeroPad("0x01", 32);
+  });
+
+  describe("#encodeSwapData", async () => {
+    let subjectSwapData: SwapData;
+
+    beforeEach(async () => {
+      subjectSwapData = {
+        path: [tokenA, tokenB, tokenC],
+        fees: [500, 3000],
+        tickSpacing: [],
+        pool: ADDRESS_ZERO,
+        poolIds: [],
+        exchange: Exchange.UniV3,
+      };
+    });
+
+    function subject(): string {
+      return encodeSwapData(subjectSwapData);
+    }
+
+    it("should round trip through decodeSwapData", async () => {
+      const decoded = decodeSwapData(subject());
+
+      expect(decoded).to.deep.eq(subjectSwapData);
+    });
+
+    it("should encode the DEXAdapterV5.SwapData tuple", async () => {
+      const [decoded] = utils.defaultAbiCoder.decode([SWAP_DATA_TUPLE], subject());
+
+      expect(decoded.path).to.deep.eq(subjectSwapData.path);
+      expect(decoded.fees).to.deep.eq(subjectSwapData.fees);
+      expect(decoded.exchange).to.eq(Exchange.UniV3);
+    });
+
+    describe("when the swap data is an array", async () => {
+      it("should round trip through decodeSwapDataArray", async () => {
+        const swapData = [
+          subjectSwapData,
+          buildBalancerV2SwapData([tokenC, tokenA], [poolId]),
+          getNoopSwapData(),
+        ];
+
+        const decoded = decodeSwapDataArray(encodeSwapDataArray(swapData));
+
+        expect(decoded).to.deep.eq(swapData);
+      });
+    });
+
+    describe("when the fees do not match the path", async () => {
+      beforeEach(async () => {
+        subjectSwapData.fees = [500];
+      });
+
+      it("should revert", async () => {
+        expect(subject).to.throw("path/fee lengths do not match");
+      });
+    });
+  });
+
+  describe("#validateSwapData", async () => {
+    let subjectSwapData: SwapData;
+
+    beforeEach(async () => {
+      subjectSwapData = buildUniV3SwapData([tokenA, tokenB], [3000]);
+    });
+
+    function subject(): SwapData {
+      return validateSwapData(subjectSwapData);
+    }
+
+    it("should return the swap data", async () => {
+      expect(subject()).to.eq(subjectSwapData);
+    });
+
+    describe("when the path and fees lengths do not match", async () => {
+      beforeEach(async () => {
+        subjectSwapData.fees = [3000, 500];
+      });
+
+      it("should revert", async () => {
+        expect(subject).to.throw("path/fee lengths do not match");
+      });
+    });
+
+    describe("when a fee does not fit in a uint24", async () => {
+      beforeEach(async () => {
+        subjectSwapData.fees = [2 ** 24];
+      });
+
+      it("should revert", async () => {
+        expect(subject).to.throw(`Invalid fee: ${2 ** 24}`);
+      });
+    });
+
+    describe("when the path and tickSpacing lengths do not match", async () => {
+      beforeEach(async () => {
+        subjectSwapData = { ...getNoopSwapData(), path: [tokenA, tokenB, tokenC], tickSpacing: [100], exchange: Exchange.AerodromeSlipstream };
+      });
+
+      it("should revert", async () => {
+        expect(subject).to.throw("path/tickSpacing lengths do not match");
+      });
+    });
+
+    describe("when a Balancer swap has no poolIds", async () => {
+      beforeEach(async () => {
+        subjectSwapData = { ...getNoopSwapData(), path: [tokenA, tokenB], exchange: Exchange.BalancerV2 };
+      });
+
+      it("should revert", async () => {
+        expect(subject).to.throw("path/poolIds lengths do not match");
+      });
+    });
+
+    describe("when a poolId is not 32 bytes", async () => {
+      beforeEach(async () => {
+        subjectSwapData = { ...getNoopSwapData(), path: [tokenA, tokenB], poolIds: ["0x01"], exchange: Exchange.BalancerV2 };
+      });
+
+      it("should revert", async () => {
+        expect(subject).to.throw("Invalid poolId: 0x01");
+      });
+    });
+
+    describe("when a Curve swap has no pool", async () => {
+      beforeEach(async () => {
+        subjectSwapData = { ...getNoopSwapData(), path: [tokenA, tokenB], exchange: Exchange.Curve };
+      });
+
+      it("should revert", async () => {
+        expect(subject).to.throw("Curve swaps require a pool address");
+      });
+    });
+
+    describe("when the path is empty", async () => {
+      beforeEach(async () => {
+        subjectSwapData = { ...getNoopSwapData(), exchange: Exchange.UniV3 };
+      });
+
+      it("should return the swap data", async () => {
+        expect(subject()).to.eq(subjectSwapData);
+      });
+    });
+
+    describe("when the path is circular", async () => {
+      beforeEach(async () => {
+        subjectSwapData = { ...getNoopSwapData(), path: [tokenA, tokenA.toLowerCase()], exchange: Exchange.UniV3 };
+      });
+
+      it("should return the swap data", async () => {
+        expect(subject()).to.eq(subjectSwapData);
+      });
+    });
+  });
+
+  describe("#reverseSwapData", async () => {
+    it("should reverse the path and fees", async () => {
+      const reversed = reverseSwapData(buildUniV3SwapData([tokenA, tokenB, tokenC], [500, 3000]));
+
+      expect(reversed.path).to.deep.eq([tokenC, tokenB, tokenA]);
+      expect(reversed.fees).to.deep.eq([3000, 500]);
+    });
+  });
+});
@@ -0,0 +1,30 @@
+export {
+  AUCTION_EXECUTION_PARAMS_TUPLE,
+  AuctionRebalanceMethod,
+  AuctionRebalanceProposal,
+  AuctionRebalanceTarget,
+  buildAuctionRebalanceProposal,
+  encodeAuctionRebalanceCall,
+  encodePriceAdapterConfig,
+  formatRebalanceDiff,
+  getComponentValue,
+  getSetTokenRebalanceState,
+  PriceAdapterConfig,
+  RebalanceComponent,
+  RebalanceDiffEntry,
+  SetTokenRebalanceState,
+} from "./proposalBuilder";
+export {
+  constructRebalanceClaim,
+  decodeRebalanceProposed,
+  DecodedRebalanceProposal,
+  evaluateRebalanceRules,
+  getRebalanceProposalHash,
+  OptimisticRebalanceExtension,
+  parseRebalanceRules,
+  RebalanceProposalVerification,
+  RebalanceRuleContext,
+  RebalanceRuleResult,
+  RebalanceRules,
+  verifyRebalanceProposal,
+} from "./proposalVerifier";
@@ -0,0 +1,303 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { utils } from "ethers";
+import { SetToken } from "@typechain/SetToken";
+
+import { PRECISE_UNIT, ZERO } from "../constants";
+import { preciseDiv, preciseMul, sameAddress } from "../common";
+import { Address, AuctionExecutionParams, Bytes } from "../types";
+
+// ABI type of IAuctionRebalanceModuleV1.AuctionExecutionParams
+export const AUCTION_EXECUTION_PARAMS_TUPLE =
+  "tuple(uint256 targetUnit,string priceAdapterName,bytes priceAdapterConfigData)";
+
+const GLOBAL_REBALANCE_PARAMS = `address _setToken, address _quoteAsset, address[] _oldComponents, address[] _newComponents, ${AUCTION_EXECUTION_PARAMS_TUPLE}[] _newComponentsAuctionParams, ${AUCTION_EXECUTION_PARAMS_TUPLE}[] _oldComponentsAuctionParams, bool _shouldLockSetToken, uint256 _rebalanceDuration, uint256 _positionMultiplier`;
+
+const AUCTION_REBALANCE_ABI: { [method in AuctionRebalanceMethod]: string } = {
+  "GlobalAuctionRebalanceExtension.startRebalance": `function startRebalance(${GLOBAL_REBALANCE_PARAMS})`,
+  "GlobalOptimisticAuctionRebalanceExtension.proposeRebalance": `function proposeRebalance(${GLOBAL_REBALANCE_PARAMS})`,
+  "GlobalOptimisticAuctionRebalanceExtension.startRebalance": `function startRebalance(${GLOBAL_REBALANCE_PARAMS})`,
+  "OptimisticAuctionRebalanceExtensionV1.proposeRebalance": `function proposeRebalance(address _quoteAsset, address[] _oldComponents, address[] _newComponents, ${AUCTION_EXECUTION_PARAMS_TUPLE}[] _newComponentsAuctionParams, ${AUCTION_EXECUTION_PARAMS_TUPLE}[] _oldComponentsAuctionParams, uint256 _rebalanceDuration, uint256 _positionMultiplier)`,
+  "OptimisticAuctionRebalanceExtensionV1.startRebalance": `function startRebalance(address _quoteAsset, address[] _oldComponents, address[] _newComponents, ${AUCTION_EXECUTION_PARAMS_TUPLE}[] _newComponentsAuctionParams, ${AUCTION_EXECUTION_PARAMS_TUPLE}[] _oldComponentsAuctionParams, bool _shouldLockSetToken, uint256 _rebalanceDuration, uint256 _positionMultiplier)`,
+};
+
+// Argument tuples of the methods in AUCTION_REBALANCE_ABI
+type AuctionComponentArgs = [Address, Address[], Address[], AuctionExecutionParams[], AuctionExecutionParams[]];
+type OptimisticProposeRebalanceArgs = [...AuctionComponentArgs, BigNumber, BigNumber];
+type OptimisticStartRebalanceArgs = [...AuctionComponentArgs, boolean, BigNumber, BigNumber];
+type GlobalRebalanceArgs = [Address, ...AuctionComponentArgs, boolean, BigNumber, BigNumber];
+
+export type AuctionRebalanceMethod =
+  "GlobalAuctionRebalanceExtension.startRebalance" |
+  "GlobalOptimisticAuctionRebalanceExtension.proposeRebalance" |
+  "GlobalOptimisticAuctionRebalanceExtension.startRebalance" |
+  "OptimisticAuctionRebalanceExtensionV1.proposeRebalance" |
+  "OptimisticAuctionRebalanceExtensionV1.startRebalance";
+
+/**
+ * ConstantPriceAdapter auctions at the component price. BoundedStepwiseLinearPriceAdapter starts `startPremium` away
+ * from the component price in the SetToken's favour (above it when selling, below it when buying), moves by
+ * `slope` of the price every `bucketSize` seconds and stops `boundPremium` past the price. Premiums and slope are
+ * in precise units, e.g. ether(0.01) = 1%.
+ */
+export type PriceAdapterConfig =
+  { name: "ConstantPriceAdapter" } |
+  { name: "BoundedStepwiseLinearPriceAdapter"; startPremium: BigNumber; slope: BigNumber; bucketSize: BigNumber; boundPremium: BigNumber } |
+  { name: string; configData: Bytes };
+
+export interface RebalanceComponent {
+  address: Address;
+  symbol?: string;
+  decimals: number;
+  price: BigNumber;                       // Value of one whole token in whole quote asset units, in precise units
+}
+
+// Units and position multiplier must be read at the same block
+export interface SetTokenRebalanceState {
+  address: Address;
+  components: Address[];                  // In SetToken.getComponents() order
+  units: BigNumber[];                     // Default position real units
+  positionMultiplier: BigNumber;
+}
+
+export interface AuctionRebalanceTarget {
+  setToken: SetTokenRebalanceState;
+  quoteAsset: Address;
+  quoteAssetDecimals: number;
+  components: RebalanceComponent[];       // Every current and target component
+  targetWeights: { [component: string]: BigNumber };  // Precise units summing to 1e18. Omitted components are removed
+  priceAdapter: PriceAdapterConfig;
+  priceAdapterOverrides?: { [component: string]: PriceAdapterConfig };
+  rebalanceDuration: BigNumber;
+  shouldLockSetToken?: boolean;
+}
+
+export interface AuctionRebalanceProposal {
+  setToken: Address;
+  quoteAsset: Address;
+  oldComponents: Address[];
+  newComponents: Address[];
+  newComponentsAuctionParams: AuctionExecutionParams[];
+  oldComponentsAuctionParams: AuctionExecutionParams[];
+  shouldLockSetToken: boolean;
+  rebalanceDuration: BigNumber;
+  positionMultiplier: BigNumber;
+}
+
+export interface RebalanceDiffEntry {
+  component: Address;
+  symbol?: string;
+  currentUnit: BigNumber;
+  targetUnit: BigNumber;
+  currentWeight: BigNumber;
+  targetWeight: BigNumber;
+  tradeValue: BigNumber;                  // Value bought (positive) or sold (negative) per SetToken, in whole quote units
+  priceAdapterName: string;
+}
+
+// Reads components, default position real units and position multiplier of a SetToken at a single block
+export const getSetTokenRebalanceState = async (
+  setToken: SetToken,
+  blockTag?: number
+): Promise<SetTokenRebalanceState> => {
+  const overrides = { blockTag: blockTag || await setToken.provider.getBlockNumber() };
+  const components = await setToken.getComponents(overrides);
+  const units = await Promise.all(components.map((component: Address) => setToken.getDefaultPositionRealUnit(component, overrides)));
+
+  return {
+    address: setToken.address,
+    components,
+    units,
+    positionMultiplier: await setToken.positionMultiplier(overrides),
+  };
+};
+
+/**
+ * Builds AuctionRebalanceModuleV1 rebalance parameters from target weights. Target units are sized so that the
+ * current value of one SetToken is split by `targetWeights` at the given prices, and are paired with the
+ * SetToken's position multiplier so the module rescales them if streaming fees accrue before the auction ends.
+ *
+ * @param target      Current SetToken state, prices, target weights and auction settings
+ * @return            Proposal parameters and a per component diff
+ */
+export const buildAuctionRebalanceProposal = (
+  target: AuctionRebalanceTarget
+): { proposal: AuctionRebalanceProposal; diff: RebalanceDiffEntry[] } => {
+  const { setToken, targetWeights } = target;
+  const metadata = getComponentMetadata(target);
+
+  const weightTotal = Object.keys(targetWeights).reduce((memo, key) => memo.add(targetWeights[key]), ZERO);
+  if (!weightTotal.eq(PRECISE_UNIT)) {
+    throw new Error(`Target weights sum to ${weightTotal.toString()}, expected ${PRECISE_UNIT.toString()}`);
+  }
+
+  const currentValues = setToken.components.map((component, i) => getComponentValue(setToken.units[i], metadata(component)));
+  const navPerSet = currentValues.reduce((memo, value) => memo.add(value), ZERO);
+
+  const isCurrent = (component: Address) => setToken.components.some(current => sameAddress(current, component));
+  const newComponents = Object.keys(targetWeights)
+    .filter(component => !isCurrent(component) && targetWeights[component].gt(0))
+    .map(component => metadata(component).address);
+
+  const getTargetWeight = (component: Address): BigNumber => {
+    const key = Object.keys(targetWeights).find(weightKey => sameAddress(weightKey, component));
+    return key ? targetWeights[key] : ZERO;
+  };
+
+  const diff: RebalanceDiffEntry[] = [];
+  const toAuctionParams = (component: Address, currentUnit: BigNumber, currentValue: BigNumber): AuctionExecutionParams => {
+    const info = metadata(component);
+    const targetWeight = getTargetWeight(component);
+    const targetUnit = getUnit(preciseMul(navPerSet, targetWeight), info);
+    const isSell = targetUnit.lt(currentUnit);
+    const priceAdapter = getPriceAdapterConfig(target, component);
+
+    diff.push({
+      component: info.address,
+      symbol: info.symbol,
+      currentUnit,
+      targetUnit,
+      currentWeight: navPerSet.gt(0) ? preciseDiv(currentValue, navPerSet) : ZERO,
+      targetWeight,
+      tradeValue: getComponentValue(targetUnit, info).sub(currentValue),
+      priceAdapterName: priceAdapter.name,
+    });
+
+    return {
+      targetUnit,
+      priceAdapterName: priceAdapter.name,
+      priceAdapterConfigData: encodePriceAdapterConfig(
+        priceAdapter,
+        getAdapterPrice(info, target.quoteAssetDecimals),
+        isSell
+      ),
+    };
+  };
+
+  const oldComponentsAuctionParams = setToken.components.map((component, i) =>
+    toAuctionParams(component, setToken.units[i], currentValues[i])
+  );
+  const newComponentsAuctionParams = newComponents.map(component => toAuctionParams(component, ZERO, ZERO));
+
+  return {
+    proposal: {
+      setToken: setToken.address,
+      quoteAsset: target.quoteAsset,
+      oldComponents: setToken.components,
+      newComponents,
+      newComponentsAuctionParams,
+      oldComponentsAuctionParams,
+      shouldLockSetToken: target.shouldLockSetToken || false,
+      rebalanceDuration: target.rebalanceDuration,
+      positionMultiplier: setToken.positionMultiplier,
+    },
+    diff,
+  };
+};
+
+/**
+ * Price adapter config bytes. `price` is in quote asset base units per component base unit, in precise units,
+ * which is how AuctionRebalanceModuleV1 prices bids.
+ */
+export const encodePriceAdapterConfig = (config: PriceAdapterConfig, price: BigNumber, isSell: boolean): Bytes => {
+  if ("configData" in config) return config.configData;
+
+  if (config.name === "ConstantPriceAdapter") {
+    return utils.defaultAbiCoder.encode(["uint256"], [price]);
+  }
+
+  const { startPremium, slope, bucketSize, boundPremium } = config;
+  const initialPrice = preciseMul(price, isSell ? PRECISE_UNIT.add(startPremium) : PRECISE_UNIT.sub(startPremium));
+  const boundPrice = preciseMul(price, isSell ? PRECISE_UNIT.sub(boundPremium) : PRECISE_UNIT.add(boundPremium));
+  const priceSlope = preciseMul(price, slope);
+
+  // BoundedStepwiseLinearPriceAdapter rejects a zero initial price or slope
+  if (initialPrice.lte(0)) {
+    throw new Error(`Initial price is not positive: start premium ${startPremium.toString()} must be below 100% on a buy`);
+  }
+  if (priceSlope.lte(0)) {
+    throw new Error(`Slope rounds to zero at price ${price.toString()}: slope ${slope.toString()} is too small`);
+  }
+
+  return utils.defaultAbiCoder.encode(
+    ["uint256", "uint256", "uint256", "bool", "uint256", "uint256"],
+    [
+      initialPrice,
+      priceSlope,
+      bucketSize,
+      isSell,
+      isSell ? initialPrice : boundPrice,
+      isSell ? boundPrice : initialPrice,
+    ]
+  );
+};
+
+// Calldata for sending the proposal to one of the auction rebalance extensions
+export const encodeAuctionRebalanceCall = (method: AuctionRebalanceMethod, proposal: AuctionRebalanceProposal): Bytes => {
+  const fragment = utils.FunctionFragment.from(AUCTION_REBALANCE_ABI[method]);
+  const args: AuctionComponentArgs = [
+    proposal.quoteAsset,
+    proposal.oldComponents,
+    proposal.newComponents,
+    proposal.newComponentsAuctionParams,
+    proposal.oldComponentsAuctionParams,
+  ];
+
+  let values: OptimisticProposeRebalanceArgs | OptimisticStartRebalanceArgs | GlobalRebalanceArgs;
+  if (method === "OptimisticAuctionRebalanceExtensionV1.proposeRebalance") {
+    values = [...args, proposal.rebalanceDuration, proposal.positionMultiplier];
+  } else if (method === "OptimisticAuctionRebalanceExtensionV1.startRebalance") {
+    values = [...args, proposal.shouldLockSetToken, proposal.rebalanceDuration, proposal.positionMultiplier];
+  } else {
+    values = [proposal.setToken, ...args, proposal.shouldLockSetToken, proposal.rebalanceDuration, proposal.positionMultiplier];
+  }
+
+  return new utils.Interface([fragment]).encodeFunctionData(fragment.name, values);
+};
+
+// Human-readable table of the rebalance, one line per component
+export const formatRebalanceDiff = (diff: RebalanceDiffEntry[], components: RebalanceComponent[]): string => {
+  const formatWeight = (weight: BigNumber) => `${utils.formatUnits(weight.mul(100), 18)}%`;
+
+  return diff.map(entry => {
+    const info = components.find(component => sameAddress(component.address, entry.component));
+    const decimals = info ? info.decimals : 18;
+    const action = entry.targetUnit.eq(entry.currentUnit)
+      ? "hold"
+      : entry.currentUnit.eq(0) ? "add" : entry.targetUnit.eq(0) ? "remove" : entry.tradeValue.gt(0) ? "buy" : "sell";
+
+    return [
+      (entry.symbol || entry.component).padEnd(12),
+      action.padEnd(7),
+      `${utils.formatUnits(entry.currentUnit, decimals)} -> ${utils.formatUnits(entry.targetUnit, decimals)}`,
+      `(${formatWeight(entry.currentWeight)} -> ${formatWeight(entry.targetWeight)})`,
+      `trade ${utils.formatUnits(entry.tradeValue, 18)}`,
+      entry.priceAdapterName,
+    ].join("  ");
+  }).join("\n");
+};
+
+// Value of a unit in whole quote asset units, in precise units
+export const getComponentValue = (unit: BigNumber, info: RebalanceComponent): BigNumber => {
+  return unit.mul(info.price).div(BigNumber.from(10).pow(info.decimals));
+};
+
+const getComponentMetadata = (target: AuctionRebalanceTarget) => (component: Address): RebalanceComponent => {
+  const info = target.components.find(candidate => sameAddress(candidate.address, component));
+  if (!info) throw new Error(`Missing price and decimals for component: ${component}`);
+  if (info.price.lte(0)) throw new Error(`Invalid price for component: ${component}`);
+  return info;
+};
+
+const getPriceAdapterConfig = (target: AuctionRebalanceTarget, component: Address): PriceAdapterConfig => {
+  const overrides = target.priceAdapterOverrides || {};
+  const key = Object.keys(overrides).find(overrideKey => sameAddress(overrideKey, component));
+  return key ? overrides[key] : target.priceAdapter;
+};
+
+const getUnit = (value: BigNumber, info: RebalanceComponent): BigNumber => {
+  return value.mul(BigNumber.from(10).pow(info.decimals)).div(info.price);
+};
+
+const getAdapterPrice = (info: RebalanceComponent, quoteAssetDecimals: number): BigNumber => {
+  return info.price.mul(BigNumber.from(10).pow(quoteAssetDecimals)).div(BigNumber.from(10).pow(info.decimals));
+};
@@ -0,0 +1,351 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { Contract, providers, utils } from "ethers";
+
+import {
+  AUCTION_EXECUTION_PARAMS_TUPLE,
+  AuctionRebalanceProposal,
+  getComponentValue,
+  RebalanceComponent,
+} from "./proposalBuilder";
+import { ZERO } from "../constants";
+import { preciseDiv, sameAddress } from "../common";
+import { Address, Bytes } from "../types";
+
+export type OptimisticRebalanceExtension = "OptimisticAuctionRebalanceExtensionV1" | "GlobalOptimisticAuctionRebalanceExtension";
+
+const REBALANCE_PROPOSED_PARAMS = `address[] oldComponents, address[] newComponents, ${AUCTION_EXECUTION_PARAMS_TUPLE}[] newComponentsAuctionParams, ${AUCTION_EXECUTION_PARAMS_TUPLE}[] oldComponentsAuctionParams`;
+const OPTIMISTIC_PARAMS_TUPLE = "tuple(address collateral, uint64 liveness, uint256 bondAmount, bytes32 identifier, address optimisticOracleV3)";
+
+const EXTENSION_ABIS: { [extension in OptimisticRebalanceExtension]: string[] } = {
+  OptimisticAuctionRebalanceExtensionV1: [
+    `event RebalanceProposed(address indexed setToken, address indexed quoteAsset, ${REBALANCE_PROPOSED_PARAMS}, uint256 rebalanceDuration, uint256 positionMultiplier)`,
+    "event AssertedClaim(address indexed setToken, address indexed _assertedBy, string rules, bytes32 _assertionId, bytes _claimData)",
+    `function productSettings() view returns (${OPTIMISTIC_PARAMS_TUPLE} optimisticParams, string rules)`,
+    "function useAssetAllowlist() view returns (bool)",
+    "function getAllowedAssets() view returns (address[])",
+  ],
+  GlobalOptimisticAuctionRebalanceExtension: [
+    `event RebalanceProposed(address indexed setToken, address indexed quoteAsset, ${REBALANCE_PROPOSED_PARAMS}, bool shouldLockSetToken, uint256 rebalanceDuration, uint256 positionMultiplier)`,
+    "event AssertedClaim(address indexed _setToken, address indexed _assertedBy, bytes32 indexed rulesHash, bytes32 _assertionId, bytes _claimData)",
+    `function productSettings(address) view returns (${OPTIMISTIC_PARAMS_TUPLE} optimisticParams, bytes32 rulesHash)`,
+  ],
+};
+
+const SET_TOKEN_ABI = ["function getComponents() view returns (address[])"];
+
+// Keys of the claim asserted at the Optimistic Oracle V3, see PROPOSAL_HASH_KEY and RULES_KEY of the extensions
+const PROPOSAL_HASH_KEY = "proposalHash";
+const RULES_KEYS: { [extension in OptimisticRebalanceExtension]: string } = {
+  OptimisticAuctionRebalanceExtensionV1: "rules",
+  GlobalOptimisticAuctionRebalanceExtension: "rulesIPFSHash",
+};
+
+/**
+ * Machine-readable constraints published alongside the product rules. Weights are fractions in precise units
+ * (ether(0.4) = 40%) computed from target units at the prices passed to the verifier.
+ */
+export interface RebalanceRules {
+  maxWeightPerAsset?: BigNumber;
+  maxWeights?: { [asset: string]: BigNumber };  // Per asset overrides of maxWeightPerAsset
+  allowedAssets?: Address[];                     // Assets allowed as new components, on top of the extension's allow list
+  maxRebalanceDuration?: BigNumber;              // Seconds
+  allowedPriceAdapters?: string[];
+  allowSetTokenLock?: boolean;
+}
+
+export interface DecodedRebalanceProposal extends AuctionRebalanceProposal {
+  extension: Address;
+  extensionType: OptimisticRebalanceExtension;
+}
+
+export interface RebalanceRuleContext {
+  components: RebalanceComponent[];              // Prices and decimals of every component with a target unit
+  currentComponents?: Address[];                 // SetToken.getComponents() when the proposal was made
+  allowedAssets?: Address[];                     // Asset allow list enforced by the extension
+}
+
+export interface RebalanceRuleResult {
+  status: "PASS" | "FAIL";
+  reasons: string[];
+  targetWeights: { [component: string]: BigNumber };
+}
+
+export interface RebalanceProposalVerification extends RebalanceRuleResult {
+  proposal: DecodedRebalanceProposal;
+  proposalHash: string;
+  claim: Bytes;
+  claimString?: string;                          // Undefined if the claim is not valid utf8, e.g. the raw rulesHash of the global extension
+  assertionId?: string;
+}
+
+/**
+ * Parses rules JSON, e.g. `{ "maxWeightPerAsset": "0.4", "maxRebalanceDuration": 86400 }`. Weights are decimal
+ * fractions, durations are seconds.
+ */
+export const parseRebalanceRules = (content: string): RebalanceRules => {
+  const raw = JSON.parse(content);
+  const maxWeights = raw.maxWeights || {};
+
+  return {
+    maxWeightPerAsset: raw.maxWeightPerAsset !== undefined ? utils.parseEther(String(raw.maxWeightPerAsset)) : undefined,
+    maxWeights: Object.keys(maxWeights).reduce<{ [asset: string]: BigNumber }>((memo, asset) => {
+      memo[utils.getAddress(asset)] = utils.parseEther(String(maxWeights[asset]));
+      return memo;
+    }, {}),
+    allowedAssets: raw.allowedAssets ? raw.allowedAssets.map((asset: string) => utils.getAddress(asset)) : undefined,
+    maxRebalanceDuration: raw.maxRebalanceDuration !== undefined ? BigNumber.from(raw.maxRebalanceDuration) : undefined,
+    allowedPriceAdapters: raw.allowedPriceAdapters,
+    allowSetTokenLock: raw.allowSetTokenLock,
+  };
+};
+
+// Decodes a RebalanceProposed log emitted by either optimistic extension
+export const decodeRebalanceProposed = (log: providers.Log): DecodedRebalanceProposal => {
+  for (const extensionType of Object.keys(EXTENSION_ABIS) as OptimisticRebalanceExtension[]) {
+    const extensionInterface = new utils.Interface(EXTENSION_ABIS[extensionType]);
+    if (log.topics[0] !== extensionInterface.getEventTopic("RebalanceProposed")) continue;
+
+    const { args } = extensionInterface.parseLog(log);
+    const toParams = (params: any[]) => params.map(({ targetUnit, priceAdapterName, priceAdapterConfigData }) => ({
+      targetUnit,
+      priceAdapterName,
+      priceAdapterConfigData,
+    }));
+
+    return {
+      extension: log.address,
+      extensionType,
+      setToken: args.setToken,
+      quoteAsset: args.quoteAsset,
+      oldComponents: args.oldComponents,
+      newComponents: args.newComponents,
+      newComponentsAuctionParams: toParams(args.newComponentsAuctionParams),
+      oldComponentsAuctionParams: toParams(args.oldComponentsAuctionParams),
+      shouldLockSetToken: extensionType === "GlobalOptimisticAuctionRebalanceExtension" ? args.shouldLockSetToken : false,
+      rebalanceDuration: args.rebalanceDuration,
+      positionMultiplier: args.positionMultiplier,
+    };
+  }
+
+  throw new Error(`Log ${log.logIndex} of ${log.transactionHash} is not a RebalanceProposed event`);
+};
+
+// Proposal hash as computed by proposeRebalance. OptimisticAuctionRebalanceExtensionV1 always hashes shouldLockSetToken = false.
+export const getRebalanceProposalHash = (proposal: AuctionRebalanceProposal): string => {
+  return utils.keccak256(utils.defaultAbiCoder.encode(
+    [
+      "address",
+      "address",
+      "address[]",
+      "address[]",
+      `${AUCTION_EXECUTION_PARAMS_TUPLE}[]`,
+      `${AUCTION_EXECUTION_PARAMS_TUPLE}[]`,
+      "bool",
+      "uint256",
+      "uint256",
+    ],
+    [
+      proposal.setToken,
+      proposal.quoteAsset,
+      proposal.oldComponents,
+      proposal.newComponents,
+      proposal.newComponentsAuctionParams,
+      proposal.oldComponentsAuctionParams,
+      proposal.shouldLockSetToken,
+      proposal.rebalanceDuration,
+      proposal.positionMultiplier,
+    ]
+  ));
+};
+
+/**
+ * Claim asserted by `_constructClaim`: `proposalHash:<hash as lowercase hex without 0x>,<rules key>:"<rules>"`. The V1
+ * extension embeds its rules string under `rules`, the global extension the raw 32 bytes of the product's rulesHash
+ * under `rulesIPFSHash`.
+ *
+ * @param extensionType   Extension that asserted the claim
+ * @param proposalHash    Hash of the proposal, see getRebalanceProposalHash
+ * @param rules           Rules string for the V1 extension, bytes32 rulesHash for the global extension
+ */
+export const constructRebalanceClaim = (
+  extensionType: OptimisticRebalanceExtension,
+  proposalHash: string,
+  rules: string
+): Bytes => {
+  const rulesBytes = extensionType === "GlobalOptimisticAuctionRebalanceExtension"
+    ? utils.arrayify(rules)
+    : utils.toUtf8Bytes(rules);
+
+  return utils.hexlify(utils.concat([
+    utils.toUtf8Bytes(`${PROPOSAL_HASH_KEY}:${proposalHash.slice(2).toLowerCase()},${RULES_KEYS[extensionType]}:"`),
+    rulesBytes,
+    utils.toUtf8Bytes("\""),
+  ]));
+};
+
+/**
+ * Checks a proposal against published rule constraints. Also flags proposals the auction module would reject, so
+ * disputers see every reason at once.
+ */
+export const evaluateRebalanceRules = (
+  proposal: AuctionRebalanceProposal,
+  rules: RebalanceRules,
+  context: RebalanceRuleContext
+): RebalanceRuleResult => {
+  const reasons: string[] = [];
+  const components = [...proposal.oldComponents, ...proposal.newComponents];
+  const params = [...proposal.oldComponentsAuctionParams, ...proposal.newComponentsAuctionParams];
+
+  if (proposal.oldComponents.length !== proposal.oldComponentsAuctionParams.length) {
+    reasons.push("oldComponents and oldComponentsAuctionParams lengths differ");
+  }
+  if (proposal.newComponents.length !== proposal.newComponentsAuctionParams.length) {
+    reasons.push("newComponents and newComponentsAuctionParams lengths differ");
+  }
+  if (context.currentComponents && !sameAddresses(context.currentComponents, proposal.oldComponents)) {
+    reasons.push("oldComponents do not match the SetToken's components");
+  }
+
+  const values: { [component: string]: BigNumber } = {};
+  components.forEach((component, i) => {
+    if (!params[i] || params[i].targetUnit.eq(0)) return;
+
+    const info = context.components.find(candidate => sameAddress(candidate.address, component));
+    if (!info) {
+      reasons.push(`Missing price for ${component}, cannot check its weight`);
+      return;
+    }
+    values[utils.getAddress(component)] = getComponentValue(params[i].targetUnit, info);
+  });
+
+  const total = Object.keys(values).reduce((memo, component) => memo.add(values[component]), ZERO);
+  const targetWeights = Object.keys(values).reduce<{ [component: string]: BigNumber }>((memo, component) => {
+    memo[component] = total.gt(0) ? preciseDiv(values[component], total) : ZERO;
+    return memo;
+  }, {});
+
+  Object.keys(targetWeights).forEach(component => {
+    const maxWeights = rules.maxWeights || {};
+    const overrideKey = Object.keys(maxWeights).find(asset => sameAddress(asset, component));
+    const maxWeight = overrideKey ? maxWeights[overrideKey] : rules.maxWeightPerAsset;
+
+    if (maxWeight && targetWeights[component].gt(maxWeight)) {
+      reasons.push(`Weight of ${component} is ${formatWeight(targetWeights[component])}, above the max of ${formatWeight(maxWeight)}`);
+    }
+  });
+
+  const allowedAssets = [...(context.allowedAssets || []), ...(rules.allowedAssets || [])];
+  if (context.allowedAssets || rules.allowedAssets) {
+    proposal.newComponents
+      .filter(component => !allowedAssets.some(asset => sameAddress(asset, component)))
+      .forEach(component => reasons.push(`New component ${component} is not an allowed asset`));
+  }
+
+  if (rules.maxRebalanceDuration && proposal.rebalanceDuration.gt(rules.maxRebalanceDuration)) {
+    reasons.push(`Rebalance duration of ${proposal.rebalanceDuration.toString()}s exceeds the max of ${rules.maxRebalanceDuration.toString()}s`);
+  }
+
+  if (rules.allowedPriceAdapters) {
+    const allowedPriceAdapters = rules.allowedPriceAdapters;
+    components.forEach((component, i) => {
+      if (params[i] && !allowedPriceAdapters.includes(params[i].priceAdapterName)) {
+        reasons.push(`Price adapter ${params[i].priceAdapterName} of ${component} is not allowed`);
+      }
+    });
+  }
+
+  if (proposal.shouldLockSetToken && rules.allowSetTokenLock === false) {
+    reasons.push("Proposal locks the SetToken");
+  }
+
+  return { status: reasons.length === 0 ? "PASS" : "FAIL", reasons, targetWeights };
+};
+
+/**
+ * Verifies the proposal made in a transaction: decodes RebalanceProposed, recomputes the proposal hash and claim
+ * from the extension's product settings at the proposal block, compares them with the asserted claim and evaluates
+ * the rules.
+ *
+ * @param provider        Provider of the chain the proposal was made on
+ * @param txHash          Hash of the proposeRebalance transaction
+ * @param rules           Constraints published with the product rules
+ * @param components      Prices and decimals of every component of the proposal
+ * @return                Verification result with PASS/FAIL and the reasons for failure
+ */
+export const verifyRebalanceProposal = async (
+  provider: providers.Provider,
+  txHash: string,
+  rules: RebalanceRules,
+  components: RebalanceComponent[]
+): Promise<RebalanceProposalVerification> => {
+  const receipt = await provider.getTransactionReceipt(txHash);
+  if (!receipt) throw new Error(`Transaction ${txHash} not found`);
+
+  const proposedLog = receipt.logs.find(log => {
+    try {
+      decodeRebalanceProposed(log);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  });
+  if (!proposedLog) throw new Error(`No RebalanceProposed event in ${txHash}`);
+
+  const proposal = decodeRebalanceProposed(proposedLog);
+  const isGlobal = proposal.extensionType === "GlobalOptimisticAuctionRebalanceExtension";
+  const extension = new Contract(proposal.extension, EXTENSION_ABIS[proposal.extensionType], provider);
+  const setToken = new Contract(proposal.setToken, SET_TOKEN_ABI, provider);
+  // State the proposal was made against
+  const blockTag = { blockTag: receipt.blockNumber - 1 };
+
+  const settings = isGlobal
+    ? await extension.productSettings(proposal.setToken, blockTag)
+    : await extension.productSettings(blockTag);
+  const proposalHash = getRebalanceProposalHash(proposal);
+  const claim = constructRebalanceClaim(proposal.extensionType, proposalHash, isGlobal ? settings.rulesHash : settings.rules);
+
+  let allowedAssets: Address[] | undefined;
+  if (!isGlobal && await extension.useAssetAllowlist(blockTag)) {
+    allowedAssets = await extension.getAllowedAssets(blockTag);
+  }
+
+  const result = evaluateRebalanceRules(proposal, rules, {
+    components,
+    currentComponents: await setToken.getComponents(blockTag),
+    allowedAssets,
+  });
+
+  const assertedLog = receipt.logs
+    .filter(log => sameAddress(log.address, proposal.extension))
+    .map(log => extension.interface.parseLog(log))
+    .find(log => log.name === "AssertedClaim");
+  if (!assertedLog) {
+    result.reasons.push("No AssertedClaim event in the proposal transaction");
+  } else if (assertedLog.args._claimData.toLowerCase() !== claim.toLowerCase()) {
+    result.reasons.push("Asserted claim does not match the claim built from the proposal and product rules");
+  }
+
+  return {
+    ...result,
+    status: result.reasons.length === 0 ? "PASS" : "FAIL",
+    proposal,
+    proposalHash,
+    claim,
+    claimString: toClaimString(claim),
+    assertionId: assertedLog ? assertedLog.args._assertionId : undefined,
+  };
+};
+
+const sameAddresses = (a: Address[], b: Address[]): boolean => {
+  return a.length === b.length && a.every((address, i) => sameAddress(address, b[i]));
+};
+
+const formatWeight = (weight: BigNumber): string => `${utils.formatUnits(weight.mul(100), 18)}%`;
+
+const toClaimString = (claim: Bytes): string | undefined => {
+  try {
+    return utils.toUtf8String(claim);
+  } catch (error) {
+    return undefined;
+  }
+};
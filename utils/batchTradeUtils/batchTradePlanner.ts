@@ -0,0 +1,279 @@
+import { JsonRpcProvider, Log } from "@ethersproject/providers";
+import { BigNumber, ContractReceipt, ethers, utils } from "ethers";
+
+import { preciseMul } from "../common/mathUtils";
+import { Address, BatchTradeResult, Bytes, TradeInfo } from "../types";
+
+export type BatchTradeFailureStage = "validation" | "simulation";
+
+export type PlannedBatchTrade = BatchTradeResult & {
+  index: number;                      // Position of the trade in the requested batch
+  stage?: BatchTradeFailureStage;     // Check that rejected the trade
+};
+
+export interface BatchTradePlan {
+  setToken: Address;
+  trades: TradeInfo[];                // Pruned and ordered batch
+  results: PlannedBatchTrade[];       // Outcome of every requested trade, in request order
+  simulations: number;                // Fork replays needed to reach a batch without failures
+}
+
+export interface BatchTradePlannerOptions {
+  errorSignatures?: string[];         // Custom errors to decode low level reverts with, e.g. "IncompleteFillError(uint256,uint256)"
+  maxSimulations?: number;            // Defaults to the number of trades plus one
+}
+
+const TRADE_INFO_TUPLE = "tuple(string exchangeName, address sendToken, uint256 sendQuantity, address receiveToken, uint256 receiveQuantity, bytes data)";
+
+const BATCH_TRADE_EXTENSION_ABI = [
+  `function batchTrade(address _setToken, ${TRADE_INFO_TUPLE}[] _trades)`,
+  "function getIntegrations() view returns (string[])",
+  `event StringTradeFailed(address indexed _setToken, uint256 indexed _index, string _reason, ${TRADE_INFO_TUPLE} _tradeInfo)`,
+  `event BytesTradeFailed(address indexed _setToken, uint256 indexed _index, bytes _lowLevelData, ${TRADE_INFO_TUPLE} _tradeInfo)`,
+];
+
+const SET_TOKEN_ABI = [
+  "function manager() view returns (address)",
+  "function totalSupply() view returns (uint256)",
+  "function getDefaultPositionRealUnit(address _component) view returns (int256)",
+];
+
+const DELEGATED_MANAGER_ABI = [
+  "function isAllowedAsset(address _asset) view returns (bool)",
+  "function getOperators() view returns (address[])",
+];
+
+const ERC20_ABI = ["function balanceOf(address _account) view returns (uint256)"];
+
+const ERROR_SELECTOR = utils.id("Error(string)").slice(0, 10);
+const PANIC_SELECTOR = utils.id("Panic(uint256)").slice(0, 10);
+
+/**
+ * Plans a GlobalBatchTradeExtension.batchTrade call that executes without failed trades. Trades are first validated
+ * against the extension's integrations, the DelegatedManager asset allowlist and the SetToken's default positions and
+ * balances, and ordered so trades selling a token received in the batch come after the trade receiving it. The
+ * remaining batch is then replayed on a hardhat node, typically a fork, pruning failed trades until none fail.
+ *
+ * batchTrade catches trade reverts and emits them as StringTradeFailed and BytesTradeFailed events, so a callStatic
+ * only surfaces reverts of the batch itself. Trade failures are read from the events of the batch, sent as a real
+ * transaction by the impersonated operator inside an evm_snapshot that is reverted afterwards. Simulating relies on
+ * hardhat_impersonateAccount, hardhat_setBalance and evm_snapshot, so it cannot run against a non-hardhat node such
+ * as a live network RPC; run it on a hardhat fork instead. Since out of gas trades are caught too, the planned batch
+ * should be executed with a gas limit above its eth_estimateGas.
+ */
+export class BatchTradePlanner {
+  public provider: JsonRpcProvider;
+  public extension: ethers.Contract;
+  public setToken: ethers.Contract;
+
+  private _options: BatchTradePlannerOptions;
+
+  constructor(provider: JsonRpcProvider, extension: Address, setToken: Address, options: BatchTradePlannerOptions = {}) {
+    this.provider = provider;
+    this.extension = new ethers.Contract(extension, BATCH_TRADE_EXTENSION_ABI, provider);
+    this.setToken = new ethers.Contract(setToken, SET_TOKEN_ABI, provider);
+    this._options = options;
+  }
+
+  public async plan(trades: TradeInfo[], operator?: Address): Promise<BatchTradePlan> {
+    const { results, ordered } = await this.validate(trades);
+    const tradeOperator = operator || await this.getOperator();
+    const maxSimulations = this._options.maxSimulations || trades.length + 1;
+
+    let batch = ordered;
+    let simulations = 0;
+    while (batch.length > 0) {
+      if (simulations === maxSimulations) {
+        throw new Error(`Batch still has failing trades after ${maxSimulations} simulations`);
+      }
+
+      const outcome = await this.simulate(batch.map(index => trades[index]), tradeOperator);
+      simulations++;
+
+      const failures = outcome.filter(result => !result.success);
+      failures.forEach(failure => {
+        const index = batch[outcome.indexOf(failure)];
+        results[index] = { ...results[index], success: false, revertReason: failure.revertReason, stage: "simulation" };
+      });
+
+      if (failures.length === 0) break;
+      batch = batch.filter((_, position) => outcome[position].success);
+    }
+
+    return {
+      setToken: this.setToken.address,
+      trades: batch.map(index => trades[index]),
+      results,
+      simulations,
+    };
+  }
+
+  /**
+   * Checks each trade against the requirements of batchTrade and TradeModule.trade that can be read from state and
+   * orders the passing trades so every trade can cover its send quantity from the SetToken's positions, counting
+   * the minimum receive quantity of earlier trades.
+   *
+   * @param trades      Requested batch
+   * @return            Result of every trade and the indices of the passing trades in execution order
+   */
+  public async validate(trades: TradeInfo[]): Promise<{ results: PlannedBatchTrade[]; ordered: number[] }> {
+    const integrations: string[] = await this.extension.getIntegrations();
+    const manager = new ethers.Contract(await this.setToken.manager(), DELEGATED_MANAGER_ABI, this.provider);
+    const totalSupply: BigNumber = await this.setToken.totalSupply();
+
+    const units: { [token: string]: BigNumber } = {};
+    const balances: { [token: string]: BigNumber } = {};
+    for (const token of Array.from(new Set(trades.map(trade => utils.getAddress(trade.sendToken))))) {
+      units[token] = await this.setToken.getDefaultPositionRealUnit(token);
+      balances[token] = await new ethers.Contract(token, ERC20_ABI, this.provider).balanceOf(this.setToken.address);
+    }
+
+    const results: PlannedBatchTrade[] = trades.map((tradeInfo, index) => ({ index, tradeInfo, success: true }));
+    const reject = (index: number, revertReason: string) => {
+      results[index] = { ...results[index], success: false, revertReason, stage: "validation" };
+    };
+
+    const pending: number[] = [];
+    for (let index = 0; index < trades.length; index++) {
+      const trade = trades[index];
+      if (!integrations.includes(trade.exchangeName)) {
+        reject(index, "Must be allowed integration");
+      } else if (!await manager.isAllowedAsset(trade.receiveToken)) {
+        reject(index, "Must be allowed asset");
+      } else if (preciseMul(BigNumber.from(trade.sendQuantity), totalSupply).eq(0)) {
+        reject(index, "Token to sell must be nonzero");
+      } else {
+        pending.push(index);
+      }
+    }
+
+    // Repeatedly take the first pending trade the SetToken can cover, so reordering only moves trades that depend
+    // on the output of a later trade
+    const ordered: number[] = [];
+    let next = pending.find(index => canCover(trades[index], units, balances, totalSupply));
+    while (next !== undefined) {
+      const trade = trades[next];
+      const sendToken = utils.getAddress(trade.sendToken);
+      const receiveToken = utils.getAddress(trade.receiveToken);
+
+      units[sendToken] = units[sendToken].sub(trade.sendQuantity);
+      balances[sendToken] = balances[sendToken].sub(preciseMul(BigNumber.from(trade.sendQuantity), totalSupply));
+      if (units[receiveToken]) {
+        units[receiveToken] = units[receiveToken].add(trade.receiveQuantity);
+        balances[receiveToken] = balances[receiveToken].add(preciseMul(BigNumber.from(trade.receiveQuantity), totalSupply));
+      }
+
+      ordered.push(next);
+      pending.splice(pending.indexOf(next), 1);
+      next = pending.find(index => canCover(trades[index], units, balances, totalSupply));
+    }
+
+    pending.forEach(index => reject(index, "Unit cant be greater than existing"));
+    return { results, ordered };
+  }
+
+  /**
+   * Sends the batch from the impersonated operator on a hardhat node and reverts the node to its previous state.
+   *
+   * @param trades      Batch to execute
+   * @param operator    Operator of the SetToken's DelegatedManager
+   * @return            Outcome of every trade with decoded revert reasons
+   */
+  public async simulate(trades: TradeInfo[], operator: Address): Promise<BatchTradeResult[]> {
+    await this.provider.send("hardhat_impersonateAccount", [operator]);
+    const snapshotId = await this.provider.send("evm_snapshot", []);
+
+    try {
+      await this.provider.send("hardhat_setBalance", [operator, utils.hexStripZeros(utils.parseEther("10").toHexString())]);
+      const extension = this.extension.connect(this.provider.getSigner(operator));
+
+      try {
+        await extension.callStatic.batchTrade(this.setToken.address, trades);
+      } catch (error) {
+        throw new Error(`batchTrade reverts: ${getRevertReason(error, this._options.errorSignatures)}`);
+      }
+
+      // batchTrade catches trades running out of gas like any other revert, so an estimate only covers the gas of a
+      // batch whose trades fail. Simulations get the whole block instead
+      const { gasLimit } = await this.provider.getBlock("latest");
+      const receipt: ContractReceipt = await (await extension.batchTrade(this.setToken.address, trades, { gasLimit })).wait();
+
+      const results: BatchTradeResult[] = trades.map(tradeInfo => ({ success: true, tradeInfo }));
+      receipt.logs
+        .filter((log: Log) => log.address.toLowerCase() === this.extension.address.toLowerCase())
+        .forEach((log: Log) => {
+          const event = this.extension.interface.parseLog(log);
+          if (utils.getAddress(event.args._setToken) !== utils.getAddress(this.setToken.address)) return;
+
+          const index = event.args._index.toNumber();
+          results[index] = {
+            ...results[index],
+            success: false,
+            revertReason: event.name === "StringTradeFailed"
+              ? event.args._reason
+              : decodeRevertReason(event.args._lowLevelData, this._options.errorSignatures),
+          };
+        });
+      return results;
+    } finally {
+      await this.provider.send("evm_revert", [snapshotId]);
+      await this.provider.send("hardhat_stopImpersonatingAccount", [operator]);
+    }
+  }
+
+  // First operator of the SetToken's DelegatedManager, the default account batches are simulated from
+  public async getOperator(): Promise<Address> {
+    const manager = new ethers.Contract(await this.setToken.manager(), DELEGATED_MANAGER_ABI, this.provider);
+    const [operator] = await manager.getOperators();
+    if (!operator) {
+      throw new Error(`DelegatedManager of ${this.setToken.address} has no operator, pass the operator to simulate as`);
+    }
+    return operator;
+  }
+}
+
+/**
+ * Decodes revert data of a failed call: Error(string) reasons, Panic(uint256) codes and the custom errors in
+ * `errorSignatures`. Undecodable data is returned as hex.
+ */
+export const decodeRevertReason = (data: Bytes, errorSignatures: string[] = []): string => {
+  if (!data || data === "0x") return "Reverted without a reason";
+
+  const selector = data.slice(0, 10);
+  const encodedArgs = "0x" + data.slice(10);
+  try {
+    if (selector === ERROR_SELECTOR) return utils.defaultAbiCoder.decode(["string"], encodedArgs)[0];
+    if (selector === PANIC_SELECTOR) return `Panic(0x${utils.defaultAbiCoder.decode(["uint256"], encodedArgs)[0].toNumber().toString(16)})`;
+
+    for (const signature of errorSignatures) {
+      // Custom errors are selected and encoded like function calls
+      const fragment = utils.FunctionFragment.from(signature.replace(/^error /, ""));
+      if (utils.id(fragment.format()).slice(0, 10) !== selector) continue;
+
+      const args = utils.defaultAbiCoder.decode(fragment.inputs, encodedArgs);
+      return `${fragment.name}(${args.map(arg => arg.toString()).join(", ")})`;
+    }
+  } catch (error) {
+    // Malformed revert data, fall through to the raw bytes
+  }
+
+  return data;
+};
+
+const canCover = (
+  trade: TradeInfo,
+  units: { [token: string]: BigNumber },
+  balances: { [token: string]: BigNumber },
+  totalSupply: BigNumber
+): boolean => {
+  const sendToken = utils.getAddress(trade.sendToken);
+  return units[sendToken].gte(trade.sendQuantity) &&
+    balances[sendToken].gte(preciseMul(BigNumber.from(trade.sendQuantity), totalSupply));
+};
+
+// Revert reason of a failed eth_call, which providers and hardhat report in different places of the error
+const getRevertReason = (error: any, errorSignatures?: string[]): string => {
+  const data = error && (error.data || (error.error && error.error.data));
+  if (typeof data === "string" && data.startsWith("0x")) return decodeRevertReason(data, errorSignatures);
+  return error instanceof Error ? error.message : String(error);
+};
@@ -0,0 +1,8 @@
+export {
+  BatchTradeFailureStage,
+  BatchTradePlan,
+  BatchTradePlanner,
+  BatchTradePlannerOptions,
+  decodeRevertReason,
+  PlannedBatchTrade,
+} from "./batchTradePlanner";
@@ -0,0 +1,4 @@
+import { Address } from "../types";
+
+// Compares addresses regardless of checksum casing
+export const sameAddress = (a: Address, b: Address): boolean => a.toLowerCase() === b.toLowerCase();
@@ -1,12 +1,14 @@
-import { BigNumber, BigNumberish, ethers } from "ethers";
+import { BigNumber, BigNumberish } from "ethers";
 import { ether } from "@utils/index";
-import { Address } from "@utils/types";
-import { ADDRESS_ZERO, MAX_UINT_256 } from "@utils/constants";
+import { MAX_UINT_256 } from "@utils/constants";
 import { SetToken, SlippageIssuanceModule } from "@utils/contracts/setV2";
 import { StandardTokenMock, WETH9 } from "@utils/contracts/index";
-import { UniswapV2Factory, UniswapV2Router02 } from "@utils/contracts/uniswap";
 import { IQuoter } from "@typechain/IQuoter";
 import { expect } from "chai";
+import { sameAddress } from "./addressUtils";
+import { getBestAmountIn, getBestAmountOut, PriceSource } from "./priceSourceUtils";
+
+export { encodePath } from "./swapDataUtils";
 
 export const getAllowances = async (
   tokens: (StandardTokenMock | WETH9)[],
@@ -27,10 +29,7 @@ export const getAllowances = async (
 export const getIssueSetForExactETH = async (
   setToken: SetToken,
   ethInput: BigNumber,
-  uniswapRouter: UniswapV2Router02,
-  uniswapFactory: UniswapV2Factory,
-  sushiswapRouter: UniswapV2Router02,
-  sushiswapFactory: UniswapV2Factory,
+  priceSources: PriceSource[],
   weth: string,
 ) => {
   let sumEth = BigNumber.from(0);
@@ -40,20 +39,7 @@ export const getIssueSetForExactETH = async (
     const component = components[i];
     const unit = await setToken.getDefaultPositionRealUnit(component);
 
-    let amountEthForComponent = ether(0);
-    if (component === weth) {
-      amountEthForComponent = unit;
-    } else {
-      const hasUniPair = await hasPair(uniswapFactory, weth, component);
-      const uniAmount = hasUniPair
-        ? (await uniswapRouter.getAmountsIn(unit, [weth, component]))[0]
-        : MAX_UINT_256;
-      const hasSushiPair = await hasPair(sushiswapFactory, weth, component);
-      const sushiAmount = hasSushiPair
-        ? (await sushiswapRouter.getAmountsIn(unit, [weth, component]))[0]
-        : MAX_UINT_256;
-      amountEthForComponent = uniAmount.lt(sushiAmount) ? uniAmount : sushiAmount;
-    }
+    const amountEthForComponent = await getBestAmountIn(priceSources, weth, component, unit);
 
     amountEthForComponents.push(amountEthForComponent);
     sumEth = sumEth.add(amountEthForComponent);
@@ -65,20 +51,7 @@ export const getIssueSetForExactETH = async (
     const unit = await setToken.getDefaultPositionRealUnit(component);
     const scaledEth = amountEthForComponents[i].mul(ethInput).div(sumEth);
 
-    let amountComponentOut = BigNumber.from(0);
-    if (component === weth) {
-      amountComponentOut = scaledEth;
-    } else {
-      const hasUniPair = await hasPair(uniswapFactory, weth, component);
-      const uniAmount = hasUniPair
-        ? (await uniswapRouter.getAmountsOut(scaledEth, [weth, component]))[1]
-        : BigNumber.from(0);
-      const hasSushiPair = await hasPair(sushiswapFactory, weth, component);
-      const sushiAmount = hasSushiPair
-        ? (await sushiswapRouter.getAmountsOut(scaledEth, [weth, component]))[1]
-        : BigNumber.from(0);
-      amountComponentOut = uniAmount.gt(sushiAmount) ? uniAmount : sushiAmount;
-    }
+    const amountComponentOut = await getBestAmountOut(priceSources, weth, component, scaledEth);
 
     const potentialSetTokenOut = amountComponentOut.mul(ether(1)).div(unit);
     if (potentialSetTokenOut.lt(expectedOutput)) {
@@ -92,35 +65,18 @@ export const getIssueSetForExactToken = async (
   setToken: SetToken,
   inputToken: string,
   inputAmount: BigNumber,
-  uniswapRouter: UniswapV2Router02,
-  uniswapFactory: UniswapV2Factory,
-  sushiswapRouter: UniswapV2Router02,
-  sushiswapFactory: UniswapV2Factory,
+  priceSources: PriceSource[],
   weth: string,
 ) => {
   // get eth amount that can be aquired with inputToken
-  const ethInput =
-    inputToken !== weth
-      ? (await uniswapRouter.getAmountsOut(inputAmount, [inputToken, weth]))[1]
-      : inputAmount;
-  return await getIssueSetForExactETH(
-    setToken,
-    ethInput,
-    uniswapRouter,
-    uniswapFactory,
-    sushiswapRouter,
-    sushiswapFactory,
-    weth,
-  );
+  const ethInput = await getPrimaryAmountOut(priceSources, inputToken, weth, inputAmount);
+  return await getIssueSetForExactETH(setToken, ethInput, priceSources, weth);
 };
 
 export const getIssueExactSetFromETH = async (
   setToken: SetToken,
   amountSet: BigNumber,
-  uniswapRouter: UniswapV2Router02,
-  uniswapFactory: UniswapV2Factory,
-  sushiswapRouter: UniswapV2Router02,
-  sushiswapFactory: UniswapV2Factory,
+  priceSources: PriceSource[],
   weth: string,
 ) => {
   const components = await setToken.getComponents();
@@ -129,15 +85,7 @@ export const getIssueExactSetFromETH = async (
     const componentAmount = amountSet
       .mul(await setToken.getDefaultPositionRealUnit(components[i]))
       .div(ether(1));
-    const ethAmount = await getInputAmountBestPrice(
-      components[i],
-      componentAmount,
-      uniswapRouter,
-      uniswapFactory,
-      sushiswapRouter,
-      sushiswapFactory,
-      weth,
-    );
+    const ethAmount = await getBestAmountIn(priceSources, weth, components[i], componentAmount);
     sumEth = sumEth.add(ethAmount);
   }
   return sumEth;
@@ -147,33 +95,11 @@ export const getIssueExactSetFromToken = async (
   setToken: SetToken,
   inputToken: StandardTokenMock | WETH9,
   amountSet: BigNumber,
-  uniswapRouter: UniswapV2Router02,
-  uniswapFactory: UniswapV2Factory,
-  sushiswapRouter: UniswapV2Router02,
-  sushiswapFactory: UniswapV2Factory,
+  priceSources: PriceSource[],
   weth: string,
 ) => {
-  const ethCost = await getIssueExactSetFromETH(
-    setToken,
-    amountSet,
-    uniswapRouter,
-    uniswapFactory,
-    sushiswapRouter,
-    sushiswapFactory,
-    weth,
-  );
-  if (inputToken.address === weth) return ethCost;
-
-  const hasUniPair = await hasPair(uniswapFactory, weth, inputToken.address);
-  const uniAmount = hasUniPair
-    ? (await uniswapRouter.getAmountsIn(ethCost, [inputToken.address, weth]))[0]
-    : MAX_UINT_256;
-  const hasSushiPair = await hasPair(sushiswapFactory, weth, inputToken.address);
-  const sushiAmount = hasSushiPair
-    ? (await sushiswapRouter.getAmountsIn(ethCost, [inputToken.address, weth]))[0]
-    : MAX_UINT_256;
-  const tokenCost = uniAmount.lt(sushiAmount) ? uniAmount : sushiAmount;
-  return tokenCost;
+  const ethCost = await getIssueExactSetFromETH(setToken, amountSet, priceSources, weth);
+  return await getBestAmountIn(priceSources, inputToken.address, weth, ethCost);
 };
 
 export const getIssueExactSetFromTokenRefund = async (
@@ -181,25 +107,11 @@ export const getIssueExactSetFromTokenRefund = async (
   inputToken: StandardTokenMock | WETH9,
   inputAmount: BigNumber,
   amountSet: BigNumber,
-  uniswapRouter: UniswapV2Router02,
-  uniswapFactory: UniswapV2Factory,
-  sushiswapRouter: UniswapV2Router02,
-  sushiswapFactory: UniswapV2Factory,
+  priceSources: PriceSource[],
   weth: string,
 ) => {
-  const ethCost = await getIssueExactSetFromETH(
-    setToken,
-    amountSet,
-    uniswapRouter,
-    uniswapFactory,
-    sushiswapRouter,
-    sushiswapFactory,
-    weth,
-  );
-  const inputEthValue =
-    inputToken.address == weth
-      ? inputAmount
-      : (await uniswapRouter.getAmountsOut(inputAmount, [inputToken.address, weth]))[1];
+  const ethCost = await getIssueExactSetFromETH(setToken, amountSet, priceSources, weth);
+  const inputEthValue = await getPrimaryAmountOut(priceSources, inputToken.address, weth, inputAmount);
   const refundAmount = inputEthValue.sub(ethCost);
 
   return refundAmount;
@@ -208,10 +120,7 @@ export const getIssueExactSetFromTokenRefund = async (
 export const getRedeemExactSetForETH = async (
   setToken: SetToken,
   amountSet: BigNumber,
-  uniswapRouter: UniswapV2Router02,
-  uniswapFactory: UniswapV2Factory,
-  sushiswapRouter: UniswapV2Router02,
-  sushiswapFactory: UniswapV2Factory,
+  priceSources: PriceSource[],
   weth: string,
 ) => {
   const components = await setToken.getComponents();
@@ -220,21 +129,7 @@ export const getRedeemExactSetForETH = async (
     const componentAmount = amountSet
       .mul(await setToken.getDefaultPositionRealUnit(components[i]))
       .div(ether(1));
-    let ethAmount = BigNumber.from(0);
-
-    if (components[i] !== weth) {
-      const hasUniPair = await hasPair(uniswapFactory, weth, components[i]);
-      const uniAmount = hasUniPair
-        ? (await uniswapRouter.getAmountsOut(componentAmount, [components[i], weth]))[1]
-        : BigNumber.from(0);
-      const hasSushiPair = await hasPair(sushiswapFactory, weth, components[i]);
-      const sushiAmount = hasSushiPair
-        ? (await sushiswapRouter.getAmountsOut(componentAmount, [components[i], weth]))[1]
-        : BigNumber.from(0);
-      ethAmount = sushiAmount.gt(uniAmount) ? sushiAmount : uniAmount;
-    } else {
-      ethAmount = componentAmount;
-    }
+    const ethAmount = await getBestAmountOut(priceSources, components[i], weth, componentAmount);
     sumEth = sumEth.add(ethAmount);
   }
   return sumEth;
@@ -244,57 +139,27 @@ export const getRedeemExactSetForToken = async (
   setToken: SetToken,
   outputToken: StandardTokenMock | WETH9,
   amountSet: BigNumber,
-  uniswapRouter: UniswapV2Router02,
-  uniswapFactory: UniswapV2Factory,
-  sushiswapRouter: UniswapV2Router02,
-  sushiswapFactory: UniswapV2Factory,
+  priceSources: PriceSource[],
   weth: string,
 ) => {
-  const ethOut = await getRedeemExactSetForETH(
-    setToken,
-    amountSet,
-    uniswapRouter,
-    uniswapFactory,
-    sushiswapRouter,
-    sushiswapFactory,
-    weth,
-  );
-  if (outputToken.address === weth) return ethOut;
-
-  const tokenOut = (await uniswapRouter.getAmountsOut(ethOut, [weth, outputToken.address]))[1];
-  return tokenOut;
-};
-
-const hasPair = async (factory: UniswapV2Factory, tokenA: string, tokenB: string) => {
-  return (await factory.getPair(tokenA, tokenB)) != ADDRESS_ZERO;
+  const ethOut = await getRedeemExactSetForETH(setToken, amountSet, priceSources, weth);
+  return await getPrimaryAmountOut(priceSources, weth, outputToken.address, ethOut);
 };
 
-const getInputAmountBestPrice = async (
-  token: string,
+// Payment token <> WETH legs are priced on the first price source only, not the best of all sources
+const getPrimaryAmountOut = async (
+  priceSources: PriceSource[],
+  tokenIn: string,
+  tokenOut: string,
   amountIn: BigNumber,
-  uniswapRouter: UniswapV2Router02,
-  uniswapFactory: UniswapV2Factory,
-  sushiswapRouter: UniswapV2Router02,
-  sushiswapFactory: UniswapV2Factory,
-  weth: string,
 ) => {
-  if (token !== weth) {
-    const hasUniPair = (await uniswapFactory.getPair(weth, token)) != ADDRESS_ZERO;
-    const uniAmount = hasUniPair
-      ? (await uniswapRouter.getAmountsIn(amountIn, [weth, token]))[0]
-      : MAX_UINT_256;
-    const hasSushiPair = (await sushiswapFactory.getPair(weth, token)) != ADDRESS_ZERO;
-    const sushiAmount = hasSushiPair
-      ? (await sushiswapRouter.getAmountsIn(amountIn, [weth, token]))[0]
-      : MAX_UINT_256;
-    if (sushiAmount.lt(uniAmount)) {
-      return sushiAmount;
-    } else {
-      return uniAmount;
-    }
-  } else {
-    return amountIn;
+  if (sameAddress(tokenIn, tokenOut)) return amountIn;
+
+  const amountOut = await priceSources[0].getAmountOut(tokenIn, tokenOut, amountIn);
+  if (amountOut === undefined) {
+    throw new Error(`Primary price source cannot price ${tokenIn} -> ${tokenOut}`);
   }
+  return amountOut;
 };
 
 export const getUsdcAmountInForExactSet = async (
@@ -365,25 +230,6 @@ export const getUsdcAmountOutForExactSet = async (
   return totalUsdcAmountOut;
 };
 
-export const encodePath = (path: Address[], fees: number[]) => {
-  const FEE_SIZE = 6;
-  if (path.length !== fees.length + 1) {
-    throw new Error("path/fee lengths do not match");
-  }
-
-  let encoded = "0x";
-  for (let i = 0; i < fees.length; i++) {
-    encoded += path[i].slice(2);
-    const fee = ethers.utils
-      .hexlify(fees[i])
-      .slice(2)
-      .toString();
-    encoded += fee.padStart(FEE_SIZE, "0");
-  }
-  encoded += path[path.length - 1].slice(2);
-  return encoded.toLowerCase();
-};
-
 export const expectCloseTo = (a: BigNumber, b: BigNumber, delta: BigNumberish) => {
   expect(a).to.gte(b.sub(delta));
   expect(a).to.lte(b.add(delta));
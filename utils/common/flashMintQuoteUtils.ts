@@ -0,0 +1,352 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { Signer, utils } from "ethers";
+import { JsonRpcProvider, Web3Provider } from "@ethersproject/providers";
+
+import { FlashMintDexV5 } from "@typechain/FlashMintDexV5";
+import { IAerodromeRouter__factory } from "@typechain/factories/IAerodromeRouter__factory";
+import { IAerodromeSlipstreamQuoter__factory } from "@typechain/factories/IAerodromeSlipstreamQuoter__factory";
+import { ICurveAddressProvider__factory } from "@typechain/factories/ICurveAddressProvider__factory";
+import { ICurveCalculator__factory } from "@typechain/factories/ICurveCalculator__factory";
+import { ICurvePool__factory } from "@typechain/factories/ICurvePool__factory";
+import { ICurvePoolRegistry__factory } from "@typechain/factories/ICurvePoolRegistry__factory";
+import { IQuoter__factory } from "@typechain/factories/IQuoter__factory";
+import { IVault__factory } from "@typechain/factories/IVault__factory";
+import { UniswapV2Router02__factory } from "@typechain/factories/UniswapV2Router02__factory";
+
+import { ADDRESS_ZERO, PRECISE_UNIT, ZERO } from "../constants";
+import { Address, Exchange, SwapData } from "../types";
+import { sameAddress } from "./addressUtils";
+import { encodePath } from "./swapDataUtils";
+import { preciseMul, preciseMulCeil } from "./mathUtils";
+
+// Same constant as DEXAdapterV5.ROUNDING_ERROR_MARGIN, added to Curve get_dx results
+const CURVE_ROUNDING_ERROR_MARGIN = 2;
+// Registry index used by DEXAdapterV5 to signal a coin that is not part of the pool
+const CURVE_COIN_NOT_FOUND = 9;
+
+const BALANCER_GIVEN_IN = 0;
+const BALANCER_GIVEN_OUT = 1;
+
+// Subset of DEXAdapterV5.Addresses used for quoting
+export interface QuoteAddresses {
+  quickRouter: Address;
+  sushiRouter: Address;
+  uniV3Quoter: Address;
+  curveAddressProvider: Address;
+  curveCalculator: Address;
+  balV2Vault: Address;
+  aerodromeRouter: Address;
+  aerodromeFactory: Address;
+  aerodromeSlipstreamQuoter: Address;
+  weth: Address;
+}
+
+// Mirrors FlashMintDexV5.IssueRedeemParams
+export interface IssueRedeemParams {
+  setToken: Address;
+  amountSetToken: BigNumber;
+  componentSwapData: SwapData[];
+  issuanceModule: Address;
+  isDebtIssuance: boolean;
+}
+
+export interface FlashMintQuote {
+  components: Address[];
+  componentUnits: BigNumber[];
+  componentWethAmounts: BigNumber[];
+  totalWethAmount: BigNumber;
+  amount: BigNumber;          // Input token spent on issuance / output token received on redemption
+  limitAmount: BigNumber;     // amount adjusted by slippage: maxAmountInputToken or minAmountOutput
+}
+
+/**
+ * Off-chain replica of FlashMintDexV5.getIssueExactSet / getRedeemExactSet. Component units are read
+ * from the FlashMint contract and every leg is priced against the same DEX contracts DEXAdapterV5
+ * queries, so the result matches a static call of the contract for the same block.
+ */
+export class FlashMintQuoter {
+  public _signerOrProvider: Signer | Web3Provider | JsonRpcProvider;
+  public _flashMint: FlashMintDexV5;
+  public _addresses: QuoteAddresses;
+
+  constructor(
+    _signerOrProvider: Signer | Web3Provider | JsonRpcProvider,
+    _flashMint: FlashMintDexV5,
+    _addresses: QuoteAddresses,
+  ) {
+    this._signerOrProvider = _signerOrProvider;
+    this._flashMint = _flashMint;
+    this._addresses = _addresses;
+  }
+
+  /**
+   * Gets the input token amount needed to issue `amountSetToken`, and the `maxAmountInputToken` to send
+   * with the given slippage buffer.
+   *
+   * @param _issueParams                Params as they will be passed to FlashMintDexV5
+   * @param _swapDataInputTokenToWeth   Swap data from input token to WETH (noop swap data for ETH / WETH)
+   * @param _slippage                   Buffer added to the quote, in precise units (1% = ether(0.01))
+   */
+  public async getIssueExactSet(
+    _issueParams: IssueRedeemParams,
+    _swapDataInputTokenToWeth: SwapData,
+    _slippage: BigNumber = ZERO,
+  ): Promise<FlashMintQuote> {
+    const [components, componentUnits] = await this._flashMint.getRequiredIssuanceComponents(
+      _issueParams.issuanceModule,
+      _issueParams.isDebtIssuance,
+      _issueParams.setToken,
+      _issueParams.amountSetToken,
+    );
+    this._validateComponentSwapData(components, _issueParams.componentSwapData);
+
+    // Matches the balance-vs-position rounding buffer FlashMintDexV5 adds to every component
+    const issueDeficitBuffer = _issueParams.amountSetToken.div(PRECISE_UNIT).add(1);
+
+    const componentWethAmounts: BigNumber[] = [];
+    for (let i = 0; i < components.length; i++) {
+      const swapTarget = componentUnits[i].add(issueDeficitBuffer);
+      componentWethAmounts.push(
+        sameAddress(components[i], this._addresses.weth)
+          ? swapTarget
+          : await this.getAmountIn(_issueParams.componentSwapData[i], swapTarget)
+      );
+    }
+
+    const totalWethAmount = componentWethAmounts.reduce((sum, amount) => sum.add(amount), ZERO);
+    const amount = await this.getAmountIn(_swapDataInputTokenToWeth, totalWethAmount);
+
+    return {
+      components,
+      componentUnits,
+      componentWethAmounts,
+      totalWethAmount,
+      amount,
+      limitAmount: preciseMulCeil(amount, PRECISE_UNIT.add(_slippage)),
+    };
+  }
+
+  /**
+   * Gets the output token amount received for redeeming `amountSetToken`, and the `minAmountOutput` to
+   * send with the given slippage buffer.
+   *
+   * @param _redeemParams               Params as they will be passed to FlashMintDexV5
+   * @param _swapDataWethToOutputToken  Swap data from WETH to output token (noop swap data for ETH / WETH)
+   * @param _slippage                   Buffer subtracted from the quote, in precise units (1% = ether(0.01))
+   */
+  public async getRedeemExactSet(
+    _redeemParams: IssueRedeemParams,
+    _swapDataWethToOutputToken: SwapData,
+    _slippage: BigNumber = ZERO,
+  ): Promise<FlashMintQuote> {
+    const [components, componentUnits] = await this._flashMint.getRequiredRedemptionComponents(
+      _redeemParams.issuanceModule,
+      _redeemParams.isDebtIssuance,
+      _redeemParams.setToken,
+      _redeemParams.amountSetToken,
+    );
+    this._validateComponentSwapData(components, _redeemParams.componentSwapData);
+
+    const componentWethAmounts: BigNumber[] = [];
+    for (let i = 0; i < components.length; i++) {
+      componentWethAmounts.push(
+        sameAddress(components[i], this._addresses.weth)
+          ? componentUnits[i]
+          : await this.getAmountOut(_redeemParams.componentSwapData[i], componentUnits[i])
+      );
+    }
+
+    const totalWethAmount = componentWethAmounts.reduce((sum, amount) => sum.add(amount), ZERO);
+    const amount = await this.getAmountOut(_swapDataWethToOutputToken, totalWethAmount);
+
+    return {
+      components,
+      componentUnits,
+      componentWethAmounts,
+      totalWethAmount,
+      amount,
+      limitAmount: preciseMul(amount, PRECISE_UNIT.sub(_slippage)),
+    };
+  }
+
+  public async getAmountIn(_swapData: SwapData, _amountOut: BigNumber): Promise<BigNumber> {
+    const { path } = _swapData;
+    if (path.length === 0 || sameAddress(path[0], path[path.length - 1])) {
+      return _amountOut;
+    }
+
+    if (_swapData.exchange === Exchange.AerodromeSlipstream) {
+      const quoter = IAerodromeSlipstreamQuoter__factory.connect(this._addresses.aerodromeSlipstreamQuoter, this._signerOrProvider);
+      const { amountIn } = await quoter.callStatic.quoteExactOutput(
+        encodeSlipstreamPath([...path].reverse(), [..._swapData.tickSpacing].reverse()),
+        _amountOut,
+      );
+      return amountIn;
+    } else if (_swapData.exchange === Exchange.Aerodrome) {
+      // DEXAdapterV5 quotes Aerodrome exact output by swapping back the excess of an exact input quote for
+      // _maxAmountIn, which FlashMintDexV5 sets to type(uint256).max and which the pool math cannot quote
+      throw new Error("Exact output quotes are not supported for exchange: Aerodrome");
+    } else if (_swapData.exchange === Exchange.UniV3) {
+      const quoter = IQuoter__factory.connect(this._addresses.uniV3Quoter, this._signerOrProvider);
+      return await quoter.callStatic.quoteExactOutput(
+        encodePath([...path].reverse(), [..._swapData.fees].reverse()),
+        _amountOut,
+      );
+    } else if (_swapData.exchange === Exchange.Curve) {
+      return await this._getAmountInCurve(_swapData, _amountOut);
+    } else if (_swapData.exchange === Exchange.BalancerV2) {
+      const deltas = await this._queryBalancerBatchSwap(_swapData, BALANCER_GIVEN_OUT, _amountOut);
+      return deltas[0];
+    } else if (_swapData.exchange === Exchange.Quickswap || _swapData.exchange === Exchange.Sushiswap) {
+      const amounts = await this._getRouter(_swapData.exchange).getAmountsIn(_amountOut, path);
+      return amounts[0];
+    }
+    throw new Error(`Quoting is not supported for exchange: ${Exchange[_swapData.exchange]}`);
+  }
+
+  public async getAmountOut(_swapData: SwapData, _amountIn: BigNumber): Promise<BigNumber> {
+    const { path } = _swapData;
+    if (path.length === 0 || sameAddress(path[0], path[path.length - 1])) {
+      return _amountIn;
+    }
+
+    if (_swapData.exchange === Exchange.AerodromeSlipstream) {
+      const quoter = IAerodromeSlipstreamQuoter__factory.connect(this._addresses.aerodromeSlipstreamQuoter, this._signerOrProvider);
+      const { amountOut } = await quoter.callStatic.quoteExactInput(
+        encodeSlipstreamPath(path, _swapData.tickSpacing),
+        _amountIn,
+      );
+      return amountOut;
+    } else if (_swapData.exchange === Exchange.Aerodrome) {
+      if (path.length !== 2) throw new Error("ExchangeIssuance: AERODROME_WRONG_PATH_LENGTH");
+      const router = IAerodromeRouter__factory.connect(this._addresses.aerodromeRouter, this._signerOrProvider);
+      const amounts = await router.getAmountsOut(
+        _amountIn,
+        [{ from: path[0], to: path[1], stable: false, factory: this._addresses.aerodromeFactory }],
+      );
+      return amounts[1];
+    } else if (_swapData.exchange === Exchange.UniV3) {
+      const quoter = IQuoter__factory.connect(this._addresses.uniV3Quoter, this._signerOrProvider);
+      return await quoter.callStatic.quoteExactInput(encodePath(path, _swapData.fees), _amountIn);
+    } else if (_swapData.exchange === Exchange.Curve) {
+      const [i, j] = await this._getCurveCoinIndices(_swapData);
+      return await ICurvePool__factory.connect(_swapData.pool, this._signerOrProvider).get_dy(i, j, _amountIn);
+    } else if (_swapData.exchange === Exchange.BalancerV2) {
+      const deltas = await this._queryBalancerBatchSwap(_swapData, BALANCER_GIVEN_IN, _amountIn);
+      return deltas[deltas.length - 1].mul(-1);
+    } else if (_swapData.exchange === Exchange.Quickswap || _swapData.exchange === Exchange.Sushiswap) {
+      const amounts = await this._getRouter(_swapData.exchange).getAmountsOut(_amountIn, path);
+      return amounts[amounts.length - 1];
+    }
+    throw new Error(`Quoting is not supported for exchange: ${Exchange[_swapData.exchange]}`);
+  }
+
+  private _validateComponentSwapData(components: Address[], componentSwapData: SwapData[]): void {
+    if (components.length !== componentSwapData.length) {
+      throw new Error("FlashMint: INVALID NUMBER OF COMPONENTS IN SWAP DATA");
+    }
+  }
+
+  private _getRouter(exchange: Exchange) {
+    const router = exchange === Exchange.Quickswap ? this._addresses.quickRouter : this._addresses.sushiRouter;
+    if (router === ADDRESS_ZERO) {
+      throw new Error(`No router configured for exchange: ${Exchange[exchange]}`);
+    }
+    return UniswapV2Router02__factory.connect(router, this._signerOrProvider);
+  }
+
+  private async _getCurveRegistry() {
+    const addressProvider = ICurveAddressProvider__factory.connect(
+      this._addresses.curveAddressProvider,
+      this._signerOrProvider,
+    );
+    return ICurvePoolRegistry__factory.connect(await addressProvider.get_registry(), this._signerOrProvider);
+  }
+
+  private async _getCurveCoinIndices(_swapData: SwapData): Promise<[number, number]> {
+    const registry = await this._getCurveRegistry();
+    const poolCoins = await registry.get_coins(_swapData.pool);
+
+    let i = CURVE_COIN_NOT_FOUND;
+    let j = CURVE_COIN_NOT_FOUND;
+    for (let k = 0; k < poolCoins.length; k++) {
+      if (sameAddress(poolCoins[k], _swapData.path[0])) {
+        i = k;
+      } else if (sameAddress(poolCoins[k], _swapData.path[1])) {
+        j = k;
+      }
+      if (poolCoins[k] === ADDRESS_ZERO || (i !== CURVE_COIN_NOT_FOUND && j !== CURVE_COIN_NOT_FOUND)) {
+        break;
+      }
+    }
+
+    if (i === CURVE_COIN_NOT_FOUND) throw new Error("ExchangeIssuance: CURVE_FROM_NOT_FOUND");
+    if (j === CURVE_COIN_NOT_FOUND) throw new Error("ExchangeIssuance: CURVE_TO_NOT_FOUND");
+
+    return [i, j];
+  }
+
+  private async _getAmountInCurve(_swapData: SwapData, _amountOut: BigNumber): Promise<BigNumber> {
+    const [i, j] = await this._getCurveCoinIndices(_swapData);
+    const registry = await this._getCurveRegistry();
+    const calculator = ICurveCalculator__factory.connect(this._addresses.curveCalculator, this._signerOrProvider);
+
+    const amountIn = await calculator.get_dx(
+      (await registry.get_n_coins(_swapData.pool))[0],
+      await registry.get_balances(_swapData.pool),
+      await registry.get_A(_swapData.pool),
+      (await registry.get_fees(_swapData.pool))[0],
+      await registry.get_rates(_swapData.pool),
+      await registry.get_decimals(_swapData.pool),
+      false,
+      i,
+      j,
+      _amountOut,
+    );
+    return amountIn.add(CURVE_ROUNDING_ERROR_MARGIN);
+  }
+
+  /**
+   * Runs the same queryBatchSwap as DEXAdapterV5 and returns the vault deltas ordered like the path
+   * (positive = sent to the vault, negative = received from the vault).
+   */
+  private async _queryBalancerBatchSwap(
+    _swapData: SwapData,
+    _kind: number,
+    _amount: BigNumber,
+  ): Promise<BigNumber[]> {
+    const { path, poolIds } = _swapData;
+    const assets = path.filter((asset, index) => path.indexOf(asset) === index);
+    const lastStep = path.length - 2;
+
+    const swaps = poolIds.map((poolId, i) => ({
+      poolId,
+      assetInIndex: assets.indexOf(path[i]),
+      assetOutIndex: assets.indexOf(path[i + 1]),
+      amount: (_kind === BALANCER_GIVEN_IN ? i === 0 : i === lastStep) ? _amount : ZERO,
+      userData: "0x",
+    }));
+    const funds = {
+      sender: this._flashMint.address,
+      fromInternalBalance: false,
+      recipient: this._flashMint.address,
+      toInternalBalance: false,
+    };
+
+    const vault = IVault__factory.connect(this._addresses.balV2Vault, this._signerOrProvider);
+    const deltas = await vault.callStatic.queryBatchSwap(_kind, swaps, assets, funds);
+
+    return path.map(asset => deltas[assets.indexOf(asset)]);
+  }
+}
+
+// Token / int24 tickSpacing / token path of the Aerodrome Slipstream quoter, as DEXAdapterV5._encodePathSlipstream
+const encodeSlipstreamPath = (path: Address[], tickSpacing: number[]): string => {
+  const types: string[] = ["address"];
+  const values: (Address | number)[] = [path[0]];
+  for (let i = 0; i < tickSpacing.length; i++) {
+    types.push("int24", "address");
+    values.push(tickSpacing[i], path[i + 1]);
+  }
+  return utils.solidityPack(types, values);
+};
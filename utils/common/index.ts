@@ -15,6 +15,40 @@ export {
   sqrt
 } from "./mathUtils";
 export { bitcoin, ether, gWei, usdc, wbtc } from "./unitsUtils";
+export {
+  calculateSetValuation,
+  ComponentValuation,
+  getTotalComponentUnits,
+  getValuationPositions,
+  SetValuation,
+  SetValuationParams,
+  ValuationComponentPrice,
+  ValuationPosition,
+} from "./valuationUtils";
+export {
+  SWAP_DATA_TUPLE,
+  buildAerodromeSlipstreamSwapData,
+  buildAerodromeSwapData,
+  buildBalancerV2SwapData,
+  buildCurveSwapData,
+  buildUniV2SwapData,
+  buildUniV3SwapData,
+  decodeSwapData,
+  decodeSwapDataArray,
+  encodePath,
+  encodeSwapData,
+  encodeSwapDataArray,
+  getNoopSwapData,
+  reverseSwapData,
+  validateSwapData
+} from "./swapDataUtils";
+export {
+  FlashMintQuote,
+  FlashMintQuoter,
+  IssueRedeemParams,
+  QuoteAddresses
+} from "./flashMintQuoteUtils";
+export { sameAddress } from "./addressUtils";
 export { Blockchain } from "./blockchainUtils";
 export { ProtocolUtils } from "./protocolUtils";
 export {
@@ -0,0 +1,157 @@
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { IQuoter } from "@typechain/IQuoter";
+import { OracleMock } from "@utils/contracts/setV2";
+import { Quoter } from "@utils/contracts/uniswapV3";
+import { UniswapV2Factory, UniswapV2Router02 } from "@utils/contracts/uniswap";
+import { ADDRESS_ZERO, MAX_UINT_256, ZERO } from "../constants";
+import { Address } from "../types";
+import { sameAddress } from "./addressUtils";
+import { encodePath } from "./swapDataUtils";
+import { preciseDiv, preciseDivCeil, preciseMul, preciseMulCeil } from "./mathUtils";
+
+/**
+ * Quotes swaps between two tokens. Implementations return undefined when they cannot price
+ * the pair (e.g. no pool exists) so callers can fall back to other sources.
+ */
+export interface PriceSource {
+  getAmountIn(tokenIn: Address, tokenOut: Address, amountOut: BigNumber): Promise<BigNumber | undefined>;
+  getAmountOut(tokenIn: Address, tokenOut: Address, amountIn: BigNumber): Promise<BigNumber | undefined>;
+}
+
+export class UniswapV2PriceSource implements PriceSource {
+  public router: UniswapV2Router02;
+  public factory: UniswapV2Factory;
+
+  constructor(router: UniswapV2Router02, factory: UniswapV2Factory) {
+    this.router = router;
+    this.factory = factory;
+  }
+
+  public async getAmountIn(tokenIn: Address, tokenOut: Address, amountOut: BigNumber): Promise<BigNumber | undefined> {
+    if (!(await this.hasPair(tokenIn, tokenOut))) return undefined;
+    return (await this.router.getAmountsIn(amountOut, [tokenIn, tokenOut]))[0];
+  }
+
+  public async getAmountOut(tokenIn: Address, tokenOut: Address, amountIn: BigNumber): Promise<BigNumber | undefined> {
+    if (!(await this.hasPair(tokenIn, tokenOut))) return undefined;
+    return (await this.router.getAmountsOut(amountIn, [tokenIn, tokenOut]))[1];
+  }
+
+  private async hasPair(tokenA: Address, tokenB: Address): Promise<boolean> {
+    return (await this.factory.getPair(tokenA, tokenB)) !== ADDRESS_ZERO;
+  }
+}
+
+export class UniswapV3PriceSource implements PriceSource {
+  public quoter: IQuoter | Quoter;
+  public fee: number;
+
+  constructor(quoter: IQuoter | Quoter, fee: number) {
+    this.quoter = quoter;
+    this.fee = fee;
+  }
+
+  // The quoter reverts when no pool exists for the fee tier
+  public async getAmountIn(tokenIn: Address, tokenOut: Address, amountOut: BigNumber): Promise<BigNumber | undefined> {
+    try {
+      return await this.quoter.callStatic.quoteExactOutput(encodePath([tokenOut, tokenIn], [this.fee]), amountOut);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  public async getAmountOut(tokenIn: Address, tokenOut: Address, amountIn: BigNumber): Promise<BigNumber | undefined> {
+    try {
+      return await this.quoter.callStatic.quoteExactInput(encodePath([tokenIn, tokenOut], [this.fee]), amountIn);
+    } catch (error) {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Prices a single pair at a fixed rate without slippage. `price` is the amount of quoteToken
+ * (in wei) paid per 1e18 wei of baseToken, i.e. already adjusted for decimals.
+ */
+export class ConstantPriceSource implements PriceSource {
+  public baseToken: Address;
+  public quoteToken: Address;
+  public price: BigNumber;
+
+  constructor(baseToken: Address, quoteToken: Address, price: BigNumber) {
+    this.baseToken = baseToken;
+    this.quoteToken = quoteToken;
+    this.price = price;
+  }
+
+  public async getAmountIn(tokenIn: Address, tokenOut: Address, amountOut: BigNumber): Promise<BigNumber | undefined> {
+    const price = await this.getPrice();
+    if (sameAddress(tokenIn, this.baseToken) && sameAddress(tokenOut, this.quoteToken)) return preciseDivCeil(amountOut, price);
+    if (sameAddress(tokenIn, this.quoteToken) && sameAddress(tokenOut, this.baseToken)) return preciseMulCeil(amountOut, price);
+    return undefined;
+  }
+
+  public async getAmountOut(tokenIn: Address, tokenOut: Address, amountIn: BigNumber): Promise<BigNumber | undefined> {
+    const price = await this.getPrice();
+    if (sameAddress(tokenIn, this.baseToken) && sameAddress(tokenOut, this.quoteToken)) return preciseMul(amountIn, price);
+    if (sameAddress(tokenIn, this.quoteToken) && sameAddress(tokenOut, this.baseToken)) return preciseDiv(amountIn, price);
+    return undefined;
+  }
+
+  protected async getPrice(): Promise<BigNumber> {
+    return this.price;
+  }
+}
+
+// Same as ConstantPriceSource but reads the price from an oracle on every quote
+export class OraclePriceSource extends ConstantPriceSource {
+  public oracle: OracleMock;
+
+  constructor(baseToken: Address, quoteToken: Address, oracle: OracleMock) {
+    super(baseToken, quoteToken, ZERO);
+    this.oracle = oracle;
+  }
+
+  protected async getPrice(): Promise<BigNumber> {
+    return await this.oracle.read();
+  }
+}
+
+// Returns the lowest input amount quoted by any source, or MAX_UINT_256 if none can price the pair
+export const getBestAmountIn = async (
+  priceSources: PriceSource[],
+  tokenIn: Address,
+  tokenOut: Address,
+  amountOut: BigNumber,
+): Promise<BigNumber> => {
+  if (sameAddress(tokenIn, tokenOut)) return amountOut;
+
+  let bestAmountIn = MAX_UINT_256;
+  for (const priceSource of priceSources) {
+    const amountIn = await priceSource.getAmountIn(tokenIn, tokenOut, amountOut);
+    if (amountIn !== undefined && amountIn.lt(bestAmountIn)) {
+      bestAmountIn = amountIn;
+    }
+  }
+  return bestAmountIn;
+};
+
+// Returns the highest output amount quoted by any source, or zero if none can price the pair
+export const getBestAmountOut = async (
+  priceSources: PriceSource[],
+  tokenIn: Address,
+  tokenOut: Address,
+  amountIn: BigNumber,
+): Promise<BigNumber> => {
+  if (sameAddress(tokenIn, tokenOut)) return amountIn;
+
+  let bestAmountOut = ZERO;
+  for (const priceSource of priceSources) {
+    const amountOut = await priceSource.getAmountOut(tokenIn, tokenOut, amountIn);
+    if (amountOut !== undefined && amountOut.gt(bestAmountOut)) {
+      bestAmountOut = amountOut;
+    }
+  }
+  return bestAmountOut;
+};
@@ -1,6 +1,6 @@
 import { JsonRpcProvider, Web3Provider } from "@ethersproject/providers";
 
-import { ethers } from "ethers";
+import { decodeSetTokenEvent, SetTokenEvent } from "../setTokenEventUtils";
 
 export class ProtocolUtils {
   public _provider: Web3Provider | JsonRpcProvider;
@@ -10,21 +10,24 @@ export class ProtocolUtils {
   }
 
   public async getCreatedSetTokenAddress (txnHash: string | undefined): Promise<string> {
-    if (!txnHash) {
-      throw new Error("Invalid transaction hash");
+    const events = await this.getSetTokenEvents(txnHash);
+    const created = events.filter(event => event.type === "SetTokenCreated");
+    if (created.length === 0) {
+      throw new Error("No SetTokenCreated event in transaction");
     }
 
-    const abi = ["event SetTokenCreated(address indexed _setToken, address _manager, string _name, string _symbol)"];
-    const iface = new ethers.utils.Interface(abi);
+    return created[created.length - 1].setToken;
+  }
 
-    const topic = ethers.utils.id("SetTokenCreated(address,address,string,string)");
-    const logs = await this._provider.getLogs({
-      fromBlock: "latest",
-      toBlock: "latest",
-      topics: [topic],
-    });
+  // Decoded SetToken lifecycle events of a single transaction, see SetTokenEventIndexer for block ranges
+  public async getSetTokenEvents (txnHash: string | undefined): Promise<SetTokenEvent[]> {
+    if (!txnHash) {
+      throw new Error("Invalid transaction hash");
+    }
 
-    const parsed = iface.parseLog(logs[logs.length - 1]);
-    return parsed.args._setToken;
+    const receipt = await this._provider.waitForTransaction(txnHash);
+    return receipt.logs
+      .map(log => decodeSetTokenEvent(log))
+      .filter((event): event is SetTokenEvent => event !== undefined);
   }
-}
\ No newline at end of file
+}
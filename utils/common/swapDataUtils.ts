@@ -0,0 +1,185 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { utils } from "ethers";
+
+import { ADDRESS_ZERO } from "../constants";
+import { sameAddress } from "./addressUtils";
+import { Address, Bytes, Exchange, SwapData } from "../types";
+
+// ABI type of DEXAdapterV5.SwapData as it appears in FlashMint function signatures
+export const SWAP_DATA_TUPLE =
+  "tuple(address[] path,uint24[] fees,int24[] tickSpacing,address pool,bytes32[] poolIds,uint8 exchange)";
+
+const MAX_UINT_24 = 2 ** 24 - 1;
+const MIN_INT_24 = -(2 ** 23);
+const MAX_INT_24 = 2 ** 23 - 1;
+
+export const getNoopSwapData = (): SwapData => {
+  return {
+    path: [],
+    fees: [],
+    tickSpacing: [],
+    pool: ADDRESS_ZERO,
+    poolIds: [],
+    exchange: Exchange.None,
+  };
+};
+
+export const buildUniV2SwapData = (
+  exchange: Exchange.Quickswap | Exchange.Sushiswap,
+  path: Address[],
+): SwapData => {
+  return validateSwapData({ ...getNoopSwapData(), path, exchange });
+};
+
+export const buildUniV3SwapData = (path: Address[], fees: number[]): SwapData => {
+  return validateSwapData({ ...getNoopSwapData(), path, fees, exchange: Exchange.UniV3 });
+};
+
+export const buildCurveSwapData = (path: Address[], pool: Address): SwapData => {
+  return validateSwapData({ ...getNoopSwapData(), path, pool, exchange: Exchange.Curve });
+};
+
+export const buildBalancerV2SwapData = (path: Address[], poolIds: Bytes[]): SwapData => {
+  return validateSwapData({ ...getNoopSwapData(), path, poolIds, exchange: Exchange.BalancerV2 });
+};
+
+export const buildAerodromeSwapData = (path: Address[]): SwapData => {
+  return validateSwapData({ ...getNoopSwapData(), path, exchange: Exchange.Aerodrome });
+};
+
+export const buildAerodromeSlipstreamSwapData = (path: Address[], tickSpacing: number[]): SwapData => {
+  return validateSwapData({
+    ...getNoopSwapData(),
+    path,
+    tickSpacing,
+    exchange: Exchange.AerodromeSlipstream,
+  });
+};
+
+/**
+ * Checks the path / fee / tickSpacing / poolId invariants that DEXAdapterV5 enforces with
+ * `require` statements so malformed routes fail before a transaction is sent.
+ *
+ * @param swapData    SwapData to validate
+ * @returns           The same SwapData, to allow chaining
+ */
+export const validateSwapData = (swapData: SwapData): SwapData => {
+  const { path, fees, tickSpacing, pool, poolIds, exchange } = swapData;
+
+  if (Exchange[exchange] === undefined) {
+    throw new Error(`Unknown exchange: ${exchange}`);
+  }
+  path.forEach(address => {
+    if (!utils.isAddress(address)) throw new Error(`Invalid path address: ${address}`);
+  });
+  fees.forEach(fee => {
+    if (!Number.isInteger(fee) || fee < 0 || fee > MAX_UINT_24) throw new Error(`Invalid fee: ${fee}`);
+  });
+  tickSpacing.forEach(spacing => {
+    if (!Number.isInteger(spacing) || spacing < MIN_INT_24 || spacing > MAX_INT_24) {
+      throw new Error(`Invalid tickSpacing: ${spacing}`);
+    }
+  });
+  poolIds.forEach(poolId => {
+    if (!utils.isHexString(poolId, 32)) throw new Error(`Invalid poolId: ${poolId}`);
+  });
+  if (!utils.isAddress(pool)) {
+    throw new Error(`Invalid pool address: ${pool}`);
+  }
+
+  // The adapter returns the input amount untouched for empty or circular paths
+  const isCircular = path.length > 0 && sameAddress(path[0], path[path.length - 1]);
+  if (exchange === Exchange.None || path.length === 0 || isCircular) {
+    return swapData;
+  }
+
+  switch (exchange) {
+    case Exchange.Quickswap:
+    case Exchange.Sushiswap:
+      if (path.length < 2) throw new Error("UniV2 path must contain at least two tokens");
+      break;
+    case Exchange.UniV3:
+      if (path.length !== fees.length + 1) throw new Error("path/fee lengths do not match");
+      break;
+    case Exchange.AerodromeSlipstream:
+      if (path.length !== tickSpacing.length + 1) throw new Error("path/tickSpacing lengths do not match");
+      break;
+    case Exchange.Curve:
+      if (path.length !== 2) throw new Error("Curve path must contain exactly two tokens");
+      if (pool === ADDRESS_ZERO) throw new Error("Curve swaps require a pool address");
+      break;
+    case Exchange.BalancerV2:
+      if (path.length < 2) throw new Error("Balancer path must contain at least two tokens");
+      if (poolIds.length !== path.length - 1) throw new Error("path/poolIds lengths do not match");
+      break;
+    case Exchange.Aerodrome:
+      if (path.length !== 2) throw new Error("Aerodrome path must contain exactly two tokens");
+      break;
+  }
+
+  return swapData;
+};
+
+/**
+ * Returns the SwapData for the same route traded in the opposite direction, e.g. to derive
+ * redemption routes (component -> WETH) from issuance routes (WETH -> component).
+ */
+export const reverseSwapData = (swapData: SwapData): SwapData => {
+  return {
+    ...swapData,
+    path: [...swapData.path].reverse(),
+    fees: [...swapData.fees].reverse(),
+    tickSpacing: [...swapData.tickSpacing].reverse(),
+    poolIds: [...swapData.poolIds].reverse(),
+  };
+};
+
+export const encodePath = (path: Address[], fees: number[]) => {
+  const FEE_SIZE = 6;
+  if (path.length !== fees.length + 1) {
+    throw new Error("path/fee lengths do not match");
+  }
+
+  let encoded = "0x";
+  for (let i = 0; i < fees.length; i++) {
+    encoded += path[i].slice(2);
+    const fee = utils
+      .hexlify(fees[i])
+      .slice(2)
+      .toString();
+    encoded += fee.padStart(FEE_SIZE, "0");
+  }
+  encoded += path[path.length - 1].slice(2);
+  return encoded.toLowerCase();
+};
+
+export const encodeSwapData = (swapData: SwapData): Bytes => {
+  validateSwapData(swapData);
+  return utils.defaultAbiCoder.encode([SWAP_DATA_TUPLE], [swapData]);
+};
+
+export const decodeSwapData = (data: Bytes): SwapData => {
+  const [decoded] = utils.defaultAbiCoder.decode([SWAP_DATA_TUPLE], data);
+  return toSwapData(decoded);
+};
+
+export const encodeSwapDataArray = (swapData: SwapData[]): Bytes => {
+  swapData.forEach(validateSwapData);
+  return utils.defaultAbiCoder.encode([`${SWAP_DATA_TUPLE}[]`], [swapData]);
+};
+
+export const decodeSwapDataArray = (data: Bytes): SwapData[] => {
+  const [decoded] = utils.defaultAbiCoder.decode([`${SWAP_DATA_TUPLE}[]`], data);
+  return decoded.map(toSwapData);
+};
+
+const toSwapData = (decoded: utils.Result): SwapData => {
+  return {
+    path: [...decoded.path],
+    fees: decoded.fees.map((fee: number) => Number(fee)),
+    tickSpacing: decoded.tickSpacing.map((spacing: number) => Number(spacing)),
+    pool: decoded.pool,
+    poolIds: [...decoded.poolIds],
+    exchange: BigNumber.from(decoded.exchange).toNumber(),
+  };
+};
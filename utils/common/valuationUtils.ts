@@ -0,0 +1,138 @@
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { ADDRESS_ZERO, PRECISE_UNIT, ZERO } from "../constants";
+import { Address } from "../types";
+import { preciseDiv, preciseMul } from "./mathUtils";
+
+export interface ValuationPosition {
+  component: Address;
+  unit: BigNumber;              // Real unit per SetToken in component base units, negative for debt
+  module?: Address;             // External position module, e.g. AaveLeverageModule debt. Unset for default positions
+}
+
+export interface ValuationComponentPrice {
+  decimals: number;
+  price?: BigNumber;            // Price of one whole component in the master quote asset, 18 decimals
+  // ERC4626 components without a price are valued through their underlying: price = underlying price * assets per share
+  underlying?: Address;
+  assetsPerShare?: BigNumber;   // convertToAssets(10 ** decimals), in underlying base units
+}
+
+export interface SetValuationParams {
+  positions: ValuationPosition[];
+  prices: { [component: string]: ValuationComponentPrice };
+  quoteAsset?: Address;         // Defaults to the master quote asset. Otherwise the quote asset must have a price
+  totalSupply?: BigNumber;
+}
+
+export interface ComponentValuation {
+  component: Address;
+  units: BigNumber;             // Sum of default and external position units, as SetToken.getTotalComponentRealUnits
+  price: BigNumber;
+  valuation: BigNumber;         // Value per SetToken in the quote asset, 18 decimals. Negative for net debt
+  weight: BigNumber;            // valuation / SetToken valuation, 1e18 is 100%
+}
+
+export interface SetValuation {
+  valuation: BigNumber;         // NAV per SetToken in the quote asset, 18 decimals
+  totalValuation?: BigNumber;   // NAV of the total supply, when totalSupply is given
+  components: ComponentValuation[];
+}
+
+/**
+ * Values a SetToken off-chain with the same rounding as SetValuer.calculateSetTokenValuation: units of each component
+ * are aggregated across positions, normalized to 18 decimals, multiplied by the component price and summed, then
+ * converted to the quote asset. Component valuations and weights match calculateComponentValuation and the weights
+ * of TargetWeightWrapExtension, and the aggregated units of a component match SetTokenRateViewer.getRate.
+ *
+ * @param params      Positions of one SetToken, component prices and decimals, quote asset and optional supply
+ * @return            NAV per SetToken and the valuation and weight of each component
+ */
+export const calculateSetValuation = (params: SetValuationParams): SetValuation => {
+  const { positions, prices, quoteAsset, totalSupply } = params;
+
+  const components = getValuationComponents(positions);
+  const quoteToMaster = quoteAsset ? getComponentPrice(prices, quoteAsset) : PRECISE_UNIT;
+  const toQuoteAsset = (value: BigNumber) => quoteAsset ? preciseDiv(value, quoteToMaster) : value;
+
+  let masterValuation = ZERO;
+  const componentValuations = components.map(component => {
+    const units = getTotalComponentUnits(positions, component);
+    const price = getComponentPrice(prices, component);
+    const normalizedUnits = preciseDiv(units, BigNumber.from(10).pow(getComponentDecimals(prices, component)));
+    const valuation = preciseMul(normalizedUnits, price);
+
+    masterValuation = valuation.add(masterValuation);
+    return { component, units, price, valuation: toQuoteAsset(valuation), weight: ZERO };
+  });
+
+  const valuation = toQuoteAsset(masterValuation);
+  if (valuation.lt(0)) {
+    throw new Error(`SetToken valuation is negative: ${valuation.toString()}`);
+  }
+
+  componentValuations.forEach(component => {
+    component.weight = valuation.isZero() ? ZERO : preciseDiv(component.valuation, valuation);
+  });
+
+  return {
+    valuation,
+    totalValuation: totalSupply && preciseMul(valuation, totalSupply),
+    components: componentValuations,
+  };
+};
+
+// Sums default and external position units of a component, as SetToken.getTotalComponentRealUnits
+export const getTotalComponentUnits = (positions: ValuationPosition[], component: Address): BigNumber => {
+  return positions
+    .filter(position => position.component.toLowerCase() === component.toLowerCase())
+    .reduce((total, position) => total.add(position.unit), ZERO);
+};
+
+// Converts SetToken.getPositions() output into valuation positions
+export const getValuationPositions = (
+  positions: { component: Address; module: Address; unit: BigNumber }[]
+): ValuationPosition[] => {
+  return positions.map(position => ({
+    component: position.component,
+    unit: position.unit,
+    module: position.module === ADDRESS_ZERO ? undefined : position.module,
+  }));
+};
+
+const getValuationComponents = (positions: ValuationPosition[]): Address[] => {
+  const components: Address[] = [];
+  positions.forEach(position => {
+    if (!components.some(component => component.toLowerCase() === position.component.toLowerCase())) {
+      components.push(position.component);
+    }
+  });
+  return components;
+};
+
+const findComponentPrice = (
+  prices: { [component: string]: ValuationComponentPrice },
+  component: Address
+): ValuationComponentPrice => {
+  const key = Object.keys(prices).find(priced => priced.toLowerCase() === component.toLowerCase());
+  if (key === undefined) {
+    throw new Error(`No price for ${component}`);
+  }
+  return prices[key];
+};
+
+const getComponentDecimals = (prices: { [component: string]: ValuationComponentPrice }, component: Address): number => {
+  return findComponentPrice(prices, component).decimals;
+};
+
+const getComponentPrice = (prices: { [component: string]: ValuationComponentPrice }, component: Address): BigNumber => {
+  const { price, underlying, assetsPerShare } = findComponentPrice(prices, component);
+  if (price) return price;
+
+  if (!underlying || !assetsPerShare) {
+    throw new Error(`No price for ${component}, and no underlying and assetsPerShare to value it as an ERC4626 vault`);
+  }
+
+  const underlyingUnit = BigNumber.from(10).pow(getComponentDecimals(prices, underlying));
+  return preciseMul(getComponentPrice(prices, underlying), preciseDiv(assetsPerShare, underlyingUnit));
+};
@@ -23,14 +23,26 @@ export const mainnetForkingConfig = {
   blockNumber: process.env.LATESTBLOCK ? undefined : 20660000,
 };
 
-export const forkingConfig =
-  process.env.NETWORK === "polygon"
-    ? polygonForkingConfig
-    : process.env.NETWORK === "optimism"
-    ? optimismForkingConfig
-    : process.env.NETWORK === "arbitrum"
-    ? arbitrumForkingConfig
-    : process.env.NETWORK === "base"
-    ? baseForkingConfig
-    : mainnetForkingConfig;
+export type ForkChain = "ethereum" | "polygon" | "optimism" | "arbitrum" | "base";
 
+export interface ForkChainConfig {
+  chainId: number;
+  network: string;        // Hardhat network the chain's contracts are deployed with, names the deployment manifest
+  forking: { url: string; blockNumber?: number };
+}
+
+export const forkChainConfigs: { [chain in ForkChain]: ForkChainConfig } = {
+  ethereum: { chainId: 1, network: "production", forking: mainnetForkingConfig },
+  polygon: { chainId: 137, network: "polygon", forking: polygonForkingConfig },
+  optimism: { chainId: 10, network: "optimism", forking: optimismForkingConfig },
+  arbitrum: { chainId: 42161, network: "arbitrum", forking: arbitrumForkingConfig },
+  base: { chainId: 8453, network: "base", forking: baseForkingConfig },
+};
+
+// Chain selected by NETWORK for suites that don't declare their own fork
+export const defaultForkChain: ForkChain =
+  process.env.NETWORK && process.env.NETWORK in forkChainConfigs
+    ? (process.env.NETWORK as ForkChain)
+    : "ethereum";
+
+export const forkingConfig = forkChainConfigs[defaultForkChain].forking;
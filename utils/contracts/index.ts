@@ -76,6 +76,8 @@ export { GlobalAuctionRebalanceExtension } from "../../typechain/GlobalAuctionRe
 export { GlobalOptimisticAuctionRebalanceExtension } from "../../typechain/GlobalOptimisticAuctionRebalanceExtension";
 export { OptimisticAuctionRebalanceExtensionV1 } from "../../typechain/OptimisticAuctionRebalanceExtensionV1";
 export { OptimisticOracleV3Mock } from "../../typechain/OptimisticOracleV3Mock";
+export { OptimisticOracleV3Simulator } from "../../typechain/OptimisticOracleV3Simulator";
 export { PrtStakingPoolMock } from "../../typechain/PrtStakingPoolMock";
 export { PrtFeeSplitExtension } from "../../typechain/PrtFeeSplitExtension";
 export { Prt } from "../../typechain/Prt";
+export { SafeMock } from "../../typechain/SafeMock";
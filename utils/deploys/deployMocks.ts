@@ -1,4 +1,4 @@
-import { Signer, BigNumber } from "ethers";
+import { Signer, BigNumber, BigNumberish } from "ethers";
 import { Address } from "../types";
 import {
   BaseExtensionMock,
@@ -21,7 +21,9 @@ import {
   ModuleMock,
   BaseGlobalExtensionMock,
   MutualUpgradeV2Mock,
+  OptimisticOracleV3Simulator,
   PrtStakingPoolMock,
+  SafeMock,
 } from "../contracts/index";
 
 import { BaseExtensionMock__factory } from "../../typechain/factories/BaseExtensionMock__factory";
@@ -52,7 +54,9 @@ import { AaveV2LendingPoolMock } from "@typechain/AaveV2LendingPoolMock";
 import { FlashMintLeveragedCompMock } from "@typechain/FlashMintLeveragedCompMock";
 import { FlashMintLeveragedCompMock__factory } from "@typechain/factories/FlashMintLeveragedCompMock__factory";
 import { OptimisticOracleV3Mock__factory } from "@typechain/factories/OptimisticOracleV3Mock__factory";
+import { OptimisticOracleV3Simulator__factory } from "@typechain/factories/OptimisticOracleV3Simulator__factory";
 import { PrtStakingPoolMock__factory } from "@typechain/factories/PrtStakingPoolMock__factory";
+import { SafeMock__factory } from "@typechain/factories/SafeMock__factory";
 
 export default class DeployMocks {
   private _deployerSigner: Signer;
@@ -237,6 +241,18 @@ export default class DeployMocks {
     return await new OptimisticOracleV3Mock__factory(this._deployerSigner).deploy();
   }
 
+  public async deployOptimisticOracleV3Simulator(
+    defaultCurrency: Address,
+    defaultLiveness: BigNumberish,
+    burnedBondPercentage: BigNumberish
+  ): Promise<OptimisticOracleV3Simulator> {
+    return await new OptimisticOracleV3Simulator__factory(this._deployerSigner).deploy(
+      defaultCurrency,
+      defaultLiveness,
+      burnedBondPercentage
+    );
+  }
+
   public async deployPrtStakingPoolMock(
     setToken: Address,
     prt: Address,
@@ -248,4 +264,8 @@ export default class DeployMocks {
       feeSplitExtension,
     );
   }
+
+  public async deploySafeMock(): Promise<SafeMock> {
+    return await new SafeMock__factory(this._deployerSigner).deploy();
+  }
 }
@@ -10,6 +10,7 @@ import {
   AirdropModule,
   AuctionRebalanceModuleV1,
   BasicIssuanceModule,
+  BoundedStepwiseLinearPriceAdapter,
   Compound,
   CompoundLeverageModule,
   CompoundV3WrapV2Adapter,
@@ -63,6 +64,7 @@ import { AaveV3WrapV2Adapter__factory } from "../../typechain/factories/AaveV3Wr
 import { AirdropModule__factory } from "../../typechain/factories/AirdropModule__factory";
 import { AuctionRebalanceModuleV1__factory } from "../../typechain/factories/AuctionRebalanceModuleV1__factory";
 import { BasicIssuanceModule__factory } from "../../typechain/factories/BasicIssuanceModule__factory";
+import { BoundedStepwiseLinearPriceAdapter__factory } from "../../typechain/factories/BoundedStepwiseLinearPriceAdapter__factory";
 import { TradeModule__factory } from "../../typechain/factories/TradeModule__factory";
 import { Controller__factory } from "../../typechain/factories/Controller__factory";
 import { ConstantPriceAdapter__factory } from "../../typechain/factories/ConstantPriceAdapter__factory";
@@ -366,6 +368,10 @@ export default class DeploySetV2 {
     return await new ConstantPriceAdapter__factory(this._deployerSigner).deploy();
   }
 
+  public async deployBoundedStepwiseLinearPriceAdapter(): Promise<BoundedStepwiseLinearPriceAdapter> {
+    return await new BoundedStepwiseLinearPriceAdapter__factory(this._deployerSigner).deploy();
+  }
+
   public async deployClaimAdapterMock(): Promise<ClaimAdapterMock> {
     return await new ClaimAdapterMock__factory(this._deployerSigner).deploy();
   }
@@ -0,0 +1,214 @@
+import fs from "fs";
+import path from "path";
+import { AsyncLocalStorage } from "async_hooks";
+import hre from "hardhat";
+import { BigNumber, Contract, ContractFactory } from "ethers";
+import { defaultAbiCoder, hexDataLength, hexDataSlice } from "ethers/lib/utils";
+
+import type DeployHelper from "./index";
+import { Address, DeploymentArg, DeploymentManifestFile, DeploymentRecord } from "../types";
+
+const MANIFEST_DIRECTORY = path.join("deployments", "manifests");
+
+type DeployMethodName<T> = { [K in keyof T]: K extends `deploy${infer Name}` ? Name : never }[keyof T];
+
+// Names of all contracts deployable through DeployHelper, e.g. "DEXAdapterV5" for `extensions.deployDEXAdapterV5`
+export type DeployedContractName = { [K in keyof DeployHelper]: DeployMethodName<DeployHelper[K]> }[keyof DeployHelper];
+
+export type AddressBook = { [contractName in DeployedContractName]?: Address };
+
+type FactoryDeploy = { contractName: string; contract: Contract; factory: ContractFactory };
+
+type DeployFrame = { libraries: { [libraryName: string]: Address }; factoryDeploys: FactoryDeploy[] };
+
+// Deploy method currently running, shared by all manifests so ContractFactory deploys can report to it
+const deployFrames = new AsyncLocalStorage<DeployFrame>();
+
+// Root of the Hardhat project. Not derived from __dirname, which points into dist/ when this module is loaded from
+// the published package.
+export const getManifestPath = (network: string): string => {
+  return path.join(hre.config.paths.root, MANIFEST_DIRECTORY, `${network}.json`);
+};
+
+/**
+ * Records every deploy made through a DeployHelper constructed with this manifest and persists them to
+ * `deployments/manifests/<network>.json`. Contracts deployed while another deploy method is running, either through
+ * another deploy method (e.g. DEXAdapterV5 inside deployFlashMintDexV5) or directly through a factory (e.g. the
+ * Compound library inside deployCompoundWrapV2Adapter), are recorded as linked libraries of the outer contract.
+ * Constructor arguments are decoded from the deploy transaction, since deploy methods can reorder or group them,
+ * and fall back to the deploy method arguments for contracts not deployed through a ContractFactory.
+ */
+export class DeploymentManifest {
+  public network: string;
+  public chainId: number;
+  public filePath: string;
+  public deployments: DeploymentRecord[];
+
+  constructor(network: string, chainId: number, deployments: DeploymentRecord[] = [], filePath?: string) {
+    this.network = network;
+    this.chainId = chainId;
+    this.deployments = deployments;
+    this.filePath = filePath || getManifestPath(network);
+    installFactoryHook();
+  }
+
+  // Loads the manifest of a network, starting an empty one if no deploys have been recorded yet
+  public static load(network: string, chainId: number, filePath?: string): DeploymentManifest {
+    const manifestPath = filePath || getManifestPath(network);
+    if (!fs.existsSync(manifestPath)) {
+      return new DeploymentManifest(network, chainId, [], manifestPath);
+    }
+
+    const file: DeploymentManifestFile = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+    if (file.chainId !== chainId) {
+      throw new Error(`Manifest ${manifestPath} is for chain ${file.chainId}, not ${chainId}`);
+    }
+    return new DeploymentManifest(network, chainId, file.deployments, manifestPath);
+  }
+
+  /**
+   * Wraps a sub-deployer so every `deploy*` method returning a contract is recorded once its deploy
+   * transaction is mined.
+   */
+  public track<T extends object>(deployer: T): T {
+    return new Proxy(deployer, {
+      get: (target, property, receiver) => {
+        const value = Reflect.get(target, property, receiver);
+        if (typeof property !== "string" || !property.startsWith("deploy") || typeof value !== "function") {
+          return value;
+        }
+
+        return async (...args: unknown[]) => {
+          const frame: DeployFrame = { libraries: {}, factoryDeploys: [] };
+          const result = await deployFrames.run(frame, () => value.apply(receiver, args));
+
+          if (result && result.deployTransaction && result.address) {
+            const contractName = property.slice("deploy".length);
+            const resultDeploy = frame.factoryDeploys.find(({ contract }) => contract.address === result.address);
+
+            for (const { contractName: libraryName, contract, factory } of frame.factoryDeploys) {
+              if (contract.address === result.address) continue;
+
+              await this.recordContract(libraryName, contract, decodeConstructorArgs(factory, contract));
+              frame.libraries[libraryName] = contract.address;
+            }
+
+            const constructorArgs = resultDeploy ? decodeConstructorArgs(resultDeploy.factory, result) : args;
+            await this.recordContract(contractName, result, constructorArgs, frame.libraries);
+
+            const parentFrame = deployFrames.getStore();
+            if (parentFrame) parentFrame.libraries[contractName] = result.address;
+          }
+
+          return result;
+        };
+      },
+    });
+  }
+
+  public async recordContract(
+    contractName: string,
+    contract: Contract,
+    constructorArgs: unknown[],
+    libraries: { [libraryName: string]: Address } = {}
+  ): Promise<DeploymentRecord> {
+    const receipt = await contract.deployTransaction.wait();
+
+    const record: DeploymentRecord = {
+      contractName,
+      address: contract.address,
+      constructorArgs: constructorArgs.map(serializeArg),
+      libraries,
+      txHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      chainId: this.chainId,
+      deployer: receipt.from,
+    };
+
+    this.deployments.push(record);
+    this.save();
+    return record;
+  }
+
+  public getDeployment(contractName: DeployedContractName | string): DeploymentRecord | undefined {
+    for (let i = this.deployments.length - 1; i >= 0; i--) {
+      if (this.deployments[i].contractName === contractName) return this.deployments[i];
+    }
+    return undefined;
+  }
+
+  // Latest address of every recorded contract
+  public getAddressBook(): AddressBook {
+    return this.deployments.reduce<{ [contractName: string]: Address }>((memo, { contractName, address }) => {
+      memo[contractName] = address;
+      return memo;
+    }, {});
+  }
+
+  public save(): void {
+    const file: DeploymentManifestFile = {
+      network: this.network,
+      chainId: this.chainId,
+      deployments: this.deployments,
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(file, undefined, 2), "utf8");
+  }
+}
+
+/**
+ * Reads the address book of a network recorded by DeploymentManifest, e.g. in integration tests:
+ * `const { FlashMintDexV5 } = loadAddressBook("base");`
+ */
+export const loadAddressBook = (network: string, filePath?: string): AddressBook => {
+  const manifestPath = filePath || getManifestPath(network);
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`No deployment manifest found for ${network} at ${manifestPath}`);
+  }
+
+  const file: DeploymentManifestFile = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+  return new DeploymentManifest(network, file.chainId, file.deployments, manifestPath).getAddressBook();
+};
+
+// Reports contracts deployed through any ContractFactory to the deploy method running them. Typechain factories
+// call super.deploy, so patching the base class covers them.
+let factoryHookInstalled = false;
+const installFactoryHook = (): void => {
+  if (factoryHookInstalled) return;
+  factoryHookInstalled = true;
+
+  const deploy = ContractFactory.prototype.deploy;
+  ContractFactory.prototype.deploy = async function(this: ContractFactory, ...args: any[]): Promise<Contract> {
+    const contract = await deploy.apply(this, args);
+
+    const frame = deployFrames.getStore();
+    if (frame) {
+      const contractName = this.constructor.name.replace(/__factory$/, "");
+      frame.factoryDeploys.push({ contractName, contract, factory: this });
+    }
+
+    return contract;
+  };
+};
+
+// Constructor arguments are ABI encoded after the linked bytecode in the deploy transaction data
+const decodeConstructorArgs = (factory: ContractFactory, contract: Contract): unknown[] => {
+  const inputs = factory.interface.deploy.inputs;
+  const encodedArgs = hexDataSlice(contract.deployTransaction.data, hexDataLength(factory.bytecode));
+  const decoded = defaultAbiCoder.decode(inputs, encodedArgs);
+  return inputs.map((_, i) => decoded[i]);
+};
+
+const serializeArg = (arg: unknown): DeploymentArg => {
+  if (BigNumber.isBigNumber(arg)) return arg.toString();
+  if (Array.isArray(arg)) return arg.map(serializeArg);
+  if (arg && typeof arg === "object") {
+    const fields = arg as { [key: string]: unknown };
+    return Object.keys(fields).reduce<{ [key: string]: DeploymentArg }>((memo, key) => {
+      memo[key] = serializeArg(fields[key]);
+      return memo;
+    }, {});
+  }
+  return arg as DeploymentArg;
+};
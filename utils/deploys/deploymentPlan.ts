@@ -0,0 +1,390 @@
+import fs from "fs";
+import path from "path";
+import yaml from "js-yaml";
+import { BigNumber, Contract, ContractTransaction, providers, Signer, utils } from "ethers";
+
+import { DelegatedManagerFactory__factory } from "../../typechain/factories/DelegatedManagerFactory__factory";
+import { ADDRESS_ZERO } from "../constants";
+import { SafeBatchBuilder } from "../safeUtils";
+import {
+  Address,
+  Bytes,
+  DeploymentPlan,
+  DeploymentPlanExtension,
+  DeploymentPlanState,
+} from "../types";
+
+const MANAGER_PLACEHOLDER = "$manager";
+
+const DEFAULT_CONFIRMATION_TIMEOUT = 10 * 60 * 1000;
+
+const EXTENSION_INITIALIZERS: { [type: string]: string } = {
+  issuance: "function initializeModuleAndExtension(address _delegatedManager, uint256 _maxManagerFee, uint256 _managerIssueFee, uint256 _managerRedeemFee, address _feeRecipient, address _managerIssuanceHook)",
+  streamingFeeSplit: "function initializeModuleAndExtension(address _delegatedManager, tuple(address feeRecipient, uint256 maxStreamingFeePercentage, uint256 streamingFeePercentage, uint256 lastStreamingFeeTimestamp) _settings)",
+  trade: "function initializeModuleAndExtension(address _delegatedManager)",
+  batchTrade: "function initializeModuleAndExtension(address _delegatedManager)",
+  wrap: "function initializeModuleAndExtension(address _delegatedManager)",
+  auctionRebalance: "function initializeModuleAndExtension(address _delegatedManager)",
+};
+
+// Safe.execTransaction doesn't revert when the Safe's call fails, it emits ExecutionFailure instead
+const SAFE_EXECUTION_EVENTS = new utils.Interface(["event ExecutionFailure(bytes32 txHash, uint256 payment)"]);
+
+const FLASH_MINT_ABI = [
+  "function approveSetToken(address _setToken)",
+  "function approveSetToken(address _setToken, address _issuanceModule)",
+];
+
+export const CREATE_SET_AND_MANAGER_STEP = "createSetAndManager";
+export const INITIALIZE_STEP = "initialize";
+
+export interface DeploymentPlanRunnerOptions {
+  confirmationTimeout?: number;       // Milliseconds to wait for a step's transaction, defaults to 10 minutes
+  safeBatch?: SafeBatchBuilder;       // Captures the steps into a batch of the Safe running the plan instead of sending them
+}
+
+/**
+ * Reads a deployment plan from a JSON or YAML file and checks it for obvious mistakes before anything is sent.
+ */
+export const loadDeploymentPlan = (filePath: string): DeploymentPlan => {
+  const content = fs.readFileSync(filePath, "utf8");
+  const extension = path.extname(filePath).toLowerCase();
+
+  let plan: DeploymentPlan;
+  if (extension === ".yml" || extension === ".yaml") {
+    plan = yaml.load(content) as DeploymentPlan;
+  } else {
+    plan = JSON.parse(content);
+  }
+
+  return validateDeploymentPlan(plan);
+};
+
+export const validateDeploymentPlan = (plan: DeploymentPlan): DeploymentPlan => {
+  const addresses: Address[] = [
+    plan.factory,
+    plan.owner,
+    plan.methodologist,
+    plan.ownerFeeRecipient,
+    ...plan.components.map(component => component.address),
+    ...plan.modules,
+    ...plan.operators,
+    ...plan.allowedAssets,
+    ...plan.extensions.map(extension => extension.address),
+    ...(plan.flashMints || []).map(flashMint => flashMint.address),
+  ];
+  addresses.forEach(address => {
+    if (!utils.isAddress(address)) throw new Error(`Invalid address in deployment plan: ${address}`);
+  });
+
+  if (!plan.name || !plan.symbol) throw new Error("Deployment plan requires a name and symbol");
+  if (plan.components.length === 0) throw new Error("Deployment plan requires at least one component");
+  plan.components.forEach(({ address, unit }) => {
+    if (BigNumber.from(unit).lte(0)) throw new Error(`Invalid unit for component: ${address}`);
+  });
+  plan.extensions.forEach(extension => {
+    if (extension.type === "custom" ? !extension.signature : !EXTENSION_INITIALIZERS[extension.type]) {
+      throw new Error(`Invalid extension ${extension.address} of type ${extension.type}`);
+    }
+  });
+
+  return plan;
+};
+
+// Calldata passed to DelegatedManagerFactory.initialize for an extension of the plan
+export const encodeExtensionInitializer = (extension: DeploymentPlanExtension, manager: Address): Bytes => {
+  const settings = extension.settings || {};
+
+  switch (extension.type) {
+    case "issuance":
+      return new utils.Interface([EXTENSION_INITIALIZERS.issuance]).encodeFunctionData("initializeModuleAndExtension", [
+        manager,
+        settings.maxManagerFee,
+        settings.managerIssueFee,
+        settings.managerRedeemFee,
+        settings.feeRecipient,
+        settings.managerIssuanceHook || ADDRESS_ZERO,
+      ]);
+    case "streamingFeeSplit":
+      return new utils.Interface([EXTENSION_INITIALIZERS.streamingFeeSplit]).encodeFunctionData("initializeModuleAndExtension", [
+        manager,
+        {
+          feeRecipient: settings.feeRecipient,
+          maxStreamingFeePercentage: settings.maxStreamingFeePercentage,
+          streamingFeePercentage: settings.streamingFeePercentage,
+          lastStreamingFeeTimestamp: 0,
+        },
+      ]);
+    case "custom": {
+      const fragment = utils.FunctionFragment.from(extension.signature as string);
+      const args = (extension.args || []).map(arg => arg === MANAGER_PLACEHOLDER ? manager : arg);
+      return new utils.Interface([fragment]).encodeFunctionData(fragment.name, args);
+    }
+    default:
+      return new utils.Interface([EXTENSION_INITIALIZERS[extension.type]]).encodeFunctionData("initializeModuleAndExtension", [
+        manager,
+      ]);
+  }
+};
+
+// Ids of the plan's steps in execution order
+export const getDeploymentPlanSteps = (plan: DeploymentPlan): string[] => {
+  return [
+    CREATE_SET_AND_MANAGER_STEP,
+    INITIALIZE_STEP,
+    ...(plan.flashMints || []).map(flashMint => `approveSetToken:${utils.getAddress(flashMint.address)}`),
+  ];
+};
+
+export const getDeploymentPlanHash = (plan: DeploymentPlan): string => {
+  return utils.keccak256(utils.toUtf8Bytes(JSON.stringify(plan)));
+};
+
+/**
+ * Executes a deployment plan step by step: createSetAndManager on the DelegatedManagerFactory, initialize with
+ * the initializer calldata of every extension, then approveSetToken on each FlashMint contract. Progress, including
+ * the hash of a transaction sent but not yet confirmed, is written to a state file after every transaction so
+ * an interrupted run resumes where it stopped instead of deploying a second SetToken. A step whose transaction the
+ * node dropped without mining it is sent again.
+ *
+ * When the plan is run by a Safe, steps are captured into the safeBatch option instead. createSetAndManager is
+ * captured on its own since later steps need the addresses it deploys; once the Safe executed a batch,
+ * confirmCapturedSteps completes its steps from the execution's receipt and the next run captures the remaining ones.
+ */
+export class DeploymentPlanRunner {
+  public plan: DeploymentPlan;
+  public statePath: string;
+  public state: DeploymentPlanState;
+
+  private _signer: Signer;
+  private _options: DeploymentPlanRunnerOptions;
+
+  constructor(signer: Signer, plan: DeploymentPlan, statePath: string, options: DeploymentPlanRunnerOptions = {}) {
+    this._signer = signer;
+    this.plan = plan;
+    this.statePath = statePath;
+    this.state = this.loadState();
+    this._options = options;
+  }
+
+  public async run(): Promise<DeploymentPlanState> {
+    if (this.state.capturedSteps) {
+      throw new Error(`${this.state.capturedSteps.join(", ")} awaiting execution by the Safe, confirm them with its transaction hash`);
+    }
+
+    if (this.state.pendingStep) {
+      await this.resumePendingStep();
+    }
+
+    for (const stepId of getDeploymentPlanSteps(this.plan)) {
+      if (this.state.completedSteps[stepId] !== undefined) {
+        console.log(`Skipping ${stepId}, already completed in ${this.state.completedSteps[stepId]}`);
+        continue;
+      }
+
+      if (await this.isCompletedOnChain(stepId)) {
+        console.log(`Skipping ${stepId}, already applied on-chain`);
+        this.state.completedSteps[stepId] = "";    // No transaction sent by this runner
+        this.saveState();
+        continue;
+      }
+
+      if (this._options.safeBatch) {
+        console.log(`Capturing ${stepId}`);
+        await this.captureStep(stepId, this._options.safeBatch);
+        if (stepId === CREATE_SET_AND_MANAGER_STEP) break;
+        continue;
+      }
+
+      console.log(`Executing ${stepId}`);
+      await this.executeStep(stepId);
+    }
+
+    return this.state;
+  }
+
+  // Completes the captured steps once the Safe executed their batch in txHash
+  public async confirmCapturedSteps(txHash: string): Promise<DeploymentPlanState> {
+    const capturedSteps = this.state.capturedSteps;
+    if (!capturedSteps) throw new Error("No steps are awaiting execution by the Safe");
+
+    const provider = this._signer.provider;
+    if (!provider) throw new Error("Signer must be connected to a provider");
+    const receipt = await provider.getTransactionReceipt(txHash);
+    if (!receipt) {
+      throw new Error(`${txHash} is not mined, confirm the steps once the Safe executed the batch`);
+    }
+    if (hasSafeExecutionFailure(receipt)) {
+      throw new Error(`Safe ${receipt.to} failed to execute the batch of ${capturedSteps.join(", ")} in ${txHash} (ExecutionFailure)`);
+    }
+
+    this.state.capturedSteps = undefined;
+    for (const id of capturedSteps) {
+      this.state.pendingStep = { id, txHash };
+      await this.resumePendingStep();
+    }
+    return this.state;
+  }
+
+  private async executeStep(stepId: string): Promise<void> {
+    const tx = await this.sendStep(stepId);
+    this.state.pendingStep = { id: stepId, txHash: tx.hash };
+    this.saveState();
+
+    await this.resumePendingStep();
+  }
+
+  private async captureStep(stepId: string, safeBatch: SafeBatchBuilder): Promise<void> {
+    await this.sendStep(stepId, safeBatch);
+    this.state.capturedSteps = (this.state.capturedSteps || []).concat(stepId);
+    this.saveState();
+  }
+
+  // Sends the step's transaction, or adds it to safeBatch decoded for review
+  private async sendStep(stepId: string, safeBatch?: SafeBatchBuilder): Promise<ContractTransaction> {
+    const connect = <T extends Contract>(contract: T): T => safeBatch ? safeBatch.capture(contract) : contract;
+    const factory = connect(DelegatedManagerFactory__factory.connect(this.plan.factory, this._signer));
+
+    if (stepId === CREATE_SET_AND_MANAGER_STEP) {
+      return await factory.createSetAndManager(
+        this.plan.components.map(component => component.address),
+        this.plan.components.map(component => BigNumber.from(component.unit)),
+        this.plan.name,
+        this.plan.symbol,
+        this.plan.owner,
+        this.plan.methodologist,
+        this.plan.modules,
+        this.plan.operators,
+        this.plan.allowedAssets,
+        this.plan.extensions.map(extension => extension.address)
+      );
+    }
+
+    const { setToken, manager } = this.getDeployedAddresses();
+    if (stepId === INITIALIZE_STEP) {
+      return await factory.initialize(
+        setToken,
+        BigNumber.from(this.plan.ownerFeeSplit),
+        this.plan.ownerFeeRecipient,
+        this.plan.extensions.map(extension => extension.address),
+        this.plan.extensions.map(extension => encodeExtensionInitializer(extension, manager))
+      );
+    }
+
+    const flashMint = this.getFlashMint(stepId);
+    const flashMintContract = connect(new Contract(flashMint.address, FLASH_MINT_ABI, this._signer));
+    return flashMint.issuanceModule
+      ? await flashMintContract["approveSetToken(address,address)"](setToken, flashMint.issuanceModule)
+      : await flashMintContract["approveSetToken(address)"](setToken);
+  }
+
+  // Waits for the transaction of the pending step, which may have been sent by an interrupted run
+  private async resumePendingStep(): Promise<void> {
+    const { id, txHash } = this.state.pendingStep as { id: string; txHash: string };
+    const provider = this._signer.provider;
+    if (!provider) throw new Error("Signer must be connected to a provider");
+
+    const receipt = await this.waitForTransaction(provider, txHash);
+    if (!receipt) {
+      console.log(`${txHash} of ${id} was dropped without being mined, executing ${id} again`);
+      this.state.pendingStep = undefined;
+      this.saveState();
+      return await this.executeStep(id);
+    }
+
+    if (receipt.status === 0) {
+      this.state.pendingStep = undefined;
+      this.saveState();
+      throw new Error(`Step ${id} reverted in ${txHash}`);
+    }
+
+    if (id === CREATE_SET_AND_MANAGER_STEP) {
+      const factoryInterface = DelegatedManagerFactory__factory.connect(this.plan.factory, provider).interface;
+      const created = receipt.logs
+        .filter(log => log.address.toLowerCase() === this.plan.factory.toLowerCase())
+        .map(log => factoryInterface.parseLog(log))
+        .find(log => log.name === "DelegatedManagerCreated");
+      if (!created) throw new Error(`DelegatedManagerCreated not emitted in ${txHash}`);
+
+      this.state.setToken = created.args._setToken;
+      this.state.manager = created.args._manager;
+      console.log(`SetToken deployed at ${this.state.setToken}, DelegatedManager at ${this.state.manager}`);
+    }
+
+    this.state.completedSteps[id] = txHash;
+    this.state.pendingStep = undefined;
+    this.saveState();
+  }
+
+  // Receipt of the transaction, or undefined if the node no longer knows it once the confirmation timeout elapsed
+  private async waitForTransaction(
+    provider: providers.Provider,
+    txHash: string
+  ): Promise<providers.TransactionReceipt | undefined> {
+    const timeout = this._options.confirmationTimeout || DEFAULT_CONFIRMATION_TIMEOUT;
+    try {
+      return await provider.waitForTransaction(txHash, 1, timeout);
+    } catch (error) {
+      if ((error as { code?: string }).code !== utils.Logger.errors.TIMEOUT) throw error;
+    }
+
+    if (!await provider.getTransaction(txHash)) return undefined;
+
+    // Sending the step again while the transaction can still be mined could execute it twice
+    const receipt = await provider.getTransactionReceipt(txHash);
+    if (!receipt) throw new Error(`${txHash} still pending after ${timeout}ms, run the plan again to keep waiting`);
+    return receipt;
+  }
+
+  private async isCompletedOnChain(stepId: string): Promise<boolean> {
+    if (stepId !== INITIALIZE_STEP) return false;
+
+    const factory = DelegatedManagerFactory__factory.connect(this.plan.factory, this._signer);
+    const { setToken } = this.getDeployedAddresses();
+    // The factory deletes the initialize state of a SetToken once it is initialized
+    const initializeState = await factory.initializeState(setToken);
+    return !initializeState.isPending;
+  }
+
+  private getDeployedAddresses(): { setToken: Address; manager: Address } {
+    if (!this.state.setToken || !this.state.manager) {
+      throw new Error(`${CREATE_SET_AND_MANAGER_STEP} has not been completed`);
+    }
+    return { setToken: this.state.setToken, manager: this.state.manager };
+  }
+
+  private getFlashMint(stepId: string): { address: Address; issuanceModule?: Address } {
+    const flashMint = (this.plan.flashMints || []).find(
+      ({ address }) => `approveSetToken:${utils.getAddress(address)}` === stepId
+    );
+    if (!flashMint) throw new Error(`Unknown step: ${stepId}`);
+    return flashMint;
+  }
+
+  private loadState(): DeploymentPlanState {
+    const planHash = getDeploymentPlanHash(this.plan);
+    if (!fs.existsSync(this.statePath)) {
+      return { planHash, completedSteps: {} };
+    }
+
+    const state: DeploymentPlanState = JSON.parse(fs.readFileSync(this.statePath, "utf8"));
+    if (state.planHash !== planHash) {
+      throw new Error(`Deployment plan changed since ${this.statePath} was written, remove it to start over`);
+    }
+    return state;
+  }
+
+  private saveState(): void {
+    fs.mkdirSync(path.dirname(this.statePath), { recursive: true });
+    fs.writeFileSync(this.statePath, JSON.stringify(this.state, undefined, 2), "utf8");
+  }
+}
+
+// Whether the Safe the transaction was sent to emitted ExecutionFailure, topics only since Safe versions differ in
+// which event arguments are indexed
+const hasSafeExecutionFailure = (receipt: providers.TransactionReceipt): boolean => {
+  const failureTopic = SAFE_EXECUTION_EVENTS.getEventTopic("ExecutionFailure");
+  return receipt.logs.some(log => {
+    return log.address.toLowerCase() === receipt.to.toLowerCase() && log.topics[0] === failureTopic;
+  });
+};
@@ -13,6 +13,23 @@ import DeployHooks from "./deployHooks";
 import DeployStaking from "./deployStaking";
 import DeployViewers from "./deployViewers";
 import DeployKeepers from "./deployKeepers";
+import { DeploymentManifest } from "./deploymentManifest";
+
+export {
+  AddressBook,
+  DeployedContractName,
+  DeploymentManifest,
+  getManifestPath,
+  loadAddressBook
+} from "./deploymentManifest";
+
+export {
+  DeploymentPlanRunner,
+  encodeExtensionInitializer,
+  getDeploymentPlanSteps,
+  loadDeploymentPlan,
+  validateDeploymentPlan
+} from "./deploymentPlan";
 
 export default class DeployHelper {
   public token: DeployToken;
@@ -29,19 +46,22 @@ export default class DeployHelper {
   public viewers: DeployViewers;
   public keepers: DeployKeepers;
 
-  constructor(deployerSigner: Signer) {
-    this.token = new DeployToken(deployerSigner);
-    this.setV2 = new DeploySetV2(deployerSigner);
-    this.manager = new DeployManager(deployerSigner);
-    this.mocks = new DeployMocks(deployerSigner);
-    this.extensions = new DeployExtensions(deployerSigner);
-    this.external = new DeployExternalContracts(deployerSigner);
-    this.hooks = new DeployHooks(deployerSigner);
-    this.staking = new DeployStaking(deployerSigner);
-    this.viewers = new DeployViewers(deployerSigner);
-    this.keepers = new DeployKeepers(deployerSigner);
-    this.managerCore = new DeployManagerCore(deployerSigner);
-    this.globalExtensions = new DeployGlobalExtensions(deployerSigner);
-    this.factories = new DeployFactories(deployerSigner);
+  // Deploys made through a helper constructed with a manifest are recorded to it
+  constructor(deployerSigner: Signer, manifest?: DeploymentManifest) {
+    const track = <T extends object>(deployer: T): T => manifest ? manifest.track(deployer) : deployer;
+
+    this.token = track(new DeployToken(deployerSigner));
+    this.setV2 = track(new DeploySetV2(deployerSigner));
+    this.manager = track(new DeployManager(deployerSigner));
+    this.mocks = track(new DeployMocks(deployerSigner));
+    this.extensions = track(new DeployExtensions(deployerSigner));
+    this.external = track(new DeployExternalContracts(deployerSigner));
+    this.hooks = track(new DeployHooks(deployerSigner));
+    this.staking = track(new DeployStaking(deployerSigner));
+    this.viewers = track(new DeployViewers(deployerSigner));
+    this.keepers = track(new DeployKeepers(deployerSigner));
+    this.managerCore = track(new DeployManagerCore(deployerSigner));
+    this.globalExtensions = track(new DeployGlobalExtensions(deployerSigner));
+    this.factories = track(new DeployFactories(deployerSigner));
   }
 }
@@ -0,0 +1,207 @@
+import { BigNumber } from "@ethersproject/bignumber";
+
+import { getStreamingFeeInflationAmount } from "../common/feeModuleUtils";
+import { preciseMul } from "../common/mathUtils";
+import { ONE_YEAR_IN_SECONDS, ZERO } from "../constants";
+
+export type FeeSplitExtensionType =
+  "FeeSplitExtension" |
+  "StreamingFeeSplitExtension" |
+  "PrtFeeSplitExtension" |
+  "GlobalStreamingFeeSplitExtension" |
+  "GlobalIssuanceExtension";
+
+export type FeeRecipientRole = "operator" | "owner" | "methodologist" | "prtStakingPool";
+
+export type FeeSplitTakes = { [role in FeeRecipientRole]?: BigNumber };
+
+// Recipient of the split (operatorFeeSplit or DelegatedManager.ownerFeeSplit) and of the remainder of each extension
+export const FEE_SPLIT_RECIPIENTS: { [extension in FeeSplitExtensionType]: [FeeRecipientRole, FeeRecipientRole] } = {
+  FeeSplitExtension: ["operator", "methodologist"],
+  StreamingFeeSplitExtension: ["operator", "methodologist"],
+  PrtFeeSplitExtension: ["operator", "prtStakingPool"],
+  GlobalStreamingFeeSplitExtension: ["owner", "methodologist"],
+  GlobalIssuanceExtension: ["owner", "methodologist"],
+};
+
+export interface FeeSplitConfig {
+  extension: FeeSplitExtensionType;
+  feeSplit: BigNumber;            // Share of the first recipient in precise units (1% = 10^16)
+  streamingFees?: boolean;        // Whether the extension is the StreamingFeeModule fee recipient, defaults to true
+  issuanceFees?: boolean;         // Whether the extension is the DebtIssuanceModule fee recipient, defaults to true
+}
+
+export interface FeeProjectionPeriod {
+  timestamp: number;              // End of the period, when streaming fees are accrued and distributed
+  accrueStreamingFee?: boolean;   // False for a period ending without an accrual, e.g. the end of a report range
+  totalSupply?: BigNumber;        // Supply at the accrual, defaults to the supply carried over from the previous period
+  nav?: BigNumber;                // Value of one SetToken in the quote asset at the accrual, in precise units
+  issued?: BigNumber;             // SetTokens issued during the period, excluding fees
+  redeemed?: BigNumber;           // SetTokens redeemed during the period
+}
+
+export interface FeeProjectionParams {
+  startTimestamp: number;                   // lastStreamingFeeTimestamp of the StreamingFeeModule fee state
+  totalSupply: BigNumber;                   // Supply at startTimestamp
+  streamingFeePercentage: BigNumber;
+  protocolStreamingFeeSplit?: BigNumber;    // Controller module fee of the StreamingFeeModule
+  issueFee?: BigNumber;                     // managerIssueFee of the DebtIssuanceModule issuance settings
+  redeemFee?: BigNumber;                    // managerRedeemFee of the DebtIssuanceModule issuance settings
+  protocolIssuanceFeeSplit?: BigNumber;     // Controller module fee of the DebtIssuanceModule
+  split?: FeeSplitConfig;
+  periods: FeeProjectionPeriod[];
+}
+
+export interface AccruedFee {
+  managerFee: BigNumber;
+  protocolFee: BigNumber;
+}
+
+export interface FeeTotals {
+  streamingFee: AccruedFee;
+  issueFee: AccruedFee;
+  redeemFee: AccruedFee;
+  split: FeeSplitTakes;
+  managerFeeValue?: BigNumber;    // Only set when every period has a NAV
+}
+
+export interface FeeProjectionPeriodResult extends FeeTotals {
+  timestamp: number;
+  totalSupply: BigNumber;         // Supply after the period's issues, redeems and streaming fee
+}
+
+export interface FeeProjection {
+  periods: FeeProjectionPeriodResult[];
+  totals: FeeTotals;
+}
+
+/**
+ * Projects the fees a SetToken accrues over a series of periods, with the rounding of the StreamingFeeModule,
+ * DebtIssuanceModule and fee split extensions. Streaming fees are accrued and distributed at the end of each period,
+ * which matches accrueFeesAndDistribute being called at every period end. Issue and redeem volume is applied before
+ * the accrual and changes the supply by the quantity plus the minted fees.
+ *
+ * @param params      Fee settings, starting state and the periods to project
+ * @return            Fees accrued per period and over all periods, in SetTokens
+ */
+export const projectFees = (params: FeeProjectionParams): FeeProjection => {
+  let previousTimestamp = params.startTimestamp;
+  let totalSupply = params.totalSupply;
+
+  const periods: FeeProjectionPeriodResult[] = [];
+  for (const period of params.periods) {
+    if (period.timestamp < previousTimestamp) {
+      throw new Error(`Period ending at ${period.timestamp} ends before the previous accrual at ${previousTimestamp}`);
+    }
+
+    const issueFee = calculateIssuanceFee(period.issued || ZERO, params.issueFee, params.protocolIssuanceFeeSplit);
+    const redeemFee = calculateIssuanceFee(period.redeemed || ZERO, params.redeemFee, params.protocolIssuanceFeeSplit);
+    const supplyAtAccrual = period.totalSupply || totalSupply
+      .add(period.issued || ZERO)
+      .sub(period.redeemed || ZERO)
+      .add(getMintedFee(issueFee))
+      .add(getMintedFee(redeemFee));
+
+    const accrues = period.accrueStreamingFee !== false;
+    const streamingFee = calculateStreamingFee(
+      supplyAtAccrual,
+      accrues ? period.timestamp - previousTimestamp : 0,
+      params.streamingFeePercentage,
+      params.protocolStreamingFeeSplit
+    );
+
+    const managerFees = getSplitManagerFees(params.split, streamingFee, issueFee, redeemFee);
+    periods.push({
+      timestamp: period.timestamp,
+      totalSupply: supplyAtAccrual.add(streamingFee.managerFee).add(streamingFee.protocolFee),
+      streamingFee,
+      issueFee,
+      redeemFee,
+      split: params.split ? calculateFeeSplit(managerFees, params.split) : {},
+      managerFeeValue: period.nav ? preciseMul(getManagerFees(streamingFee, issueFee, redeemFee), period.nav) : undefined,
+    });
+
+    if (accrues) previousTimestamp = period.timestamp;
+    totalSupply = periods[periods.length - 1].totalSupply;
+  }
+
+  return { periods, totals: sumFeeTotals(periods) };
+};
+
+/**
+ * Splits manager fees held by a fee split extension as its accrueFeesAndDistribute or distributeFees does: the first
+ * recipient takes preciseMul(fees, feeSplit) and the second recipient the remainder.
+ */
+export const calculateFeeSplit = (managerFees: BigNumber, split: FeeSplitConfig): FeeSplitTakes => {
+  const [splitRecipient, remainderRecipient] = FEE_SPLIT_RECIPIENTS[split.extension];
+  const splitTake = preciseMul(managerFees, split.feeSplit);
+
+  return {
+    [splitRecipient]: splitTake,
+    [remainderRecipient]: managerFees.sub(splitTake),
+  };
+};
+
+export const sumFeeTotals = (totals: FeeTotals[]): FeeTotals => {
+  const sum: FeeTotals = {
+    streamingFee: { managerFee: ZERO, protocolFee: ZERO },
+    issueFee: { managerFee: ZERO, protocolFee: ZERO },
+    redeemFee: { managerFee: ZERO, protocolFee: ZERO },
+    split: {},
+    managerFeeValue: totals.length > 0 && totals.every(total => total.managerFeeValue) ? ZERO : undefined,
+  };
+
+  for (const total of totals) {
+    sum.streamingFee = addAccruedFees(sum.streamingFee, total.streamingFee);
+    sum.issueFee = addAccruedFees(sum.issueFee, total.issueFee);
+    sum.redeemFee = addAccruedFees(sum.redeemFee, total.redeemFee);
+    (Object.keys(total.split) as FeeRecipientRole[]).forEach(role => {
+      sum.split[role] = (sum.split[role] || ZERO).add(total.split[role]!);
+    });
+    if (sum.managerFeeValue) sum.managerFeeValue = sum.managerFeeValue.add(total.managerFeeValue!);
+  }
+
+  return sum;
+};
+
+export const getManagerFees = (...fees: AccruedFee[]): BigNumber => {
+  return fees.reduce((sum, fee) => sum.add(fee.managerFee), ZERO);
+};
+
+const calculateStreamingFee = (
+  totalSupply: BigNumber,
+  timeElapsed: number,
+  streamingFeePercentage: BigNumber,
+  protocolFeeSplit: BigNumber = ZERO
+): AccruedFee => {
+  const inflationPercent = BigNumber.from(timeElapsed).mul(streamingFeePercentage).div(ONE_YEAR_IN_SECONDS);
+  const feeQuantity = getStreamingFeeInflationAmount(inflationPercent, totalSupply);
+  const protocolFee = preciseMul(feeQuantity, protocolFeeSplit);
+
+  return { managerFee: feeQuantity.sub(protocolFee), protocolFee };
+};
+
+const calculateIssuanceFee = (quantity: BigNumber, feeRate: BigNumber = ZERO, protocolFeeSplit: BigNumber = ZERO): AccruedFee => {
+  const totalFee = preciseMul(feeRate, quantity);
+  const protocolFee = preciseMul(totalFee, protocolFeeSplit);
+
+  return { managerFee: totalFee.sub(protocolFee), protocolFee };
+};
+
+// The DebtIssuanceModule only mints the protocol fee alongside a non-zero manager fee
+const getMintedFee = (fee: AccruedFee): BigNumber => {
+  return fee.managerFee.gt(0) ? fee.managerFee.add(fee.protocolFee) : ZERO;
+};
+
+const getSplitManagerFees = (split: FeeSplitConfig | undefined, streamingFee: AccruedFee, ...issuanceFees: AccruedFee[]): BigNumber => {
+  if (!split) return ZERO;
+
+  const splitStreamingFees = split.streamingFees === false ? ZERO : streamingFee.managerFee;
+  const splitIssuanceFees = split.issuanceFees === false ? ZERO : getManagerFees(...issuanceFees);
+  return splitStreamingFees.add(splitIssuanceFees);
+};
+
+const addAccruedFees = (a: AccruedFee, b: AccruedFee): AccruedFee => ({
+  managerFee: a.managerFee.add(b.managerFee),
+  protocolFee: a.protocolFee.add(b.protocolFee),
+});
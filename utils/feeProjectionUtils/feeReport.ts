@@ -0,0 +1,225 @@
+import { JsonRpcProvider, Log, Web3Provider } from "@ethersproject/providers";
+import { BigNumber, utils } from "ethers";
+
+import { ADDRESS_ZERO, ZERO } from "../constants";
+import { IssuanceEvent, SetTokenEventIndexer } from "../setTokenEventUtils";
+import { Address } from "../types";
+import { FeeSplitTakes, FeeTotals, sumFeeTotals } from "./feeProjection";
+
+export interface RealizedFeesQuery {
+  setToken: Address;
+  fromBlock: number;
+  toBlock?: number;                 // Defaults to the latest block
+  streamingFeeModule?: Address;     // FeeActualized events are skipped when unset
+  issuanceModules?: Address[];      // Defaults to issue and redeem events of any emitter
+  extensions?: Address[];           // Fee split extensions whose distributions are reported
+  blockChunkSize?: number;          // Blocks per eth_getLogs request, defaults to 2000
+}
+
+export interface StreamingFeeAccrual {
+  blockNumber: number;
+  transactionIndex: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+  managerFee: BigNumber;
+  protocolFee: BigNumber;
+}
+
+export interface FeeDistribution {
+  extension: Address;
+  blockNumber: number;
+  transactionHash: string;
+  takes: FeeSplitTakes;
+}
+
+export interface RealizedFees extends FeeTotals {
+  setToken: Address;
+  fromBlock: number;
+  toBlock: number;
+  accruals: StreamingFeeAccrual[];
+  issuances: IssuanceEvent[];
+  distributions: FeeDistribution[];
+}
+
+const DEFAULT_BLOCK_CHUNK_SIZE = 2000;
+
+const FEE_EVENTS_ABI = [
+  "event FeeActualized(address indexed _setToken, uint256 _managerFee, uint256 _protocolFee)",
+  // FeeSplitExtension and StreamingFeeSplitExtension
+  "event FeesDistributed(address indexed _operatorFeeRecipient, address indexed _methodologist, uint256 _operatorTake, uint256 _methodologistTake)",
+  // GlobalStreamingFeeSplitExtension and GlobalIssuanceExtension
+  "event FeesDistributed(address _setToken, address indexed _ownerFeeRecipient, address indexed _methodologist, uint256 _ownerTake, uint256 _methodologistTake)",
+  "event PrtFeesDistributed(address indexed operatorFeeRecipient, address indexed prtStakingPool, uint256 operatorTake, uint256 prtTake)",
+];
+
+const SET_TOKEN_SUPPLY_ABI = [
+  "function totalSupply() view returns (uint256)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+];
+
+const feeEventsInterface = new utils.Interface(FEE_EVENTS_ABI);
+
+/**
+ * Collects the fees a SetToken realized over a block range: streaming fees from FeeActualized events, issue and
+ * redeem fees from issuance module events and the operator, owner, methodologist and PRT staking pool takes from
+ * the distribution events of its fee split extensions.
+ *
+ * @param provider    Provider to read events from
+ * @param query       SetToken, block range and the contracts emitting its fee events
+ * @return            Realized fees per event and in total, in SetTokens
+ */
+export const getRealizedFees = async (
+  provider: Web3Provider | JsonRpcProvider,
+  query: RealizedFeesQuery
+): Promise<RealizedFees> => {
+  const toBlock = query.toBlock === undefined ? await provider.getBlockNumber() : query.toBlock;
+  const setToken = utils.getAddress(query.setToken);
+  const chunkSize = query.blockChunkSize || DEFAULT_BLOCK_CHUNK_SIZE;
+
+  const accruals: StreamingFeeAccrual[] = [];
+  if (query.streamingFeeModule) {
+    const topics = [feeEventsInterface.getEventTopic("FeeActualized"), utils.hexZeroPad(setToken, 32)];
+    for (const log of await getLogs(provider, query.streamingFeeModule, topics, query.fromBlock, toBlock, chunkSize)) {
+      const { args } = feeEventsInterface.parseLog(log);
+      accruals.push({
+        blockNumber: log.blockNumber,
+        transactionIndex: log.transactionIndex,
+        logIndex: log.logIndex,
+        transactionHash: log.transactionHash,
+        timestamp: (await provider.getBlock(log.blockNumber)).timestamp,
+        managerFee: args._managerFee,
+        protocolFee: args._protocolFee,
+      });
+    }
+  }
+
+  const issuances = (await new SetTokenEventIndexer(provider).getEvents({
+    fromBlock: query.fromBlock,
+    toBlock,
+    addresses: query.issuanceModules,
+    setTokens: [setToken],
+    types: ["SetTokenIssued", "SetTokenRedeemed"],
+    blockChunkSize: chunkSize,
+  })) as IssuanceEvent[];
+
+  const distributions: FeeDistribution[] = [];
+  for (const extension of query.extensions || []) {
+    for (const log of await getLogs(provider, extension, [], query.fromBlock, toBlock, chunkSize)) {
+      const distribution = decodeFeeDistribution(log, setToken);
+      if (distribution) distributions.push(distribution);
+    }
+  }
+
+  const totals = sumFeeTotals([
+    ...accruals.map(accrual => ({
+      ...emptyFeeTotals(),
+      streamingFee: { managerFee: accrual.managerFee, protocolFee: accrual.protocolFee },
+    })),
+    ...issuances.map(issuance => {
+      const fee = { managerFee: issuance.managerFee || ZERO, protocolFee: issuance.protocolFee || ZERO };
+      return issuance.type === "SetTokenIssued" ? { ...emptyFeeTotals(), issueFee: fee } : { ...emptyFeeTotals(), redeemFee: fee };
+    }),
+    ...distributions.map(distribution => ({ ...emptyFeeTotals(), split: distribution.takes })),
+  ]);
+
+  return {
+    ...totals,
+    setToken,
+    fromBlock: query.fromBlock,
+    toBlock,
+    accruals,
+    issuances,
+    distributions,
+  };
+};
+
+/**
+ * Total supply of a SetToken right before a streaming fee accrual, the supply the accrued fee is computed from. Reads
+ * the supply at the end of the previous block and applies the mints and burns logged before the accrual in its block,
+ * including earlier logs of the accrual's own transaction, except the fee mints of the accrual itself.
+ *
+ * @param provider    Provider to read the supply and Transfer events from
+ * @param setToken    Address of the SetToken
+ * @param accrual     Accrual returned by getRealizedFees
+ * @return            Total supply the accrual's transaction started from
+ */
+export const getTotalSupplyBeforeAccrual = async (
+  provider: Web3Provider | JsonRpcProvider,
+  setToken: Address,
+  accrual: StreamingFeeAccrual
+): Promise<BigNumber> => {
+  const supplyInterface = new utils.Interface(SET_TOKEN_SUPPLY_ABI);
+  const supply = supplyInterface.decodeFunctionResult("totalSupply", await provider.call(
+    { to: setToken, data: supplyInterface.encodeFunctionData("totalSupply") },
+    accrual.blockNumber - 1
+  ))[0] as BigNumber;
+
+  const transfers = await provider.getLogs({
+    address: setToken,
+    topics: [supplyInterface.getEventTopic("Transfer")],
+    fromBlock: accrual.blockNumber,
+    toBlock: accrual.blockNumber,
+  });
+
+  // The accrual's manager and protocol fee mints are logged right before its FeeActualized event
+  return transfers
+    .filter(log => log.transactionIndex < accrual.transactionIndex ||
+      (log.transactionIndex === accrual.transactionIndex && log.logIndex < accrual.logIndex))
+    .map(log => supplyInterface.parseLog(log).args)
+    .reduce((total, { from, to, value }) => {
+      if (from === ADDRESS_ZERO) return total.add(value);
+      if (to === ADDRESS_ZERO) return total.sub(value);
+      return total;
+    }, supply)
+    .sub(accrual.managerFee)
+    .sub(accrual.protocolFee);
+};
+
+// Takes of a fee split extension distribution event. Global extensions serve many SetTokens, their events are
+// matched on the emitted SetToken
+const decodeFeeDistribution = (log: Log, setToken: Address): FeeDistribution | undefined => {
+  let event: utils.LogDescription;
+  try {
+    event = feeEventsInterface.parseLog(log);
+  } catch (error) {
+    return undefined;
+  }
+
+  const base = { extension: utils.getAddress(log.address), blockNumber: log.blockNumber, transactionHash: log.transactionHash };
+  switch (event.name) {
+    case "PrtFeesDistributed":
+      return { ...base, takes: { operator: event.args.operatorTake, prtStakingPool: event.args.prtTake } };
+    case "FeesDistributed":
+      if (event.args._setToken === undefined) {
+        return { ...base, takes: { operator: event.args._operatorTake, methodologist: event.args._methodologistTake } };
+      }
+      if (utils.getAddress(event.args._setToken) !== setToken) return undefined;
+      return { ...base, takes: { owner: event.args._ownerTake, methodologist: event.args._methodologistTake } };
+    default:
+      return undefined;
+  }
+};
+
+const emptyFeeTotals = (): FeeTotals => ({
+  streamingFee: { managerFee: ZERO, protocolFee: ZERO },
+  issueFee: { managerFee: ZERO, protocolFee: ZERO },
+  redeemFee: { managerFee: ZERO, protocolFee: ZERO },
+  split: {},
+});
+
+const getLogs = async (
+  provider: Web3Provider | JsonRpcProvider,
+  address: Address,
+  topics: string[],
+  fromBlock: number,
+  toBlock: number,
+  chunkSize: number
+): Promise<Log[]> => {
+  const logs: Log[] = [];
+  for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+    const end = Math.min(start + chunkSize - 1, toBlock);
+    logs.push(...await provider.getLogs({ address, topics, fromBlock: start, toBlock: end }));
+  }
+  return logs;
+};
@@ -0,0 +1,25 @@
+export {
+  AccruedFee,
+  calculateFeeSplit,
+  FEE_SPLIT_RECIPIENTS,
+  FeeProjection,
+  FeeProjectionParams,
+  FeeProjectionPeriod,
+  FeeProjectionPeriodResult,
+  FeeRecipientRole,
+  FeeSplitConfig,
+  FeeSplitExtensionType,
+  FeeSplitTakes,
+  FeeTotals,
+  getManagerFees,
+  projectFees,
+  sumFeeTotals,
+} from "./feeProjection";
+export {
+  FeeDistribution,
+  getRealizedFees,
+  getTotalSupplyBeforeAccrual,
+  RealizedFees,
+  RealizedFeesQuery,
+  StreamingFeeAccrual,
+} from "./feeReport";
@@ -1,5 +1,6 @@
 export { AaveV2Fixture } from "./aaveV2Fixture";
 export { CompoundFixture } from "./compoundFixture";
 export { SetFixture } from "./setFixture";
+export { UmaFixture } from "./umaFixture";
 export { UniswapFixture } from "./uniswapFixture";
 export { UniswapV3Fixture } from "./uniswapV3Fixture";
\ No newline at end of file
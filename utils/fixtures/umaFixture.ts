@@ -0,0 +1,85 @@
+import { JsonRpcProvider, Web3Provider } from "@ethersproject/providers";
+import { BigNumber, BigNumberish } from "@ethersproject/bignumber";
+import { ContractTransaction, Signer } from "ethers";
+
+import { OptimisticOracleV3Simulator } from "../contracts/index";
+import DeployHelper from "../deploys";
+import { ether } from "../common";
+import { Account, Address } from "../types";
+import { ONE_HOUR_IN_SECONDS, ZERO } from "../constants";
+
+import { IERC20__factory } from "../../typechain/factories/IERC20__factory";
+
+/**
+ * Drives OptimisticOracleV3Simulator through the UMA assertion lifecycle so extensions asserting through it
+ * (e.g. GlobalOptimisticAuctionRebalanceExtension) can be tested across bonds, liveness, disputes and settlement.
+ */
+export class UmaFixture {
+  private _provider: Web3Provider | JsonRpcProvider;
+  private _ownerSigner: Signer;
+  private _deployer: DeployHelper;
+
+  public optimisticOracleV3: OptimisticOracleV3Simulator;
+
+  constructor(provider: Web3Provider | JsonRpcProvider, ownerAddress: Address) {
+    this._provider = provider;
+    this._ownerSigner = provider.getSigner(ownerAddress);
+    this._deployer = new DeployHelper(this._ownerSigner);
+  }
+
+  public async initialize(
+    defaultCurrency: Address,
+    defaultLiveness: BigNumberish = ONE_HOUR_IN_SECONDS.mul(2),
+    burnedBondPercentage: BigNumberish = ether(0.5),
+    finalFee: BigNumberish = ZERO
+  ): Promise<void> {
+    this.optimisticOracleV3 = await this._deployer.mocks.deployOptimisticOracleV3Simulator(
+      defaultCurrency,
+      defaultLiveness,
+      burnedBondPercentage
+    );
+
+    await this.optimisticOracleV3.setFinalFee(defaultCurrency, finalFee);
+  }
+
+  // Id of the assertion made in a transaction, e.g. the return value of proposeRebalance
+  public async getAssertionId(tx: ContractTransaction): Promise<string> {
+    const receipt = await tx.wait();
+    const assertionMade = receipt.logs
+      .filter(log => log.address.toLowerCase() === this.optimisticOracleV3.address.toLowerCase())
+      .map(log => this.optimisticOracleV3.interface.parseLog(log))
+      .find(log => log.name === "AssertionMade");
+
+    if (!assertionMade) throw new Error(`No assertion made in ${tx.hash}`);
+    return assertionMade.args.assertionId;
+  }
+
+  // Approves the assertion bond from the disputer and disputes the assertion
+  public async disputeAssertion(assertionId: string, disputer: Account): Promise<ContractTransaction> {
+    const assertion = await this.optimisticOracleV3.getAssertion(assertionId);
+    await IERC20__factory.connect(assertion.currency, disputer.wallet).approve(this.optimisticOracleV3.address, assertion.bond);
+
+    return await this.optimisticOracleV3.connect(disputer.wallet).disputeAssertion(assertionId, disputer.address);
+  }
+
+  // Stands in for the DVM vote, the disputed assertion can be settled afterwards
+  public async resolveDispute(assertionId: string, assertedTruthfully: boolean): Promise<ContractTransaction> {
+    return await this.optimisticOracleV3.resolveDispute(assertionId, assertedTruthfully);
+  }
+
+  // Moves block time to the end of the assertion's liveness so it can be settled
+  public async expireLiveness(assertionId: string): Promise<void> {
+    const { expirationTime } = await this.optimisticOracleV3.getAssertion(assertionId);
+    const { timestamp } = await this._provider.getBlock("latest");
+    const remaining = BigNumber.from(expirationTime).sub(timestamp);
+
+    if (remaining.gt(0)) {
+      await this._provider.send("evm_increaseTime", [remaining.toNumber()]);
+    }
+    await this._provider.send("evm_mine", []);
+  }
+
+  public async settleAssertion(assertionId: string): Promise<ContractTransaction> {
+    return await this.optimisticOracleV3.settleAssertion(assertionId);
+  }
+}
@@ -5,3 +5,10 @@ export {
   calculateMaxBorrowForDeleverV3,
   calculateMaxRedeemForDeleverToZero
 } from "./flexibleLeverage";
+export {
+  LeverageSimulationParams,
+  LeverageSimulationPrice,
+  LeverageSimulationState,
+  LeverageSimulationStep,
+  simulateLeverageRebalances
+} from "./rebalanceSimulator";
@@ -0,0 +1,349 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { ether, min, preciseDiv, preciseMul } from "../common";
+import { ZERO } from "../constants";
+import {
+  ExecutionSettings,
+  IncentiveSettings,
+  MethodologySettings,
+  ShouldRebalance,
+} from "../types";
+import { calculateNewLeverageRatio } from "./flexibleLeverage";
+
+// Scale of the Morpho oracle price, MorphoLeverageStrategyExtension.MORPHO_ORACLE_PRICE_SCALE
+const MORPHO_ORACLE_PRICE_SCALE = BigNumber.from(10).pow(36);
+
+export interface LeverageSimulationParams {
+  methodology: MethodologySettings;
+  execution: ExecutionSettings;
+  incentive: IncentiveSettings;
+  twapMaxTradeSize: BigNumber;              // Max trade size in collateral units for rebalance / iterateRebalance
+  incentivizedTwapMaxTradeSize: BigNumber;  // Max trade size in collateral units for ripcord
+  protocol: "aaveV3" | "morpho" | "compound";
+  maxLtv: BigNumber;                        // Precise units. Used for lever on AaveV3, collateral factor on Compound, ignored on Morpho
+  liquidationThreshold: BigNumber;          // Precise units. Used for delever on AaveV3, LLTV on Morpho, ignored on Compound
+  tradeSlippage?: BigNumber;                // Realized slippage against oracle prices for every trade
+}
+
+export interface LeverageSimulationState {
+  collateralBalance: BigNumber;
+  borrowBalance: BigNumber;
+  totalSupply: BigNumber;
+  twapLeverageRatio: BigNumber;
+  globalLastTradeTimestamp: BigNumber;
+  exchangeLastTradeTimestamp: BigNumber;
+}
+
+// Prices are per base unit of the asset and already adjusted for decimals, like ActionInfo prices. On Morpho the
+// collateral price is the Morpho oracle price (collateral in borrow asset base units, scaled by 1e36) and the borrow
+// price is ignored, values are then measured in borrow asset base units.
+export interface LeverageSimulationPrice {
+  timestamp: BigNumber;
+  collateralPrice: BigNumber;
+  borrowPrice: BigNumber;
+}
+
+export interface LeverageSimulationStep {
+  timestamp: BigNumber;
+  action: ShouldRebalance;
+  leverageRatioBefore: BigNumber;
+  leverageRatio: BigNumber;
+  chunkRebalanceNotional: BigNumber;
+  totalRebalanceNotional: BigNumber;
+  collateralBalance: BigNumber;
+  borrowBalance: BigNumber;
+  nav: BigNumber;
+  navPerToken: BigNumber;
+  etherReward: BigNumber;
+}
+
+/**
+ * Replays the keeper flow of the leverage strategy extensions over a price series: AaveV3LeverageStrategyExtension
+ * ("aaveV3"), MorphoLeverageStrategyExtension ("morpho") and FlexibleLeverageStrategyExtension ("compound"). At every
+ * price point the action returned by shouldRebalance is executed (rebalance, iterateRebalance or ripcord) using the
+ * same chunking, TWAP and cooldown rules as the contracts, with a single enabled exchange. Trades fill at oracle price
+ * minus `tradeSlippage`.
+ *
+ * @param _params           Strategy settings and lending protocol parameters
+ * @param _initialState     Strategy state before the first price point. The strategy must already be engaged.
+ * @param _prices           Price series ordered by timestamp
+ * @return                  One step per price point with the state after the executed action
+ */
+export function simulateLeverageRebalances(
+  _params: LeverageSimulationParams,
+  _initialState: LeverageSimulationState,
+  _prices: LeverageSimulationPrice[]
+): LeverageSimulationStep[] {
+  const state = { ..._initialState };
+  const steps: LeverageSimulationStep[] = [];
+
+  for (const price of _prices) {
+    const leverageRatioBefore = calculateLeverageRatio(_params, state, price);
+    const action = getShouldRebalance(_params, state, price, leverageRatioBefore);
+
+    let chunkRebalanceNotional = ZERO;
+    let totalRebalanceNotional = ZERO;
+    let etherReward = ZERO;
+
+    if (action === ShouldRebalance.RIPCORD) {
+      [chunkRebalanceNotional, totalRebalanceNotional] = calculateChunkRebalanceNotional(
+        _params,
+        state,
+        price,
+        leverageRatioBefore,
+        _params.methodology.maxLeverageRatio,
+        _params.incentivizedTwapMaxTradeSize
+      );
+      executeTrade(_params, state, price, chunkRebalanceNotional, false);
+      updateLastTradeTimestamp(state, price.timestamp);
+      state.twapLeverageRatio = ZERO;
+      etherReward = _params.incentive.etherReward;
+    } else if (action === ShouldRebalance.REBALANCE) {
+      const newLeverageRatio = calculateNewLeverageRatio(
+        leverageRatioBefore,
+        _params.methodology.targetLeverageRatio,
+        _params.methodology.minLeverageRatio,
+        _params.methodology.maxLeverageRatio,
+        _params.methodology.recenteringSpeed
+      );
+      [chunkRebalanceNotional, totalRebalanceNotional] = handleRebalance(
+        _params,
+        state,
+        price,
+        leverageRatioBefore,
+        newLeverageRatio
+      );
+      updateLastTradeTimestamp(state, price.timestamp);
+      if (chunkRebalanceNotional.lt(totalRebalanceNotional)) {
+        state.twapLeverageRatio = newLeverageRatio;
+      }
+    } else if (action === ShouldRebalance.ITERATE_REBALANCE) {
+      if (!isAdvantageousTWAP(_params, state, leverageRatioBefore)) {
+        [chunkRebalanceNotional, totalRebalanceNotional] = handleRebalance(
+          _params,
+          state,
+          price,
+          leverageRatioBefore,
+          state.twapLeverageRatio
+        );
+      }
+      updateLastTradeTimestamp(state, price.timestamp);
+      if (chunkRebalanceNotional.eq(totalRebalanceNotional)) {
+        state.twapLeverageRatio = ZERO;
+      }
+    }
+
+    const nav = calculateCollateralValue(_params, state, price).sub(calculateBorrowValue(_params, state, price));
+
+    steps.push({
+      timestamp: price.timestamp,
+      action,
+      leverageRatioBefore,
+      leverageRatio: calculateLeverageRatio(_params, state, price),
+      chunkRebalanceNotional,
+      totalRebalanceNotional,
+      collateralBalance: state.collateralBalance,
+      borrowBalance: state.borrowBalance,
+      nav,
+      navPerToken: preciseDiv(nav, state.totalSupply),
+      etherReward,
+    });
+  }
+
+  return steps;
+}
+
+function calculateCollateralValue(
+  params: LeverageSimulationParams,
+  state: LeverageSimulationState,
+  price: LeverageSimulationPrice
+): BigNumber {
+  return params.protocol === "morpho"
+    ? state.collateralBalance.mul(price.collateralPrice).div(MORPHO_ORACLE_PRICE_SCALE)
+    : preciseMul(state.collateralBalance, price.collateralPrice);
+}
+
+function calculateBorrowValue(
+  params: LeverageSimulationParams,
+  state: LeverageSimulationState,
+  price: LeverageSimulationPrice
+): BigNumber {
+  return params.protocol === "morpho" ? state.borrowBalance : preciseMul(state.borrowBalance, price.borrowPrice);
+}
+
+// Converts a borrow asset value back to collateral units
+function calculateCollateralAmount(
+  params: LeverageSimulationParams,
+  value: BigNumber,
+  price: LeverageSimulationPrice
+): BigNumber {
+  return params.protocol === "morpho"
+    ? value.mul(MORPHO_ORACLE_PRICE_SCALE).div(price.collateralPrice)
+    : preciseDiv(value, price.collateralPrice);
+}
+
+function calculateLeverageRatio(
+  params: LeverageSimulationParams,
+  state: LeverageSimulationState,
+  price: LeverageSimulationPrice
+): BigNumber {
+  const collateralValue = calculateCollateralValue(params, state, price);
+  const borrowValue = calculateBorrowValue(params, state, price);
+  return preciseDiv(collateralValue, collateralValue.sub(borrowValue));
+}
+
+function getShouldRebalance(
+  params: LeverageSimulationParams,
+  state: LeverageSimulationState,
+  price: LeverageSimulationPrice,
+  currentLeverageRatio: BigNumber
+): ShouldRebalance {
+  // Rebalances revert without an outstanding borrow, the strategy has to be engaged first
+  if (state.borrowBalance.eq(0) || state.totalSupply.eq(0)) {
+    return ShouldRebalance.NONE;
+  }
+
+  const { methodology, execution, incentive } = params;
+  if (currentLeverageRatio.gte(incentive.incentivizedLeverageRatio)) {
+    if (state.exchangeLastTradeTimestamp.add(incentive.incentivizedTwapCooldownPeriod).lt(price.timestamp)) {
+      return ShouldRebalance.RIPCORD;
+    }
+  } else if (state.twapLeverageRatio.gt(0)) {
+    if (state.exchangeLastTradeTimestamp.add(execution.twapCooldownPeriod).lt(price.timestamp)) {
+      return ShouldRebalance.ITERATE_REBALANCE;
+    }
+  } else if (
+    price.timestamp.sub(state.globalLastTradeTimestamp).gt(methodology.rebalanceInterval)
+    || currentLeverageRatio.gt(methodology.maxLeverageRatio)
+    || currentLeverageRatio.lt(methodology.minLeverageRatio)
+  ) {
+    return ShouldRebalance.REBALANCE;
+  }
+
+  return ShouldRebalance.NONE;
+}
+
+function isAdvantageousTWAP(
+  params: LeverageSimulationParams,
+  state: LeverageSimulationState,
+  currentLeverageRatio: BigNumber
+): boolean {
+  const { targetLeverageRatio } = params.methodology;
+  return (
+    (state.twapLeverageRatio.lt(targetLeverageRatio) && currentLeverageRatio.gte(state.twapLeverageRatio))
+    || (state.twapLeverageRatio.gt(targetLeverageRatio) && currentLeverageRatio.lte(state.twapLeverageRatio))
+  );
+}
+
+function handleRebalance(
+  params: LeverageSimulationParams,
+  state: LeverageSimulationState,
+  price: LeverageSimulationPrice,
+  currentLeverageRatio: BigNumber,
+  newLeverageRatio: BigNumber
+): [BigNumber, BigNumber] {
+  const isLever = newLeverageRatio.gte(currentLeverageRatio);
+  const [chunkRebalanceNotional, totalRebalanceNotional] = calculateChunkRebalanceNotional(
+    params,
+    state,
+    price,
+    currentLeverageRatio,
+    newLeverageRatio,
+    params.twapMaxTradeSize
+  );
+  executeTrade(params, state, price, chunkRebalanceNotional, isLever);
+
+  return [chunkRebalanceNotional, totalRebalanceNotional];
+}
+
+function calculateChunkRebalanceNotional(
+  params: LeverageSimulationParams,
+  state: LeverageSimulationState,
+  price: LeverageSimulationPrice,
+  currentLeverageRatio: BigNumber,
+  newLeverageRatio: BigNumber,
+  maxTradeSize: BigNumber
+): [BigNumber, BigNumber] {
+  const isLever = newLeverageRatio.gte(currentLeverageRatio);
+  const leverageRatioDifference = isLever
+    ? newLeverageRatio.sub(currentLeverageRatio)
+    : currentLeverageRatio.sub(newLeverageRatio);
+
+  // AaveV3LeverageStrategyExtension multiplies before dividing, the other extensions divide first
+  const totalRebalanceNotional = params.protocol === "aaveV3"
+    ? preciseDiv(preciseMul(leverageRatioDifference, state.collateralBalance), currentLeverageRatio)
+    : preciseMul(preciseDiv(leverageRatioDifference, currentLeverageRatio), state.collateralBalance);
+  const maxBorrow = calculateMaxBorrowCollateral(params, state, price, isLever);
+  const chunkRebalanceNotional = min(min(maxBorrow, totalRebalanceNotional), maxTradeSize);
+
+  return [chunkRebalanceNotional, totalRebalanceNotional];
+}
+
+// The contracts revert when the borrow already exceeds the limit, here the max borrow is floored at zero instead
+function calculateMaxBorrowCollateral(
+  params: LeverageSimulationParams,
+  state: LeverageSimulationState,
+  price: LeverageSimulationPrice,
+  isLever: boolean
+): BigNumber {
+  const { execution } = params;
+  const collateralValue = calculateCollateralValue(params, state, price);
+  const borrowValue = calculateBorrowValue(params, state, price);
+
+  if (params.protocol === "compound") {
+    // Lever and delever are both bounded by the collateral factor net of the unutilized leverage percentage
+    const netBorrowLimit = preciseMul(
+      preciseMul(collateralValue, params.maxLtv),
+      ether(1).sub(execution.unutilizedLeveragePercentage)
+    );
+    if (netBorrowLimit.lte(borrowValue)) return ZERO;
+
+    return isLever
+      ? preciseDiv(netBorrowLimit.sub(borrowValue), price.collateralPrice)
+      : preciseDiv(preciseMul(state.collateralBalance, netBorrowLimit.sub(borrowValue)), netBorrowLimit);
+  }
+
+  if (isLever) {
+    const ltv = params.protocol === "morpho" ? params.liquidationThreshold : params.maxLtv;
+    const netBorrowLimit = preciseMul(
+      preciseMul(collateralValue, ltv),
+      ether(1).sub(execution.unutilizedLeveragePercentage)
+    );
+    if (netBorrowLimit.lte(borrowValue)) return ZERO;
+
+    return calculateCollateralAmount(params, netBorrowLimit.sub(borrowValue), price);
+  }
+
+  const netRepayLimit = preciseMul(collateralValue, params.liquidationThreshold);
+  if (netRepayLimit.lte(borrowValue)) return ZERO;
+
+  const collateralBalance = params.protocol === "morpho"
+    ? preciseMul(state.collateralBalance, ether(1).sub(execution.unutilizedLeveragePercentageDelever))
+    : state.collateralBalance;
+  return preciseDiv(preciseMul(collateralBalance, netRepayLimit.sub(borrowValue)), netRepayLimit);
+}
+
+function executeTrade(
+  params: LeverageSimulationParams,
+  state: LeverageSimulationState,
+  price: LeverageSimulationPrice,
+  collateralNotional: BigNumber,
+  isLever: boolean
+): void {
+  const fillRate = ether(1).sub(params.tradeSlippage || ZERO);
+  const borrowNotional = params.protocol === "morpho"
+    ? collateralNotional.mul(price.collateralPrice).div(MORPHO_ORACLE_PRICE_SCALE)
+    : preciseDiv(preciseMul(collateralNotional, price.collateralPrice), price.borrowPrice);
+
+  if (isLever) {
+    state.borrowBalance = state.borrowBalance.add(borrowNotional);
+    state.collateralBalance = state.collateralBalance.add(preciseMul(collateralNotional, fillRate));
+  } else {
+    state.collateralBalance = state.collateralBalance.sub(collateralNotional);
+    state.borrowBalance = state.borrowBalance.sub(min(preciseMul(borrowNotional, fillRate), state.borrowBalance));
+  }
+}
+
+function updateLastTradeTimestamp(state: LeverageSimulationState, timestamp: BigNumber): void {
+  state.globalLastTradeTimestamp = timestamp;
+  state.exchangeLastTradeTimestamp = timestamp;
+}
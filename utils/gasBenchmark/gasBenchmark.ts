@@ -0,0 +1,122 @@
+import { JsonRpcProvider, Web3Provider } from "@ethersproject/providers";
+import { BigNumber, ContractReceipt, ContractTransaction } from "ethers";
+
+import { Blockchain } from "../common/blockchainUtils";
+
+export type GasBenchmarkMethod = "issue" | "redeem";
+
+export interface GasBenchmarkScenario {
+  contract: string;         // e.g. "FlashMintDexV5"
+  method: GasBenchmarkMethod;
+  setToken: string;         // Label of the SetToken, e.g. "DAI-WBTC"
+  inputToken: string;       // Token paid on issue or received on redeem, e.g. "ETH"
+  amount: BigNumber;        // SetToken amount, or input token amount for contracts issuing from an exact input
+}
+
+export interface GasMeasurement {
+  contract: string;
+  method: GasBenchmarkMethod;
+  setToken: string;
+  inputToken: string;
+  amount: string;
+  gasUsed?: number;         // Unset when the scenario reverted
+  error?: string;
+}
+
+export interface GasBenchmarkMatrix {
+  setTokens: string[];
+  inputTokens: string[];
+  amounts: BigNumber[];
+  methods?: GasBenchmarkMethod[];     // Defaults to issue and redeem
+}
+
+export interface GasBenchmarkSuite {
+  contract: string;
+  matrix: GasBenchmarkMatrix;
+  // Prepares the scenario (funding, approvals, issuing the SetTokens to redeem, ...) and sends the measured transaction
+  execute(scenario: GasBenchmarkScenario): Promise<ContractTransaction>;
+}
+
+export const getGasScenarioKey = (scenario: GasBenchmarkScenario | GasMeasurement): string => {
+  return [scenario.contract, scenario.method, scenario.setToken, scenario.inputToken, scenario.amount.toString()].join(":");
+};
+
+export const expandGasBenchmarkMatrix = (contract: string, matrix: GasBenchmarkMatrix): GasBenchmarkScenario[] => {
+  const scenarios: GasBenchmarkScenario[] = [];
+
+  for (const method of matrix.methods || ["issue", "redeem"] as GasBenchmarkMethod[]) {
+    for (const setToken of matrix.setTokens) {
+      for (const inputToken of matrix.inputTokens) {
+        for (const amount of matrix.amounts) {
+          scenarios.push({ contract, method, setToken, inputToken, amount });
+        }
+      }
+    }
+  }
+
+  return scenarios;
+};
+
+/**
+ * Collects gasUsed of FlashMint issue and redeem transactions. Scenario matrices are run through runSuite, which
+ * reverts the chain after every scenario so each one starts from the same fixture state; specs that already send
+ * the transaction can call record directly.
+ */
+export class GasBenchmarkRecorder {
+  public measurements: GasMeasurement[] = [];
+
+  public async record(
+    scenario: GasBenchmarkScenario,
+    tx: ContractTransaction | ContractReceipt
+  ): Promise<GasMeasurement> {
+    const receipt = "wait" in tx ? await tx.wait() : tx;
+    return this.addMeasurement({ ...toMeasurement(scenario), gasUsed: receipt.gasUsed.toNumber() });
+  }
+
+  public recordFailure(scenario: GasBenchmarkScenario, error: unknown): GasMeasurement {
+    const message = error instanceof Error ? error.message : String(error);
+    return this.addMeasurement({ ...toMeasurement(scenario), error: message });
+  }
+
+  public async runSuite(provider: Web3Provider | JsonRpcProvider, suite: GasBenchmarkSuite): Promise<GasMeasurement[]> {
+    const blockchain = new Blockchain(provider);
+    const measurements: GasMeasurement[] = [];
+
+    for (const scenario of expandGasBenchmarkMatrix(suite.contract, suite.matrix)) {
+      const snapshotId = await blockchain.saveSnapshotAsync();
+      try {
+        measurements.push(await this.record(scenario, await suite.execute(scenario)));
+      } catch (error) {
+        measurements.push(this.recordFailure(scenario, error));
+      } finally {
+        await blockchain.revertByIdAsync(snapshotId);
+      }
+    }
+
+    return measurements;
+  }
+
+  public getFailures(): GasMeasurement[] {
+    return this.measurements.filter(measurement => measurement.gasUsed === undefined);
+  }
+
+  // Later measurements of the same scenario replace earlier ones, e.g. when a spec runs a scenario in several tests
+  private addMeasurement(measurement: GasMeasurement): GasMeasurement {
+    const key = getGasScenarioKey(measurement);
+    this.measurements = this.measurements.filter(existing => getGasScenarioKey(existing) !== key).concat(measurement);
+    return measurement;
+  }
+}
+
+const toMeasurement = (scenario: GasBenchmarkScenario): GasMeasurement => {
+  return {
+    contract: scenario.contract,
+    method: scenario.method,
+    setToken: scenario.setToken,
+    inputToken: scenario.inputToken,
+    amount: scenario.amount.toString(),
+  };
+};
+
+// Shared by the benchmark spec and the FlashMint specs recording into it, see test/benchmarks/flashMintGas.spec.ts
+export const flashMintGasRecorder = new GasBenchmarkRecorder();
@@ -0,0 +1,119 @@
+import fs from "fs";
+import path from "path";
+
+import { GasMeasurement, getGasScenarioKey } from "./gasBenchmark";
+
+export interface GasReport {
+  measurements: GasMeasurement[];
+}
+
+export interface GasReportRow extends GasMeasurement {
+  baselineGasUsed?: number;
+  gasDiff?: number;
+  gasDiffPercentage?: number;
+  status: "unchanged" | "increased" | "decreased" | "new" | "removed" | "failed";
+}
+
+export interface GasReportOptions {
+  directory: string;                // Receives report.json and report.md
+  baselinePath: string;
+  updateBaseline?: boolean;         // Overwrite the baseline with this run's measurements
+  regressionThreshold?: number;     // Increase in percent flagged as a regression, defaults to 1
+}
+
+export const loadGasReport = (filePath: string): GasReport | undefined => {
+  if (!fs.existsSync(filePath)) return undefined;
+  return JSON.parse(fs.readFileSync(filePath, "utf8"));
+};
+
+export const compareGasReports = (current: GasReport, baseline: GasReport | undefined): GasReportRow[] => {
+  const baselineByKey: { [key: string]: GasMeasurement } = {};
+  (baseline ? baseline.measurements : []).forEach(measurement => baselineByKey[getGasScenarioKey(measurement)] = measurement);
+
+  const rows: GasReportRow[] = current.measurements.map(measurement => {
+    const key = getGasScenarioKey(measurement);
+    const previous = baselineByKey[key];
+    delete baselineByKey[key];
+
+    if (measurement.gasUsed === undefined) return { ...measurement, status: "failed" };
+    if (!previous || previous.gasUsed === undefined) return { ...measurement, status: "new" };
+
+    const gasDiff = measurement.gasUsed - previous.gasUsed;
+    return {
+      ...measurement,
+      baselineGasUsed: previous.gasUsed,
+      gasDiff,
+      gasDiffPercentage: gasDiff * 100 / previous.gasUsed,
+      status: gasDiff === 0 ? "unchanged" : gasDiff > 0 ? "increased" : "decreased",
+    };
+  });
+
+  const removed: GasReportRow[] = Object.keys(baselineByKey).map(key => {
+    const { gasUsed, ...scenario } = baselineByKey[key];
+    return { ...scenario, baselineGasUsed: gasUsed, status: "removed" };
+  });
+
+  return rows.concat(removed).sort((a, b) => getGasScenarioKey(a).localeCompare(getGasScenarioKey(b)));
+};
+
+export const getGasRegressions = (rows: GasReportRow[], regressionThreshold: number = 1): GasReportRow[] => {
+  return rows.filter(row => row.gasDiffPercentage !== undefined && row.gasDiffPercentage > regressionThreshold);
+};
+
+export const formatGasReportMarkdown = (rows: GasReportRow[], regressionThreshold: number = 1): string => {
+  const regressions = getGasRegressions(rows, regressionThreshold);
+  const failures = rows.filter(row => row.status === "failed");
+
+  const lines = [
+    "# FlashMint gas report",
+    "",
+    `${rows.length} scenarios, ${regressions.length} regressions above ${regressionThreshold}%, ${failures.length} failed`,
+    "",
+    "| Contract | Method | SetToken | Input token | Amount | Gas used | Baseline | Diff | Diff % |",
+    "| --- | --- | --- | --- | ---: | ---: | ---: | ---: | ---: |",
+  ];
+
+  rows.forEach(row => {
+    const gasUsed = row.status === "failed" ? "failed" : formatNumber(row.gasUsed);
+    const diff = row.gasDiff === undefined ? row.status : `${row.gasDiff > 0 ? "+" : ""}${formatNumber(row.gasDiff)}`;
+    const diffPercentage = row.gasDiffPercentage === undefined
+      ? ""
+      : `${row.gasDiffPercentage > 0 ? "+" : ""}${row.gasDiffPercentage.toFixed(2)}%`;
+    const flag = regressions.includes(row) ? " :warning:" : "";
+
+    lines.push(
+      `| ${row.contract} | ${row.method} | ${row.setToken} | ${row.inputToken} | ${row.amount} | ${gasUsed} | ` +
+      `${formatNumber(row.baselineGasUsed)} | ${diff} | ${diffPercentage}${flag} |`
+    );
+  });
+
+  if (failures.length > 0) {
+    lines.push("", "## Failures", "");
+    failures.forEach(row => lines.push(`- ${getGasScenarioKey(row)}: ${row.error}`));
+  }
+
+  return lines.join("\n") + "\n";
+};
+
+// Writes report.json and report.md to options.directory and returns the rows compared against the baseline
+export const writeGasReport = (current: GasReport, options: GasReportOptions): GasReportRow[] => {
+  const rows = compareGasReports(current, loadGasReport(options.baselinePath));
+  const sortedReport: GasReport = {
+    measurements: [...current.measurements].sort((a, b) => getGasScenarioKey(a).localeCompare(getGasScenarioKey(b))),
+  };
+
+  fs.mkdirSync(options.directory, { recursive: true });
+  fs.writeFileSync(path.join(options.directory, "report.json"), JSON.stringify(sortedReport, undefined, 2) + "\n");
+  fs.writeFileSync(path.join(options.directory, "report.md"), formatGasReportMarkdown(rows, options.regressionThreshold));
+
+  if (options.updateBaseline) {
+    fs.mkdirSync(path.dirname(options.baselinePath), { recursive: true });
+    fs.writeFileSync(options.baselinePath, JSON.stringify(sortedReport, undefined, 2) + "\n");
+  }
+
+  return rows;
+};
+
+const formatNumber = (value: number | undefined): string => {
+  return value === undefined ? "" : value.toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+};
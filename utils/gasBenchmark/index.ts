@@ -0,0 +1,21 @@
+export {
+  expandGasBenchmarkMatrix,
+  flashMintGasRecorder,
+  GasBenchmarkMatrix,
+  GasBenchmarkMethod,
+  GasBenchmarkRecorder,
+  GasBenchmarkScenario,
+  GasBenchmarkSuite,
+  GasMeasurement,
+  getGasScenarioKey,
+} from "./gasBenchmark";
+export {
+  compareGasReports,
+  formatGasReportMarkdown,
+  GasReport,
+  GasReportOptions,
+  GasReportRow,
+  getGasRegressions,
+  loadGasReport,
+  writeGasReport,
+} from "./gasReport";
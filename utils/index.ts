@@ -9,6 +9,7 @@ import {
   AaveV2Fixture,
   CompoundFixture,
   SetFixture,
+  UmaFixture,
   UniswapFixture,
   UniswapV3Fixture
 } from "./fixtures";
@@ -19,6 +20,7 @@ export const getAaveV2Fixture = (ownerAddress: Address) => new AaveV2Fixture(pro
 export const getCompoundFixture = (ownerAddress: Address) => new CompoundFixture(provider, ownerAddress);
 export const getUniswapFixture = (ownerAddress: Address) => new UniswapFixture(provider, ownerAddress);
 export const getUniswapV3Fixture = (ownerAddress: Address) => new UniswapV3Fixture(provider, ownerAddress);
+export const getUmaFixture = (ownerAddress: Address) => new UmaFixture(provider, ownerAddress);
 
 export {
   getAccounts,
@@ -41,6 +43,32 @@ export {
 export {
   bigNumberToData,
   bitcoin,
+  calculateSetValuation,
+  ComponentValuation,
+  getTotalComponentUnits,
+  getValuationPositions,
+  SetValuation,
+  SetValuationParams,
+  ValuationComponentPrice,
+  ValuationPosition,
+  buildAerodromeSlipstreamSwapData,
+  buildAerodromeSwapData,
+  buildBalancerV2SwapData,
+  buildCurveSwapData,
+  buildUniV2SwapData,
+  buildUniV3SwapData,
+  decodeSwapData,
+  decodeSwapDataArray,
+  encodePath,
+  encodeSwapData,
+  encodeSwapDataArray,
+  getNoopSwapData,
+  reverseSwapData,
+  validateSwapData,
+  FlashMintQuote,
+  FlashMintQuoter,
+  IssueRedeemParams,
+  QuoteAddresses,
   divDown,
   ether,
   getStreamingFee,
@@ -54,6 +82,7 @@ export {
   preciseMulCeil,
   preciseMulCeilInt,
   preciseDivCeilInt,
+  sameAddress,
   sqrt,
   usdc,
   wbtc,
@@ -61,8 +90,23 @@ export {
 
 export {
   BalanceTree,
+  buildCumulativeDistribution,
+  CumulativeDistribution,
+  DistributionJson,
+  DistributionJsonEntry,
+  encodeLeaf,
+  getClaimKey,
+  getMerkleDistributorClaims,
+  LEAF_ENCODERS,
+  MerkleClaimStatus,
+  MerkleLeaf,
+  MerkleClaimVerification,
   MerkleTree,
+  normalizeDistribution,
   parseBalanceMap,
+  parseDistributionCsv,
+  parseDistributionJson,
+  verifyMerkleDistribution,
 } from "./merkleUtils";
 
 export {
@@ -70,9 +114,188 @@ export {
   calculateCollateralRebalanceUnits,
   calculateMaxBorrowForDelever,
   calculateMaxBorrowForDeleverV3,
-  calculateMaxRedeemForDeleverToZero
+  calculateMaxRedeemForDeleverToZero,
+  LeverageSimulationParams,
+  LeverageSimulationPrice,
+  LeverageSimulationState,
+  LeverageSimulationStep,
+  simulateLeverageRebalances
 } from "./flexibleLeverageUtils";
 
+export {
+  AUCTION_EXECUTION_PARAMS_TUPLE,
+  AuctionRebalanceMethod,
+  AuctionRebalanceProposal,
+  AuctionRebalanceTarget,
+  buildAuctionRebalanceProposal,
+  encodeAuctionRebalanceCall,
+  encodePriceAdapterConfig,
+  formatRebalanceDiff,
+  getComponentValue,
+  getSetTokenRebalanceState,
+  PriceAdapterConfig,
+  RebalanceComponent,
+  RebalanceDiffEntry,
+  SetTokenRebalanceState,
+  constructRebalanceClaim,
+  decodeRebalanceProposed,
+  DecodedRebalanceProposal,
+  evaluateRebalanceRules,
+  getRebalanceProposalHash,
+  OptimisticRebalanceExtension,
+  parseRebalanceRules,
+  RebalanceProposalVerification,
+  RebalanceRuleContext,
+  RebalanceRuleResult,
+  RebalanceRules,
+  verifyRebalanceProposal,
+} from "./auctionRebalanceUtils";
+
 export {
   setUniswapPoolToPrice
 } from "./externalProtocolUtils";
+
+export {
+  getQuoteUrl,
+  oneInchQuoteProvider,
+  paraswapQuoteProvider,
+  QUOTE_PROVIDERS,
+  QuoteCache,
+  QuoteCacheEntry,
+  QuoteCacheOptions,
+  QuoteCacheServer,
+  QuoteLookup,
+  QuoteProvider,
+  QuoteRequest,
+  zeroExV1QuoteProvider,
+  zeroExV2QuoteProvider,
+} from "./quoteCache";
+
+export {
+  compareGasReports,
+  expandGasBenchmarkMatrix,
+  flashMintGasRecorder,
+  formatGasReportMarkdown,
+  GasBenchmarkMatrix,
+  GasBenchmarkMethod,
+  GasBenchmarkRecorder,
+  GasBenchmarkScenario,
+  GasBenchmarkSuite,
+  GasMeasurement,
+  GasReport,
+  GasReportOptions,
+  GasReportRow,
+  getGasRegressions,
+  getGasScenarioKey,
+  loadGasReport,
+  writeGasReport,
+} from "./gasBenchmark";
+
+export {
+  AllowedAssetChangedEvent,
+  compareSetTokenEvents,
+  decodeSetTokenEvent,
+  DelegatedManagerCreatedEvent,
+  DelegatedManagerInitializedEvent,
+  ExtensionChangedEvent,
+  FlashMintEvent,
+  IssuanceEvent,
+  MethodologistChangedEvent,
+  OperatorChangedEvent,
+  OwnerFeeRecipientUpdatedEvent,
+  OwnerFeeSplitUpdatedEvent,
+  SET_TOKEN_EVENT_TOPICS,
+  SetTokenCreatedEvent,
+  SetTokenEvent,
+  SetTokenEventIndexer,
+  SetTokenEventQuery,
+  SetTokenEventType,
+  SetTokenTimelines,
+  UseAssetAllowlistUpdatedEvent,
+} from "./setTokenEventUtils";
+
+export {
+  diffSetTokenSnapshots,
+  formatSetTokenSnapshotDiff,
+  getSetTokenSnapshot,
+  SetTokenComponentSnapshot,
+  SetTokenExternalPositionSnapshot,
+  SetTokenModuleState,
+  SetTokenSnapshot,
+  SetTokenSnapshotDiff,
+  SetTokenSnapshotOptions,
+  SetTokenStateChange,
+} from "./setTokenSnapshotUtils";
+
+export {
+  buildSafeBatchTransaction,
+  buildSafeTransactionBatch,
+  calculateSafeBatchChecksum,
+  getSafeBatchCalldata,
+  getSimulatedChainId,
+  SafeBatchBuilder,
+  SafeBatchSigner,
+  SafeBatchSimulationOptions,
+  SafeBatchSimulationResult,
+  SafeBatchTransaction,
+  SafeContractMethodInput,
+  SafeTransactionBatch,
+  simulateSafeBatch,
+} from "./safeUtils";
+
+export {
+  decodeMutualUpgradeCall,
+  encodeMutualUpgradeCall,
+  getMutualUpgradeHash,
+  MUTUAL_UPGRADE_ABI,
+  MutualUpgradeCoordinator,
+  MutualUpgradeManager,
+  MutualUpgradeMethod,
+  MutualUpgradeRole,
+  MutualUpgradeSigner,
+  MutualUpgradeStatus,
+  RegisteredMutualUpgrade,
+} from "./mutualUpgradeUtils";
+
+export {
+  AccruedFee,
+  calculateFeeSplit,
+  FEE_SPLIT_RECIPIENTS,
+  FeeDistribution,
+  FeeProjection,
+  FeeProjectionParams,
+  FeeProjectionPeriod,
+  FeeProjectionPeriodResult,
+  FeeRecipientRole,
+  FeeSplitConfig,
+  FeeSplitExtensionType,
+  FeeSplitTakes,
+  FeeTotals,
+  getManagerFees,
+  getRealizedFees,
+  getTotalSupplyBeforeAccrual,
+  projectFees,
+  RealizedFees,
+  RealizedFeesQuery,
+  StreamingFeeAccrual,
+  sumFeeTotals,
+} from "./feeProjectionUtils";
+
+export {
+  comparePrtStakingPoolEvents,
+  getPrtStakingPoolEvents,
+  PrtStakerRewards,
+  PrtStakingLedger,
+  PrtStakingPoolEvent,
+  PrtStakingPoolEventQuery,
+  PrtStakingSnapshot,
+} from "./prtStakingUtils";
+
+export {
+  BatchTradeFailureStage,
+  BatchTradePlan,
+  BatchTradePlanner,
+  BatchTradePlannerOptions,
+  decodeRevertReason,
+  PlannedBatchTrade,
+} from "./batchTradeUtils";
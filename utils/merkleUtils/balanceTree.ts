@@ -1,15 +1,22 @@
 import MerkleTree from "./merkleTree";
-import { solidityKeccak256 } from "ethers/lib/utils";
+import StandardLayoutMerkleTree from "./standardLayoutMerkleTree";
 import { BigNumber } from "@ethersproject/bignumber";
+import { encodeLeaf, MerkleLeaf } from "./leafEncodings";
+import { MerkleLeafSchema } from "../types";
 
 export default class BalanceTree {
-  private readonly tree: MerkleTree;
-  constructor(balances: { account: string; amount: BigNumber }[]) {
-    this.tree = new MerkleTree(
-      balances.map(({ account, amount }, index) => {
-        return BalanceTree.toNode(index, account, amount);
-      })
-    );
+  public readonly schema: MerkleLeafSchema;
+  private readonly tree: MerkleTree | StandardLayoutMerkleTree;
+  constructor(
+    balances: { account: string; amount: BigNumber; token?: string }[],
+    schema: MerkleLeafSchema = "merkleDistributor"
+  ) {
+    this.schema = schema;
+    const leaves = balances.map(({ account, amount, token }, index) => {
+      return encodeLeaf(schema, { index, account, amount, token });
+    });
+    // doubleHashed distributions are built like OpenZeppelin StandardMerkleTree so their roots match
+    this.tree = schema === "doubleHashed" ? new StandardLayoutMerkleTree(leaves) : new MerkleTree(leaves);
   }
 
   public static verifyProof(
@@ -19,7 +26,16 @@ export default class BalanceTree {
     proof: Buffer[],
     root: Buffer
   ): boolean {
-    let pair = BalanceTree.toNode(index, account, amount);
+    return BalanceTree.verifyLeafProof("merkleDistributor", { index, account, amount }, proof, root);
+  }
+
+  public static verifyLeafProof(
+    schema: MerkleLeafSchema,
+    leaf: MerkleLeaf,
+    proof: Buffer[],
+    root: Buffer
+  ): boolean {
+    let pair = encodeLeaf(schema, leaf);
     for (const item of proof) {
       pair = MerkleTree.combinedHash(pair, item);
     }
@@ -29,10 +45,7 @@ export default class BalanceTree {
 
   // keccak256(abi.encode(index, account, amount))
   public static toNode(index: number | BigNumber, account: string, amount: BigNumber): Buffer {
-    return Buffer.from(
-      solidityKeccak256(["uint256", "address", "uint256"], [index, account, amount]).substr(2),
-      "hex"
-    );
+    return encodeLeaf("merkleDistributor", { index, account, amount });
   }
 
   public getHexRoot(): string {
@@ -40,7 +53,7 @@ export default class BalanceTree {
   }
 
   // returns the hex bytes32 values of the proof
-  public getProof(index: number | BigNumber, account: string, amount: BigNumber): string[] {
-    return this.tree.getHexProof(BalanceTree.toNode(index, account, amount));
+  public getProof(index: number | BigNumber, account: string, amount: BigNumber, token?: string): string[] {
+    return this.tree.getHexProof(encodeLeaf(this.schema, { index, account, amount, token }));
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,127 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { getAddress } from "ethers/lib/utils";
+
+import { getClaimKey } from "./leafEncodings";
+import { parseBalanceMap } from "./parseBalanceMap";
+import { ZERO } from "../constants";
+import { DistributionFormat, MerkleDistributorInfo, MerkleLeafSchema } from "../types";
+
+export interface CumulativeDistribution {
+  info: MerkleDistributorInfo;          // Tree of the amounts claimable once the new epoch is distributed
+  deltas: DistributionFormat[];         // Earnings added in the new epoch, per account (and token)
+  topUp: BigNumber;                     // Amount to send to the distributor, summed across tokens for multiToken
+  topUps: { [token: string]: BigNumber };  // Amount to send per token, keyed by "" for single token schemas
+}
+
+/**
+ * Rolls a distribution forward by one epoch. Every leaf of a doubleHashed or multiToken tree holds the cumulative
+ * amount earned by the account since the first epoch, so a distributor that tracks the amount already claimed per
+ * account lets users claim once over many epochs. Accounts missing from `newEarnings` keep their previous amount.
+ *
+ * MerkleDistributor marks claims by leaf index and pays out the full leaf amount, so a merkleDistributor leaf holds
+ * the previous leaf minus the amount claimed from the previous distributor plus the new earnings, and leaves that
+ * were fully claimed without new earnings are dropped.
+ *
+ * The top-up is the cumulative total minus the amounts already claimed minus the current balance of the
+ * distributor paying out the new tree, floored at zero.
+ *
+ * @param previous            Distribution of the previous epoch, undefined for the first epoch
+ * @param newEarnings         Earnings of the new epoch. Duplicate accounts are summed.
+ * @param schema              Leaf schema, defaults to the schema of the previous distribution
+ * @param claimed             Amounts already claimed out of the previous distribution, per account (and token)
+ * @param distributorBalances Balances of the distributor paying out the new tree, keyed by "" for single token schemas
+ * @return                    Next distribution, per account deltas and top-ups
+ */
+export function buildCumulativeDistribution(
+  previous: MerkleDistributorInfo | undefined,
+  newEarnings: DistributionFormat[],
+  schema?: MerkleLeafSchema,
+  claimed: DistributionFormat[] = [],
+  distributorBalances: { [token: string]: BigNumber } = {}
+): CumulativeDistribution {
+  const previousSchema = previous && (previous.leafSchema || "merkleDistributor");
+  if (previousSchema && schema && previousSchema !== schema) {
+    throw new Error(`Leaf schema mismatch: previous distribution uses ${previousSchema}, got ${schema}`);
+  }
+
+  const leafSchema = schema || previousSchema;
+  if (!leafSchema) throw new Error("Leaf schema is required for the first epoch");
+
+  const cumulative: { [key: string]: DistributionFormat } = {};
+  if (previous) {
+    Object.keys(previous.claims).forEach(key => {
+      const { amount, token } = previous.claims[key];
+      const entry = toEntry(key.split(":")[0], BigNumber.from(amount), leafSchema, token);
+      cumulative[getClaimKey(leafSchema, entry.address, entry.token)] = entry;
+    });
+  }
+
+  const deltasByKey: { [key: string]: DistributionFormat } = {};
+  newEarnings.forEach(({ address, earnings, token }) => {
+    if (earnings.lt(0)) throw new Error(`Invalid amount for account: ${address}`);
+    if (earnings.eq(0)) return;
+
+    const entry = toEntry(address, earnings, leafSchema, token);
+    const key = getClaimKey(leafSchema, entry.address, entry.token);
+
+    deltasByKey[key] = deltasByKey[key]
+      ? { ...deltasByKey[key], earnings: deltasByKey[key].earnings.add(earnings) }
+      : entry;
+    cumulative[key] = cumulative[key]
+      ? { ...cumulative[key], earnings: cumulative[key].earnings.add(earnings) }
+      : entry;
+  });
+
+  const claimedByKey: { [key: string]: BigNumber } = {};
+  claimed.forEach(({ address, earnings, token }) => {
+    const entry = toEntry(address, earnings, leafSchema, token);
+    const key = getClaimKey(leafSchema, entry.address, entry.token);
+
+    claimedByKey[key] = (claimedByKey[key] || ZERO).add(earnings);
+    if (!cumulative[key] || claimedByKey[key].gt(cumulative[key].earnings)) {
+      throw new Error(`Claimed amount of ${key} exceeds its cumulative amount`);
+    }
+  });
+
+  const topUps: { [token: string]: BigNumber } = {};
+  Object.keys(cumulative).forEach(key => {
+    const tokenKey = cumulative[key].token || "";
+    const outstanding = cumulative[key].earnings.sub(claimedByKey[key] || ZERO);
+    topUps[tokenKey] = (topUps[tokenKey] || ZERO).add(outstanding);
+  });
+  Object.keys(distributorBalances).forEach(token => {
+    const tokenKey = token ? getAddress(token) : "";
+    topUps[tokenKey] = (topUps[tokenKey] || ZERO).sub(distributorBalances[token]);
+  });
+  Object.keys(topUps).forEach(tokenKey => {
+    const topUp = topUps[tokenKey];
+    topUps[tokenKey] = topUp.gt(0) ? topUp : ZERO;
+  });
+
+  // MerkleDistributor pays out the full leaf, so its leaves only hold what is still unclaimed
+  const leaves = Object.keys(cumulative)
+    .map(key => leafSchema === "merkleDistributor" && claimedByKey[key]
+      ? { ...cumulative[key], earnings: cumulative[key].earnings.sub(claimedByKey[key]) }
+      : cumulative[key]
+    )
+    .filter(entry => entry.earnings.gt(0));
+
+  return {
+    info: parseBalanceMap(leaves, leafSchema),
+    deltas: Object.keys(deltasByKey).sort().map(key => deltasByKey[key]),
+    topUp: Object.keys(topUps).reduce<BigNumber>((memo, tokenKey) => memo.add(topUps[tokenKey]), ZERO),
+    topUps,
+  };
+}
+
+function toEntry(
+  address: string,
+  earnings: BigNumber,
+  schema: MerkleLeafSchema,
+  token?: string
+): DistributionFormat {
+  if (schema !== "multiToken") return { address: getAddress(address), earnings };
+  if (!token) throw new Error(`Missing token for account: ${address}`);
+
+  return { address: getAddress(address), earnings, token: getAddress(token) };
+}
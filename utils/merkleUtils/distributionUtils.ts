@@ -0,0 +1,205 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { getAddress, parseUnits } from "ethers/lib/utils";
+
+import { MerkleDistributor } from "../contracts";
+import { DistributionFormat, MerkleDistributorInfo } from "../types";
+
+export type MerkleClaimStatus = "claimable" | "claimed" | "invalidProof" | "unfunded";
+
+export interface MerkleClaimVerification {
+  account: string;
+  index: number;
+  amount: string;
+  status: MerkleClaimStatus;
+  reason?: string;
+}
+
+type RawDistribution = { address: string; earnings: string; token?: string };
+
+export interface DistributionJsonEntry {
+  address: string;
+  earnings: string | number;
+  token?: string;
+}
+
+export type DistributionJson = DistributionJsonEntry[] | { [address: string]: string | number };
+
+// Revert reasons of MerkleDistributor.claim and of the token transfer it calls, which OpenZeppelin ERC20 and
+// IndexToken both end with "transfer amount exceeds balance"
+const INVALID_PROOF_REVERT = "MerkleDistributor: Invalid proof.";
+const DROP_CLAIMED_REVERT = "MerkleDistributor: Drop already claimed.";
+const UNFUNDED_REVERTS = ["MerkleDistributor: Transfer failed.", "transfer amount exceeds balance"];
+
+/**
+ * Parses `address,earnings` rows, or `address,earnings,token` rows for multiToken distributions. A header row
+ * and blank lines are skipped. When `decimals` is passed earnings are read as decimal token amounts, otherwise
+ * as base units.
+ */
+export function parseDistributionCsv(content: string, decimals?: number): DistributionFormat[] {
+  const rows = content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+
+  const raw: RawDistribution[] = [];
+  rows.forEach((line, i) => {
+    const [address, earnings, token, ...rest] = line.split(",").map(column => column.trim());
+    if (i === 0 && address.toLowerCase() === "address") return;
+    if (earnings === undefined || rest.length > 0) throw new Error(`Invalid row ${i + 1}: ${line}`);
+
+    raw.push({ address, earnings, token: token || undefined });
+  });
+
+  return raw.map(entry => toDistributionFormat(entry, decimals));
+}
+
+/**
+ * Parses either an array of `{ address, earnings, token? }` or an `{ [address]: earnings }` map. Earnings can be
+ * decimal strings, hex strings or integer numbers. Numbers that are not safe integers throw, since JSON.parse has
+ * already rounded them or they would stringify in exponent notation.
+ */
+export function parseDistributionJson(content: string, decimals?: number): DistributionFormat[] {
+  const json: DistributionJson = JSON.parse(content);
+  const raw: RawDistribution[] = Array.isArray(json)
+    ? json.map(entry => ({
+      address: entry.address,
+      earnings: toEarningsString(entry.address, entry.earnings),
+      token: entry.token,
+    }))
+    : Object.keys(json).map(address => ({ address, earnings: toEarningsString(address, json[address]) }));
+
+  return raw.map(entry => toDistributionFormat(entry, decimals));
+}
+
+/**
+ * Checksums account and token addresses and drops zero entries. Duplicate (account, token) pairs throw, like
+ * parseBalanceMap, unless `mergeDuplicates` is set in which case their earnings are summed.
+ */
+export function normalizeDistribution(
+  balances: DistributionFormat[],
+  mergeDuplicates: boolean = false
+): DistributionFormat[] {
+  const entriesByKey: { [key: string]: DistributionFormat } = {};
+
+  balances.forEach(({ address, earnings, token }) => {
+    const checksummed = getAddress(address);
+    const checksummedToken = token ? getAddress(token) : undefined;
+    const key = checksummedToken ? `${checksummed}:${checksummedToken}` : checksummed;
+    if (earnings.lt(0)) throw new Error(`Invalid amount for account: ${key}`);
+
+    if (entriesByKey[key]) {
+      if (!mergeDuplicates) throw new Error(`Duplicate address: ${key}`);
+      entriesByKey[key].earnings = entriesByKey[key].earnings.add(earnings);
+    } else {
+      entriesByKey[key] = { address: checksummed, earnings, token: checksummedToken };
+    }
+  });
+
+  return Object.keys(entriesByKey)
+    .map(key => entriesByKey[key])
+    .filter(entry => entry.earnings.gt(0))
+    .map(entry => entry.token ? entry : { address: entry.address, earnings: entry.earnings });
+}
+
+/**
+ * Static calls `claim` for every entry of the distribution against a deployed MerkleDistributor. Proofs are
+ * checked before the token transfer, so a claim that only fails on the transfer has a valid proof and
+ * the distributor is just not funded yet. Reverts other than the distributor's and the token transfer's throw.
+ *
+ * @param distributor     Deployed MerkleDistributor
+ * @param info            Distribution generated by parseBalanceMap
+ * @return                Verification result for each claim
+ */
+export async function verifyMerkleDistribution(
+  distributor: MerkleDistributor,
+  info: MerkleDistributorInfo
+): Promise<MerkleClaimVerification[]> {
+  if (info.leafSchema && info.leafSchema !== "merkleDistributor") {
+    throw new Error(`MerkleDistributor cannot verify ${info.leafSchema} leaves`);
+  }
+
+  const merkleRoot = await distributor.merkleRoot();
+  if (merkleRoot.toLowerCase() !== info.merkleRoot.toLowerCase()) {
+    throw new Error(`Merkle root mismatch: distributor has ${merkleRoot}, distribution has ${info.merkleRoot}`);
+  }
+
+  const results: MerkleClaimVerification[] = [];
+  for (const account of Object.keys(info.claims)) {
+    const { index, amount, proof } = info.claims[account];
+    const result: MerkleClaimVerification = { account, index, amount, status: "claimable" };
+
+    if (await distributor.isClaimed(index)) {
+      result.status = "claimed";
+    } else {
+      try {
+        await distributor.callStatic.claim(index, account, amount, proof);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        result.reason = reason;
+        result.status = getClaimRevertStatus(reason, account);
+      }
+    }
+
+    results.push(result);
+  }
+
+  return results;
+}
+
+/**
+ * Reads which leaves of a distribution were claimed from a deployed MerkleDistributor. MerkleDistributor pays out
+ * the full leaf amount, so each claimed leaf is returned with its amount, ready to pass to buildCumulativeDistribution.
+ *
+ * @param distributor     Deployed MerkleDistributor serving the distribution
+ * @param info            Distribution generated by parseBalanceMap
+ * @return                Claimed amount of each claimed leaf
+ */
+export async function getMerkleDistributorClaims(
+  distributor: MerkleDistributor,
+  info: MerkleDistributorInfo
+): Promise<DistributionFormat[]> {
+  if (info.leafSchema && info.leafSchema !== "merkleDistributor") {
+    throw new Error(`MerkleDistributor cannot pay out ${info.leafSchema} leaves`);
+  }
+
+  const merkleRoot = await distributor.merkleRoot();
+  if (merkleRoot.toLowerCase() !== info.merkleRoot.toLowerCase()) {
+    throw new Error(`Merkle root mismatch: distributor has ${merkleRoot}, distribution has ${info.merkleRoot}`);
+  }
+
+  const claims: DistributionFormat[] = [];
+  for (const account of Object.keys(info.claims)) {
+    const { index, amount } = info.claims[account];
+    if (await distributor.isClaimed(index)) claims.push({ address: account, earnings: BigNumber.from(amount) });
+  }
+
+  return claims;
+}
+
+function getClaimRevertStatus(reason: string, account: string): MerkleClaimStatus {
+  if (reason.includes(INVALID_PROOF_REVERT)) return "invalidProof";
+  if (reason.includes(DROP_CLAIMED_REVERT)) return "claimed";
+  if (UNFUNDED_REVERTS.some(unfundedReason => reason.includes(unfundedReason))) return "unfunded";
+
+  throw new Error(`Unexpected claim revert for ${account}: ${reason}`);
+}
+
+function toEarningsString(address: string, earnings: string | number): string {
+  if (typeof earnings === "number" && !Number.isSafeInteger(earnings)) {
+    throw new Error(`Earnings of ${address} are not a safe integer: ${earnings}. Pass them as a string`);
+  }
+  return String(earnings);
+}
+
+function toDistributionFormat({ address, earnings, token }: RawDistribution, decimals?: number): DistributionFormat {
+  if (!address || !earnings) throw new Error(`Invalid distribution entry: ${address},${earnings}`);
+
+  const entry: DistributionFormat = {
+    address,
+    earnings: decimals !== undefined && !earnings.startsWith("0x")
+      ? parseUnits(earnings, decimals)
+      : BigNumber.from(earnings),
+  };
+  if (token) entry.token = token;
+  return entry;
+}
@@ -1,11 +1,37 @@
 import BalanceTree from "./balanceTree";
 import MerkleTree from "./merkleTree";
+import StandardLayoutMerkleTree from "./standardLayoutMerkleTree";
 
 export {
   parseBalanceMap
 } from "./parseBalanceMap";
 
+export {
+  DistributionJson,
+  DistributionJsonEntry,
+  getMerkleDistributorClaims,
+  MerkleClaimStatus,
+  MerkleClaimVerification,
+  normalizeDistribution,
+  parseDistributionCsv,
+  parseDistributionJson,
+  verifyMerkleDistribution
+} from "./distributionUtils";
+
+export {
+  buildCumulativeDistribution,
+  CumulativeDistribution
+} from "./cumulativeDistribution";
+
+export {
+  encodeLeaf,
+  getClaimKey,
+  LEAF_ENCODERS,
+  MerkleLeaf
+} from "./leafEncodings";
+
 export {
   BalanceTree,
-  MerkleTree
+  MerkleTree,
+  StandardLayoutMerkleTree
 };
\ No newline at end of file
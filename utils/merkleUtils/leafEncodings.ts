@@ -0,0 +1,47 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { defaultAbiCoder, keccak256, solidityKeccak256 } from "ethers/lib/utils";
+import { MerkleLeafSchema } from "../types";
+
+export interface MerkleLeaf {
+  index: number | BigNumber;
+  account: string;
+  amount: BigNumber;
+  token?: string;
+}
+
+const toBuffer = (hash: string): Buffer => Buffer.from(hash.substr(2), "hex");
+
+const getToken = (leaf: MerkleLeaf): string => {
+  if (!leaf.token) throw new Error(`Missing token for account: ${leaf.account}`);
+  return leaf.token;
+};
+
+export const LEAF_ENCODERS: { [schema in MerkleLeafSchema]: (leaf: MerkleLeaf) => Buffer } = {
+  // keccak256(abi.encodePacked(index, account, amount)) as verified by MerkleDistributor.sol
+  merkleDistributor: ({ index, account, amount }) => toBuffer(
+    solidityKeccak256(["uint256", "address", "uint256"], [index, account, amount])
+  ),
+  // keccak256(bytes.concat(keccak256(abi.encode(index, account, amount)))), the leaf hash of OpenZeppelin
+  // StandardMerkleTree. BalanceTree lays these leaves out like StandardMerkleTree.of so the roots match
+  doubleHashed: ({ index, account, amount }) => toBuffer(
+    keccak256(keccak256(defaultAbiCoder.encode(["uint256", "address", "uint256"], [index, account, amount])))
+  ),
+  // keccak256(abi.encodePacked(index, account, token, amount)) for distributing several reward tokens in one tree
+  multiToken: leaf => toBuffer(
+    solidityKeccak256(
+      ["uint256", "address", "address", "uint256"],
+      [leaf.index, leaf.account, getToken(leaf), leaf.amount]
+    )
+  ),
+};
+
+export const encodeLeaf = (schema: MerkleLeafSchema, leaf: MerkleLeaf): Buffer => {
+  const encoder = LEAF_ENCODERS[schema];
+  if (!encoder) throw new Error(`Unknown leaf schema: ${schema}`);
+  return encoder(leaf);
+};
+
+// Key of a leaf in MerkleDistributorInfo.claims
+export const getClaimKey = (schema: MerkleLeafSchema, account: string, token?: string): string => {
+  return schema === "multiToken" ? `${account}:${token}` : account;
+};
@@ -1,48 +1,68 @@
 import { BigNumber } from "@ethersproject/bignumber";
 import BalanceTree from "./balanceTree";
+import { getClaimKey } from "./leafEncodings";
 import { ZERO } from "../constants";
-import { DistributionFormat, MerkleDistributorInfo } from "../types";
+import { DistributionFormat, MerkleDistributorInfo, MerkleLeafSchema } from "../types";
 
 
-export function parseBalanceMap(balances: DistributionFormat[]): MerkleDistributorInfo {
-  const dataByAddress = balances.reduce<{
-    [address: string]: { amount: BigNumber; }
-  }>((memo, { address, earnings }) => {
-    if (memo[address]) throw new Error(`Duplicate address: ${address}`);
-    if (earnings.lte(0)) throw new Error(`Invalid amount for account: ${address}`);
+export function parseBalanceMap(
+  balances: DistributionFormat[],
+  schema: MerkleLeafSchema = "merkleDistributor"
+): MerkleDistributorInfo {
+  const dataByKey = balances.reduce<{
+    [key: string]: { account: string; amount: BigNumber; token?: string; }
+  }>((memo, { address, earnings, token }) => {
+    if (schema === "multiToken" && !token) throw new Error(`Missing token for account: ${address}`);
 
-    memo[address] = {amount: earnings};
+    const key = getClaimKey(schema, address, token);
+    if (memo[key]) throw new Error(`Duplicate address: ${key}`);
+    if (earnings.lte(0)) throw new Error(`Invalid amount for account: ${key}`);
+
+    memo[key] = { account: address, amount: earnings, token: schema === "multiToken" ? token : undefined };
     return memo;
   }, {});
 
-  const sortedAddresses = Object.keys(dataByAddress).sort();
+  const sortedKeys = Object.keys(dataByKey).sort();
 
   // construct a tree
-  const tree = new BalanceTree(
-    sortedAddresses.map(address => ({ account: address, amount: dataByAddress[address].amount }))
-  );
+  const tree = new BalanceTree(sortedKeys.map(key => dataByKey[key]), schema);
 
   // generate claims
-  const claims = sortedAddresses.reduce<{
-    [address: string]: { amount: string; index: number; proof: string[]; }
-  }>((memo, address, index) => {
-    const { amount } = dataByAddress[address];
-    memo[address] = {
+  const claims = sortedKeys.reduce<MerkleDistributorInfo["claims"]>((memo, key, index) => {
+    const { account, amount, token } = dataByKey[key];
+    memo[key] = {
       index,
       amount: amount.toHexString(),
-      proof: tree.getProof(index, address, amount),
+      proof: tree.getProof(index, account, amount, token),
     };
+    if (token) memo[key].token = token;
     return memo;
   }, {});
 
-  const tokenTotal: BigNumber = sortedAddresses.reduce<BigNumber>(
-    (memo, key) => memo.add(dataByAddress[key].amount),
+  const tokenTotal: BigNumber = sortedKeys.reduce<BigNumber>(
+    (memo, key) => memo.add(dataByKey[key].amount),
     ZERO
   );
 
-  return {
+  const info: MerkleDistributorInfo = {
     merkleRoot: tree.getHexRoot(),
     tokenTotal: tokenTotal.toHexString(),
+    leafSchema: schema,
     claims,
   };
-}
\ No newline at end of file
+
+  if (schema === "multiToken") {
+    const tokenTotals = sortedKeys.reduce<{ [token: string]: BigNumber }>((memo, key) => {
+      const { token, amount } = dataByKey[key];
+      memo[token as string] = (memo[token as string] || ZERO).add(amount);
+      return memo;
+    }, {});
+
+    info.tokenTotals = Object.keys(tokenTotals).reduce<{ [token: string]: string }>((memo, token) => {
+      memo[token] = tokenTotals[token].toHexString();
+      return memo;
+    }, {});
+  }
+
+  return info;
+}
@@ -0,0 +1,52 @@
+import { bufferToHex } from "ethereumjs-util";
+import MerkleTree from "./merkleTree";
+
+/**
+ * Merkle tree with the layout of OpenZeppelin StandardMerkleTree: the sorted leaves fill, in reverse, the end of a
+ * complete binary tree stored as an array, so the root matches StandardMerkleTree.of over the same leaf hashes.
+ * Pairs are hashed sorted like MerkleTree, so proofs verify with MerkleProof.verify.
+ */
+export default class StandardLayoutMerkleTree {
+  private readonly tree: Buffer[];
+  private readonly bufferElementTreeIndex: { [hexElement: string]: number };
+
+  constructor(elements: Buffer[]) {
+    if (elements.length === 0) {
+      throw new Error("empty tree");
+    }
+
+    const leaves = [...elements].sort(Buffer.compare);
+    this.tree = new Array<Buffer>(2 * leaves.length - 1);
+    this.bufferElementTreeIndex = {};
+
+    leaves.forEach((leaf, i) => {
+      const treeIndex = this.tree.length - 1 - i;
+      this.tree[treeIndex] = leaf;
+      this.bufferElementTreeIndex[bufferToHex(leaf)] = treeIndex;
+    });
+    for (let i = this.tree.length - 1 - leaves.length; i >= 0; i--) {
+      this.tree[i] = MerkleTree.combinedHash(this.tree[2 * i + 1], this.tree[2 * i + 2]);
+    }
+  }
+
+  getHexRoot(): string {
+    return bufferToHex(this.tree[0]);
+  }
+
+  getHexProof(el: Buffer): string[] {
+    let treeIndex = this.bufferElementTreeIndex[bufferToHex(el)];
+
+    if (typeof treeIndex !== "number") {
+      throw new Error("Element does not exist in Merkle tree");
+    }
+
+    const proof: string[] = [];
+    while (treeIndex > 0) {
+      const siblingIndex = treeIndex % 2 === 1 ? treeIndex + 1 : treeIndex - 1;
+      proof.push(bufferToHex(this.tree[siblingIndex]));
+      treeIndex = Math.floor((treeIndex - 1) / 2);
+    }
+
+    return proof;
+  }
+}
@@ -0,0 +1,13 @@
+export {
+  decodeMutualUpgradeCall,
+  encodeMutualUpgradeCall,
+  getMutualUpgradeHash,
+  MUTUAL_UPGRADE_ABI,
+  MutualUpgradeCoordinator,
+  MutualUpgradeManager,
+  MutualUpgradeMethod,
+  MutualUpgradeRole,
+  MutualUpgradeSigner,
+  MutualUpgradeStatus,
+  RegisteredMutualUpgrade,
+} from "./mutualUpgradeCoordinator";
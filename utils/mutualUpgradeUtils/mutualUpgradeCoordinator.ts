@@ -0,0 +1,217 @@
+import { JsonRpcProvider, Web3Provider } from "@ethersproject/providers";
+import { ethers, utils } from "ethers";
+
+import { buildSafeBatchTransaction, buildSafeTransactionBatch, SafeTransactionBatch } from "../safeUtils";
+import { Address, Bytes } from "../types";
+
+export type MutualUpgradeManager = "BaseManagerV2" | "DelegatedManager";
+
+export type MutualUpgradeMethod =
+  "BaseManagerV2.setManager" |
+  "BaseManagerV2.authorizeExtension" |
+  "BaseManagerV2.revokeExtensionAuthorization" |
+  "BaseManagerV2.replaceProtectedModule" |
+  "BaseManagerV2.emergencyReplaceProtectedModule" |
+  "DelegatedManager.updateOwnerFeeSplit";
+
+// Functions guarded by the mutualUpgrade modifier. BaseManagerV2 uses MutualUpgrade, DelegatedManager uses
+// MutualUpgradeV2; both hash the calldata with the signer the same way
+export const MUTUAL_UPGRADE_ABI: { [method in MutualUpgradeMethod]: string } = {
+  "BaseManagerV2.setManager": "function setManager(address _newManager)",
+  "BaseManagerV2.authorizeExtension": "function authorizeExtension(address _module, address _extension)",
+  "BaseManagerV2.revokeExtensionAuthorization": "function revokeExtensionAuthorization(address _module, address _extension)",
+  "BaseManagerV2.replaceProtectedModule": "function replaceProtectedModule(address _oldModule, address _newModule, address[] _newExtensions)",
+  "BaseManagerV2.emergencyReplaceProtectedModule": "function emergencyReplaceProtectedModule(address _module, address[] _extensions)",
+  "DelegatedManager.updateOwnerFeeSplit": "function updateOwnerFeeSplit(uint256 _newFeeSplit)",
+};
+
+const MANAGER_ABI = [
+  "function operator() view returns (address)",
+  "function owner() view returns (address)",
+  "function methodologist() view returns (address)",
+  "function mutualUpgrades(bytes32) view returns (bool)",
+  "event MutualUpgradeRegistered(bytes32 _upgradeHash)",
+];
+
+const SAFE_EXEC_TRANSACTION_ABI = [
+  "function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures)",
+];
+
+export type MutualUpgradeRole = "operator" | "owner" | "methodologist";
+
+export interface MutualUpgradeSigner {
+  role: MutualUpgradeRole;
+  address: Address;
+  upgradeHash: string;          // Hash registered when this signer submits first
+  hasSigned: boolean;
+}
+
+export interface MutualUpgradeStatus {
+  manager: Address;
+  method: MutualUpgradeMethod;
+  calldata: Bytes;
+  signers: MutualUpgradeSigner[];
+  pendingSigner?: MutualUpgradeSigner;    // Signer whose call executes the upgrade, once the other has signed
+}
+
+export interface RegisteredMutualUpgrade {
+  upgradeHash: string;
+  transactionHash: string;
+  blockNumber: number;
+  signer?: Address;
+  calldata?: Bytes;
+  method?: MutualUpgradeMethod;
+  args?: utils.Result;
+  isPending: boolean;           // False once the other signer submitted the same call and executed the upgrade
+}
+
+// keccak256(abi.encodePacked(msg.data, msg.sender)) as computed by the mutualUpgrade modifier
+export const getMutualUpgradeHash = (calldata: Bytes, signer: Address): string => {
+  return utils.solidityKeccak256(["bytes", "address"], [calldata, signer]);
+};
+
+export const encodeMutualUpgradeCall = (method: MutualUpgradeMethod, args: any[]): Bytes => {
+  const iface = new utils.Interface([MUTUAL_UPGRADE_ABI[method]]);
+  return iface.encodeFunctionData(getFunctionName(method), args);
+};
+
+export const decodeMutualUpgradeCall = (
+  manager: MutualUpgradeManager,
+  calldata: Bytes
+): { method: MutualUpgradeMethod; args: utils.Result } | undefined => {
+  const methods = (Object.keys(MUTUAL_UPGRADE_ABI) as MutualUpgradeMethod[]).filter(method => method.startsWith(`${manager}.`));
+
+  for (const method of methods) {
+    const iface = new utils.Interface([MUTUAL_UPGRADE_ABI[method]]);
+    const name = getFunctionName(method);
+    if (calldata.slice(0, 10) !== iface.getSighash(name)) continue;
+
+    try {
+      return { method, args: iface.decodeFunctionData(name, calldata) };
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Coordinates mutual upgrades between the two signers of a BaseManagerV2 (operator and methodologist) or a
+ * DelegatedManager (owner and methodologist). Both signers must submit identical calldata, so the coordinator
+ * builds it once, reports which signer has submitted it through the manager's mutualUpgrades mapping, and exports
+ * the call as a Safe Transaction Builder batch for signers that are multisigs.
+ */
+export class MutualUpgradeCoordinator {
+  public manager: ethers.Contract;
+  public managerType: MutualUpgradeManager;
+
+  constructor(provider: Web3Provider | JsonRpcProvider, manager: Address, managerType: MutualUpgradeManager) {
+    this.manager = new ethers.Contract(manager, MANAGER_ABI, provider);
+    this.managerType = managerType;
+  }
+
+  public async getSigners(): Promise<{ role: MutualUpgradeRole; address: Address }[]> {
+    const firstRole: MutualUpgradeRole = this.managerType === "BaseManagerV2" ? "operator" : "owner";
+    return [
+      { role: firstRole, address: await this.manager[firstRole]() },
+      { role: "methodologist", address: await this.manager.methodologist() },
+    ];
+  }
+
+  public async getStatus(method: MutualUpgradeMethod, args: any[]): Promise<MutualUpgradeStatus> {
+    this.validateMethod(method);
+    const calldata = encodeMutualUpgradeCall(method, args);
+
+    const signers: MutualUpgradeSigner[] = [];
+    for (const { role, address } of await this.getSigners()) {
+      const upgradeHash = getMutualUpgradeHash(calldata, address);
+      signers.push({ role, address, upgradeHash, hasSigned: await this.manager.mutualUpgrades(upgradeHash) });
+    }
+
+    const signed = signers.filter(signer => signer.hasSigned);
+    return {
+      manager: this.manager.address,
+      method,
+      calldata,
+      signers,
+      pendingSigner: signed.length === 1 ? signers.find(signer => !signer.hasSigned) : undefined,
+    };
+  }
+
+  /**
+   * Lists MutualUpgradeRegistered events of the manager and, where the registering transaction called the manager
+   * directly or through Safe.execTransaction, the signer and decoded call behind each hash.
+   */
+  public async getRegisteredUpgrades(fromBlock: number, toBlock?: number): Promise<RegisteredMutualUpgrade[]> {
+    const provider = this.manager.provider;
+    const events = await this.manager.queryFilter(this.manager.filters.MutualUpgradeRegistered(), fromBlock, toBlock);
+
+    const upgrades: RegisteredMutualUpgrade[] = [];
+    for (const event of events) {
+      const upgradeHash: string = event.args!._upgradeHash;
+      const upgrade: RegisteredMutualUpgrade = {
+        upgradeHash,
+        transactionHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        isPending: await this.manager.mutualUpgrades(upgradeHash),
+      };
+
+      const call = getManagerCall(await provider.getTransaction(event.transactionHash), this.manager.address);
+      if (call && getMutualUpgradeHash(call.calldata, call.signer) === upgradeHash) {
+        const decoded = decodeMutualUpgradeCall(this.managerType, call.calldata);
+        upgrades.push({ ...upgrade, ...call, method: decoded ? decoded.method : undefined, args: decoded ? decoded.args : undefined });
+      } else {
+        upgrades.push(upgrade);
+      }
+    }
+
+    return upgrades;
+  }
+
+  // Safe Transaction Builder batch submitting the call from `role`, e.g. for the second signer to execute the upgrade
+  public async exportSafeBatch(method: MutualUpgradeMethod, args: any[], role: MutualUpgradeRole): Promise<SafeTransactionBatch> {
+    this.validateMethod(method);
+
+    const signer = (await this.getSigners()).find(candidate => candidate.role === role);
+    if (!signer) {
+      throw new Error(`${this.managerType} has no ${role}`);
+    }
+
+    const { chainId } = await this.manager.provider.getNetwork();
+    return buildSafeTransactionBatch(
+      chainId,
+      signer.address,
+      [buildSafeBatchTransaction(this.manager.address, MUTUAL_UPGRADE_ABI[method], args)],
+      `${method} (mutual upgrade)`,
+      `Mutual upgrade call from the ${role} of ${this.manager.address}`
+    );
+  }
+
+  private validateMethod(method: MutualUpgradeMethod): void {
+    if (!method.startsWith(`${this.managerType}.`)) {
+      throw new Error(`${method} is not a mutual upgrade of ${this.managerType}`);
+    }
+  }
+}
+
+const getFunctionName = (method: MutualUpgradeMethod): string => method.split(".")[1];
+
+// Calldata and msg.sender the manager saw, for direct calls and calls made by a Safe through execTransaction
+const getManagerCall = (
+  transaction: ethers.providers.TransactionResponse,
+  manager: Address
+): { calldata: Bytes; signer: Address } | undefined => {
+  if (!transaction.to) return undefined;
+  if (transaction.to.toLowerCase() === manager.toLowerCase()) {
+    return { calldata: transaction.data, signer: transaction.from };
+  }
+
+  try {
+    const safeCall = new utils.Interface(SAFE_EXEC_TRANSACTION_ABI).decodeFunctionData("execTransaction", transaction.data);
+    if (safeCall.to.toLowerCase() !== manager.toLowerCase()) return undefined;
+    return { calldata: safeCall.data, signer: transaction.to };
+  } catch (error) {
+    return undefined;
+  }
+};
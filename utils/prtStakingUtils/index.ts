@@ -0,0 +1,11 @@
+export {
+  comparePrtStakingPoolEvents,
+  PrtStakerRewards,
+  PrtStakingLedger,
+  PrtStakingPoolEvent,
+  PrtStakingSnapshot,
+} from "./prtStakingLedger";
+export {
+  getPrtStakingPoolEvents,
+  PrtStakingPoolEventQuery,
+} from "./prtStakingPoolEvents";
@@ -0,0 +1,161 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { getAddress } from "ethers/lib/utils";
+
+import { ZERO } from "../constants";
+import { Address, DistributionFormat } from "../types";
+
+type PrtStakingPoolEventBase = {
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+};
+
+// Pool shares minted to (stake), burned from (unstake) or moved between stakers (transfer), reward token sent to the
+// pool by its distributor (distribution) or paid out by the pool to a staker (claim)
+export type PrtStakingPoolEvent = PrtStakingPoolEventBase & (
+  { type: "stake" | "unstake" | "claim"; account: Address; amount: BigNumber } |
+  { type: "transfer"; account: Address; recipient: Address; amount: BigNumber } |
+  { type: "distribution"; amount: BigNumber }
+);
+
+export interface PrtStakingSnapshot {
+  index: number;
+  blockNumber: number;
+  transactionHash: string;
+  amount: BigNumber;                          // Reward tokens accrued to the pool
+  totalStaked: BigNumber;
+  rewards: { [staker: string]: BigNumber };   // Share of each staker with a stake at the snapshot
+  unallocated: BigNumber;                     // Rounding dust, or the full amount when nothing was staked
+}
+
+export interface PrtStakerRewards {
+  staked: BigNumber;
+  earned: BigNumber;
+  claimed: BigNumber;
+  claimable: BigNumber;
+}
+
+/**
+ * Replays the stakes, unstakes, stake transfers, reward distributions and claims of a PRT staking pool. Every
+ * distribution, i.e. each IPrtStakingPool.accrue call of PrtFeeSplitExtension.accrueFeesAndDistribute, snapshots the
+ * stakes and splits the accrued amount pro rata, rounding each staker's share down: amount * stake / totalStaked.
+ */
+export class PrtStakingLedger {
+  public snapshots: PrtStakingSnapshot[] = [];
+
+  private _stakes: { [staker: string]: BigNumber } = {};
+  private _earned: { [staker: string]: BigNumber } = {};
+  private _claimed: { [staker: string]: BigNumber } = {};
+  private _lastEvent: PrtStakingPoolEvent | undefined;
+
+  public static fromEvents(events: PrtStakingPoolEvent[]): PrtStakingLedger {
+    const ledger = new PrtStakingLedger();
+    events.forEach(event => ledger.apply(event));
+    return ledger;
+  }
+
+  public apply(event: PrtStakingPoolEvent): void {
+    if (this._lastEvent && comparePrtStakingPoolEvents(this._lastEvent, event) > 0) {
+      throw new Error(`Event at block ${event.blockNumber} log ${event.logIndex} is applied out of order`);
+    }
+    this._lastEvent = event;
+
+    switch (event.type) {
+      case "stake":
+        this._stakes[getAddress(event.account)] = this.getStake(event.account).add(event.amount);
+        break;
+      case "unstake":
+        this.unstake(event.account, event.amount);
+        break;
+      case "transfer":
+        this.unstake(event.account, event.amount);
+        this._stakes[getAddress(event.recipient)] = this.getStake(event.recipient).add(event.amount);
+        break;
+      case "distribution":
+        this.distribute(event);
+        break;
+      case "claim":
+        this.claim(event.account, event.amount);
+        break;
+    }
+  }
+
+  public getStake(staker: Address): BigNumber {
+    return this._stakes[getAddress(staker)] || ZERO;
+  }
+
+  public getTotalStaked(): BigNumber {
+    return Object.keys(this._stakes).reduce((total, staker) => total.add(this._stakes[staker]), ZERO);
+  }
+
+  public getStakerRewards(): { [staker: string]: PrtStakerRewards } {
+    const stakers = new Set([...Object.keys(this._stakes), ...Object.keys(this._earned)]);
+
+    const rewards: { [staker: string]: PrtStakerRewards } = {};
+    Array.from(stakers).sort().forEach(staker => {
+      const earned = this._earned[staker] || ZERO;
+      const claimed = this._claimed[staker] || ZERO;
+      rewards[staker] = { staked: this.getStake(staker), earned, claimed, claimable: earned.sub(claimed) };
+    });
+    return rewards;
+  }
+
+  /**
+   * Rewards per staker in the format parseBalanceMap takes, e.g. to pay out through a MerkleDistributor when the
+   * pool cannot. Stakers without rewards are left out.
+   *
+   * @param amount      "claimable" for rewards not yet claimed from the pool, "earned" for all rewards
+   * @param token       Reward token, set on every entry for the multiToken leaf schema
+   */
+  public toDistribution(amount: "claimable" | "earned" = "claimable", token?: Address): DistributionFormat[] {
+    const rewards = this.getStakerRewards();
+    return Object.keys(rewards)
+      .filter(staker => rewards[staker][amount].gt(0))
+      .map(staker => ({ address: staker, earnings: rewards[staker][amount], token }));
+  }
+
+  private unstake(staker: Address, amount: BigNumber): void {
+    const stake = this.getStake(staker);
+    if (amount.gt(stake)) {
+      throw new Error(`Unstake of ${amount.toString()} by ${staker} exceeds its stake of ${stake.toString()}`);
+    }
+    this._stakes[getAddress(staker)] = stake.sub(amount);
+  }
+
+  private distribute(event: PrtStakingPoolEventBase & { amount: BigNumber }): void {
+    const totalStaked = this.getTotalStaked();
+
+    const rewards: { [staker: string]: BigNumber } = {};
+    let allocated = ZERO;
+    if (totalStaked.gt(0)) {
+      Object.keys(this._stakes).filter(staker => this._stakes[staker].gt(0)).forEach(staker => {
+        rewards[staker] = event.amount.mul(this._stakes[staker]).div(totalStaked);
+        this._earned[staker] = (this._earned[staker] || ZERO).add(rewards[staker]);
+        allocated = allocated.add(rewards[staker]);
+      });
+    }
+
+    this.snapshots.push({
+      index: this.snapshots.length,
+      blockNumber: event.blockNumber,
+      transactionHash: event.transactionHash,
+      amount: event.amount,
+      totalStaked,
+      rewards,
+      unallocated: event.amount.sub(allocated),
+    });
+  }
+
+  private claim(staker: Address, amount: BigNumber): void {
+    const checksummed = getAddress(staker);
+    const claimable = (this._earned[checksummed] || ZERO).sub(this._claimed[checksummed] || ZERO);
+    if (amount.gt(claimable)) {
+      throw new Error(`Claim of ${amount.toString()} by ${staker} exceeds its claimable ${claimable.toString()}`);
+    }
+    this._claimed[checksummed] = (this._claimed[checksummed] || ZERO).add(amount);
+  }
+}
+
+export const comparePrtStakingPoolEvents = (a: PrtStakingPoolEvent, b: PrtStakingPoolEvent): number => {
+  return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+};
@@ -0,0 +1,96 @@
+import { JsonRpcProvider, Log, Web3Provider } from "@ethersproject/providers";
+import { ethers, utils } from "ethers";
+
+import { ADDRESS_ZERO } from "../constants";
+import { Address } from "../types";
+import { comparePrtStakingPoolEvents, PrtStakingPoolEvent } from "./prtStakingLedger";
+
+export interface PrtStakingPoolEventQuery {
+  pool: Address;
+  fromBlock: number;              // Deployment block of the pool, stakes made before it are missing from a replay
+  toBlock?: number;               // Defaults to the latest block
+  rewardToken?: Address;          // Defaults to the pool's rewardToken()
+  distributor?: Address;          // Defaults to the pool's distributor(), reward transfers from other senders are ignored
+  blockChunkSize?: number;        // Blocks per eth_getLogs request, defaults to 2000
+}
+
+const DEFAULT_BLOCK_CHUNK_SIZE = 2000;
+
+const PRT_STAKING_POOL_ABI = [
+  "function rewardToken() view returns (address)",
+  "function distributor() view returns (address)",
+];
+
+const TRANSFER_EVENT = "event Transfer(address indexed from, address indexed to, uint256 value)";
+const transferInterface = new utils.Interface([TRANSFER_EVENT]);
+
+/**
+ * Reads the events a PrtStakingLedger replays from an IPrtStakingPool whose staked positions are its own ERC20
+ * shares, minted one per staked token like the PRT Staking Pool's: share mints are stakes, share burns unstakes and
+ * share transfers move a stake between stakers; reward tokens sent by the distributor are distributions and reward
+ * tokens sent by the pool claims of the receiver. Stake tokens sent to the pool without minting shares, i.e.
+ * donations, are not stakes and are ignored. Pools that don't issue shares cannot be replayed.
+ *
+ * @param provider    Provider to read the pool and transfers from
+ * @param query       Pool, block range and token overrides
+ * @return            Pool events ordered by block and log index
+ */
+export const getPrtStakingPoolEvents = async (
+  provider: Web3Provider | JsonRpcProvider,
+  query: PrtStakingPoolEventQuery
+): Promise<PrtStakingPoolEvent[]> => {
+  const pool = new ethers.Contract(query.pool, PRT_STAKING_POOL_ABI, provider);
+  const rewardToken: Address = query.rewardToken || await pool.rewardToken();
+  const distributor: Address = query.distributor || await pool.distributor();
+  const toBlock = query.toBlock === undefined ? await provider.getBlockNumber() : query.toBlock;
+  const chunkSize = query.blockChunkSize || DEFAULT_BLOCK_CHUNK_SIZE;
+
+  const getTransfers = async (token: Address, from?: Address, to?: Address) => {
+    const filter = new ethers.Contract(token, [TRANSFER_EVENT], provider).filters.Transfer(from, to);
+    return await getLogs(provider, filter, query.fromBlock, toBlock, chunkSize);
+  };
+
+  const events: PrtStakingPoolEvent[] = [
+    ...(await getTransfers(query.pool)).map(toShareEvent),
+    ...(await getTransfers(rewardToken, distributor, query.pool)).map(log => toRewardEvent(log, "distribution")),
+    ...(await getTransfers(rewardToken, query.pool, undefined)).map(log => toRewardEvent(log, "claim")),
+  ];
+
+  return events.sort(comparePrtStakingPoolEvents);
+};
+
+const toEventBase = (log: Log) => {
+  return { blockNumber: log.blockNumber, transactionHash: log.transactionHash, logIndex: log.logIndex };
+};
+
+const toShareEvent = (log: Log): PrtStakingPoolEvent => {
+  const { args } = transferInterface.parseLog(log);
+  const from = utils.getAddress(args.from);
+  const to = utils.getAddress(args.to);
+
+  if (from === ADDRESS_ZERO) return { ...toEventBase(log), type: "stake", account: to, amount: args.value };
+  if (to === ADDRESS_ZERO) return { ...toEventBase(log), type: "unstake", account: from, amount: args.value };
+  return { ...toEventBase(log), type: "transfer", account: from, recipient: to, amount: args.value };
+};
+
+const toRewardEvent = (log: Log, type: "distribution" | "claim"): PrtStakingPoolEvent => {
+  const { args } = transferInterface.parseLog(log);
+
+  if (type === "distribution") return { ...toEventBase(log), type, amount: args.value };
+  return { ...toEventBase(log), type, account: utils.getAddress(args.to), amount: args.value };
+};
+
+const getLogs = async (
+  provider: Web3Provider | JsonRpcProvider,
+  filter: ethers.EventFilter,
+  fromBlock: number,
+  toBlock: number,
+  chunkSize: number
+): Promise<Log[]> => {
+  const logs: Log[] = [];
+  for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+    const end = Math.min(start + chunkSize - 1, toBlock);
+    logs.push(...await provider.getLogs({ ...filter, fromBlock: start, toBlock: end }));
+  }
+  return logs;
+};
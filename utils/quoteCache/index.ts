@@ -0,0 +1,19 @@
+export {
+  getQuoteUrl,
+  QuoteCache,
+  QuoteCacheEntry,
+  QuoteCacheOptions,
+  QuoteLookup,
+} from "./quoteCache";
+export {
+  QuoteCacheServer,
+} from "./quoteCacheServer";
+export {
+  oneInchQuoteProvider,
+  paraswapQuoteProvider,
+  QUOTE_PROVIDERS,
+  QuoteProvider,
+  QuoteRequest,
+  zeroExV1QuoteProvider,
+  zeroExV2QuoteProvider,
+} from "./quoteProviders";
@@ -0,0 +1,150 @@
+import fs from "fs";
+import https from "https";
+import path from "path";
+import { URL, URLSearchParams } from "url";
+
+import { QuoteProvider, QuoteRequest } from "./quoteProviders";
+
+export interface QuoteLookup extends QuoteRequest {
+  blockNumber?: number;     // Block the quote is needed at, usually the fork block. The newest entry is used when unset
+  blockRange?: number;      // Max distance between blockNumber and the block of a cached entry, defaults to 0
+}
+
+export interface QuoteCacheEntry {
+  provider: string;
+  chainId: number;
+  endpoint: string;
+  params: { [name: string]: string };
+  blockNumber: number;
+  response: any;
+}
+
+export interface QuoteCacheOptions {
+  directory?: string;       // Defaults to data/quoteCache
+  offline?: boolean;        // Fail on cache misses instead of calling the API, defaults to QUOTE_CACHE_OFFLINE=true
+  maxRetries?: number;      // Retries on rate limited or unavailable responses
+}
+
+const DEFAULT_DIRECTORY = path.resolve(__dirname, "../../data/quoteCache");
+const RETRY_STATUSES = [429, 503];
+
+/**
+ * Caches aggregator API responses on disk, one file per response at
+ * <directory>/<provider>/<chainId>/<endpoint>-<key params>/<block>.json, so entries can be added and reviewed
+ * individually. A cached response is reused while the requested block is within blockRange of the block it was
+ * fetched at, the closest one if several are. In offline mode a missing response is an error instead of an API call.
+ */
+export class QuoteCache {
+  public directory: string;
+  public offline: boolean;
+  public maxRetries: number;
+
+  constructor(options: QuoteCacheOptions = {}) {
+    this.directory = options.directory || DEFAULT_DIRECTORY;
+    this.offline = options.offline !== undefined ? options.offline : process.env.QUOTE_CACHE_OFFLINE === "true";
+    this.maxRetries = options.maxRetries !== undefined ? options.maxRetries : 40;
+  }
+
+  public async getQuote(provider: QuoteProvider, lookup: QuoteLookup): Promise<any> {
+    const cached = this.getCachedQuote(provider, lookup);
+    if (cached) return cached.response;
+
+    if (this.offline) {
+      throw new Error(
+        `No cached ${provider.name} response for ${this.getEntryDirectory(provider, lookup)} within ${lookup.blockRange || 0} ` +
+        `blocks of ${lookup.blockNumber}, run without QUOTE_CACHE_OFFLINE to fetch it`
+      );
+    }
+
+    const response = await fetchQuote(provider, lookup, this.maxRetries);
+    this.saveQuote(provider, lookup, response);
+    return response;
+  }
+
+  public getCachedQuote(provider: QuoteProvider, lookup: QuoteLookup): QuoteCacheEntry | undefined {
+    const entryDirectory = this.getEntryDirectory(provider, lookup);
+    if (!fs.existsSync(entryDirectory)) return undefined;
+
+    const cachedBlocks = fs.readdirSync(entryDirectory)
+      .filter(file => file.endsWith(".json"))
+      .map(file => Number(path.basename(file, ".json")))
+      .sort((a, b) => b - a);
+
+    // Closest entry within blockRange, the newer one on a tie
+    const blockRange = lookup.blockRange || 0;
+    const getDistance = (block: number) => Math.abs(block - (lookup.blockNumber as number));
+    const cachedBlock = lookup.blockNumber === undefined
+      ? cachedBlocks[0]
+      : cachedBlocks
+        .filter(block => getDistance(block) <= blockRange)
+        .reduce<number | undefined>((closest, block) => {
+          return closest === undefined || getDistance(block) < getDistance(closest) ? block : closest;
+        }, undefined);
+    if (cachedBlock === undefined) return undefined;
+
+    return JSON.parse(fs.readFileSync(path.join(entryDirectory, `${cachedBlock}.json`), "utf8"));
+  }
+
+  // Writes the response to its own entry file and returns the file's path
+  public saveQuote(provider: QuoteProvider, lookup: QuoteLookup, response: any): string {
+    const responseBlock = provider.getResponseBlock ? provider.getResponseBlock(response) : undefined;
+    const blockNumber = responseBlock !== undefined ? responseBlock : lookup.blockNumber;
+    if (blockNumber === undefined) {
+      throw new Error(`${provider.name} doesn't report a block for its responses, pass the block number to cache them at`);
+    }
+
+    const entry: QuoteCacheEntry = {
+      provider: provider.name,
+      chainId: lookup.chainId,
+      endpoint: lookup.endpoint,
+      params: lookup.params,
+      blockNumber,
+      response,
+    };
+
+    const entryDirectory = this.getEntryDirectory(provider, lookup);
+    const filePath = path.join(entryDirectory, `${blockNumber}.json`);
+    fs.mkdirSync(entryDirectory, { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(entry, undefined, 2) + "\n", "utf8");
+
+    return filePath;
+  }
+
+  public getEntryDirectory(provider: QuoteProvider, request: QuoteRequest): string {
+    const keyValues = provider.keyParams
+      .filter(name => request.params[name] !== undefined)
+      .map(name => request.params[name].toLowerCase());
+
+    return path.join(this.directory, provider.name, request.chainId.toString(), [request.endpoint, ...keyValues].join("-"));
+  }
+}
+
+export const getQuoteUrl = (provider: QuoteProvider, request: QuoteRequest, baseUrl?: string): string => {
+  const query = new URLSearchParams(provider.getQuery(request)).toString();
+  return `${baseUrl || provider.getBaseUrl(request.chainId)}${provider.getPath(request)}?${query}`;
+};
+
+const fetchQuote = async (provider: QuoteProvider, request: QuoteRequest, maxRetries: number): Promise<any> => {
+  const url = getQuoteUrl(provider, request);
+
+  for (let retryCount = 0; ; retryCount++) {
+    const { status, body } = await getUrl(url, provider.getHeaders());
+
+    if (status >= 200 && status < 300) return JSON.parse(body);
+    if (!RETRY_STATUSES.includes(status) || retryCount >= maxRetries) {
+      throw new Error(`${provider.name} request ${url} failed with status ${status}: ${body.slice(0, 500)}`);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
+};
+
+const getUrl = (url: string, headers: { [name: string]: string }): Promise<{ status: number; body: string }> => {
+  return new Promise((resolve, reject) => {
+    https.get(new URL(url), { headers }, response => {
+      let body = "";
+      response.on("data", chunk => body += chunk);
+      response.on("end", () => resolve({ status: response.statusCode || 0, body }));
+    }).on("error", reject);
+  });
+};
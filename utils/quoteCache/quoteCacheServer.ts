@@ -0,0 +1,89 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { URL } from "url";
+
+import { QuoteCache } from "./quoteCache";
+import { QUOTE_PROVIDERS, QuoteProvider } from "./quoteProviders";
+
+/**
+ * Local stand-in for the aggregator APIs that answers from a QuoteCache only, so code making its own HTTP requests
+ * (e.g. through axios) can run in tests without network access. Point such code at getBaseUrl(provider, chainId)
+ * instead of the provider's base url; a response missing from the cache is returned as a 404.
+ */
+export class QuoteCacheServer {
+  public cache: QuoteCache;
+  public providers: QuoteProvider[];
+  public blockNumber: number | undefined;     // Block quotes are looked up at, e.g. the fork block of the suite
+  public blockRange: number | undefined;
+
+  private _server: http.Server | undefined;
+  private _url: string | undefined;
+
+  constructor(
+    cache: QuoteCache,
+    blockNumber?: number,
+    blockRange?: number,
+    providers: QuoteProvider[] = QUOTE_PROVIDERS
+  ) {
+    this.cache = cache;
+    this.blockNumber = blockNumber;
+    this.blockRange = blockRange;
+    this.providers = providers;
+  }
+
+  // Starts the server on a random local port and returns its url
+  public async start(): Promise<string> {
+    const server = http.createServer((request, response) => {
+      const { status, body } = this.handleRequest(request.url || "/");
+
+      response.writeHead(status, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(body));
+    });
+    this._server = server;
+
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", () => resolve()));
+    this._url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return this._url;
+  }
+
+  public async stop(): Promise<void> {
+    const server = this._server;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      this._server = undefined;
+      this._url = undefined;
+    }
+  }
+
+  // Base url to use in place of provider.getBaseUrl(chainId), paths and query parameters stay those of the real API
+  public getBaseUrl(provider: QuoteProvider, chainId: number): string {
+    if (!this._url) throw new Error("QuoteCacheServer is not started");
+    return `${this._url}/${provider.name}/${chainId}`;
+  }
+
+  private handleRequest(requestUrl: string): { status: number; body: any } {
+    const url = new URL(requestUrl, "http://127.0.0.1");
+    const [providerName, chainId, ...route] = url.pathname.split("/").filter(segment => segment !== "");
+    const provider = this.providers.find(candidate => candidate.name === providerName);
+
+    if (!provider || !chainId || route.length === 0) {
+      return { status: 404, body: { reason: `Unknown route ${url.pathname}` } };
+    }
+
+    const params: { [name: string]: string } = {};
+    url.searchParams.forEach((value, name) => params[name] = value);
+
+    const entry = this.cache.getCachedQuote(provider, {
+      chainId: Number(chainId),
+      endpoint: route[route.length - 1],
+      params,
+      blockNumber: this.blockNumber,
+      blockRange: this.blockRange,
+    });
+
+    if (!entry) {
+      return { status: 404, body: { reason: `No cached ${provider.name} response for ${requestUrl}` } };
+    }
+    return { status: 200, body: entry.response };
+  }
+}
@@ -0,0 +1,90 @@
+export interface QuoteRequest {
+  chainId: number;
+  endpoint: string;                         // Last segment of the API route, e.g. "price" or "quote"
+  params: { [name: string]: string };       // Query parameters sent to the API
+}
+
+/**
+ * Describes how to call an aggregator API and which of its query parameters identify a quote. Parameters outside
+ * keyParams (taker, slippage, ...) are sent to the API but don't change which cached response is returned.
+ */
+export interface QuoteProvider {
+  name: string;
+  keyParams: string[];
+  getBaseUrl(chainId: number): string;
+  getPath(request: QuoteRequest): string;
+  getQuery(request: QuoteRequest): { [name: string]: string };
+  getHeaders(): { [name: string]: string };
+  getResponseBlock?(response: any): number | undefined;   // Block the API priced the quote at, if it reports one
+}
+
+const ZERO_EX_V1_BASE_URLS: { [chainId: number]: string } = {
+  1: "https://api.0x.org",
+  10: "https://optimism.api.0x.org",
+  137: "https://polygon.api.0x.org",
+  8453: "https://base.api.0x.org",
+  42161: "https://arbitrum.api.0x.org",
+};
+
+const getZeroExHeaders = (version?: string): { [name: string]: string } => {
+  const headers: { [name: string]: string } = {};
+  if (process.env.ZERO_EX_API_KEY) headers["0x-api-key"] = process.env.ZERO_EX_API_KEY;
+  if (version) headers["0x-version"] = version;
+  return headers;
+};
+
+// 0x allowance holder API, as used by the FlashMintZeroEx and FlashMintLeveragedZeroEx integration tests
+export const zeroExV2QuoteProvider: QuoteProvider = {
+  name: "zeroExV2",
+  keyParams: ["sellToken", "buyToken", "sellAmount"],
+  getBaseUrl: () => "https://api.0x.org",
+  getPath: ({ endpoint }) => `/swap/allowance-holder/${endpoint}`,
+  getQuery: ({ chainId, params }) => ({ chainId: chainId.toString(), ...params }),
+  getHeaders: () => getZeroExHeaders("v2"),
+  getResponseBlock: response => response.blockNumber ? Number(response.blockNumber) : undefined,
+};
+
+// 0x swap v1 API, served from a subdomain per chain
+export const zeroExV1QuoteProvider: QuoteProvider = {
+  name: "zeroExV1",
+  keyParams: ["sellToken", "buyToken", "sellAmount", "buyAmount"],
+  getBaseUrl: chainId => {
+    if (!ZERO_EX_V1_BASE_URLS[chainId]) throw new Error(`0x v1 API is not available on chain ${chainId}`);
+    return ZERO_EX_V1_BASE_URLS[chainId];
+  },
+  getPath: ({ endpoint }) => `/swap/v1/${endpoint}`,
+  getQuery: ({ params }) => params,
+  getHeaders: () => getZeroExHeaders(),
+};
+
+// 1inch swap API, endpoints are "quote" and "swap"
+export const oneInchQuoteProvider: QuoteProvider = {
+  name: "oneInch",
+  keyParams: ["src", "dst", "amount"],
+  getBaseUrl: () => "https://api.1inch.dev",
+  getPath: ({ chainId, endpoint }) => `/swap/v6.0/${chainId}/${endpoint}`,
+  getQuery: ({ params }) => params,
+  getHeaders: (): { [name: string]: string } => {
+    return process.env.ONE_INCH_API_KEY ? { Authorization: `Bearer ${process.env.ONE_INCH_API_KEY}` } : {};
+  },
+};
+
+// Paraswap API, endpoints are "prices" and "swap"
+export const paraswapQuoteProvider: QuoteProvider = {
+  name: "paraswap",
+  keyParams: ["srcToken", "destToken", "amount", "side"],
+  getBaseUrl: () => "https://api.paraswap.io",
+  getPath: ({ endpoint }) => `/${endpoint}`,
+  getQuery: ({ chainId, params }) => ({ network: chainId.toString(), ...params }),
+  getHeaders: () => ({}),
+  getResponseBlock: response => response.priceRoute && response.priceRoute.blockNumber
+    ? Number(response.priceRoute.blockNumber)
+    : undefined,
+};
+
+export const QUOTE_PROVIDERS: QuoteProvider[] = [
+  zeroExV2QuoteProvider,
+  zeroExV1QuoteProvider,
+  oneInchQuoteProvider,
+  paraswapQuoteProvider,
+];
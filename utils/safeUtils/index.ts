@@ -0,0 +1,19 @@
+export {
+  buildSafeBatchTransaction,
+  buildSafeTransactionBatch,
+  calculateSafeBatchChecksum,
+  SafeBatchTransaction,
+  SafeContractMethodInput,
+  SafeTransactionBatch,
+} from "./safeTransactionBatch";
+export {
+  SafeBatchBuilder,
+  SafeBatchSigner,
+} from "./safeBatchBuilder";
+export {
+  getSafeBatchCalldata,
+  getSimulatedChainId,
+  SafeBatchSimulationOptions,
+  SafeBatchSimulationResult,
+  simulateSafeBatch,
+} from "./safeBatchSimulator";
@@ -0,0 +1,145 @@
+import fs from "fs";
+import { Provider, TransactionRequest, TransactionResponse } from "@ethersproject/providers";
+import { BigNumber, Contract, ethers, Signer, utils } from "ethers";
+
+import { Address, Bytes } from "../types";
+import { buildSafeBatchTransaction, buildSafeTransactionBatch, SafeBatchTransaction, SafeTransactionBatch } from "./safeTransactionBatch";
+
+/**
+ * Collects calls a Safe should make into a Safe Transaction Builder batch instead of sending them. Calls are added
+ * explicitly with `add`, or captured from typechain contracts connected through `capture`, e.g.
+ *
+ *   const builder = new SafeBatchBuilder(operatorSafe, 1, ethers.provider);
+ *   await builder.capture(delegatedManager).addExtensions([extension.address]);
+ *   await builder.capture(flashMint).approveSetToken(setToken.address, debtIssuanceModule.address);
+ *   builder.write("batch.json", "Add extension");
+ */
+export class SafeBatchBuilder {
+  public safe: Address;
+  public chainId: number;
+  public transactions: SafeBatchTransaction[] = [];
+  public signer: SafeBatchSigner;
+
+  private _interfaces: { [address: string]: utils.Interface } = {};
+
+  constructor(safe: Address, chainId: number, provider?: Provider) {
+    this.safe = utils.getAddress(safe);
+    this.chainId = chainId;
+    this.signer = new SafeBatchSigner(this, provider);
+  }
+
+  public add(contract: Contract, method: string, args: any[], value: BigNumber = BigNumber.from(0)): SafeBatchTransaction {
+    const transaction = buildSafeBatchTransaction(contract.address, contract.interface.getFunction(method), args, value.toString());
+    this.transactions.push(transaction);
+    return transaction;
+  }
+
+  // Records a call by calldata. Calls to contracts passed to `capture` are decoded for review
+  public addCalldata(to: Address, data: Bytes, value: BigNumber = BigNumber.from(0)): SafeBatchTransaction {
+    const iface = this._interfaces[utils.getAddress(to)];
+
+    let transaction: SafeBatchTransaction = { to: utils.getAddress(to), value: value.toString(), data };
+    if (iface) {
+      try {
+        const call = iface.parseTransaction({ data, value });
+        transaction = buildSafeBatchTransaction(to, call.functionFragment, [...call.args], value.toString());
+      } catch (error) {
+        // Not a function of the registered interface, keep the raw calldata
+      }
+    }
+
+    this.transactions.push(transaction);
+    return transaction;
+  }
+
+  // Connects a contract to the capturing signer: transactions sent through it are added to the batch, view calls
+  // still go to the provider
+  public capture<T extends Contract>(contract: T): T {
+    this._interfaces[utils.getAddress(contract.address)] = contract.interface;
+    return contract.connect(this.signer) as T;
+  }
+
+  public toBatch(name: string, description?: string): SafeTransactionBatch {
+    return buildSafeTransactionBatch(this.chainId, this.safe, this.transactions, name, description);
+  }
+
+  public write(filePath: string, name: string, description?: string): SafeTransactionBatch {
+    const batch = this.toBatch(name, description);
+    fs.writeFileSync(filePath, JSON.stringify(batch, undefined, 2) + "\n", "utf8");
+    return batch;
+  }
+}
+
+/**
+ * Signer standing in for a Safe. sendTransaction adds the call to the builder's batch and returns a placeholder
+ * response whose wait() resolves immediately, so helpers written against a Signer run unchanged.
+ */
+export class SafeBatchSigner extends Signer {
+  public builder: SafeBatchBuilder;
+
+  constructor(builder: SafeBatchBuilder, provider?: Provider) {
+    super();
+    this.builder = builder;
+    utils.defineReadOnly(this, "provider", provider);
+  }
+
+  public async getAddress(): Promise<string> {
+    return this.builder.safe;
+  }
+
+  public async signMessage(): Promise<string> {
+    throw new Error("SafeBatchSigner only collects transactions, messages must be signed by the Safe owners");
+  }
+
+  public async signTransaction(): Promise<string> {
+    throw new Error("SafeBatchSigner only collects transactions, use sendTransaction to add them to the batch");
+  }
+
+  public connect(provider: Provider): SafeBatchSigner {
+    return new SafeBatchSigner(this.builder, provider);
+  }
+
+  public async sendTransaction(transaction: utils.Deferrable<TransactionRequest>): Promise<TransactionResponse> {
+    const request = await utils.resolveProperties(transaction);
+    if (!request.to) {
+      throw new Error("Contract deployments cannot be added to a Safe batch");
+    }
+
+    const value = BigNumber.from(request.value || 0);
+    const data = utils.hexlify(request.data || "0x");
+    this.builder.addCalldata(request.to, data, value);
+
+    const index = this.builder.transactions.length - 1;
+    const hash = utils.id(`safe-batch:${this.builder.safe}:${index}`);
+    return {
+      hash,
+      to: request.to,
+      from: this.builder.safe,
+      nonce: index,
+      gasLimit: BigNumber.from(request.gasLimit || 0),
+      gasPrice: BigNumber.from(0),
+      data,
+      value,
+      chainId: this.builder.chainId,
+      confirmations: 0,
+      wait: async () => ({
+        to: request.to!,
+        from: this.builder.safe,
+        contractAddress: ethers.constants.AddressZero,
+        transactionIndex: index,
+        gasUsed: BigNumber.from(0),
+        logsBloom: "0x",
+        blockHash: ethers.constants.HashZero,
+        transactionHash: hash,
+        logs: [],
+        blockNumber: 0,
+        confirmations: 0,
+        cumulativeGasUsed: BigNumber.from(0),
+        effectiveGasPrice: BigNumber.from(0),
+        byzantium: true,
+        type: 0,
+        status: 1,
+      }),
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import { JsonRpcProvider } from "@ethersproject/providers";
+import { BigNumber, utils } from "ethers";
+
+import { Address } from "../types";
+import { SafeBatchTransaction, SafeTransactionBatch } from "./safeTransactionBatch";
+
+export interface SafeBatchSimulationOptions {
+  safe?: Address;               // Defaults to the batch's createdFromSafeAddress
+  continueOnFailure?: boolean;  // MultiSend reverts the whole batch on a failed call, so replay stops there by default
+}
+
+export interface SafeBatchSimulationResult {
+  index: number;
+  to: Address;
+  method?: string;
+  success: boolean;
+  gasUsed?: number;
+  error?: string;
+}
+
+const SIMULATION_BALANCE = utils.parseEther("1000");
+
+/**
+ * Replays a Safe Transaction Builder batch on a hardhat node, typically forked at the chain of the batch, sending
+ * every call from the impersonated Safe. Calls are sent one transaction each rather than through MultiSend, so
+ * gasUsed includes the base cost of a transaction per call. Like MultiSend, the replay stops at the first failed
+ * call unless continueOnFailure is set. The whole replay, including the ETH the Safe is funded with, runs inside an
+ * evm_snapshot that is reverted afterwards, so simulating a batch leaves the node's state unchanged.
+ *
+ * @param provider    Provider of a hardhat node running, or forking, the chain of the batch
+ * @param batch       Batch to replay
+ * @param options     Safe to impersonate and whether to keep going after a failed call
+ * @return            Outcome and gas used of each call, up to and including the first failure
+ */
+export const simulateSafeBatch = async (
+  provider: JsonRpcProvider,
+  batch: SafeTransactionBatch,
+  options: SafeBatchSimulationOptions = {}
+): Promise<SafeBatchSimulationResult[]> => {
+  const safe = options.safe || batch.meta.createdFromSafeAddress;
+  if (!safe) {
+    throw new Error("Batch has no createdFromSafeAddress, pass the Safe to impersonate");
+  }
+
+  const chainId = await getSimulatedChainId(provider);
+  if (Number(batch.chainId) !== chainId) {
+    throw new Error(`Batch is for chain ${batch.chainId}, but the node runs chain ${chainId}`);
+  }
+
+  const snapshotId = await provider.send("evm_snapshot", []);
+
+  await provider.send("hardhat_impersonateAccount", [safe]);
+  const previousBalance = await provider.getBalance(safe);
+  await provider.send("hardhat_setBalance", [safe, utils.hexStripZeros(SIMULATION_BALANCE.add(previousBalance).toHexString())]);
+
+  const signer = provider.getSigner(safe);
+  const results: SafeBatchSimulationResult[] = [];
+  try {
+    for (let index = 0; index < batch.transactions.length; index++) {
+      const transaction = batch.transactions[index];
+      const result: SafeBatchSimulationResult = {
+        index,
+        to: transaction.to,
+        method: transaction.contractMethod && transaction.contractMethod.name,
+        success: false,
+      };
+
+      try {
+        const receipt = await (await signer.sendTransaction({
+          to: transaction.to,
+          data: getSafeBatchCalldata(transaction),
+          value: BigNumber.from(transaction.value || 0),
+        })).wait();
+        result.success = receipt.status === 1;
+        result.gasUsed = receipt.gasUsed.toNumber();
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error);
+      }
+
+      results.push(result);
+      if (!result.success && !options.continueOnFailure) break;
+    }
+  } finally {
+    await provider.send("evm_revert", [snapshotId]);
+    await provider.send("hardhat_stopImpersonatingAccount", [safe]);
+  }
+
+  return results;
+};
+
+// Chain the hardhat node runs or, when it forks another chain, the forked chain
+export const getSimulatedChainId = async (provider: JsonRpcProvider): Promise<number> => {
+  const metadata = await provider.send("hardhat_metadata", []);
+  return metadata.forkedNetwork ? metadata.forkedNetwork.chainId : metadata.chainId;
+};
+
+// Calldata of a batch transaction. Transactions created in the Transaction Builder UI may only carry the decoded call
+export const getSafeBatchCalldata = (transaction: SafeBatchTransaction): string => {
+  if (transaction.data) return transaction.data;
+  if (!transaction.contractMethod) return "0x";
+
+  const { name, inputs, payable } = transaction.contractMethod;
+  const fragment = utils.FunctionFragment.from({ type: "function", name, inputs, stateMutability: payable ? "payable" : "nonpayable" });
+  const values = inputs.map(input => {
+    const value = (transaction.contractInputsValues || {})[input.name];
+    return input.type.endsWith("]") || input.type.startsWith("tuple") ? JSON.parse(value) : value;
+  });
+
+  return new utils.Interface([fragment]).encodeFunctionData(fragment, values);
+};
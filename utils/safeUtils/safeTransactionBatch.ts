@@ -0,0 +1,136 @@
+import { utils } from "ethers";
+
+import { Address, Bytes } from "../types";
+
+export interface SafeContractMethodInput {
+  internalType: string;
+  name: string;
+  type: string;
+  components?: SafeContractMethodInput[];   // Members of tuple inputs
+}
+
+export interface SafeBatchTransaction {
+  to: Address;
+  value: string;
+  data: Bytes | undefined;
+  // Decoded call shown by the Transaction Builder for review. Tuple and array values are JSON encoded
+  contractMethod?: { inputs: SafeContractMethodInput[]; name: string; payable: boolean };
+  contractInputsValues?: { [input: string]: string };
+}
+
+// Safe Transaction Builder batch file, importable through the Transaction Builder app's drag and drop
+export interface SafeTransactionBatch {
+  version: string;
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description?: string;
+    txBuilderVersion?: string;
+    createdFromSafeAddress?: Address;
+    createdFromOwnerAddress?: Address;
+    checksum?: string;
+  };
+  transactions: SafeBatchTransaction[];
+}
+
+const SAFE_BATCH_VERSION = "1.0";
+const TX_BUILDER_VERSION = "1.16.5";
+
+/**
+ * Builds a SafeBatchTransaction from a contract call, decoding the calldata against `fragment` so reviewers see
+ * the method and arguments next to the raw data.
+ *
+ * @param to          Called contract
+ * @param fragment    Human readable function, e.g. "function setManager(address _newManager)"
+ * @param args        Arguments of the call
+ * @param value       Ether sent with the call
+ */
+export const buildSafeBatchTransaction = (
+  to: Address,
+  fragment: string | utils.FunctionFragment,
+  args: any[],
+  value: string = "0"
+): SafeBatchTransaction => {
+  const functionFragment = typeof fragment === "string" ? utils.FunctionFragment.from(fragment.replace(/^function /, "")) : fragment;
+  const iface = new utils.Interface([functionFragment]);
+
+  const inputs = functionFragment.inputs.map((input, i) => toSafeMethodInput(input, `arg${i}`));
+
+  const data = iface.encodeFunctionData(functionFragment, args);
+  const contractInputsValues: { [input: string]: string } = {};
+  iface.decodeFunctionData(functionFragment, data).forEach((arg, i) => {
+    const jsonValue = toSafeInputValue(arg);
+    contractInputsValues[inputs[i].name] = typeof jsonValue === "string" ? jsonValue : JSON.stringify(jsonValue);
+  });
+
+  return {
+    to: utils.getAddress(to),
+    value,
+    data,
+    contractMethod: { inputs, name: functionFragment.name, payable: !!functionFragment.payable },
+    contractInputsValues,
+  };
+};
+
+export const buildSafeTransactionBatch = (
+  chainId: number,
+  safe: Address,
+  transactions: SafeBatchTransaction[],
+  name: string,
+  description?: string
+): SafeTransactionBatch => {
+  const batch: SafeTransactionBatch = {
+    version: SAFE_BATCH_VERSION,
+    chainId: chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name,
+      description,
+      txBuilderVersion: TX_BUILDER_VERSION,
+      createdFromSafeAddress: utils.getAddress(safe),
+      createdFromOwnerAddress: "",
+    },
+    transactions,
+  };
+
+  batch.meta.checksum = calculateSafeBatchChecksum(batch);
+  return batch;
+};
+
+/**
+ * Checksum the Transaction Builder verifies on import: keccak256 of the batch serialized with sorted keys, with
+ * meta.name set to null and without the checksum itself.
+ */
+export const calculateSafeBatchChecksum = (batch: SafeTransactionBatch): string => {
+  const { checksum, ...meta } = batch.meta;
+
+  // Round trip through JSON so fields left undefined are dropped as they are from the saved file
+  const saved = JSON.parse(JSON.stringify({ ...batch, meta }));
+  return utils.id(serializeSafeBatchValue({ ...saved, meta: { ...saved.meta, name: undefined } }));
+};
+
+const toSafeMethodInput = (param: utils.ParamType, defaultName: string): SafeContractMethodInput => {
+  const input: SafeContractMethodInput = { internalType: param.type, name: param.name || defaultName, type: param.type };
+  if (param.components) {
+    input.components = param.components.map((component, i) => toSafeMethodInput(component, `field${i}`));
+  }
+  return input;
+};
+
+// Values as the Transaction Builder expects them in contractInputsValues, arrays and tuples are JSON encoded
+const toSafeInputValue = (value: any): string | any[] => {
+  if (Array.isArray(value)) return value.map(toSafeInputValue);
+  return value && value._isBigNumber ? value.toString() : String(value);
+};
+
+const serializeSafeBatchValue = (value: any): string => {
+  const replacer = (_: string, nested: any) => nested === undefined ? null : nested;  // tslint:disable-line:no-null-keyword
+
+  if (Array.isArray(value)) return `[${value.map(serializeSafeBatchValue).join(",")}]`;
+  if (typeof value === "object" && value) {
+    const keys = Object.keys(value).sort();
+    return `{${JSON.stringify(keys, replacer)}${keys.map(key => `${serializeSafeBatchValue(value[key])},`).join("")}}`;
+  }
+  return JSON.stringify(value, replacer);
+};
@@ -0,0 +1,24 @@
+export {
+  AllowedAssetChangedEvent,
+  compareSetTokenEvents,
+  decodeSetTokenEvent,
+  DelegatedManagerCreatedEvent,
+  DelegatedManagerInitializedEvent,
+  ExtensionChangedEvent,
+  FlashMintEvent,
+  IssuanceEvent,
+  MethodologistChangedEvent,
+  OperatorChangedEvent,
+  OwnerFeeRecipientUpdatedEvent,
+  OwnerFeeSplitUpdatedEvent,
+  SET_TOKEN_EVENT_TOPICS,
+  SetTokenCreatedEvent,
+  SetTokenEvent,
+  SetTokenEventType,
+  UseAssetAllowlistUpdatedEvent,
+} from "./setTokenEvents";
+export {
+  SetTokenEventIndexer,
+  SetTokenEventQuery,
+  SetTokenTimelines,
+} from "./setTokenEventIndexer";
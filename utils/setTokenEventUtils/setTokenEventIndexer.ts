@@ -0,0 +1,112 @@
+import { JsonRpcProvider, Log, Web3Provider } from "@ethersproject/providers";
+import { ethers } from "ethers";
+
+import { Address } from "../types";
+import {
+  compareSetTokenEvents,
+  decodeSetTokenEvent,
+  DelegatedManagerCreatedEvent,
+  SET_TOKEN_EVENT_TOPICS,
+  SetTokenEvent,
+  SetTokenEventType,
+} from "./setTokenEvents";
+
+export interface SetTokenEventQuery {
+  fromBlock: number;
+  toBlock?: number;               // Defaults to the latest block
+  addresses?: Address[];          // Only logs emitted by these contracts, e.g. a FlashMint contract and the issuance modules
+  flashMintNavs?: Address[];      // FlashMintNAV contracts, whose FlashMint event emits the SetToken amount first
+  setTokens?: Address[];
+  types?: SetTokenEventType[];
+  blockChunkSize?: number;        // Blocks per eth_getLogs request, defaults to 2000
+}
+
+export interface SetTokenTimelines {
+  [setToken: string]: SetTokenEvent[];
+}
+
+const DEFAULT_BLOCK_CHUNK_SIZE = 2000;
+
+const MANAGER_ABI = ["function setToken() external view returns (address)"];
+
+/**
+ * Decodes SetToken lifecycle events (creation, DelegatedManager setup and permission changes, issuance module and
+ * FlashMint issues and redeems) emitted over a block range and orders them into a timeline per SetToken.
+ *
+ * DelegatedManager events are attributed through the DelegatedManagerCreated event of the manager, or by calling
+ * setToken() on managers created before the queried range. Events of contracts without a setToken() are dropped.
+ */
+export class SetTokenEventIndexer {
+  private _provider: Web3Provider | JsonRpcProvider;
+  private _managerSetTokens: { [manager: string]: Address | undefined } = {};
+
+  constructor(_provider: Web3Provider | JsonRpcProvider) {
+    this._provider = _provider;
+  }
+
+  public async getEvents(query: SetTokenEventQuery): Promise<SetTokenEvent[]> {
+    const logs = await this.getLogs(query);
+    const events = logs
+      .map(log => decodeSetTokenEvent(log, query.flashMintNavs))
+      .filter((event): event is SetTokenEvent => event !== undefined)
+      .sort(compareSetTokenEvents);
+
+    events
+      .filter((event): event is DelegatedManagerCreatedEvent => event.type === "DelegatedManagerCreated")
+      .forEach(event => this._managerSetTokens[event.manager] = event.setToken);
+
+    const resolvedEvents: SetTokenEvent[] = [];
+    for (const event of events) {
+      const setToken = event.setToken || await this.getManagerSetToken(event.emitter);
+      if (setToken) resolvedEvents.push({ ...event, setToken });
+    }
+
+    const setTokens = query.setTokens && query.setTokens.map(setToken => ethers.utils.getAddress(setToken));
+    return resolvedEvents.filter(event => {
+      return (!setTokens || setTokens.includes(event.setToken)) && (!query.types || query.types.includes(event.type));
+    });
+  }
+
+  public async getTimelines(query: SetTokenEventQuery): Promise<SetTokenTimelines> {
+    const timelines: SetTokenTimelines = {};
+    (await this.getEvents(query)).forEach(event => {
+      timelines[event.setToken] = (timelines[event.setToken] || []).concat(event);
+    });
+    return timelines;
+  }
+
+  public async getTimeline(setToken: Address, query: SetTokenEventQuery): Promise<SetTokenEvent[]> {
+    return await this.getEvents({ ...query, setTokens: [setToken] });
+  }
+
+  private async getLogs(query: SetTokenEventQuery): Promise<Log[]> {
+    const toBlock = query.toBlock !== undefined ? query.toBlock : await this._provider.getBlockNumber();
+    const chunkSize = query.blockChunkSize || DEFAULT_BLOCK_CHUNK_SIZE;
+    const addresses: (Address | undefined)[] = query.addresses || [undefined];
+
+    const logs: Log[] = [];
+    for (const address of addresses) {
+      for (let fromBlock = query.fromBlock; fromBlock <= toBlock; fromBlock += chunkSize) {
+        logs.push(...await this._provider.getLogs({
+          address,
+          fromBlock,
+          toBlock: Math.min(fromBlock + chunkSize - 1, toBlock),
+          topics: [SET_TOKEN_EVENT_TOPICS],
+        }));
+      }
+    }
+    return logs;
+  }
+
+  private async getManagerSetToken(manager: Address): Promise<Address | undefined> {
+    if (!(manager in this._managerSetTokens)) {
+      try {
+        const contract = new ethers.Contract(manager, MANAGER_ABI, this._provider);
+        this._managerSetTokens[manager] = await contract.setToken();
+      } catch (error) {
+        this._managerSetTokens[manager] = undefined;
+      }
+    }
+    return this._managerSetTokens[manager];
+  }
+}
@@ -0,0 +1,259 @@
+import { Log } from "@ethersproject/providers";
+import { BigNumber, ethers } from "ethers";
+
+import { sameAddress } from "../common/addressUtils";
+import { Address } from "../types";
+
+interface SetTokenEventBase {
+  setToken: Address;
+  emitter: Address;           // Contract that emitted the event, e.g. the issuance module or FlashMint contract
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export type SetTokenCreatedEvent = SetTokenEventBase & { type: "SetTokenCreated"; manager: Address; name: string; symbol: string };
+export type DelegatedManagerCreatedEvent = SetTokenEventBase & { type: "DelegatedManagerCreated"; manager: Address; deployer: Address };
+export type DelegatedManagerInitializedEvent = SetTokenEventBase & { type: "DelegatedManagerInitialized"; manager: Address };
+
+export type ExtensionChangedEvent = SetTokenEventBase & {
+  type: "ExtensionAdded" | "ExtensionRemoved" | "ExtensionInitialized";
+  extension: Address;
+};
+export type OperatorChangedEvent = SetTokenEventBase & { type: "OperatorAdded" | "OperatorRemoved"; operator: Address };
+export type AllowedAssetChangedEvent = SetTokenEventBase & { type: "AllowedAssetAdded" | "AllowedAssetRemoved"; asset: Address };
+export type UseAssetAllowlistUpdatedEvent = SetTokenEventBase & { type: "UseAssetAllowlistUpdated"; status: boolean };
+export type MethodologistChangedEvent = SetTokenEventBase & { type: "MethodologistChanged"; methodologist: Address };
+export type OwnerFeeSplitUpdatedEvent = SetTokenEventBase & { type: "OwnerFeeSplitUpdated"; feeSplit: BigNumber };
+export type OwnerFeeRecipientUpdatedEvent = SetTokenEventBase & { type: "OwnerFeeRecipientUpdated"; feeRecipient: Address };
+
+// Issuance and redemption through BasicIssuanceModule, DebtIssuanceModule(V2/V3) or CustomOracleNavIssuanceModule
+export type IssuanceEvent = SetTokenEventBase & {
+  type: "SetTokenIssued" | "SetTokenRedeemed";
+  account: Address;           // Issuer or redeemer
+  to: Address;
+  quantity: BigNumber;
+  managerFee?: BigNumber;
+  protocolFee?: BigNumber;    // Debt issuance modules only
+  premium?: BigNumber;        // NAV issuance only
+  reserveAsset?: Address;     // NAV issuance only
+};
+
+// FlashMint and ExchangeIssuance contracts. Amounts not emitted by older leveraged contracts are left unset
+export type FlashMintEvent = SetTokenEventBase & {
+  type: "FlashMint" | "FlashRedeem";
+  recipient: Address;
+  token: Address;             // Input token for FlashMint, output token for FlashRedeem
+  setTokenAmount: BigNumber;
+  tokenAmount?: BigNumber;
+};
+
+export type SetTokenEvent =
+  SetTokenCreatedEvent |
+  DelegatedManagerCreatedEvent |
+  DelegatedManagerInitializedEvent |
+  ExtensionChangedEvent |
+  OperatorChangedEvent |
+  AllowedAssetChangedEvent |
+  UseAssetAllowlistUpdatedEvent |
+  MethodologistChangedEvent |
+  OwnerFeeSplitUpdatedEvent |
+  OwnerFeeRecipientUpdatedEvent |
+  IssuanceEvent |
+  FlashMintEvent;
+
+export type SetTokenEventType = SetTokenEvent["type"];
+
+// Event data without the fields taken from the log. DelegatedManager events don't name their SetToken, it is resolved
+// by the indexer from the emitting manager
+type DecodedEventData = { type: SetTokenEventType; setToken?: Address; [field: string]: any };
+
+interface SetTokenEventDefinition {
+  fragment: string;
+  decode(args: ethers.utils.Result): DecodedEventData;
+}
+
+const SET_TOKEN_EVENT_DEFINITIONS: SetTokenEventDefinition[] = [
+  {
+    fragment: "event SetTokenCreated(address indexed _setToken, address _manager, string _name, string _symbol)",
+    decode: args => ({ type: "SetTokenCreated", setToken: args._setToken, manager: args._manager, name: args._name, symbol: args._symbol }),
+  },
+  {
+    fragment: "event DelegatedManagerCreated(address indexed _setToken, address indexed _manager, address _deployer)",
+    decode: args => ({ type: "DelegatedManagerCreated", setToken: args._setToken, manager: args._manager, deployer: args._deployer }),
+  },
+  {
+    fragment: "event DelegatedManagerInitialized(address indexed _setToken, address indexed _manager)",
+    decode: args => ({ type: "DelegatedManagerInitialized", setToken: args._setToken, manager: args._manager }),
+  },
+  ...(["ExtensionAdded", "ExtensionRemoved", "ExtensionInitialized"] as const).map(type => ({
+    fragment: `event ${type}(address indexed _extension)`,
+    decode: (args: ethers.utils.Result) => ({ type, extension: args._extension }),
+  })),
+  ...(["OperatorAdded", "OperatorRemoved"] as const).map(type => ({
+    fragment: `event ${type}(address indexed _operator)`,
+    decode: (args: ethers.utils.Result) => ({ type, operator: args._operator }),
+  })),
+  ...(["AllowedAssetAdded", "AllowedAssetRemoved"] as const).map(type => ({
+    fragment: `event ${type}(address indexed _asset)`,
+    decode: (args: ethers.utils.Result) => ({ type, asset: args._asset }),
+  })),
+  {
+    fragment: "event UseAssetAllowlistUpdated(bool _status)",
+    decode: args => ({ type: "UseAssetAllowlistUpdated", status: args._status }),
+  },
+  {
+    fragment: "event MethodologistChanged(address indexed _newMethodologist)",
+    decode: args => ({ type: "MethodologistChanged", methodologist: args._newMethodologist }),
+  },
+  {
+    fragment: "event OwnerFeeSplitUpdated(uint256 _newFeeSplit)",
+    decode: args => ({ type: "OwnerFeeSplitUpdated", feeSplit: args._newFeeSplit }),
+  },
+  {
+    fragment: "event OwnerFeeRecipientUpdated(address indexed _newFeeRecipient)",
+    decode: args => ({ type: "OwnerFeeRecipientUpdated", feeRecipient: args._newFeeRecipient }),
+  },
+  // BasicIssuanceModule
+  {
+    fragment: "event SetTokenIssued(address indexed _setToken, address indexed _issuer, address indexed _to, address _hookContract, uint256 _quantity)",
+    decode: args => ({ type: "SetTokenIssued", setToken: args._setToken, account: args._issuer, to: args._to, quantity: args._quantity }),
+  },
+  {
+    fragment: "event SetTokenRedeemed(address indexed _setToken, address indexed _redeemer, address indexed _to, uint256 _quantity)",
+    decode: args => ({ type: "SetTokenRedeemed", setToken: args._setToken, account: args._redeemer, to: args._to, quantity: args._quantity }),
+  },
+  // DebtIssuanceModule, DebtIssuanceModuleV2 and DebtIssuanceModuleV3
+  {
+    fragment: "event SetTokenIssued(address indexed _setToken, address indexed _issuer, address indexed _to, address _hookContract, uint256 _quantity, uint256 _managerFee, uint256 _protocolFee)",
+    decode: args => ({
+      type: "SetTokenIssued",
+      setToken: args._setToken,
+      account: args._issuer,
+      to: args._to,
+      quantity: args._quantity,
+      managerFee: args._managerFee,
+      protocolFee: args._protocolFee,
+    }),
+  },
+  {
+    fragment: "event SetTokenRedeemed(address indexed _setToken, address indexed _redeemer, address indexed _to, uint256 _quantity, uint256 _managerFee, uint256 _protocolFee)",
+    decode: args => ({
+      type: "SetTokenRedeemed",
+      setToken: args._setToken,
+      account: args._redeemer,
+      to: args._to,
+      quantity: args._quantity,
+      managerFee: args._managerFee,
+      protocolFee: args._protocolFee,
+    }),
+  },
+  // CustomOracleNavIssuanceModule
+  ...([["SetTokenNAVIssued", "SetTokenIssued"], ["SetTokenNAVRedeemed", "SetTokenRedeemed"]] as const).map(([name, type]) => ({
+    fragment: `event ${name}(address indexed _setToken, address _account, address _to, address _reserveAsset, address _hookContract, uint256 _setTokenQuantity, uint256 _managerFee, uint256 _premium)`,
+    decode: (args: ethers.utils.Result) => ({
+      type,
+      setToken: args._setToken,
+      account: args._account,
+      to: args._to,
+      quantity: args._setTokenQuantity,
+      managerFee: args._managerFee,
+      premium: args._premium,
+      reserveAsset: args._reserveAsset,
+    }),
+  })),
+  // FlashMint contracts, and ExchangeIssuance contracts with the same event shape
+  ...([["FlashMint", "FlashMint"], ["ExchangeIssue", "FlashMint"]] as const).map(([name, type]) => ({
+    fragment: `event ${name}(address indexed _recipient, address indexed _setToken, address indexed _inputToken, uint256 _amountInputToken, uint256 _amountSetIssued)`,
+    decode: (args: ethers.utils.Result) => ({
+      type,
+      setToken: args._setToken,
+      recipient: args._recipient,
+      token: args._inputToken,
+      setTokenAmount: args._amountSetIssued,
+      tokenAmount: args._amountInputToken,
+    }),
+  })),
+  ...([["FlashRedeem", "FlashRedeem"], ["ExchangeRedeem", "FlashRedeem"]] as const).map(([name, type]) => ({
+    fragment: `event ${name}(address indexed _recipient, address indexed _setToken, address indexed _outputToken, uint256 _amountSetRedeemed, uint256 _amountOutputToken)`,
+    decode: (args: ethers.utils.Result) => ({
+      type,
+      setToken: args._setToken,
+      recipient: args._recipient,
+      token: args._outputToken,
+      setTokenAmount: args._amountSetRedeemed,
+      tokenAmount: args._amountOutputToken,
+    }),
+  })),
+  // FlashMintLeveragedZeroEx and FlashMintLeveragedZeroExBalancerFL
+  {
+    fragment: "event FlashMint(address indexed _recipient, address indexed _setToken, address indexed _inputToken, uint256 _amountSetIssued)",
+    decode: args => ({ type: "FlashMint", setToken: args._setToken, recipient: args._recipient, token: args._inputToken, setTokenAmount: args._amountSetIssued }),
+  },
+  {
+    fragment: "event FlashRedeem(address indexed _recipient, address indexed _setToken, address indexed _outputToken, uint256 _amountSetRedeemed)",
+    decode: args => ({ type: "FlashRedeem", setToken: args._setToken, recipient: args._recipient, token: args._outputToken, setTokenAmount: args._amountSetRedeemed }),
+  },
+];
+
+// FlashMintNAV emits FlashMint with the same signature but the SetToken amount before the input token amount, so its
+// logs can only be told apart by emitter
+const FLASH_MINT_NAV_DEFINITION: SetTokenEventDefinition = {
+  fragment: "event FlashMint(address indexed _recipient, address indexed _setToken, address indexed _inputToken, uint256 _amountSetIssued, uint256 _amountInputToken)",
+  decode: args => ({
+    type: "FlashMint",
+    setToken: args._setToken,
+    recipient: args._recipient,
+    token: args._inputToken,
+    setTokenAmount: args._amountSetIssued,
+    tokenAmount: args._amountInputToken,
+  }),
+};
+const FLASH_MINT_NAV_INTERFACE = new ethers.utils.Interface([FLASH_MINT_NAV_DEFINITION.fragment]);
+
+const SET_TOKEN_EVENTS_BY_TOPIC: { [topic: string]: { iface: ethers.utils.Interface; definition: SetTokenEventDefinition } } = {};
+SET_TOKEN_EVENT_DEFINITIONS.forEach(definition => {
+  const iface = new ethers.utils.Interface([definition.fragment]);
+  SET_TOKEN_EVENTS_BY_TOPIC[iface.getEventTopic(iface.fragments[0].name)] = { iface, definition };
+});
+
+// Topics of every decoded event, to pass as the first topic of a getLogs filter
+export const SET_TOKEN_EVENT_TOPICS: string[] = Object.keys(SET_TOKEN_EVENTS_BY_TOPIC);
+
+/**
+ * Decodes a log into a SetToken lifecycle event. Returns undefined for logs of other events, and for events of the
+ * same signature whose indexed parameters don't match (e.g. BaseManagerV2's unindexed ExtensionAdded). setToken is
+ * left empty for DelegatedManager events, which only the emitting manager ties to a SetToken.
+ *
+ * @param log             Log to decode
+ * @param flashMintNavs   FlashMintNAV contracts, whose FlashMint amounts are emitted in the opposite order
+ * @return                Decoded event, or undefined
+ */
+export const decodeSetTokenEvent = (log: Log, flashMintNavs: Address[] = []): SetTokenEvent | undefined => {
+  const isFlashMintNav = flashMintNavs.some(flashMintNav => sameAddress(flashMintNav, log.address));
+  const known = isFlashMintNav && log.topics[0] === FLASH_MINT_NAV_INTERFACE.getEventTopic("FlashMint")
+    ? { iface: FLASH_MINT_NAV_INTERFACE, definition: FLASH_MINT_NAV_DEFINITION }
+    : SET_TOKEN_EVENTS_BY_TOPIC[log.topics[0]];
+  if (!known) return undefined;
+
+  let args: ethers.utils.Result;
+  try {
+    args = known.iface.parseLog(log).args;
+  } catch (error) {
+    return undefined;
+  }
+
+  const { setToken, ...data } = known.definition.decode(args);
+  return {
+    ...data,
+    setToken: setToken || "",
+    emitter: log.address,
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash,
+    logIndex: log.logIndex,
+  } as SetTokenEvent;
+};
+
+export const compareSetTokenEvents = (a: SetTokenEvent, b: SetTokenEvent): number => {
+  return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+};
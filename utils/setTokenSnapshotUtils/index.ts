@@ -0,0 +1,12 @@
+export {
+  diffSetTokenSnapshots,
+  formatSetTokenSnapshotDiff,
+  getSetTokenSnapshot,
+  SetTokenComponentSnapshot,
+  SetTokenExternalPositionSnapshot,
+  SetTokenModuleState,
+  SetTokenSnapshot,
+  SetTokenSnapshotDiff,
+  SetTokenSnapshotOptions,
+  SetTokenStateChange,
+} from "./setTokenSnapshot";
@@ -0,0 +1,233 @@
+import { BlockTag, Provider } from "@ethersproject/providers";
+import { BigNumber, ethers } from "ethers";
+
+import { sameAddress } from "../common/addressUtils";
+import { Address } from "../types";
+
+// A human readable ABI is used so snapshots can be taken from hardhat tasks before typechain bindings are generated
+const SET_TOKEN_ABI = [
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function manager() view returns (address)",
+  "function locker() view returns (address)",
+  "function isLocked() view returns (bool)",
+  "function totalSupply() view returns (uint256)",
+  "function positionMultiplier() view returns (int256)",
+  "function getModules() view returns (address[])",
+  "function moduleStates(address) view returns (uint8)",
+  "function getComponents() view returns (address[])",
+  "function getDefaultPositionRealUnit(address) view returns (int256)",
+  "function getExternalPositionModules(address) view returns (address[])",
+  "function getExternalPositionRealUnit(address, address) view returns (int256)",
+  "function getExternalPositionData(address, address) view returns (bytes)",
+];
+
+const MODULE_STATE_NAMES: SetTokenModuleState[] = ["NONE", "PENDING", "INITIALIZED"];
+
+export type SetTokenModuleState = "NONE" | "PENDING" | "INITIALIZED";
+
+export interface SetTokenExternalPositionSnapshot {
+  module: Address;
+  realUnit: string;
+  data: string;
+}
+
+export interface SetTokenComponentSnapshot {
+  component: Address;
+  defaultPositionRealUnit: string;
+  externalPositions: SetTokenExternalPositionSnapshot[];
+}
+
+// Amounts are decimal strings so snapshots round trip through JSON
+export interface SetTokenSnapshot {
+  setToken: Address;
+  blockNumber: number;
+  name: string;
+  symbol: string;
+  manager: Address;
+  locker: Address;
+  isLocked: boolean;
+  totalSupply: string;
+  positionMultiplier: string;
+  modules: { [module: string]: SetTokenModuleState };
+  components: SetTokenComponentSnapshot[];
+}
+
+export interface SetTokenSnapshotOptions {
+  blockTag?: BlockTag;          // Defaults to the latest block
+  modules?: Address[];          // Modules to include regardless of state, e.g. pending modules getModules() doesn't list
+}
+
+// One changed value, e.g. path "components.<component>.externalPositions.<module>.realUnit". Added and removed values
+// leave before or after unset
+export interface SetTokenStateChange {
+  path: string;
+  before?: string;
+  after?: string;
+  delta?: string;               // after - before, for amounts present in both snapshots
+}
+
+export interface SetTokenSnapshotDiff {
+  setToken: Address;
+  fromBlock: number;
+  toBlock: number;
+  changes: SetTokenStateChange[];
+}
+
+/**
+ * Reads the full state of a SetToken at a block: metadata, manager and lock, supply and position multiplier, module
+ * states, and the default and external positions of every component including external position data.
+ *
+ * @param provider        Provider of the chain to read, e.g. ethers.provider of a hardhat node or fork
+ * @param setToken        Address of the SetToken
+ * @param options         Block to read at and additional modules to report the state of
+ * @return                JSON serializable snapshot
+ */
+export const getSetTokenSnapshot = async (
+  provider: Provider,
+  setToken: Address,
+  options: SetTokenSnapshotOptions = {}
+): Promise<SetTokenSnapshot> => {
+  const contract = new ethers.Contract(setToken, SET_TOKEN_ABI, provider);
+  const blockNumber = (await provider.getBlock(options.blockTag || "latest")).number;
+  const overrides = { blockTag: blockNumber };
+
+  const moduleAddresses: Address[] = await contract.getModules(overrides);
+  (options.modules || []).forEach(module => {
+    if (!moduleAddresses.some(existing => sameAddress(existing, module))) moduleAddresses.push(ethers.utils.getAddress(module));
+  });
+
+  const modules: { [module: string]: SetTokenModuleState } = {};
+  for (const module of moduleAddresses) {
+    modules[module] = MODULE_STATE_NAMES[await contract.moduleStates(module, overrides)];
+  }
+
+  const components: SetTokenComponentSnapshot[] = [];
+  for (const component of await contract.getComponents(overrides) as Address[]) {
+    const externalPositions: SetTokenExternalPositionSnapshot[] = [];
+    for (const module of await contract.getExternalPositionModules(component, overrides) as Address[]) {
+      externalPositions.push({
+        module,
+        realUnit: (await contract.getExternalPositionRealUnit(component, module, overrides)).toString(),
+        data: await contract.getExternalPositionData(component, module, overrides),
+      });
+    }
+
+    components.push({
+      component,
+      defaultPositionRealUnit: (await contract.getDefaultPositionRealUnit(component, overrides)).toString(),
+      externalPositions,
+    });
+  }
+
+  return {
+    setToken: contract.address,
+    blockNumber,
+    name: await contract.name(overrides),
+    symbol: await contract.symbol(overrides),
+    manager: await contract.manager(overrides),
+    locker: await contract.locker(overrides),
+    isLocked: await contract.isLocked(overrides),
+    totalSupply: (await contract.totalSupply(overrides)).toString(),
+    positionMultiplier: (await contract.positionMultiplier(overrides)).toString(),
+    modules,
+    components,
+  };
+};
+
+/**
+ * Lists every value that differs between two snapshots of a SetToken. Components and external positions are matched
+ * by address, so reordered components are not reported as changes.
+ */
+export const diffSetTokenSnapshots = (before: SetTokenSnapshot, after: SetTokenSnapshot): SetTokenSnapshotDiff => {
+  if (!sameAddress(before.setToken, after.setToken)) {
+    throw new Error(`Snapshots are of different SetTokens: ${before.setToken} and ${after.setToken}`);
+  }
+
+  const changes: SetTokenStateChange[] = [];
+  const compare = (path: string, beforeValue: string | undefined, afterValue: string | undefined, isAmount: boolean) => {
+    if (beforeValue === afterValue) return;
+
+    const change: SetTokenStateChange = { path, before: beforeValue, after: afterValue };
+    if (isAmount && beforeValue !== undefined && afterValue !== undefined) {
+      change.delta = BigNumber.from(afterValue).sub(beforeValue).toString();
+    }
+    changes.push(change);
+  };
+
+  compare("name", before.name, after.name, false);
+  compare("symbol", before.symbol, after.symbol, false);
+  compare("manager", before.manager, after.manager, false);
+  compare("locker", before.locker, after.locker, false);
+  compare("isLocked", String(before.isLocked), String(after.isLocked), false);
+  compare("totalSupply", before.totalSupply, after.totalSupply, true);
+  compare("positionMultiplier", before.positionMultiplier, after.positionMultiplier, true);
+
+  getAddressUnion(Object.keys(before.modules), Object.keys(after.modules)).forEach(module => {
+    compare(`modules.${module}`, findByAddress(before.modules, module), findByAddress(after.modules, module), false);
+  });
+
+  const beforeComponents = indexComponents(before);
+  const afterComponents = indexComponents(after);
+  getAddressUnion(Object.keys(beforeComponents), Object.keys(afterComponents)).forEach(component => {
+    const beforeComponent = findByAddress(beforeComponents, component);
+    const afterComponent = findByAddress(afterComponents, component);
+    const path = `components.${component}`;
+
+    compare(
+      `${path}.defaultPositionRealUnit`,
+      beforeComponent && beforeComponent.defaultPositionRealUnit,
+      afterComponent && afterComponent.defaultPositionRealUnit,
+      true
+    );
+
+    const beforePositions = indexExternalPositions(beforeComponent);
+    const afterPositions = indexExternalPositions(afterComponent);
+    getAddressUnion(Object.keys(beforePositions), Object.keys(afterPositions)).forEach(module => {
+      const beforePosition = findByAddress(beforePositions, module);
+      const afterPosition = findByAddress(afterPositions, module);
+      const positionPath = `${path}.externalPositions.${module}`;
+
+      compare(`${positionPath}.realUnit`, beforePosition && beforePosition.realUnit, afterPosition && afterPosition.realUnit, true);
+      compare(`${positionPath}.data`, beforePosition && beforePosition.data, afterPosition && afterPosition.data, false);
+    });
+  });
+
+  return { setToken: after.setToken, fromBlock: before.blockNumber, toBlock: after.blockNumber, changes };
+};
+
+export const formatSetTokenSnapshotDiff = (diff: SetTokenSnapshotDiff): string => {
+  const lines = [`SetToken ${diff.setToken}: ${diff.changes.length} changes from block ${diff.fromBlock} to ${diff.toBlock}`];
+
+  diff.changes.forEach(change => {
+    const delta = change.delta ? ` (${change.delta.startsWith("-") ? "" : "+"}${change.delta})` : "";
+    lines.push(`  ${change.path}: ${formatValue(change.before)} -> ${formatValue(change.after)}${delta}`);
+  });
+
+  return lines.join("\n");
+};
+
+const formatValue = (value: string | undefined): string => value === undefined ? "(none)" : value;
+
+const getAddressUnion = (a: Address[], b: Address[]): Address[] => {
+  return a.concat(b.filter(address => !a.some(existing => sameAddress(existing, address))));
+};
+
+const findByAddress = <T>(map: { [address: string]: T }, address: Address): T | undefined => {
+  const key = Object.keys(map).find(existing => sameAddress(existing, address));
+  return key === undefined ? undefined : map[key];
+};
+
+const indexComponents = (snapshot: SetTokenSnapshot): { [component: string]: SetTokenComponentSnapshot } => {
+  const components: { [component: string]: SetTokenComponentSnapshot } = {};
+  snapshot.components.forEach(component => components[component.component] = component);
+  return components;
+};
+
+const indexExternalPositions = (
+  component: SetTokenComponentSnapshot | undefined
+): { [module: string]: SetTokenExternalPositionSnapshot } => {
+  const positions: { [module: string]: SetTokenExternalPositionSnapshot } = {};
+  (component ? component.externalPositions : []).forEach(position => positions[position.module] = position);
+  return positions;
+};
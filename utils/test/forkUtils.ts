@@ -0,0 +1,114 @@
+import { network } from "hardhat";
+
+import { defaultForkChain, ForkChain, forkChainConfigs } from "../config";
+import { AddressBook, loadAddressBook } from "../deploys/deploymentManifest";
+import { RpcRecorder, RpcRecorderMode } from "./rpcRecorder";
+
+export interface ForkHandle<T> {
+  chain: ForkChain;
+  blockNumber: number | undefined;
+  chainId: number;
+  addresses: T;                  // Address book passed to useFork, e.g. PRODUCTION_ADDRESSES of the chain
+  deployments: AddressBook;      // Contracts recorded in the chain's deployment manifest, filled in before the suite runs
+}
+
+type ForkTarget = { chain: ForkChain; blockNumber: number | undefined };
+
+// Forks of the enclosing suites, innermost last
+const FORK_STACK: ForkTarget[] = [];
+
+// Serves the active fork when FORK_RPC_MODE is "record" or "replay"
+let activeRecorder: RpcRecorder | undefined;
+
+/**
+ * Runs the enclosing describe block against a fork of `chain` at `blockNumber`, e.g. `useFork("base", 24770000)`.
+ * The fork is reset before the suite runs and the fork of the enclosing suite (or the fork of the chain selected by
+ * NETWORK when there is none) is reset to afterwards, so suites of different chains can run in the same mocha run.
+ * State the enclosing suite built on its fork before a nested useFork is not kept.
+ *
+ * With FORK_RPC_MODE=record the fork's RPC responses are saved to test/integration/fixtures/rpc, with
+ * FORK_RPC_MODE=replay they are served from there so the suite runs offline.
+ *
+ * @param chain           Chain to fork, its RPC url is read from utils/config.ts
+ * @param blockNumber     Block to fork at, defaults to the block configured for the chain
+ * @param addresses       Chain specific address book exposed on the returned handle
+ * @param resetAfter      Whether to reset the fork after the suite, otherwise its state is kept for later suites
+ * @return                Handle whose fields are valid inside the suite's hooks and tests
+ */
+export function useFork<T = {}>(
+  chain: ForkChain,
+  blockNumber: number | undefined = forkChainConfigs[chain].forking.blockNumber,
+  addresses: T = {} as T,
+  resetAfter: boolean = true
+): ForkHandle<T> {
+  const { chainId, network: manifestNetwork } = forkChainConfigs[chain];
+  const handle: ForkHandle<T> = { chain, blockNumber, chainId, addresses, deployments: {} };
+
+  before(async () => {
+    FORK_STACK.push({ chain, blockNumber });
+    await resetFork({ chain, blockNumber });
+
+    try {
+      handle.deployments = loadAddressBook(manifestNetwork);
+    } catch (error) {
+      handle.deployments = {};    // Nothing deployed to this chain through DeployHelper yet
+    }
+  });
+
+  after(async () => {
+    FORK_STACK.pop();
+    if (resetAfter) await resetFork(FORK_STACK[FORK_STACK.length - 1]);
+  });
+
+  return handle;
+}
+
+async function resetFork(target: ForkTarget | undefined): Promise<void> {
+  if (activeRecorder) {
+    await activeRecorder.stop();
+    activeRecorder = undefined;
+  }
+
+  if (!target) {
+    // hardhat_reset without params stops forking, so reset to the default fork that later specs rely on
+    const { url, blockNumber } = forkChainConfigs[defaultForkChain].forking;
+    await network.provider.request({
+      method: "hardhat_reset",
+      params: [{ forking: { jsonRpcUrl: url, blockNumber } }],
+    });
+    return;
+  }
+
+  if (process.env.VERBOSE) {
+    console.log(`Forking ${target.chain} at block ${target.blockNumber || "latest"}`);
+  }
+
+  await network.provider.request({
+    method: "hardhat_reset",
+    params: [
+      {
+        forking: {
+          jsonRpcUrl: await getForkUrl(target),
+          blockNumber: target.blockNumber,
+        },
+      },
+    ],
+  });
+}
+
+async function getForkUrl(target: ForkTarget): Promise<string> {
+  const { url } = forkChainConfigs[target.chain].forking;
+  const mode = process.env.FORK_RPC_MODE as RpcRecorderMode | undefined;
+
+  if (mode !== "record" && mode !== "replay") {
+    if (!url) throw new Error(`No RPC url configured to fork ${target.chain}, see utils/config.ts`);
+    return url;
+  }
+
+  if (target.blockNumber === undefined) {
+    throw new Error(`Forks of ${target.chain} must be pinned to a block to ${mode} RPC responses`);
+  }
+
+  activeRecorder = new RpcRecorder(mode, target.chain, target.blockNumber, url || undefined);
+  return await activeRecorder.start();
+}
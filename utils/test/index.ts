@@ -19,3 +19,15 @@ export {
   getTxFee,
     convertPositionToNotional,
 } from "./testingUtils";
+export {
+  ForkHandle,
+  useFork,
+} from "./forkUtils";
+export {
+  JsonRpcError,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  RpcRecorder,
+  RpcRecorderMode,
+  getRpcFixturePath,
+} from "./rpcRecorder";
@@ -0,0 +1,197 @@
+import fs from "fs";
+import http from "http";
+import https from "https";
+import path from "path";
+import zlib from "zlib";
+import { AddressInfo } from "net";
+
+export type RpcRecorderMode = "record" | "replay";
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id?: number | string;
+  method: string;
+  params?: unknown[];
+}
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+type RecordedResponse = { result: unknown } | { error: JsonRpcError };
+
+export type JsonRpcResponse = { jsonrpc: "2.0"; id?: number | string } & RecordedResponse;
+
+interface RpcFixtureFile {
+  chain: string;
+  blockNumber: number | undefined;
+  responses: { [key: string]: RecordedResponse };
+}
+
+const RPC_FIXTURE_DIRECTORY = path.resolve(__dirname, "../../test/integration/fixtures/rpc");
+
+// Rate limit errors, see EIP-1474. They depend on the provider's load, not on chain state, so they are not recorded
+const TRANSIENT_ERROR_CODES = [-32005, 429];
+
+export const getRpcFixturePath = (chain: string, blockNumber: number | undefined): string => {
+  return path.join(RPC_FIXTURE_DIRECTORY, `${chain}-${blockNumber || "latest"}.json.gz`);
+};
+
+/**
+ * Local JSON-RPC endpoint the hardhat network forks from instead of the chain's RPC url. In record mode every request
+ * (storage slots, code, balances, nonces, blocks, ...) is forwarded upstream and the response stored in a gzipped
+ * fixture file per chain and block. Error responses, e.g. reverted eth_calls, are recorded too, except rate limits and
+ * requests the upstream did not answer. In replay mode responses are served from that file only, so forked suites
+ * run without network access and always see the same chain state.
+ */
+export class RpcRecorder {
+  public mode: RpcRecorderMode;
+  public fixturePath: string;
+
+  private _upstreamUrl: string | undefined;
+  private _fixture: RpcFixtureFile;
+  private _server: http.Server | undefined;
+  private _isDirty: boolean;
+
+  constructor(
+    mode: RpcRecorderMode,
+    chain: string,
+    blockNumber: number | undefined,
+    upstreamUrl?: string,
+    fixturePath?: string
+  ) {
+    this.mode = mode;
+    this.fixturePath = fixturePath || getRpcFixturePath(chain, blockNumber);
+    this._upstreamUrl = upstreamUrl;
+    this._isDirty = false;
+
+    if (mode === "record" && !upstreamUrl) {
+      throw new Error(`An upstream RPC url is required to record ${this.fixturePath}`);
+    }
+    if (mode === "replay" && !fs.existsSync(this.fixturePath)) {
+      throw new Error(`No RPC fixture at ${this.fixturePath}, run the suite with FORK_RPC_MODE=record first`);
+    }
+
+    this._fixture = fs.existsSync(this.fixturePath)
+      ? JSON.parse(zlib.gunzipSync(fs.readFileSync(this.fixturePath)).toString("utf8"))
+      : { chain, blockNumber, responses: {} };
+  }
+
+  // Starts the endpoint on a random local port and returns its url
+  public async start(): Promise<string> {
+    this._server = http.createServer((request, response) => {
+      let body = "";
+      request.on("data", chunk => body += chunk);
+      request.on("end", async () => {
+        let result: JsonRpcResponse | JsonRpcResponse[];
+        try {
+          const payload: JsonRpcRequest | JsonRpcRequest[] = JSON.parse(body);
+          result = Array.isArray(payload)
+            ? await this.handleBatch(payload)
+            : (await this.handleBatch([payload]))[0];
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          result = { jsonrpc: "2.0", error: { code: -32603, message } };
+        }
+
+        response.writeHead(200, { "Content-Type": "application/json" });
+        response.end(JSON.stringify(result));
+      });
+    });
+
+    const server = this._server;
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", () => resolve()));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  // Stops the endpoint and, when recording, writes every response seen so far to the fixture file
+  public async stop(): Promise<void> {
+    const server = this._server;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      this._server = undefined;
+    }
+    this.save();
+  }
+
+  public save(): void {
+    if (this.mode !== "record" || !this._isDirty) return;
+
+    fs.mkdirSync(path.dirname(this.fixturePath), { recursive: true });
+    fs.writeFileSync(this.fixturePath, zlib.gzipSync(JSON.stringify(this._fixture)));
+    this._isDirty = false;
+  }
+
+  private async handleBatch(requests: JsonRpcRequest[]): Promise<JsonRpcResponse[]> {
+    const responses: (RecordedResponse | undefined)[] = requests.map(request => this._fixture.responses[getRequestKey(request)]);
+    const missing = requests.filter((request, i) => !responses[i]);
+
+    if (missing.length > 0) {
+      if (this.mode === "replay") {
+        missing.forEach(request => {
+          responses[requests.indexOf(request)] = {
+            error: { code: -32000, message: `No recorded response for ${getRequestKey(request)} in ${this.fixturePath}` },
+          };
+        });
+      } else {
+        const upstream = await postJson(this._upstreamUrl as string, missing.map((request, i) => ({ ...request, id: i })));
+        // A failed batch, e.g. an HTTP 429, is answered with a single error instead of an array
+        const upstreamResponses = Array.isArray(upstream) ? upstream : [];
+        const batchError = !Array.isArray(upstream) && "error" in upstream ? upstream.error : undefined;
+
+        missing.forEach((request, i) => {
+          const upstreamResponse = upstreamResponses.find(item => item.id === i);
+          const recorded = upstreamResponse ? toRecordedResponse(upstreamResponse) : undefined;
+
+          if (!recorded || ("error" in recorded && TRANSIENT_ERROR_CODES.includes(recorded.error.code))) {
+            // Passed through but not recorded, so the request is sent upstream again on the next run
+            responses[requests.indexOf(request)] = recorded || {
+              error: batchError || { code: -32603, message: "Missing upstream response" },
+            };
+            return;
+          }
+
+          this._fixture.responses[getRequestKey(request)] = recorded;
+          responses[requests.indexOf(request)] = recorded;
+          this._isDirty = true;
+        });
+      }
+    }
+
+    return requests.map((request, i) => ({ jsonrpc: "2.0", id: request.id, ...responses[i] as RecordedResponse }));
+  }
+}
+
+const getRequestKey = (request: JsonRpcRequest): string => {
+  return `${request.method}:${JSON.stringify(request.params || [])}`;
+};
+
+// Drops the id and jsonrpc fields, undefined if the response has neither a result nor an error
+const toRecordedResponse = (response: JsonRpcResponse): RecordedResponse | undefined => {
+  if ("error" in response && response.error) return { error: response.error };
+  if ("result" in response) return { result: response.result };
+  return undefined;
+};
+
+const postJson = (url: string, body: JsonRpcRequest[]): Promise<JsonRpcResponse | JsonRpcResponse[]> => {
+  const client = url.startsWith("https") ? https : http;
+  const data = JSON.stringify(body);
+
+  return new Promise((resolve, reject) => {
+    const request = client.request(url, { method: "POST", headers: { "Content-Type": "application/json" } }, response => {
+      let responseBody = "";
+      response.on("data", chunk => responseBody += chunk);
+      response.on("end", () => {
+        try {
+          resolve(JSON.parse(responseBody));
+        } catch (error) {
+          reject(new Error(`Invalid response from ${url}: ${responseBody.slice(0, 200)}`));
+        }
+      });
+    });
+    request.on("error", reject);
+    request.end(data);
+  });
+};
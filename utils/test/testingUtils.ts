@@ -7,7 +7,8 @@ import { ethers, network } from "hardhat";
 import { BigNumber, ContractTransaction, Signer } from "ethers";
 import { JsonRpcProvider } from "@ethersproject/providers";
 import { Blockchain } from "../common";
-import { forkingConfig } from "../config";
+import { defaultForkChain } from "../config";
+import { useFork } from "./forkUtils";
 import { SetToken } from "../../typechain";
 
 const provider = ethers.provider;
@@ -120,39 +121,10 @@ export const setBalance = async (account: string, balance: BigNumber): Promise<v
   await provider.send("hardhat_setBalance", [account, balance.toHexString().replace("0x0", "0x")]);
 };
 
+// Forks the chain selected by NETWORK at `blockNumber`, prefer useFork which declares the chain in the spec.
+// Unless `reset` is false the default fork is restored after the suite.
 export function setBlockNumber(blockNumber: number, reset: boolean = true) {
-  before(async () => {
-    console.log("Setting block number to", {
-      jsonRpcUrl: forkingConfig.url,
-      blockNumber,
-    });
-    await network.provider.request({
-      method: "hardhat_reset",
-      params: [
-        {
-          forking: {
-            jsonRpcUrl: forkingConfig.url,
-            blockNumber,
-          },
-        },
-      ],
-    });
-  });
-  after(async () => {
-    if (reset) {
-      await network.provider.request({
-        method: "hardhat_reset",
-        params: [
-          {
-            forking: {
-              jsonRpcUrl: forkingConfig.url,
-              blockNumber: forkingConfig.blockNumber,
-            },
-          },
-        ],
-      });
-    }
-  });
+  useFork(defaultForkChain, blockNumber, {}, reset);
 }
 
 export async function getLastBlockTransaction(): Promise<any> {
@@ -14,14 +14,22 @@ export type Bytes = string;
 export type ContractTransaction = ContractTransactionType;
 export type Wallet = WalletType;
 
+// Leaf encodings supported by BalanceTree, see utils/merkleUtils/leafEncodings.ts
+export type MerkleLeafSchema = "merkleDistributor" | "doubleHashed" | "multiToken";
+
 export interface MerkleDistributorInfo {
   merkleRoot: string;
-  tokenTotal: string;
+  tokenTotal: string;                       // Summed across all tokens for multiToken distributions
+  tokenTotals?: {
+    [token: string]: string;
+  };
+  leafSchema?: MerkleLeafSchema;            // Undefined for distributions generated before schemas were added
   claims: {
-    [account: string]: {
+    [account: string]: {                    // Keyed by `${account}:${token}` for multiToken distributions
       index: number;
       amount: string;
       proof: string[];
+      token?: string;
       flags?: {
         [flag: string]: boolean;
       };
@@ -29,7 +37,7 @@ export interface MerkleDistributorInfo {
   };
 }
 
-export type DistributionFormat = { address: string; earnings: BigNumber };
+export type DistributionFormat = { address: string; earnings: BigNumber; token?: Address };
 
 export type ForkedTokens = {
   [key: string]: IERC20;
@@ -154,3 +162,98 @@ export interface ReinvestmentExchangeSettings {
   exchangeName: string;
   exchangeCallData: Bytes;
 }
+
+// Mirrors DEXAdapterV5.Exchange
+export enum Exchange {
+  None,
+  Quickswap,
+  Sushiswap,
+  UniV3,
+  Curve,
+  BalancerV2,
+  Aerodrome,
+  AerodromeSlipstream,
+}
+
+// Mirrors DEXAdapterV5.SwapData
+export interface SwapData {
+  path: Address[];
+  fees: number[];
+  tickSpacing: number[];
+  pool: Address;
+  poolIds: Bytes[];
+  exchange: Exchange;
+}
+
+// Mirrors FlexibleLeverageStrategyExtension.ShouldRebalance
+export enum ShouldRebalance {
+  NONE,
+  REBALANCE,
+  ITERATE_REBALANCE,
+  RIPCORD,
+}
+
+// Deploy argument as stored in a manifest, with BigNumbers as decimal strings
+export type DeploymentArg = string | number | boolean | undefined | DeploymentArg[] | { [key: string]: DeploymentArg };
+
+export interface DeploymentRecord {
+  contractName: string;                     // DeployHelper method name without the `deploy` prefix, or factory name
+  address: Address;
+  constructorArgs: DeploymentArg[];         // Constructor arguments decoded from the deploy transaction
+  libraries: { [libraryName: string]: Address };
+  txHash: string;
+  blockNumber: number;
+  chainId: number;
+  deployer: Address;
+}
+
+export interface DeploymentManifestFile {
+  network: string;
+  chainId: number;
+  deployments: DeploymentRecord[];          // In deployment order, later deploys of a contract supersede earlier ones
+}
+
+export type DeploymentPlanExtensionType =
+  "issuance" | "streamingFeeSplit" | "trade" | "batchTrade" | "wrap" | "auctionRebalance" | "custom";
+
+export interface DeploymentPlanExtension {
+  type: DeploymentPlanExtensionType;
+  address: Address;
+  settings?: { [setting: string]: any };   // Initializer arguments for issuance and streamingFeeSplit extensions
+  signature?: string;                       // Custom only: initializer fragment, e.g. "initializeExtension(address)"
+  args?: any[];                             // Custom only: initializer arguments, "$manager" is replaced by the manager
+}
+
+// Amounts are strings in base units, or precise units for percentages
+export interface DeploymentPlan {
+  network?: string;
+  factory: Address;
+  name: string;
+  symbol: string;
+  owner: Address;
+  methodologist: Address;
+  components: { address: Address; unit: string }[];
+  modules: Address[];
+  operators: Address[];
+  allowedAssets: Address[];
+  ownerFeeSplit: string;
+  ownerFeeRecipient: Address;
+  extensions: DeploymentPlanExtension[];
+  flashMints?: { address: Address; issuanceModule?: Address }[];
+}
+
+export interface DeploymentPlanState {
+  planHash: string;
+  setToken?: Address;
+  manager?: Address;
+  completedSteps: { [stepId: string]: string };  // Step id => transaction hash
+  pendingStep?: { id: string; txHash: string };
+  capturedSteps?: string[];                      // Steps added to a Safe batch the Safe has not executed yet
+}
+
+// Mirrors IAuctionRebalanceModuleV1.AuctionExecutionParams
+export interface AuctionExecutionParams {
+  targetUnit: BigNumber;
+  priceAdapterName: string;
+  priceAdapterConfigData: Bytes;
+}